@@ -1,7 +1,11 @@
 import type { NextConfig } from "next";
+import packageJson from "./package.json";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  env: {
+    // Inlined into client and worker bundles, so they don't pull in package.json
+    MEDIAPIPE_VERSION: packageJson.dependencies["@mediapipe/tasks-vision"],
+  },
 };
 
 export default nextConfig;
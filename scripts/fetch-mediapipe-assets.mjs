@@ -0,0 +1,191 @@
+/**
+ * Populate public/mediapipe with self-hosted MediaPipe assets
+ *
+ * - Checks that the installed @mediapipe/tasks-vision is the version pinned in package.json
+ * - Copies the WASM fileset from the installed package and verifies the copies
+ *   (against the package files, and against manifest.json when it was written
+ *   for the same version)
+ * - Downloads landmarker models that are not present yet and verifies every model
+ *   against the SHA-256 checksum pinned in MODEL_CHECKSUMS
+ * - Writes manifest.json with the package version and SHA-256 checksums,
+ *   which the tracking provider verifies at runtime
+ *
+ * Exits with an error when a version or checksum does not match
+ *
+ * Usage: node scripts/fetch-mediapipe-assets.mjs [--force] [--pin]
+ *   --force  re-download models and accept a changed WASM fileset
+ *   --pin    accept models without a pinned checksum and print their checksums
+ *            for MODEL_CHECKSUMS (check them against a trusted copy before committing)
+ */
+
+import { createHash } from 'node:crypto';
+import { copyFile, mkdir, readdir, readFile, writeFile, access } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const PACKAGE_DIR = path.join(ROOT, 'node_modules', '@mediapipe', 'tasks-vision');
+const OUTPUT_DIR = path.join(ROOT, 'public', 'mediapipe');
+
+// Model files (relative to OUTPUT_DIR) and where to fetch them from
+const MODEL_SOURCES = {
+  'models/hand_landmarker.task':
+    'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task',
+  'models/face_landmarker.task':
+    'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task',
+  'models/pose_landmarker_lite.task':
+    'https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task',
+  'models/selfie_segmenter.task':
+    'https://storage.googleapis.com/mediapipe-models/image_segmenter/selfie_segmenter/float16/1/selfie_segmenter.task',
+};
+
+// Expected SHA-256 per model file, committed so a bad or tampered download fails
+// instead of being recorded in manifest.json (null = not pinned yet, see --pin)
+const MODEL_CHECKSUMS = {
+  'models/hand_landmarker.task': null,
+  'models/face_landmarker.task': null,
+  'models/pose_landmarker_lite.task': null,
+  'models/selfie_segmenter.task': null,
+};
+
+const force = process.argv.includes('--force');
+const pin = process.argv.includes('--pin');
+
+async function exists(file) {
+  try {
+    await access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function sha256(file) {
+  return createHash('sha256').update(await readFile(file)).digest('hex');
+}
+
+async function readJson(file) {
+  return JSON.parse(await readFile(file, 'utf8'));
+}
+
+/**
+ * Version pinned in package.json, checked against the installed package
+ */
+async function resolveVersion() {
+  const { dependencies } = await readJson(path.join(ROOT, 'package.json'));
+  const pinned = dependencies['@mediapipe/tasks-vision'];
+  const { version: installed } = await readJson(path.join(PACKAGE_DIR, 'package.json'));
+  if (installed !== pinned) {
+    throw new Error(
+      `@mediapipe/tasks-vision ${installed} is installed but package.json pins ${pinned} - run "npm install"`
+    );
+  }
+  return pinned;
+}
+
+/**
+ * Manifest written by a previous run (null when missing or unreadable)
+ */
+async function readPreviousManifest() {
+  try {
+    return await readJson(path.join(OUTPUT_DIR, 'manifest.json'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Copy the WASM fileset and verify every copy
+ * @param expected Checksums recorded for the same version by a previous run (may be null)
+ * @returns Checksum per file, keyed by path relative to OUTPUT_DIR
+ */
+async function copyWasm(expected) {
+  const source = path.join(PACKAGE_DIR, 'wasm');
+  const target = path.join(OUTPUT_DIR, 'wasm');
+  await mkdir(target, { recursive: true });
+
+  const checksums = {};
+  for (const file of await readdir(source)) {
+    const relative = `wasm/${file}`;
+    await copyFile(path.join(source, file), path.join(target, file));
+
+    const checksum = await sha256(path.join(target, file));
+    if (checksum !== (await sha256(path.join(source, file)))) {
+      throw new Error(`Checksum mismatch after copying ${relative}`);
+    }
+    if (expected?.[relative] && expected[relative] !== checksum) {
+      throw new Error(
+        `${relative} does not match the checksum in manifest.json - reinstall @mediapipe/tasks-vision, or pass --force to accept it`
+      );
+    }
+    checksums[relative] = checksum;
+  }
+  return checksums;
+}
+
+/**
+ * Download missing models and verify every model against its pinned checksum
+ * @returns Checksum per model, keyed by path relative to OUTPUT_DIR
+ */
+async function downloadModels() {
+  const checksums = {};
+  const unpinned = [];
+  for (const [relative, url] of Object.entries(MODEL_SOURCES)) {
+    const target = path.join(OUTPUT_DIR, relative);
+    const downloaded = force || !(await exists(target));
+    if (downloaded) {
+      console.log(`[mediapipe] downloading ${url}`);
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Failed to download ${url}: ${response.status} ${response.statusText}`);
+      }
+
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, Buffer.from(await response.arrayBuffer()));
+    }
+
+    const checksum = await sha256(target);
+    const pinned = MODEL_CHECKSUMS[relative];
+    if (!pinned) {
+      unpinned.push(`  '${relative}': '${checksum}',`);
+    } else if (pinned !== checksum) {
+      throw new Error(
+        downloaded
+          ? `${relative} downloaded from ${url} does not match its pinned checksum`
+          : `${relative} does not match its pinned checksum - pass --force to download it again`
+      );
+    }
+    checksums[relative] = checksum;
+  }
+
+  if (unpinned.length > 0) {
+    if (!pin) {
+      throw new Error(
+        `No pinned checksum for ${unpinned.length} model(s) - run with --pin and add the printed checksums to MODEL_CHECKSUMS`
+      );
+    }
+    console.log(`[mediapipe] unpinned model checksums for MODEL_CHECKSUMS:\n${unpinned.join('\n')}`);
+  }
+  return checksums;
+}
+
+async function main() {
+  const version = await resolveVersion();
+
+  // The fileset of a given version never changes, so earlier checksums still apply
+  const previous = await readPreviousManifest();
+  const expected = !force && previous?.version === version ? previous.files : null;
+
+  const files = { ...(await copyWasm(expected)), ...(await downloadModels()) };
+
+  await writeFile(
+    path.join(OUTPUT_DIR, 'manifest.json'),
+    `${JSON.stringify({ version, files }, null, 2)}\n`
+  );
+  console.log(`[mediapipe] assets for tasks-vision ${version} ready in public/mediapipe`);
+}
+
+main().catch((error) => {
+  console.error(`[mediapipe] ${error.message}`);
+  process.exit(1);
+});
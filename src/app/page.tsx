@@ -1,19 +1,229 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
-import { CameraPreview, IntroScreen, ParticleCanvas, ModeToggle, KeyboardShortcuts, StatusIndicator, type PhysicsModeType } from "@/components";
-import { HandTrackingProvider, useHandTracking } from "@/lib/HandTrackingProvider";
+import { useState, useCallback, useEffect, useMemo } from "react";
+import { CameraPicker, CameraPreview, IntroScreen, ParticleCanvas, ModeToggle, KeyboardShortcuts, StatusIndicator, RecordingControls, ReplayControls, SessionDropZone, VideoFileControls, VideoFilePreview, type PhysicsModeType } from "@/components";
+import {
+  HandTrackingProvider,
+  useFaceCount,
+  useHandCount,
+  useHandTracking,
+  useTrackingSelector,
+} from "@/lib/HandTrackingProvider";
+import { selectHasResult } from "@/lib/trackingStore";
 import { useGestureDetection } from "@/lib/useGestureDetection";
 import { useKeyboardControls } from "@/lib/useKeyboardControls";
+import { useSessionRecorder } from "@/lib/useSessionRecorder";
+import { fetchSession } from "@/lib/sessionFiles";
+import { useCameraDevices } from "@/lib/useCameraDevices";
+import {
+  DEFAULT_CAMERA_SETTINGS,
+  getStreamDeviceId,
+  loadCameraSettings,
+  openCamera,
+  saveCameraSettings,
+  stopStream,
+  type CameraSettings,
+} from "@/lib/cameraDevices";
+import {
+  MediaPipeTrackingSource,
+  ReplayTrackingSource,
+  SyntheticTrackingSource,
+  type DetectionOptions,
+  type DetectionRates,
+  type TrackingSession,
+  type TrackingSource,
+} from "@/core/tracking";
 import type { RenderStats } from "@/core/renderer";
+import {
+  CONTROL_PARAMETERS,
+  PINCH_CONTROLS,
+  type GazeEffect,
+  type LandmarkLatency,
+  type ParameterBinding,
+  type PredictionMode,
+} from "@/core/particles";
+import type { CoordinateMapping } from "@/core/coordinates";
+import { MAX_TRACKED_HANDS, MAX_TRACKED_FACES } from "@/lib/types";
 
 type AppView = "intro" | "canvas";
 
-function CanvasView({ stream }: { stream: MediaStream }) {
-  const { result, isLoading, error } = useHandTracking();
+/**
+ * What is tracked: how many hands and faces at once, face expressions, head pose,
+ * the body and the segmentation silhouette (plus whether particles predict ahead
+ * of detections, which effect the gaze drives and which parameters hands dial)
+ */
+interface TrackingSettings {
+  maxHands: number;
+  maxFaces: number;
+  blendshapes: boolean;
+  headPose: boolean;
+  body: boolean;
+  silhouette: boolean;
+  prediction: PredictionMode;
+  gaze: GazeEffect;
+  controls: ParameterBinding[];
+}
+
+const DEFAULT_SETTINGS: TrackingSettings = {
+  maxHands: 2,
+  maxFaces: 1,
+  blendshapes: false,
+  headPose: false,
+  body: false,
+  silhouette: false,
+  prediction: "none",
+  gaze: "none",
+  controls: [],
+};
+
+/**
+ * Bindings of a bare ?controls: the pinch sets the particle size and the
+ * two-hand span the repulsion radius
+ */
+const DEFAULT_CONTROLS: ParameterBinding[] = [
+  { control: "pinch", parameter: "baseSize" },
+  { control: "span", parameter: "repulsionRadius" },
+];
+
+/**
+ * Read the ?predict parameter (bare ?predict = constant velocity)
+ */
+function readPredictionParam(params: URLSearchParams): PredictionMode {
+  const value = params.get("predict");
+  if (value === null) return "none";
+  return value === "kalman" ? "kalman" : "velocity";
+}
+
+/**
+ * Read the ?gaze parameter (bare ?gaze = eye beams)
+ */
+function readGazeParam(params: URLSearchParams): GazeEffect {
+  const value = params.get("gaze");
+  if (value === null) return "none";
+  return value === "follow" ? "follow" : "beam";
+}
+
+/**
+ * Read the ?controls parameter: comma-separated <control>:<parameter>[:<min>:<max>]
+ * bindings, e.g. ?controls=pinch:baseSize,pinchY:trailFade:0.05:0.3 (bare ?controls =
+ * DEFAULT_CONTROLS); unknown controls or parameters are skipped
+ */
+function readControlsParam(params: URLSearchParams): ParameterBinding[] {
+  const value = params.get("controls");
+  if (value === null) return [];
+  if (value === "") return DEFAULT_CONTROLS;
+
+  return value.split(",").flatMap((entry): ParameterBinding[] => {
+    const [controlName, parameterName, min, max] = entry.split(":");
+    const control = PINCH_CONTROLS.find((name) => name === controlName);
+    const parameter = CONTROL_PARAMETERS.find((name) => name === parameterName);
+    if (!control || !parameter) return [];
+
+    const binding: ParameterBinding = { control, parameter };
+    const range = [min, max].map(Number);
+    if (max !== undefined && range.every(Number.isFinite)) {
+      binding.min = range[0];
+      binding.max = range[1];
+    }
+    return [binding];
+  });
+}
+
+/**
+ * Read the coordinate mapping parameters: ?mirror=off, ?fit=cover|contain|stretch,
+ * ?roi=<x>,<y>,<width>,<height> and ?offset=<x>,<y> (fractions of the image / screen)
+ */
+function readMappingParams(params: URLSearchParams): Partial<CoordinateMapping> {
+  const mapping: Partial<CoordinateMapping> = {};
+  const mirror = params.get("mirror");
+  if (mirror !== null) mapping.mirror = !["off", "0", "false"].includes(mirror);
+
+  const fit = params.get("fit");
+  if (fit === "cover" || fit === "contain" || fit === "stretch") mapping.fit = fit;
+
+  const roi = params.get("roi")?.split(",").map(Number);
+  if (roi?.length === 4 && roi.every(Number.isFinite)) {
+    mapping.roi = { x: roi[0], y: roi[1], width: roi[2], height: roi[3] };
+  }
+
+  const offset = params.get("offset")?.split(",").map(Number);
+  if (offset?.length === 2 && offset.every(Number.isFinite)) {
+    mapping.offset = { x: offset[0], y: offset[1] };
+  }
+  return mapping;
+}
+
+/**
+ * Read the detection parameters: ?confidence=<0-1> sets every minimum detection,
+ * presence and tracking confidence and ?delegate=cpu runs the models on the CPU
+ */
+function readDetectionParams(params: URLSearchParams): Partial<DetectionOptions> {
+  const detection: Partial<DetectionOptions> = {};
+  const confidence = Number(params.get("confidence") ?? NaN);
+  if (Number.isFinite(confidence)) {
+    detection.minHandDetectionConfidence = confidence;
+    detection.minHandPresenceConfidence = confidence;
+    detection.minHandTrackingConfidence = confidence;
+    detection.minFaceDetectionConfidence = confidence;
+    detection.minFacePresenceConfidence = confidence;
+    detection.minFaceTrackingConfidence = confidence;
+    detection.minPoseDetectionConfidence = confidence;
+    detection.minPosePresenceConfidence = confidence;
+    detection.minPoseTrackingConfidence = confidence;
+  }
+  if (params.get("delegate")?.toLowerCase() === "cpu") detection.delegate = "CPU";
+  return detection;
+}
+
+/**
+ * Read a count URL parameter clamped to 1..max
+ */
+function readCountParam(params: URLSearchParams, name: string, fallback: number, max: number) {
+  return Math.max(1, Math.min(max, Number(params.get(name)) || fallback));
+}
+
+function CanvasView({
+  stream,
+  videoFile,
+  settings,
+  mapping,
+  cameraSettings,
+  onCameraChange,
+  onCameraLost,
+}: {
+  stream: MediaStream | null;
+  /** Video file tracked instead of the camera */
+  videoFile: Blob | null;
+  settings: TrackingSettings;
+  /** How landmarks map onto the screen (mirroring, fit, region of interest, offset) */
+  mapping: Partial<CoordinateMapping>;
+  /** Chosen camera, resolution and frame rate */
+  cameraSettings: CameraSettings;
+  /** Switch to another camera choice (reopens the stream) */
+  onCameraChange: (camera: CameraSettings) => void;
+  /** The open camera disappeared (unplugged) */
+  onCameraLost: () => void;
+}) {
+  const { store, isLoading, error, status, source, startTracking, stopTracking } = useHandTracking();
+  // Only the slices shown here re-render the view (frames go straight to the store)
+  const handCount = useHandCount();
+  const faceCount = useFaceCount();
+  const hasResult = useTrackingSelector(selectHasResult);
   const [renderStats, setRenderStats] = useState<RenderStats | null>(null);
+  const [latency, setLatency] = useState<LandmarkLatency | null>(null);
+  const [detectionRates, setDetectionRates] = useState<DetectionRates | null>(null);
   const [isWebGL, setIsWebGL] = useState(true);
   const [physicsMode, setPhysicsMode] = useState<PhysicsModeType>('attract');
+  const [smoothing, setSmoothing] = useState(true);
+  // Mirroring toggled at runtime (null = as configured)
+  const [mirror, setMirror] = useState<boolean | null>(null);
+  const activeMapping = useMemo(
+    () => (mirror === null ? mapping : { ...mapping, mirror }),
+    [mapping, mirror]
+  );
+  const isMirrored = activeMapping.mirror ?? true;
+  // Element playing the video file (for its transport controls)
+  const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
 
   const handleModeChange = useCallback((mode: PhysicsModeType) => {
     setPhysicsMode(mode);
@@ -24,14 +234,74 @@ function CanvasView({ stream }: { stream: MediaStream }) {
     setPhysicsMode((prev) => (prev === 'attract' ? 'repel' : 'attract'));
   }, []);
 
-  // Keyboard controls: SPACE = toggle mode, V = cycle theme
+  // Without a camera or video file (replayed sessions) the source runs on its own
+  useEffect(() => {
+    if (stream || videoFile) return;
+    startTracking();
+    return () => stopTracking();
+  }, [stream, videoFile, startTracking, stopTracking]);
+
+  // Return to the chosen camera when it is plugged back in
+  const handleCamerasChange = useCallback(
+    (cameras: MediaDeviceInfo[]) => {
+      if (!stream || !cameraSettings.deviceId) return;
+      const activeDeviceId = getStreamDeviceId(stream);
+      if (
+        activeDeviceId &&
+        activeDeviceId !== cameraSettings.deviceId &&
+        cameras.some((camera) => camera.deviceId === cameraSettings.deviceId)
+      ) {
+        onCameraChange(cameraSettings);
+      }
+    },
+    [stream, cameraSettings, onCameraChange]
+  );
+
+  // Cameras plugged in or unplugged while running
+  const { cameras } = useCameraDevices(handleCamerasChange);
+
+  // An unplugged camera ends its track; fall back to another one
+  useEffect(() => {
+    const track = stream?.getVideoTracks()[0];
+    if (!track) return;
+    track.addEventListener("ended", onCameraLost);
+    return () => track.removeEventListener("ended", onCameraLost);
+  }, [stream, onCameraLost]);
+
+  // Effective rate of each model (camera tracking only)
+  useEffect(() => {
+    if (!(source instanceof MediaPipeTrackingSource)) return;
+    const interval = window.setInterval(() => {
+      setDetectionRates({ ...source.getDetectionRates() });
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [source]);
+
+  // Session recording of whatever the active source emits
+  const recording = useSessionRecorder(source);
+
+  // Toggle landmark smoothing (for comparing against raw detections)
+  const toggleSmoothing = useCallback(() => {
+    setSmoothing((prev) => !prev);
+  }, []);
+
+  // Toggle mirroring (selfie view vs. the camera's own view)
+  const toggleMirror = useCallback(() => {
+    setMirror(!isMirrored);
+  }, [isMirrored]);
+
+  // Keyboard controls: SPACE = toggle mode, V = cycle theme, R = record, S = smoothing,
+  // M = mirroring
   useKeyboardControls({
     physicsMode,
     onToggleMode: togglePhysicsMode,
+    onToggleRecording: recording.toggleRecording,
+    onToggleSmoothing: toggleSmoothing,
+    onToggleMirror: toggleMirror,
   });
 
   // Gesture detection for fist -> theme cycling
-  const { isFistDetected, showFeedback, currentTheme } = useGestureDetection(result, {
+  const { isFistDetected, showFeedback, currentTheme } = useGestureDetection(store, {
     cooldownMs: 500,
     feedbackDurationMs: 400,
   });
@@ -45,6 +315,10 @@ function CanvasView({ stream }: { stream: MediaStream }) {
     setRenderStats(stats);
   }, []);
 
+  const handleLatency = useCallback((measured: LandmarkLatency) => {
+    setLatency(measured);
+  }, []);
+
   return (
     <div className="fixed inset-0 bg-black">
       {/* Theme change flash overlay */}
@@ -58,21 +332,49 @@ function CanvasView({ stream }: { stream: MediaStream }) {
         />
       )}
       
-      {/* Particle canvas - behind everything (z-0) */}
+      {/* Particle canvas - behind everything (z-0); synthetic landmarks fill in
+          only without a camera or video file, never between live performers */}
       <ParticleCanvas
         maxParticles={15000}
-        demoMode={true}
-        trackingResult={result}
+        maxHands={settings.maxHands}
+        maxFaces={settings.maxFaces}
+        body={settings.body}
+        silhouette={settings.silhouette}
+        demoMode={!stream && !videoFile}
+        trackingStore={store}
         physicsMode={physicsMode}
+        smoothing={smoothing}
+        prediction={settings.prediction}
+        gaze={settings.gaze}
+        controls={settings.controls}
+        mapping={activeMapping}
         onReady={handleRendererReady}
         onStats={handleStats}
+        onLatency={handleLatency}
       />
       
       {/* Mode toggle buttons - top left (z-100) */}
       <ModeToggle mode={physicsMode} onModeChange={handleModeChange} />
       
       {/* Camera preview at top center (z-50) */}
-      <CameraPreview stream={stream} />
+      {stream && <CameraPreview stream={stream} mapping={activeMapping} />}
+      
+      {/* Video file preview in place of the camera */}
+      {videoFile && (
+        <VideoFilePreview file={videoFile} mapping={activeMapping} onVideoChange={setVideoElement} />
+      )}
+      
+      {/* Camera picker below the preview */}
+      {stream && (
+        <div className="absolute left-1/2 top-[164px] z-[200] -translate-x-1/2">
+          <CameraPicker
+            cameras={cameras}
+            settings={cameraSettings}
+            activeDeviceId={getStreamDeviceId(stream)}
+            onChange={onCameraChange}
+          />
+        </div>
+      )}
       
       {/* Fist detection indicator - top left */}
       {isFistDetected && (
@@ -111,9 +413,11 @@ function CanvasView({ stream }: { stream: MediaStream }) {
       
       {/* Status indicator - top right */}
       <StatusIndicator
-        trackingResult={result}
+        handCount={handCount}
+        faceCount={faceCount}
         isLoading={isLoading}
         error={error}
+        status={status}
       />
       
       {/* FPS indicator - bottom left (development only) */}
@@ -130,10 +434,34 @@ function CanvasView({ stream }: { stream: MediaStream }) {
           <p className="font-mono text-xs text-white/60">
             {renderStats.fps} FPS • {renderStats.avgFrameTime.toFixed(1)}ms
             {!isWebGL && " • 2D"}
+            {!smoothing && " • raw"}
+            {!isMirrored && " • unmirrored"}
+            {hasResult && latency && ` • ${Math.round(latency.totalMs)}ms latency`}
+            {settings.prediction !== "none" && ` (${settings.prediction})`}
           </p>
+          {source instanceof MediaPipeTrackingSource && detectionRates && (
+            <p className="font-mono text-xs text-white/40">
+              {Math.round(detectionRates.frames)} cam • {Math.round(detectionRates.hands)} hands •{" "}
+              {Math.round(detectionRates.faces)} face
+              {settings.body && ` • ${Math.round(detectionRates.body)} body`}
+              {settings.silhouette && ` • ${Math.round(detectionRates.segmentation)} mask`} Hz
+            </p>
+          )}
         </div>
       )}
       
+      {/* Session record/replay controls - bottom center */}
+      <div className="absolute bottom-4 left-1/2 z-[100] flex -translate-x-1/2 items-center gap-2">
+        {source instanceof ReplayTrackingSource && <ReplayControls source={source} />}
+        {videoFile && videoElement && <VideoFileControls video={videoElement} />}
+        <RecordingControls
+          isRecording={recording.isRecording}
+          durationMs={recording.durationMs}
+          frameCount={recording.frameCount}
+          onToggle={recording.toggleRecording}
+        />
+      </div>
+      
       {/* Keyboard shortcuts - bottom right */}
       <KeyboardShortcuts />
       
@@ -156,12 +484,162 @@ function CanvasView({ stream }: { stream: MediaStream }) {
 export default function Home() {
   const [view, setView] = useState<AppView>("intro");
   const [stream, setStream] = useState<MediaStream | null>(null);
+  // Source replacing the camera (replayed recording or synthetic demo)
+  const [externalSource, setExternalSource] = useState<TrackingSource | null>(null);
+  // Local video file tracked by MediaPipe instead of the camera
+  const [videoFile, setVideoFile] = useState<Blob | null>(null);
+  // Hands and faces tracked at once (?hands=<n>&faces=<n> for group installations)
+  // and whether expressions (?expressions), head pose (?headpose), the body (?body)
+  // and the segmentation silhouette (?silhouette) drive the particles, and whether
+  // particles predict ahead of detections (?predict), the gaze effect (?gaze) and
+  // the parameters dialed by hand (?controls)
+  const [settings, setSettings] = useState<TrackingSettings>(DEFAULT_SETTINGS);
+  // Landmark to screen mapping (?mirror, ?fit, ?roi, ?offset for installations)
+  const [mapping, setMapping] = useState<Partial<CoordinateMapping>>({});
+  // Detection confidences and delegate (?confidence, ?delegate for venue lighting)
+  const [detection, setDetection] = useState<Partial<DetectionOptions>>({});
+  // Camera, resolution and frame rate (remembered between visits)
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(DEFAULT_CAMERA_SETTINGS);
 
   const handleCameraEnabled = useCallback((mediaStream: MediaStream) => {
     setStream(mediaStream);
     setView("canvas");
   }, []);
 
+  // Open the camera in place of the current one (tracking restarts on the new
+  // stream with its models still loaded; the old stream is stopped on replace)
+  const replaceCamera = useCallback(
+    async (camera: CameraSettings) => {
+      try {
+        setStream(await openCamera(camera));
+      } catch (err) {
+        // Some platforms cannot open a second stream while the first is live
+        if (!stream || !(err instanceof Error) || err.name !== "NotReadableError") {
+          console.error("Camera switch error:", err);
+          return;
+        }
+        stopStream(stream);
+        try {
+          setStream(await openCamera(camera));
+        } catch (retryErr) {
+          console.error("Camera switch error:", retryErr);
+          setStream(null);
+        }
+      }
+    },
+    [stream]
+  );
+
+  // Pick another camera, resolution or frame rate
+  const handleCameraChange = useCallback(
+    (camera: CameraSettings) => {
+      setCameraSettings(camera);
+      saveCameraSettings(camera);
+      replaceCamera(camera);
+    },
+    [replaceCamera]
+  );
+
+  // The open camera was unplugged: use the default one without forgetting the choice
+  const handleCameraLost = useCallback(() => {
+    replaceCamera({ ...cameraSettings, deviceId: null });
+  }, [replaceCamera, cameraSettings]);
+
+  // Run without the camera (releases it if it was open)
+  const switchToSource = useCallback((source: TrackingSource) => {
+    setExternalSource(source);
+    setStream(null);
+    setVideoFile(null);
+    setView("canvas");
+  }, []);
+
+  // Track a video file instead of the camera (same MediaPipe pipeline)
+  const handleVideoLoaded = useCallback((file: Blob) => {
+    setExternalSource(null);
+    setStream(null);
+    setVideoFile(file);
+    setView("canvas");
+  }, []);
+
+  // Replay a recorded session instead of the camera
+  const handleSessionLoaded = useCallback(
+    (session: TrackingSession) => switchToSource(new ReplayTrackingSource(session)),
+    [switchToSource]
+  );
+
+  // Synthetic hands and faces instead of the camera
+  const handleDemoStart = useCallback(
+    (
+      seed = 1,
+      { maxHands, maxFaces, blendshapes, headPose, body, silhouette } = DEFAULT_SETTINGS
+    ) =>
+      switchToSource(
+        new SyntheticTrackingSource({
+          seed,
+          hands: maxHands,
+          faces: maxFaces,
+          blendshapes,
+          headPose,
+          body,
+          segmentation: silhouette,
+        })
+      ),
+    [switchToSource]
+  );
+
+  // ?session=<url> replays a recording and ?demo[=<seed>] starts the synthetic
+  // demo on startup (kiosks, deterministic e2e runs); ?hands=<n> and ?faces=<n>
+  // track up to MAX_TRACKED_HANDS hands and MAX_TRACKED_FACES faces, and
+  // ?expressions turns on face blendshapes (mouth/eye bursts, brow spread, smile themes)
+  // and ?headpose the head pose (face cloud rotation, steering particles by turning);
+  // ?body tracks the body with PoseLandmarker as a third particle figure and
+  // ?silhouette fills the whole person (ImageSegmenter mask) with particles;
+  // ?predict[=velocity|kalman] renders particles ahead of the latest detection;
+  // ?gaze[=beam|follow] shoots eye beams along the gaze or pulls particles where you look;
+  // ?controls[=<control>:<parameter>,...] lets pinches and the two-hand span dial parameters;
+  // ?mirror, ?fit, ?roi and ?offset set how landmarks map onto the screen;
+  // ?confidence and ?delegate tune detection for the venue
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const sessionUrl = params.get("session");
+    const demoSeed = params.get("demo");
+    const requested: TrackingSettings = {
+      maxHands: readCountParam(params, "hands", DEFAULT_SETTINGS.maxHands, MAX_TRACKED_HANDS),
+      maxFaces: readCountParam(params, "faces", DEFAULT_SETTINGS.maxFaces, MAX_TRACKED_FACES),
+      blendshapes: params.has("expressions"),
+      headPose: params.has("headpose"),
+      body: params.has("body"),
+      silhouette: params.has("silhouette"),
+      prediction: readPredictionParam(params),
+      gaze: readGazeParam(params),
+      controls: readControlsParam(params),
+    };
+
+    // Use setTimeout to avoid calling setState within effect body
+    const timeout = setTimeout(() => {
+      setSettings(requested);
+      setMapping(readMappingParams(params));
+      setDetection(readDetectionParams(params));
+      setCameraSettings(loadCameraSettings());
+      if (!sessionUrl && demoSeed !== null) {
+        handleDemoStart(Number(demoSeed) || 1, requested);
+      }
+    }, 0);
+
+    if (sessionUrl) {
+      fetchSession(sessionUrl)
+        .then(handleSessionLoaded)
+        .catch((err) => console.error("Session load error:", err));
+    }
+
+    return () => clearTimeout(timeout);
+  }, [handleSessionLoaded, handleDemoStart]);
+
+  // Release the previous source when it is replaced or on unmount
+  useEffect(() => {
+    return () => externalSource?.dispose();
+  }, [externalSource]);
+
   // Keyboard shortcut: Enter to trigger camera request
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -176,23 +654,53 @@ export default function Home() {
     return () => window.removeEventListener("keydown", handleKeyDown);
   }, [view]);
 
-  // Cleanup stream on unmount
+  // Cleanup stream on unmount (or when a camera switch replaces it)
   useEffect(() => {
     return () => {
       if (stream) {
-        stream.getTracks().forEach((track) => track.stop());
+        stopStream(stream);
       }
     };
   }, [stream]);
 
   if (view === "intro") {
-    return <IntroScreen onCameraEnabled={handleCameraEnabled} />;
+    return (
+      <>
+        <IntroScreen
+          onCameraEnabled={handleCameraEnabled}
+          cameraSettings={cameraSettings}
+          onSessionLoaded={handleSessionLoaded}
+          onDemoStart={() => handleDemoStart(1, settings)}
+          onVideoLoaded={handleVideoLoaded}
+        />
+        <SessionDropZone onSessionLoaded={handleSessionLoaded} onVideoLoaded={handleVideoLoaded} />
+      </>
+    );
   }
 
-  // Canvas view with hand tracking provider
+  // Canvas view with hand tracking provider (external sources take over from the camera)
   return (
-    <HandTrackingProvider>
-      <CanvasView stream={stream!} />
+    <HandTrackingProvider
+      source={externalSource ?? undefined}
+      maxHands={settings.maxHands}
+      maxFaces={settings.maxFaces}
+      blendshapes={settings.blendshapes}
+      headPose={settings.headPose}
+      body={settings.body}
+      segmentation={settings.silhouette}
+      detection={detection}
+      delegate={detection.delegate}
+    >
+      <CanvasView
+        stream={stream}
+        videoFile={videoFile}
+        settings={settings}
+        mapping={mapping}
+        cameraSettings={cameraSettings}
+        onCameraChange={handleCameraChange}
+        onCameraLost={handleCameraLost}
+      />
+      <SessionDropZone onSessionLoaded={handleSessionLoaded} onVideoLoaded={handleVideoLoaded} />
     </HandTrackingProvider>
   );
 }
@@ -0,0 +1,115 @@
+'use client';
+
+/**
+ * CameraPicker - Camera, resolution and frame rate selection
+ * Changing any of them reopens the camera; tracking keeps its loaded models
+ */
+
+import type { ChangeEvent } from 'react';
+import { CAMERA_FRAME_RATES, CAMERA_RESOLUTIONS, type CameraSettings } from '@/lib/cameraDevices';
+
+export interface CameraPickerProps {
+  /** Available cameras */
+  cameras: MediaDeviceInfo[];
+  /** Current choice */
+  settings: CameraSettings;
+  /** Camera the open stream actually uses (shown when the choice is the default camera) */
+  activeDeviceId?: string | null;
+  /** Called with the new choice */
+  onChange: (settings: CameraSettings) => void;
+}
+
+const selectStyle = {
+  background: 'rgba(255, 255, 255, 0.05)',
+  border: '1px solid rgba(255, 255, 255, 0.1)',
+  color: 'rgba(255, 255, 255, 0.7)',
+};
+
+/**
+ * Compact row of selects with glassmorphism styling
+ */
+export function CameraPicker({ cameras, settings, activeDeviceId, onChange }: CameraPickerProps) {
+  const deviceId = settings.deviceId ?? activeDeviceId ?? '';
+  const resolution = `${settings.width}x${settings.height}`;
+
+  const handleDevice = (event: ChangeEvent<HTMLSelectElement>) => {
+    onChange({ ...settings, deviceId: event.target.value || null });
+  };
+
+  const handleResolution = (event: ChangeEvent<HTMLSelectElement>) => {
+    const [width, height] = event.target.value.split('x').map(Number);
+    onChange({ ...settings, width, height });
+  };
+
+  const handleFrameRate = (event: ChangeEvent<HTMLSelectElement>) => {
+    onChange({ ...settings, frameRate: Number(event.target.value) });
+  };
+
+  return (
+    <div
+      className="flex items-center gap-2 px-2 py-1.5"
+      role="group"
+      aria-label="Camera settings"
+      style={{
+        borderRadius: 12,
+        background: 'rgba(0, 0, 0, 0.4)',
+        backdropFilter: 'blur(8px)',
+        WebkitBackdropFilter: 'blur(8px)',
+        border: '1px solid rgba(255, 255, 255, 0.05)',
+      }}
+    >
+      <select
+        aria-label="Camera"
+        value={deviceId}
+        onChange={handleDevice}
+        className="max-w-40 truncate rounded px-1.5 py-0.5 text-xs"
+        style={selectStyle}
+      >
+        {!cameras.some((camera) => camera.deviceId === deviceId) && (
+          <option value={deviceId}>Default camera</option>
+        )}
+        {cameras.map((camera, i) => (
+          <option key={camera.deviceId || i} value={camera.deviceId}>
+            {camera.label || `Camera ${i + 1}`}
+          </option>
+        ))}
+      </select>
+
+      <select
+        aria-label="Resolution"
+        value={resolution}
+        onChange={handleResolution}
+        className="rounded px-1.5 py-0.5 text-xs"
+        style={selectStyle}
+      >
+        {!CAMERA_RESOLUTIONS.some((r) => `${r.width}x${r.height}` === resolution) && (
+          <option value={resolution}>
+            {settings.width}×{settings.height}
+          </option>
+        )}
+        {CAMERA_RESOLUTIONS.map((r) => (
+          <option key={r.label} value={`${r.width}x${r.height}`}>
+            {r.label}
+          </option>
+        ))}
+      </select>
+
+      <select
+        aria-label="Frame rate"
+        value={settings.frameRate}
+        onChange={handleFrameRate}
+        className="rounded px-1.5 py-0.5 text-xs"
+        style={selectStyle}
+      >
+        {!CAMERA_FRAME_RATES.includes(settings.frameRate) && (
+          <option value={settings.frameRate}>{settings.frameRate} fps</option>
+        )}
+        {CAMERA_FRAME_RATES.map((fps) => (
+          <option key={fps} value={fps}>
+            {fps} fps
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 "use client";
 
-import { useRef, useEffect } from "react";
+import { useRef, useEffect, useState } from "react";
 import { useHandTracking } from "@/lib/HandTrackingProvider";
+import { useCoordinateMapper } from "@/lib/useCoordinateMapper";
+import type { CoordinateMapping } from "@/core/coordinates";
 import { HandSkeleton } from "./HandSkeleton";
 import { FaceMesh } from "./FaceMesh";
 
@@ -9,15 +11,21 @@ interface CameraPreviewProps {
   stream: MediaStream;
   width?: number;
   height?: number;
+  /** Same mapping as the particle canvas, so the preview is a miniature of it */
+  mapping?: Partial<CoordinateMapping>;
 }
 
 export function CameraPreview({ 
   stream, 
   width = 256, 
-  height = 144 
+  height = 144,
+  mapping,
 }: CameraPreviewProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const { startTracking, stopTracking } = useHandTracking();
+  const [imageAspect, setImageAspect] = useState<number>();
+  const mapper = useCoordinateMapper(mapping, width, height, imageAspect);
+  const imageRect = mapper.getImageRect();
 
   useEffect(() => {
     const video = videoRef.current;
@@ -26,6 +34,13 @@ export function CameraPreview({
     let isMounted = true;
 
     video.srcObject = stream;
+
+    // Follow the camera's frame size (the video is placed by the mapper)
+    const handleResize = () => {
+      if (video.videoHeight > 0) setImageAspect(video.videoWidth / video.videoHeight);
+    };
+    video.addEventListener("loadedmetadata", handleResize);
+    video.addEventListener("resize", handleResize);
     video.play().catch((error) => {
       // Ignore AbortError - happens when component remounts in StrictMode
       if (error.name === "AbortError") return;
@@ -49,6 +64,8 @@ export function CameraPreview({
     return () => {
       isMounted = false;
       video.removeEventListener("loadeddata", handleLoadedData);
+      video.removeEventListener("loadedmetadata", handleResize);
+      video.removeEventListener("resize", handleResize);
       stopTracking();
       video.srcObject = null;
     };
@@ -70,15 +87,19 @@ export function CameraPreview({
         autoPlay
         playsInline
         muted
-        className="h-full w-full object-cover"
+        className="absolute max-w-none object-fill"
         style={{
-          transform: "scaleX(-1)", // Mirror horizontally
+          left: imageRect.x,
+          top: imageRect.y,
+          width: imageRect.width,
+          height: imageRect.height,
+          transform: mapper.isMirrored() ? "scaleX(-1)" : undefined, // Mirror horizontally (selfie view)
         }}
       />
       {/* Hand skeleton overlay */}
-      <HandSkeleton width={width} height={height} />
+      <HandSkeleton width={width} height={height} mapper={mapper} />
       {/* Face mesh overlay */}
-      <FaceMesh width={width} height={height} />
+      <FaceMesh width={width} height={height} mapper={mapper} />
     </div>
   );
 }
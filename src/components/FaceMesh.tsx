@@ -1,12 +1,17 @@
 "use client";
 
 import { useRef, useEffect } from "react";
-import { useHandTracking } from "@/lib/HandTrackingProvider";
+import { useTrackingSelector, useTrackingStore } from "@/lib/HandTrackingProvider";
+import { selectImageAspect } from "@/lib/trackingStore";
 import { FACE_OVAL, LEFT_EYE, RIGHT_EYE, LIPS_OUTER, LIPS_INNER } from "@/lib/types";
+import { useCoordinateMapper } from "@/lib/useCoordinateMapper";
+import type { CoordinateMapper } from "@/core/coordinates";
 
 interface FaceMeshProps {
   width?: number;
   height?: number;
+  /** Landmark to overlay mapping (default: mirrored, cover fit like the preview video) */
+  mapper?: CoordinateMapper;
 }
 
 // Colors for facial regions
@@ -25,97 +30,108 @@ const COLORS = {
   },
 };
 
-export function FaceMesh({ width = 256, height = 144 }: FaceMeshProps) {
+export function FaceMesh({ width = 256, height = 144, mapper }: FaceMeshProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const { result } = useHandTracking();
+  const store = useTrackingStore();
+  const imageAspect = useTrackingSelector(selectImageAspect);
+  const defaultMapper = useCoordinateMapper(undefined, width, height, imageAspect);
+  const map = mapper ?? defaultMapper;
 
+  // Redraw on every tracking frame (the component itself does not re-render)
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
-
-    // Clear canvas
-    ctx.clearRect(0, 0, width, height);
-
-    if (!result || !result.face) return;
-
-    const landmarks = result.face.landmarks;
-
-    // Helper to draw a closed path
-    const drawPath = (indices: number[], color: string, glowColor: string, lineWidth = 1.5) => {
-      if (indices.length === 0) return;
-
-      ctx.strokeStyle = color;
-      ctx.shadowColor = glowColor;
-      ctx.shadowBlur = 6;
-      ctx.lineWidth = lineWidth;
-      ctx.lineCap = "round";
-      ctx.lineJoin = "round";
-
-      ctx.beginPath();
-      const first = landmarks[indices[0]];
-      if (!first) return;
+    const draw = () => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return;
+
+      // Clear canvas
+      ctx.clearRect(0, 0, width, height);
+
+      const result = store.getSnapshot();
+      if (!result) return;
+
+      // Draw every tracked face
+      for (const { landmarks } of result.faces) {
+        // Helper to draw a closed path
+        const drawPath = (indices: number[], color: string, glowColor: string, lineWidth = 1.5) => {
+          if (indices.length === 0) return;
+
+          ctx.strokeStyle = color;
+          ctx.shadowColor = glowColor;
+          ctx.shadowBlur = 6;
+          ctx.lineWidth = lineWidth;
+          ctx.lineCap = "round";
+          ctx.lineJoin = "round";
+
+          ctx.beginPath();
+          const first = landmarks[indices[0]];
+          if (!first) return;
       
-      ctx.moveTo(first.x * width, first.y * height);
-
-      for (let i = 1; i < indices.length; i++) {
-        const lm = landmarks[indices[i]];
-        if (!lm) continue;
-        ctx.lineTo(lm.x * width, lm.y * height);
+          ctx.moveTo(map.mapX(first.x), map.mapY(first.y));
+
+          for (let i = 1; i < indices.length; i++) {
+            const lm = landmarks[indices[i]];
+            if (!lm) continue;
+            ctx.lineTo(map.mapX(lm.x), map.mapY(lm.y));
+          }
+
+          // Close the path
+          ctx.closePath();
+          ctx.stroke();
+        };
+
+        // Draw face oval (cyan)
+        drawPath(FACE_OVAL, COLORS.faceOval.primary, COLORS.faceOval.glow, 1.5);
+
+        // Draw left eye (teal)
+        drawPath(LEFT_EYE, COLORS.eyes.primary, COLORS.eyes.glow, 1.5);
+
+        // Draw right eye (teal)
+        drawPath(RIGHT_EYE, COLORS.eyes.primary, COLORS.eyes.glow, 1.5);
+
+        // Draw lips outer (pink)
+        drawPath(LIPS_OUTER, COLORS.lips.primary, COLORS.lips.glow, 2);
+
+        // Draw lips inner (pink, thinner)
+        drawPath(LIPS_INNER, COLORS.lips.primary, COLORS.lips.glow, 1);
+
+        // Depth-enhanced rendering for nose, cheeks, and eye sockets
+        // Grouped by region with appropriate colors
+        const depthRegions = [
+          // Nose landmarks - cyan
+          { indices: [1, 6, 168], color: COLORS.faceOval.primary },
+          // Cheek landmarks - cyan
+          { indices: [234, 454], color: COLORS.faceOval.primary },
+          // Eye socket landmarks (inner/outer corners with depth) - teal
+          { indices: [130, 226, 359, 446, 133, 362], color: COLORS.eyes.primary },
+        ];
+
+        for (const region of depthRegions) {
+          ctx.fillStyle = region.color;
+          ctx.shadowColor = region.color;
+          ctx.shadowBlur = 8;
+
+          for (const idx of region.indices) {
+            const lm = landmarks[idx];
+            if (!lm) continue;
+
+            // Use z-depth for sizing (closer = larger, farther = smaller)
+            const depthScale = 1 + (Math.abs(lm.z || 0) * 2);
+            const size = 2 * Math.min(depthScale, 2);
+
+            ctx.beginPath();
+            ctx.arc(map.mapX(lm.x), map.mapY(lm.y), size, 0, Math.PI * 2);
+            ctx.fill();
+          }
+        }
       }
-
-      // Close the path
-      ctx.closePath();
-      ctx.stroke();
     };
 
-    // Draw face oval (cyan)
-    drawPath(FACE_OVAL, COLORS.faceOval.primary, COLORS.faceOval.glow, 1.5);
-
-    // Draw left eye (teal)
-    drawPath(LEFT_EYE, COLORS.eyes.primary, COLORS.eyes.glow, 1.5);
-
-    // Draw right eye (teal)
-    drawPath(RIGHT_EYE, COLORS.eyes.primary, COLORS.eyes.glow, 1.5);
-
-    // Draw lips outer (pink)
-    drawPath(LIPS_OUTER, COLORS.lips.primary, COLORS.lips.glow, 2);
-
-    // Draw lips inner (pink, thinner)
-    drawPath(LIPS_INNER, COLORS.lips.primary, COLORS.lips.glow, 1);
-
-    // Depth-enhanced rendering for nose, cheeks, and eye sockets
-    // Grouped by region with appropriate colors
-    const depthRegions = [
-      // Nose landmarks - cyan
-      { indices: [1, 6, 168], color: COLORS.faceOval.primary },
-      // Cheek landmarks - cyan
-      { indices: [234, 454], color: COLORS.faceOval.primary },
-      // Eye socket landmarks (inner/outer corners with depth) - teal
-      { indices: [130, 226, 359, 446, 133, 362], color: COLORS.eyes.primary },
-    ];
-
-    for (const region of depthRegions) {
-      ctx.fillStyle = region.color;
-      ctx.shadowColor = region.color;
-      ctx.shadowBlur = 8;
-
-      for (const idx of region.indices) {
-        const lm = landmarks[idx];
-        if (!lm) continue;
-
-        // Use z-depth for sizing (closer = larger, farther = smaller)
-        const depthScale = 1 + (Math.abs(lm.z || 0) * 2);
-        const size = 2 * Math.min(depthScale, 2);
-
-        ctx.beginPath();
-        ctx.arc(lm.x * width, lm.y * height, size, 0, Math.PI * 2);
-        ctx.fill();
-      }
-    }
-  }, [result, width, height]);
+    draw();
+    return store.subscribe(draw);
+  }, [store, width, height, map]);
 
   return (
     <canvas
@@ -123,7 +139,6 @@ export function FaceMesh({ width = 256, height = 144 }: FaceMeshProps) {
       width={width}
       height={height}
       className="pointer-events-none absolute inset-0"
-      style={{ transform: "scaleX(-1)" }} // Mirror to match video
     />
   );
 }
@@ -1,13 +1,29 @@
 "use client";
 
 import { useEffect, useRef } from "react";
+import type { HeadPose } from "@/lib/types";
 
 interface GridBackgroundProps {
   className?: string;
+  /** Head pose to parallax the scene with (looking around shifts the stars and vanishing point) */
+  headPose?: HeadPose | null;
 }
 
-export function GridBackground({ className = "" }: GridBackgroundProps) {
+// Head rotation (radians) that gives the full parallax shift
+const PARALLAX_RANGE = 0.5;
+
+export function GridBackground({ className = "", headPose = null }: GridBackgroundProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Parallax target in -1..1, read by the animation loop
+  const parallaxTargetRef = useRef({ x: 0, y: 0 });
+
+  useEffect(() => {
+    const clamp = (value: number) => Math.max(-1, Math.min(1, value / PARALLAX_RANGE));
+    // The screen is mirrored: positive yaw turns the nose to the viewer's left
+    parallaxTargetRef.current = headPose
+      ? { x: clamp(headPose.yaw), y: clamp(-headPose.pitch) }
+      : { x: 0, y: 0 };
+  }, [headPose]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -18,6 +34,8 @@ export function GridBackground({ className = "" }: GridBackgroundProps) {
 
     let animationId: number;
     let time = 0;
+    // Eased parallax offset (-1..1)
+    const parallax = { x: 0, y: 0 };
 
     const resize = () => {
       canvas.width = window.innerWidth;
@@ -29,8 +47,9 @@ export function GridBackground({ className = "" }: GridBackgroundProps) {
       ctx.fillStyle = "#000000";
       ctx.fillRect(0, 0, width, height);
 
-      const centerX = width / 2;
-      const horizonY = height * 0.35;
+      // Vanishing point follows the parallax a little
+      const centerX = width / 2 + parallax.x * width * 0.05;
+      const horizonY = height * 0.35 + parallax.y * height * 0.05;
 
       // Grid parameters
       const gridLines = 40;
@@ -43,9 +62,10 @@ export function GridBackground({ className = "" }: GridBackgroundProps) {
       // Draw starfield background
       ctx.save();
       for (let i = 0; i < 200; i++) {
-        const starX = ((i * 7919) % width);
-        const starY = ((i * 6271) % (horizonY + 50));
         const starSize = ((i * 3571) % 3) * 0.5 + 0.5;
+        // Bigger (nearer) stars shift further with the parallax
+        const starX = (((i * 7919) + parallax.x * width * 0.03 * starSize) % width + width) % width;
+        const starY = ((i * 6271) % (height * 0.35 + 50)) + parallax.y * height * 0.02 * starSize;
         const twinkle = 0.3 + 0.7 * Math.sin(time * 0.002 + i);
         
         ctx.beginPath();
@@ -229,6 +249,8 @@ export function GridBackground({ className = "" }: GridBackgroundProps) {
 
     const animate = () => {
       time += 16;
+      parallax.x += (parallaxTargetRef.current.x - parallax.x) * 0.08;
+      parallax.y += (parallaxTargetRef.current.y - parallax.y) * 0.08;
       drawGrid();
       animationId = requestAnimationFrame(animate);
     };
@@ -1,12 +1,17 @@
 "use client";
 
 import { useRef, useEffect } from "react";
-import { useHandTracking } from "@/lib/HandTrackingProvider";
+import { useTrackingSelector, useTrackingStore } from "@/lib/HandTrackingProvider";
+import { selectImageAspect } from "@/lib/trackingStore";
 import { HAND_CONNECTIONS, type Landmark } from "@/lib/types";
+import { useCoordinateMapper } from "@/lib/useCoordinateMapper";
+import type { CoordinateMapper } from "@/core/coordinates";
 
 interface HandSkeletonProps {
   width?: number;
   height?: number;
+  /** Landmark to overlay mapping (default: mirrored, cover fit like the preview video) */
+  mapper?: CoordinateMapper;
 }
 
 // Fingertip and wrist landmark indices for larger dots
@@ -25,83 +30,93 @@ const HAND_COLORS = {
   },
 };
 
-export function HandSkeleton({ width = 256, height = 144 }: HandSkeletonProps) {
+export function HandSkeleton({ width = 256, height = 144, mapper }: HandSkeletonProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const { result } = useHandTracking();
+  const store = useTrackingStore();
+  const imageAspect = useTrackingSelector(selectImageAspect);
+  const defaultMapper = useCoordinateMapper(undefined, width, height, imageAspect);
+  const map = mapper ?? defaultMapper;
 
+  // Redraw on every tracking frame (the component itself does not re-render)
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
-
-    // Clear canvas
-    ctx.clearRect(0, 0, width, height);
-
-    if (!result || result.hands.length === 0) return;
-
-    // Draw each hand
-    for (const hand of result.hands) {
-      const colors = HAND_COLORS[hand.handedness];
-      const landmarks = hand.landmarks;
-
-      // Set up glow effect
-      ctx.shadowColor = colors.glow;
-      ctx.shadowBlur = 8;
-      ctx.strokeStyle = colors.primary;
-      ctx.fillStyle = colors.primary;
-      ctx.lineWidth = 2;
-      ctx.lineCap = "round";
-
-      // Draw bone connections
-      for (const [startIdx, endIdx] of HAND_CONNECTIONS) {
-        const start = landmarks[startIdx];
-        const end = landmarks[endIdx];
-
-        if (!start || !end) continue;
-
-        ctx.beginPath();
-        ctx.moveTo(start.x * width, start.y * height);
-        ctx.lineTo(end.x * width, end.y * height);
-        ctx.stroke();
+    const draw = () => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return;
+
+      // Clear canvas
+      ctx.clearRect(0, 0, width, height);
+
+      const result = store.getSnapshot();
+      if (!result || result.hands.length === 0) return;
+
+      // Draw each hand
+      for (const hand of result.hands) {
+        const colors = HAND_COLORS[hand.handedness];
+        const landmarks = hand.landmarks;
+
+        // Set up glow effect
+        ctx.shadowColor = colors.glow;
+        ctx.shadowBlur = 8;
+        ctx.strokeStyle = colors.primary;
+        ctx.fillStyle = colors.primary;
+        ctx.lineWidth = 2;
+        ctx.lineCap = "round";
+
+        // Draw bone connections
+        for (const [startIdx, endIdx] of HAND_CONNECTIONS) {
+          const start = landmarks[startIdx];
+          const end = landmarks[endIdx];
+
+          if (!start || !end) continue;
+
+          ctx.beginPath();
+          ctx.moveTo(map.mapX(start.x), map.mapY(start.y));
+          ctx.lineTo(map.mapX(end.x), map.mapY(end.y));
+          ctx.stroke();
+        }
+
+        // Draw all joint dots (small)
+        ctx.shadowBlur = 4;
+        for (let i = 0; i < landmarks.length; i++) {
+          const lm = landmarks[i];
+          const isFingertip = FINGERTIP_INDICES.includes(i);
+          const isWrist = i === WRIST_INDEX;
+
+          // Skip fingertips and wrist - draw them larger below
+          if (isFingertip || isWrist) continue;
+
+          ctx.beginPath();
+          ctx.arc(map.mapX(lm.x), map.mapY(lm.y), 2, 0, Math.PI * 2);
+          ctx.fill();
+        }
+
+        // Draw fingertips (larger dots)
+        ctx.shadowBlur = 10;
+        for (const idx of FINGERTIP_INDICES) {
+          const lm = landmarks[idx];
+          if (!lm) continue;
+
+          ctx.beginPath();
+          ctx.arc(map.mapX(lm.x), map.mapY(lm.y), 5, 0, Math.PI * 2);
+          ctx.fill();
+        }
+
+        // Draw wrist (larger dot)
+        const wrist = landmarks[WRIST_INDEX];
+        if (wrist) {
+          ctx.beginPath();
+          ctx.arc(map.mapX(wrist.x), map.mapY(wrist.y), 5, 0, Math.PI * 2);
+          ctx.fill();
+        }
       }
+    };
 
-      // Draw all joint dots (small)
-      ctx.shadowBlur = 4;
-      for (let i = 0; i < landmarks.length; i++) {
-        const lm = landmarks[i];
-        const isFingertip = FINGERTIP_INDICES.includes(i);
-        const isWrist = i === WRIST_INDEX;
-
-        // Skip fingertips and wrist - draw them larger below
-        if (isFingertip || isWrist) continue;
-
-        ctx.beginPath();
-        ctx.arc(lm.x * width, lm.y * height, 2, 0, Math.PI * 2);
-        ctx.fill();
-      }
-
-      // Draw fingertips (larger dots)
-      ctx.shadowBlur = 10;
-      for (const idx of FINGERTIP_INDICES) {
-        const lm = landmarks[idx];
-        if (!lm) continue;
-
-        ctx.beginPath();
-        ctx.arc(lm.x * width, lm.y * height, 5, 0, Math.PI * 2);
-        ctx.fill();
-      }
-
-      // Draw wrist (larger dot)
-      const wrist = landmarks[WRIST_INDEX];
-      if (wrist) {
-        ctx.beginPath();
-        ctx.arc(wrist.x * width, wrist.y * height, 5, 0, Math.PI * 2);
-        ctx.fill();
-      }
-    }
-  }, [result, width, height]);
+    draw();
+    return store.subscribe(draw);
+  }, [store, width, height, map]);
 
   return (
     <canvas
@@ -109,7 +124,6 @@ export function HandSkeleton({ width = 256, height = 144 }: HandSkeletonProps) {
       width={width}
       height={height}
       className="pointer-events-none absolute inset-0"
-      style={{ transform: "scaleX(-1)" }} // Mirror to match video
     />
   );
 }
@@ -1,29 +1,43 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef, type ChangeEvent } from "react";
 import { GridBackground } from "./GridBackground";
+import { SESSION_FILE_EXTENSION, type TrackingSession } from "@/core/tracking";
+import { readSessionFile } from "@/lib/sessionFiles";
+import { VIDEO_FILE_ACCEPT } from "@/lib/videoFiles";
+import { openCamera, DEFAULT_CAMERA_SETTINGS, type CameraSettings } from "@/lib/cameraDevices";
 
 type AppState = "intro" | "loading" | "canvas" | "error";
 
 interface IntroScreenProps {
   onCameraEnabled: (stream: MediaStream) => void;
+  /** Camera, resolution and frame rate to open (default: front camera at 720p, 30fps) */
+  cameraSettings?: CameraSettings;
+  /** Called with a recorded session picked from disk (replay without a camera) */
+  onSessionLoaded?: (session: TrackingSession) => void;
+  /** Called to start the synthetic no-camera demo */
+  onDemoStart?: () => void;
+  /** Called with a video file picked from disk (tracked instead of the camera) */
+  onVideoLoaded?: (file: File) => void;
 }
 
-export function IntroScreen({ onCameraEnabled }: IntroScreenProps) {
+export function IntroScreen({
+  onCameraEnabled,
+  cameraSettings = DEFAULT_CAMERA_SETTINGS,
+  onSessionLoaded,
+  onDemoStart,
+  onVideoLoaded,
+}: IntroScreenProps) {
   const [state, setState] = useState<AppState>("intro");
   const [errorMessage, setErrorMessage] = useState<string>("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const videoInputRef = useRef<HTMLInputElement>(null);
 
   const requestCamera = useCallback(async () => {
     setState("loading");
     
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          width: { ideal: 1280 },
-          height: { ideal: 720 },
-          facingMode: "user",
-        },
-      });
+      const stream = await openCamera(cameraSettings);
       
       setState("canvas");
       onCameraEnabled(stream);
@@ -42,7 +56,34 @@ export function IntroScreen({ onCameraEnabled }: IntroScreenProps) {
         setErrorMessage("An unexpected error occurred. Please try again.");
       }
     }
-  }, [onCameraEnabled]);
+  }, [onCameraEnabled, cameraSettings]);
+
+  const handleSessionFile = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file || !onSessionLoaded) return;
+
+      try {
+        onSessionLoaded(await readSessionFile(file));
+      } catch (error) {
+        setState("error");
+        setErrorMessage(
+          `Could not load recording: ${error instanceof Error ? error.message : "unknown error"}`
+        );
+      }
+    },
+    [onSessionLoaded]
+  );
+
+  const handleVideoFile = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (file && onVideoLoaded) onVideoLoaded(file);
+    },
+    [onVideoLoaded]
+  );
 
   const handleRetry = useCallback(() => {
     setState("intro");
@@ -113,6 +154,67 @@ export function IntroScreen({ onCameraEnabled }: IntroScreenProps) {
             </button>
           )}
 
+          {state === "intro" && onDemoStart && (
+            <button
+              onClick={() => onDemoStart()}
+              className="rounded-full px-6 py-2 text-sm text-white/60 transition-all hover:text-white"
+              style={{
+                background: "rgba(255, 255, 255, 0.03)",
+                border: "1px solid rgba(255, 255, 255, 0.08)",
+              }}
+            >
+              Try the demo (no camera)
+            </button>
+          )}
+
+          {state === "intro" && onSessionLoaded && (
+            <>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="rounded-full px-6 py-2 text-sm text-white/60 transition-all hover:text-white"
+                style={{
+                  background: "rgba(255, 255, 255, 0.03)",
+                  border: "1px solid rgba(255, 255, 255, 0.08)",
+                }}
+              >
+                Replay a recording
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={SESSION_FILE_EXTENSION}
+                onChange={handleSessionFile}
+                className="hidden"
+                aria-label="Recorded session file"
+                data-testid="session-file-input"
+              />
+            </>
+          )}
+
+          {state === "intro" && onVideoLoaded && (
+            <>
+              <button
+                onClick={() => videoInputRef.current?.click()}
+                className="rounded-full px-6 py-2 text-sm text-white/60 transition-all hover:text-white"
+                style={{
+                  background: "rgba(255, 255, 255, 0.03)",
+                  border: "1px solid rgba(255, 255, 255, 0.08)",
+                }}
+              >
+                Track a video file
+              </button>
+              <input
+                ref={videoInputRef}
+                type="file"
+                accept={VIDEO_FILE_ACCEPT}
+                onChange={handleVideoFile}
+                className="hidden"
+                aria-label="Video file"
+                data-testid="video-file-input"
+              />
+            </>
+          )}
+
           {state === "loading" && (
             <div className="flex flex-col items-center gap-4">
               <div className="relative h-12 w-12">
@@ -172,7 +274,7 @@ export function IntroScreen({ onCameraEnabled }: IntroScreenProps) {
             >
               Enter
             </kbd>{" "}
-            to start
+            to start{onSessionLoaded && " or drop a recording anywhere"}
           </p>
         )}
       </div>
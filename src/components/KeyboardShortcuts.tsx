@@ -20,6 +20,9 @@ interface ShortcutItem {
 const SHORTCUTS: ShortcutItem[] = [
   { key: 'SPACE', description: 'Toggle mode' },
   { key: 'V', description: 'Cycle theme' },
+  { key: 'R', description: 'Record session' },
+  { key: 'S', description: 'Toggle smoothing' },
+  { key: 'M', description: 'Toggle mirroring' },
 ];
 
 /**
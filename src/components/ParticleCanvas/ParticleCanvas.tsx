@@ -2,22 +2,50 @@
 
 import { useRef, useEffect, useCallback } from "react";
 import { WebGLRenderer, RenderLoop, type RenderStats } from "@/core/renderer";
-import { ParticleSystem, PhysicsMode } from "@/core/particles";
+import {
+  ParticleSystem,
+  PhysicsMode,
+  DEFAULT_PREDICTION_CONFIG,
+  DEFAULT_PARAMETER_RANGES,
+  type ControlParameter,
+  type GazeEffect,
+  type LandmarkLatency,
+  type ParameterBinding,
+  type PredictionConfig,
+  type PredictionMode,
+} from "@/core/particles";
+import { SyntheticScene, countFaces, countHands, hasBody } from "@/core/tracking";
 import type { TrackingResult } from "@/lib/types";
+import type { TrackingStore } from "@/lib/trackingStore";
+import type { CoordinateMapping } from "@/core/coordinates";
 import type { ThemeName, ColorTheme } from "@/core/themes";
 import { themeManager, THEMES } from "@/core/themes";
 
 export interface ParticleCanvasProps {
   /** Maximum number of particles to render */
   maxParticles?: number;
+  /** Hand slots with their own particles (default: 2, up to MAX_TRACKED_HANDS) */
+  maxHands?: number;
+  /** Face slots with their own particles (default: 1, up to MAX_TRACKED_FACES) */
+  maxFaces?: number;
+  /** Bind particles to the tracked body (default: false) */
+  body?: boolean;
+  /** Fill the segmentation mask (the whole person) with particles (default: false) */
+  silhouette?: boolean;
   /** Callback when renderer is ready */
   onReady?: (isWebGL: boolean) => void;
   /** Callback with render stats (called every second) */
   onStats?: (stats: RenderStats) => void;
-  /** Enable demo mode with random particles */
+  /** Callback with measured landmark latency (called every second) */
+  onLatency?: (latency: LandmarkLatency) => void;
+  /** Animate synthetic hands and face while nothing is tracked (enable only without a camera) */
   demoMode?: boolean;
+  /** Seed for the demo animation (same seed = same choreography) */
+  demoSeed?: number;
   /** Tracking result from MediaPipe */
   trackingResult?: TrackingResult | null;
+  /** Store to read tracking results from as they arrive, without re-rendering (replaces trackingResult) */
+  trackingStore?: TrackingStore;
   /** Physics mode (attract/repel) */
   physicsMode?: 'attract' | 'repel';
   /** Callback when physics mode changes */
@@ -30,14 +58,100 @@ export interface ParticleCanvasProps {
   trailsEnabled?: boolean;
   /** Trail fade amount per frame, 0.0-1.0 (default: 0.15 = ~6-7 frame trails) */
   trailFadeAmount?: number;
+  /** Filter landmark jitter before interpolation (default: true) */
+  smoothing?: boolean;
+  /** Predict hands, faces and the body past the latest detection (default: 'none') */
+  prediction?: PredictionMode;
+  /** Gaze effect: eye beams or particles drifting where the face looks (default: 'none') */
+  gaze?: GazeEffect;
+  /** Live parameters dialed by hand controls (pinch, pinch position, two-hand span) */
+  controls?: ParameterBinding[];
+  /** Landmark to canvas mapping: mirroring, fit, region of interest, calibration offset */
+  mapping?: Partial<CoordinateMapping>;
 }
 
-// Default color theme (Neon Cyan/Magenta)
-const DEFAULT_COLORS = [
-  { r: 0, g: 1, b: 0.9 },     // Cyan
-  { r: 1, g: 0, b: 0.6 },     // Magenta
-  { r: 0.4, g: 0.2, b: 1 },   // Purple
-];
+/**
+ * Apply one prediction mode to every entity
+ */
+function predictionFor(mode: PredictionMode): PredictionConfig {
+  return {
+    hands: { ...DEFAULT_PREDICTION_CONFIG.hands, mode },
+    face: { ...DEFAULT_PREDICTION_CONFIG.face, mode },
+    body: { ...DEFAULT_PREDICTION_CONFIG.body, mode },
+  };
+}
+
+/**
+ * Read and write one live parameter of the particle system or renderer
+ */
+function parameterAccess(
+  parameter: ControlParameter,
+  particleSystem: ParticleSystem,
+  renderer: WebGLRenderer
+): { get: () => number; set: (value: number) => void } {
+  switch (parameter) {
+    case 'baseSize':
+      return {
+        get: () => particleSystem.getBaseSize(),
+        set: (value) => particleSystem.setBaseSize(value),
+      };
+    case 'repulsionRadius':
+      return {
+        get: () => particleSystem.getRepulsionConfig().maxRadius,
+        set: (value) => particleSystem.setRepulsionConfig({ maxRadius: value }),
+      };
+    case 'trailFade':
+      return {
+        get: () => renderer.getTrailFadeAmount(),
+        set: (value) => renderer.setTrailFadeAmount(value),
+      };
+    case 'attractionStrength':
+      return {
+        get: () => particleSystem.getAttractionStrength(),
+        set: (value) => particleSystem.setAttractionStrength(value),
+      };
+  }
+}
+
+/**
+ * Bind parameters to the particle system's pinch controls
+ * @returns Function removing the bindings and restoring the parameters' previous values
+ */
+function bindControls(
+  bindings: readonly ParameterBinding[],
+  particleSystem: ParticleSystem,
+  renderer: WebGLRenderer
+): () => void {
+  const unbinds = bindings.map(({ control, parameter, min, max }) => {
+    const access = parameterAccess(parameter, particleSystem, renderer);
+    const initial = access.get();
+    const range = DEFAULT_PARAMETER_RANGES[parameter];
+    const unbind = particleSystem.pinch.bind({
+      control,
+      min: min ?? range.min,
+      max: max ?? range.max,
+      apply: access.set,
+    });
+    return () => {
+      unbind();
+      access.set(initial);
+    };
+  });
+  return () => unbinds.forEach((unbind) => unbind());
+}
+
+/**
+ * Whether a tracking result has anything to bind particles to
+ */
+function hasLandmarks(result: TrackingResult | null | undefined): result is TrackingResult {
+  return (
+    !!result &&
+    (countHands(result) > 0 ||
+      countFaces(result) > 0 ||
+      hasBody(result) ||
+      !!result.segmentation)
+  );
+}
 
 /**
  * ParticleCanvas component - Fullscreen WebGL canvas for particle rendering
@@ -46,34 +160,67 @@ const DEFAULT_COLORS = [
  */
 export function ParticleCanvas({
   maxParticles = 15000,
+  maxHands = 2,
+  maxFaces = 1,
+  body = false,
+  silhouette = false,
   onReady,
   onStats,
+  onLatency,
   demoMode = false,
+  demoSeed = 1,
   trackingResult,
+  trackingStore,
   physicsMode = 'attract',
   themeName,
   onThemeChange,
   trailsEnabled = true,
   trailFadeAmount = 0.15,
+  smoothing = true,
+  prediction = 'none',
+  gaze = 'none',
+  controls,
+  mapping,
 }: ParticleCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const rendererRef = useRef<WebGLRenderer | null>(null);
   const renderLoopRef = useRef<RenderLoop | null>(null);
   const particleSystemRef = useRef<ParticleSystem | null>(null);
-  const demoDataRef = useRef<Float32Array | null>(null);
   const statsIntervalRef = useRef<number | null>(null);
   const trackingResultRef = useRef<TrackingResult | null>(null);
   const isReadyCalledRef = useRef(false);
+  const smoothingRef = useRef(smoothing);
+  const predictionRef = useRef(prediction);
+  const gazeRef = useRef(gaze);
+  const controlsRef = useRef(controls);
+  const unbindControlsRef = useRef<(() => void) | null>(null);
+  const mappingRef = useRef(mapping);
 
   // Keep tracking result in ref for render loop access
   useEffect(() => {
+    if (trackingStore) return;
     trackingResultRef.current = trackingResult ?? null;
     
-    // Push to particle system if available
-    if (particleSystemRef.current && trackingResult) {
+    // Push to particle system if available (empty frames would fight the demo feed)
+    if (particleSystemRef.current && trackingResult && (!demoMode || hasLandmarks(trackingResult))) {
       particleSystemRef.current.pushTrackingResult(trackingResult);
     }
-  }, [trackingResult]);
+  }, [trackingResult, trackingStore, demoMode]);
+
+  // Consume results straight from the store (no React render per camera frame)
+  useEffect(() => {
+    if (!trackingStore) return;
+    
+    const receive = () => {
+      const result = trackingStore.getSnapshot();
+      trackingResultRef.current = result;
+      if (particleSystemRef.current && result && (!demoMode || hasLandmarks(result))) {
+        particleSystemRef.current.pushTrackingResult(result);
+      }
+    };
+    receive();
+    return trackingStore.subscribe(receive);
+  }, [trackingStore, demoMode]);
 
   // Handle physics mode changes
   useEffect(() => {
@@ -120,75 +267,48 @@ export function ParticleCanvas({
     }
   }, [trailFadeAmount]);
 
-  // Initialize demo particles for fallback mode
-  const initDemoParticles = useCallback((width: number, height: number) => {
-    if (!demoDataRef.current) {
-      demoDataRef.current = new Float32Array(5000 * 7);
+  // Handle smoothing toggle (kept in a ref so a recreated system starts with it)
+  useEffect(() => {
+    smoothingRef.current = smoothing;
+    if (particleSystemRef.current) {
+      particleSystemRef.current.setFilterConfig({ enabled: smoothing });
     }
+  }, [smoothing]);
 
-    const data = demoDataRef.current;
-    const particleCount = 5000;
+  // Handle prediction mode changes (kept in a ref like smoothing)
+  useEffect(() => {
+    predictionRef.current = prediction;
+    if (particleSystemRef.current) {
+      particleSystemRef.current.setPredictionConfig(predictionFor(prediction));
+    }
+  }, [prediction]);
 
-    for (let i = 0; i < particleCount; i++) {
-      const offset = i * 7;
-      const colorIndex = i % DEFAULT_COLORS.length;
-      const color = DEFAULT_COLORS[colorIndex];
-      
-      data[offset] = Math.random() * width;
-      data[offset + 1] = Math.random() * height;
-      data[offset + 2] = 2 + Math.random() * 4;
-      data[offset + 3] = color.r;
-      data[offset + 4] = color.g;
-      data[offset + 5] = color.b;
-      data[offset + 6] = 0.6 + Math.random() * 0.4;
+  // Handle gaze effect changes (kept in a ref like smoothing)
+  useEffect(() => {
+    gazeRef.current = gaze;
+    if (particleSystemRef.current) {
+      particleSystemRef.current.gaze.setConfig({ effect: gaze });
     }
+  }, [gaze]);
 
-    return particleCount;
-  }, []);
+  // Handle control binding changes (kept in a ref like smoothing)
+  useEffect(() => {
+    controlsRef.current = controls;
+    const particleSystem = particleSystemRef.current;
+    const renderer = rendererRef.current;
+    if (!particleSystem || !renderer) return;
+    
+    unbindControlsRef.current?.();
+    unbindControlsRef.current = controls ? bindControls(controls, particleSystem, renderer) : null;
+  }, [controls]);
 
-  // Update demo particles with simple animation
-  const updateDemoParticles = useCallback((
-    width: number,
-    height: number,
-    time: number,
-    particleCount: number
-  ) => {
-    if (!demoDataRef.current) return;
-
-    const data = demoDataRef.current;
-    const centerX = width / 2;
-    const centerY = height / 2;
-
-    for (let i = 0; i < particleCount; i++) {
-      const offset = i * 7;
-      
-      let x = data[offset];
-      let y = data[offset + 1];
-      
-      const dx = centerX - x;
-      const dy = centerY - y;
-      const dist = Math.sqrt(dx * dx + dy * dy);
-      
-      if (dist > 5) {
-        const speed = 0.5 + Math.random() * 0.5;
-        x += (dx / dist) * speed;
-        y += (dy / dist) * speed;
-      }
-      
-      const angle = time * 0.001 + i * 0.01;
-      x += Math.cos(angle) * 0.3;
-      y += Math.sin(angle) * 0.3;
-      
-      if (x < 0) x = width;
-      if (x > width) x = 0;
-      if (y < 0) y = height;
-      if (y > height) y = 0;
-      
-      data[offset] = x;
-      data[offset + 1] = y;
-      data[offset + 6] = 0.5 + 0.3 * Math.sin(time * 0.002 + i * 0.1);
+  // Handle coordinate mapping changes (kept in a ref like smoothing)
+  useEffect(() => {
+    mappingRef.current = mapping;
+    if (particleSystemRef.current && mapping) {
+      particleSystemRef.current.setMapping(mapping);
     }
-  }, []);
+  }, [mapping]);
 
   // Handle window resize
   const handleResize = useCallback(() => {
@@ -238,21 +358,33 @@ export function ParticleCanvas({
     // Create particle system with physics
     const particleSystem = new ParticleSystem({
       maxParticles,
+      maxHands,
+      maxFaces,
+      body,
+      silhouette,
+      filtering: { enabled: smoothingRef.current },
+      prediction: predictionFor(predictionRef.current),
+      gaze: { effect: gazeRef.current },
+      mapping: mappingRef.current,
       attractionStrength: 0.15,
       damping: 0.92,
     });
     particleSystem.setCanvasSize(width * pixelRatio, height * pixelRatio);
     particleSystemRef.current = particleSystem;
+    
+    // Let hand controls dial parameters
+    if (controlsRef.current) {
+      unbindControlsRef.current = bindControls(controlsRef.current, particleSystem, renderer);
+    }
 
     // Apply initial theme colors
     const initialTheme = themeManager.getCurrentTheme();
     particleSystem.setColors(initialTheme.colors);
 
-    // Initialize demo particles if in demo mode
-    let demoParticleCount = 0;
-    if (demoMode) {
-      demoParticleCount = initDemoParticles(width, height);
-    }
+    // Synthetic landmarks drive the real pipeline while nothing is tracked
+    const demoScene = demoMode
+      ? new SyntheticScene({ seed: demoSeed, body, segmentation: silhouette })
+      : null;
 
     // Create render loop
     const renderLoop = new RenderLoop();
@@ -260,24 +392,20 @@ export function ParticleCanvas({
 
     // Start render loop with physics-based particles
     renderLoop.start((timestamp) => {
-      const tracking = trackingResultRef.current;
-      const w = window.innerWidth;
-      const h = window.innerHeight;
+      const hasTracking = hasLandmarks(trackingResultRef.current);
       
-      // Check if we have active tracking
-      const hasTracking = tracking && (tracking.hands.length > 0 || tracking.face);
+      // Fallback to demo landmarks when no tracking
+      if (!hasTracking && demoScene) {
+        particleSystem.pushTrackingResult(demoScene.getFrame(timestamp), true);
+      }
       
-      if (hasTracking) {
+      if (hasTracking || demoScene) {
         // Update particle system (handles interpolation and physics)
         particleSystem.update(timestamp);
         
         // Get GPU buffer and render
         const buffer = particleSystem.getGPUBuffer();
         renderer.setParticleData(buffer, particleSystem.getParticleCount());
-      } else if (demoMode && demoDataRef.current) {
-        // Fallback to demo mode when no tracking
-        updateDemoParticles(w, h, timestamp, demoParticleCount);
-        renderer.setParticleData(demoDataRef.current, demoParticleCount);
       } else {
         // No particles to render - just clear
         renderer.setParticleData(new Float32Array(0), 0);
@@ -289,12 +417,13 @@ export function ParticleCanvas({
     // Set up resize listener
     window.addEventListener("resize", handleResize);
 
-    // Report stats periodically
-    if (onStats) {
+    // Report stats and latency periodically
+    if (onStats || onLatency) {
       statsIntervalRef.current = window.setInterval(() => {
         if (renderLoopRef.current) {
-          onStats(renderLoopRef.current.getStats());
+          onStats?.(renderLoopRef.current.getStats());
         }
+        onLatency?.({ ...particleSystem.getLatency() });
       }, 1000);
     }
 
@@ -314,13 +443,27 @@ export function ParticleCanvas({
         clearInterval(statsIntervalRef.current);
       }
       renderLoop.stop();
+      unbindControlsRef.current?.();
+      unbindControlsRef.current = null;
       particleSystem.dispose();
       renderer.dispose();
       rendererRef.current = null;
       renderLoopRef.current = null;
       particleSystemRef.current = null;
     };
-  }, [maxParticles, demoMode, onReady, onStats, handleResize, initDemoParticles, updateDemoParticles]);
+  }, [
+    maxParticles,
+    maxHands,
+    maxFaces,
+    body,
+    silhouette,
+    demoMode,
+    demoSeed,
+    onReady,
+    onStats,
+    onLatency,
+    handleResize,
+  ]);
 
   return (
     <canvas
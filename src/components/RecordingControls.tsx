@@ -0,0 +1,76 @@
+'use client';
+
+/**
+ * RecordingControls - Record/stop button for capturing tracking sessions
+ * Shows elapsed time and frame count while recording
+ */
+
+export interface RecordingControlsProps {
+  /** Whether a recording is in progress */
+  isRecording: boolean;
+  /** Recorded duration in milliseconds */
+  durationMs: number;
+  /** Recorded frame count */
+  frameCount: number;
+  /** Start recording, or stop and download */
+  onToggle: () => void;
+}
+
+/**
+ * Format milliseconds as m:ss
+ */
+export function formatSessionTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Record button with glassmorphism styling and red accent while recording
+ */
+export function RecordingControls({
+  isRecording,
+  durationMs,
+  frameCount,
+  onToggle,
+}: RecordingControlsProps) {
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      aria-pressed={isRecording}
+      aria-label={isRecording ? 'Stop recording and download session' : 'Record tracking session'}
+      className="flex items-center gap-2 px-4 py-2 text-sm font-medium transition-all duration-150 ease-out"
+      style={{
+        height: 40,
+        borderRadius: 20,
+        background: isRecording ? 'rgba(239, 68, 68, 0.15)' : 'rgba(255, 255, 255, 0.05)',
+        backdropFilter: 'blur(10px)',
+        WebkitBackdropFilter: 'blur(10px)',
+        border: isRecording
+          ? '1px solid rgba(239, 68, 68, 0.4)'
+          : '1px solid rgba(255, 255, 255, 0.1)',
+        color: isRecording ? '#F87171' : 'rgba(255, 255, 255, 0.7)',
+      }}
+    >
+      <span
+        aria-hidden="true"
+        className={isRecording ? 'animate-pulse' : undefined}
+        style={{
+          width: 10,
+          height: 10,
+          borderRadius: isRecording ? 2 : 5,
+          background: '#EF4444',
+        }}
+      />
+      {isRecording ? (
+        <span className="font-mono">
+          {formatSessionTime(durationMs)} • {frameCount} frames
+        </span>
+      ) : (
+        <span>Record</span>
+      )}
+    </button>
+  );
+}
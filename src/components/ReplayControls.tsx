@@ -0,0 +1,148 @@
+'use client';
+
+/**
+ * ReplayControls - Transport controls for a replayed tracking session
+ * Play/pause, seek bar, playback speed and loop toggle
+ */
+
+import { useState, useEffect, useCallback, type ChangeEvent } from 'react';
+import type { ReplayTrackingSource } from '@/core/tracking';
+import { formatSessionTime } from './RecordingControls';
+
+export interface ReplayControlsProps {
+  /** Replay source being played */
+  source: ReplayTrackingSource;
+}
+
+/** How often the seek bar follows the playhead (ms) */
+const PROGRESS_INTERVAL_MS = 100;
+
+const PLAYBACK_RATES = [0.25, 0.5, 1, 2];
+
+const buttonStyle = {
+  borderRadius: 16,
+  background: 'rgba(255, 255, 255, 0.05)',
+  border: '1px solid rgba(255, 255, 255, 0.1)',
+};
+
+/**
+ * Replay transport bar with glassmorphism styling
+ */
+export function ReplayControls({ source }: ReplayControlsProps) {
+  const [isPlaying, setIsPlaying] = useState(source.isRunning());
+  const [currentTime, setCurrentTime] = useState(source.getCurrentTime());
+  const [playbackRate, setPlaybackRate] = useState(source.getPlaybackRate());
+  const [isLooping, setIsLooping] = useState(source.isLooping());
+  const duration = source.getDuration();
+
+  // Follow the playhead (the source stops itself at the end of a non-looping replay)
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setCurrentTime(source.getCurrentTime());
+      setIsPlaying(source.isRunning());
+    }, PROGRESS_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [source]);
+
+  const handlePlayPause = useCallback(() => {
+    if (source.isRunning()) {
+      source.stop();
+      setIsPlaying(false);
+    } else {
+      void source.start();
+      setIsPlaying(true);
+    }
+  }, [source]);
+
+  const handleSeek = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const time = Number(event.target.value);
+      source.seek(time);
+      setCurrentTime(time);
+    },
+    [source]
+  );
+
+  const handleRateChange = useCallback(
+    (event: ChangeEvent<HTMLSelectElement>) => {
+      const rate = Number(event.target.value);
+      source.setPlaybackRate(rate);
+      setPlaybackRate(rate);
+    },
+    [source]
+  );
+
+  const handleLoopToggle = useCallback(() => {
+    source.setLoop(!source.isLooping());
+    setIsLooping(source.isLooping());
+  }, [source]);
+
+  return (
+    <div
+      className="flex items-center gap-3 px-4 py-2 text-sm text-white/70"
+      role="group"
+      aria-label="Session replay controls"
+      style={{
+        height: 40,
+        borderRadius: 20,
+        background: 'rgba(0, 0, 0, 0.4)',
+        backdropFilter: 'blur(10px)',
+        WebkitBackdropFilter: 'blur(10px)',
+        border: '1px solid rgba(255, 255, 255, 0.1)',
+      }}
+    >
+      <button
+        type="button"
+        onClick={handlePlayPause}
+        aria-label={isPlaying ? 'Pause replay' : 'Play replay'}
+        className="flex h-7 w-7 items-center justify-center transition-colors hover:text-white"
+        style={buttonStyle}
+      >
+        <span aria-hidden="true">{isPlaying ? '❚❚' : '▶'}</span>
+      </button>
+
+      <input
+        type="range"
+        min={0}
+        max={duration}
+        step={1}
+        value={currentTime}
+        onChange={handleSeek}
+        aria-label="Replay position"
+        className="w-48 accent-teal-400"
+      />
+
+      <span className="font-mono text-xs">
+        {formatSessionTime(currentTime)} / {formatSessionTime(duration)}
+      </span>
+
+      <select
+        value={playbackRate}
+        onChange={handleRateChange}
+        aria-label="Playback speed"
+        className="bg-transparent font-mono text-xs"
+      >
+        {PLAYBACK_RATES.map((rate) => (
+          <option key={rate} value={rate} className="bg-black">
+            {rate}×
+          </option>
+        ))}
+      </select>
+
+      <button
+        type="button"
+        onClick={handleLoopToggle}
+        aria-pressed={isLooping}
+        aria-label="Loop replay"
+        className="px-2 text-xs transition-colors hover:text-white"
+        style={{
+          ...buttonStyle,
+          color: isLooping ? '#14B8A6' : undefined,
+        }}
+      >
+        Loop
+      </button>
+    </div>
+  );
+}
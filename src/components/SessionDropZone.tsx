@@ -0,0 +1,134 @@
+'use client';
+
+/**
+ * SessionDropZone - Window-wide drag-and-drop import of recorded sessions
+ * (and video files to track, when accepted)
+ * Shows an overlay while a file is dragged over the page and a brief
+ * error message when the dropped file is not a valid session
+ */
+
+import { useState, useEffect } from 'react';
+import type { TrackingSession } from '@/core/tracking';
+import { readSessionFile } from '@/lib/sessionFiles';
+import { isVideoFile } from '@/lib/videoFiles';
+
+export interface SessionDropZoneProps {
+  /** Called with the decoded session after a successful drop */
+  onSessionLoaded: (session: TrackingSession) => void;
+  /** Called with a dropped video file (videos are rejected as sessions without it) */
+  onVideoLoaded?: (file: File) => void;
+}
+
+/** How long a load error stays visible (ms) */
+const ERROR_DISPLAY_MS = 4000;
+
+function hasFiles(event: DragEvent): boolean {
+  return event.dataTransfer?.types.includes('Files') ?? false;
+}
+
+/**
+ * Drop target covering the whole window
+ */
+export function SessionDropZone({ onSessionLoaded, onVideoLoaded }: SessionDropZoneProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // dragenter/dragleave fire for every child element, so count nesting depth
+    let depth = 0;
+
+    const handleDragEnter = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      depth++;
+      setIsDragging(true);
+    };
+
+    const handleDragOver = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+    };
+
+    const handleDragLeave = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      depth = Math.max(0, depth - 1);
+      if (depth === 0) setIsDragging(false);
+    };
+
+    const handleDrop = async (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      depth = 0;
+      setIsDragging(false);
+
+      const file = event.dataTransfer?.files[0];
+      if (!file) return;
+
+      if (onVideoLoaded && isVideoFile(file)) {
+        onVideoLoaded(file);
+        setError(null);
+        return;
+      }
+
+      try {
+        onSessionLoaded(await readSessionFile(file));
+        setError(null);
+      } catch (err) {
+        console.error('Session import error:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load session');
+      }
+    };
+
+    window.addEventListener('dragenter', handleDragEnter);
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+
+    return () => {
+      window.removeEventListener('dragenter', handleDragEnter);
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, [onSessionLoaded, onVideoLoaded]);
+
+  // Auto-dismiss errors
+  useEffect(() => {
+    if (!error) return;
+    const timeout = setTimeout(() => setError(null), ERROR_DISPLAY_MS);
+    return () => clearTimeout(timeout);
+  }, [error]);
+
+  return (
+    <>
+      {isDragging && (
+        <div
+          className="pointer-events-none fixed inset-0 z-[200] flex items-center justify-center"
+          style={{
+            background: 'rgba(0, 0, 0, 0.6)',
+            backdropFilter: 'blur(4px)',
+            WebkitBackdropFilter: 'blur(4px)',
+            border: '2px dashed rgba(20, 184, 166, 0.5)',
+          }}
+        >
+          <p className="text-lg font-medium text-teal-400">
+            {onVideoLoaded ? 'Drop a recording or video file' : 'Drop a recording to replay it'}
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <div
+          role="alert"
+          className="fixed bottom-16 left-1/2 z-[200] -translate-x-1/2 rounded-xl px-6 py-3"
+          style={{
+            background: 'rgba(239, 68, 68, 0.1)',
+            border: '1px solid rgba(239, 68, 68, 0.3)',
+          }}
+        >
+          <p className="text-sm text-red-400">{error}</p>
+        </div>
+      )}
+    </>
+  );
+}
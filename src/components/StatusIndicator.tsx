@@ -2,57 +2,67 @@
 
 /**
  * StatusIndicator - Displays detection status in top-right corner
- * Shows what's being tracked (hands, face) with colored indicator
+ * Shows what's being tracked (hands, face) with colored indicator,
+ * plus why tracking is degraded or has failed
  */
 
 import { useState, useEffect, useRef, useMemo } from 'react';
-import type { TrackingResult } from '@/lib/types';
+import type { TrackingStatus } from '@/core/tracking';
 
 export interface StatusIndicatorProps {
-  /** Current tracking result */
-  trackingResult: TrackingResult | null;
+  /** Hands in the current tracking result */
+  handCount: number;
+  /** Faces in the current tracking result */
+  faceCount: number;
   /** Whether MediaPipe is loading */
   isLoading: boolean;
   /** Error message if any */
   error: string | null;
+  /** Lifecycle of the tracking source (degraded and failed show their reason) */
+  status?: TrackingStatus;
 }
 
 type DetectionState = 'loading' | 'detecting' | 'partial' | 'none';
 
+const DEGRADED_COLOR = '#F97316'; // Orange
+const FAILED_COLOR = '#EF4444'; // Red
+
 /**
  * Status indicator showing real-time detection state
  * - Green dot when detecting hands and/or face
  * - Yellow dot for partial detection (1 hand only)
  * - Gray when nothing detected (after 2s delay)
+ * - Orange notice below while degraded, red text once tracking failed
  */
 export function StatusIndicator({
-  trackingResult,
+  handCount,
+  faceCount,
   isLoading,
   error,
+  status,
 }: StatusIndicatorProps) {
+  const failure = status?.state === 'failed' ? status.reason ?? 'unknown error' : null;
+  const notice = status?.state === 'degraded' ? status.reason : null;
+
   const [promptTimerComplete, setPromptTimerComplete] = useState(false);
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  // Compute detection info from tracking result
-  const { detectionState, handCount, hasFace, isDetecting } = useMemo(() => {
+  // Compute detection info from the tracked counts
+  const { detectionState, isDetecting } = useMemo(() => {
     if (isLoading) {
-      return { detectionState: 'loading' as DetectionState, handCount: 0, hasFace: false, isDetecting: false };
-    }
-    if (!trackingResult) {
-      return { detectionState: 'none' as DetectionState, handCount: 0, hasFace: false, isDetecting: false };
+      return { detectionState: 'loading' as DetectionState, isDetecting: false };
     }
     
-    const hands = trackingResult.hands.length;
-    const face = trackingResult.face !== null;
+    const face = faceCount > 0;
     
-    if (hands === 0 && !face) {
-      return { detectionState: 'none' as DetectionState, handCount: hands, hasFace: face, isDetecting: false };
+    if (handCount === 0 && !face) {
+      return { detectionState: 'none' as DetectionState, isDetecting: false };
     }
-    if (hands === 1 && !face) {
-      return { detectionState: 'partial' as DetectionState, handCount: hands, hasFace: face, isDetecting: true };
+    if (handCount === 1 && !face) {
+      return { detectionState: 'partial' as DetectionState, isDetecting: true };
     }
-    return { detectionState: 'detecting' as DetectionState, handCount: hands, hasFace: face, isDetecting: true };
-  }, [isLoading, trackingResult]);
+    return { detectionState: 'detecting' as DetectionState, isDetecting: true };
+  }, [isLoading, handCount, faceCount]);
 
   // Handle 2-second delay for "Show your hands" prompt
   // When not detecting, start timer; when detecting, clear timer and hide prompt
@@ -90,24 +100,27 @@ export function StatusIndicator({
   // Format status text
   const statusText = useMemo((): string => {
     if (isLoading) return 'Loading...';
+    if (failure) return `Tracking failed: ${failure}`;
     if (error) return `Error: ${error}`;
     
     const parts: string[] = [];
     
     if (handCount === 1) parts.push('1 hand');
-    else if (handCount === 2) parts.push('2 hands');
+    else if (handCount > 1) parts.push(`${handCount} hands`);
     
-    if (hasFace) parts.push('face');
+    if (faceCount === 1) parts.push('face');
+    else if (faceCount > 1) parts.push(`${faceCount} faces`);
     
     if (parts.length === 0) {
       return showPrompt ? 'Show your hands' : '';
     }
     
     return `${parts.join(' + ')} detected`;
-  }, [isLoading, error, handCount, hasFace, showPrompt]);
+  }, [isLoading, failure, error, handCount, faceCount, showPrompt]);
 
   // Get indicator color based on state
   const indicatorColor = useMemo((): string => {
+    if (failure) return FAILED_COLOR;
     switch (detectionState) {
       case 'loading':
         return '#71717A'; // Gray
@@ -119,10 +132,11 @@ export function StatusIndicator({
       default:
         return '#71717A'; // Gray
     }
-  }, [detectionState]);
+  }, [detectionState, failure]);
 
   // Get text color based on state
   const textColor = useMemo((): string => {
+    if (failure) return FAILED_COLOR;
     switch (detectionState) {
       case 'detecting':
         return '#22C55E'; // Green
@@ -131,10 +145,10 @@ export function StatusIndicator({
       default:
         return '#71717A'; // Gray
     }
-  }, [detectionState]);
+  }, [detectionState, failure]);
 
   // Don't render if no status to show
-  if (!statusText && !isLoading) {
+  if (!statusText && !isLoading && !notice) {
     return null;
   }
 
@@ -179,6 +193,16 @@ export function StatusIndicator({
           {statusText}
         </p>
       </div>
+
+      {/* Degraded notice (CPU fallback, reloading models) */}
+      {notice && (
+        <p
+          className="mt-1 max-w-64 px-4 text-right font-mono text-xs"
+          style={{ color: DEGRADED_COLOR }}
+        >
+          {notice}
+        </p>
+      )}
     </div>
   );
 }
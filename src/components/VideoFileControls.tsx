@@ -0,0 +1,172 @@
+'use client';
+
+/**
+ * VideoFileControls - Transport controls for a tracked video file
+ * Play/pause, seek bar, playback speed and loop toggle; tracking follows
+ * whatever frame the video shows, including while paused after a seek
+ */
+
+import { useState, useEffect, useCallback, type ChangeEvent } from 'react';
+import { formatSessionTime } from './RecordingControls';
+
+export interface VideoFileControlsProps {
+  /** Video element playing the file */
+  video: HTMLVideoElement;
+}
+
+const PLAYBACK_RATES = [0.25, 0.5, 1, 2];
+
+const buttonStyle = {
+  borderRadius: 16,
+  background: 'rgba(255, 255, 255, 0.05)',
+  border: '1px solid rgba(255, 255, 255, 0.1)',
+};
+
+/** Video duration in ms (0 until known; streams report Infinity) */
+function getDurationMs(video: HTMLVideoElement): number {
+  return Number.isFinite(video.duration) ? video.duration * 1000 : 0;
+}
+
+/** Move the playhead (ms); tracking picks up the frame shown after the seek */
+function seekVideo(video: HTMLVideoElement, timeMs: number): void {
+  video.currentTime = timeMs / 1000;
+}
+
+function setVideoRate(video: HTMLVideoElement, rate: number): void {
+  video.playbackRate = rate;
+}
+
+function setVideoLoop(video: HTMLVideoElement, loop: boolean): void {
+  video.loop = loop;
+}
+
+/**
+ * Video transport bar with glassmorphism styling
+ */
+export function VideoFileControls({ video }: VideoFileControlsProps) {
+  const [isPlaying, setIsPlaying] = useState(!video.paused);
+  const [currentTime, setCurrentTime] = useState(video.currentTime * 1000);
+  const [duration, setDuration] = useState(getDurationMs(video));
+  const [playbackRate, setPlaybackRate] = useState(video.playbackRate);
+  const [isLooping, setIsLooping] = useState(video.loop);
+
+  // Follow the video's own events (playback can also end or stall by itself)
+  useEffect(() => {
+    const handleTime = () => setCurrentTime(video.currentTime * 1000);
+    const handleDuration = () => setDuration(getDurationMs(video));
+    const handlePlayState = () => setIsPlaying(!video.paused);
+
+    video.addEventListener('timeupdate', handleTime);
+    video.addEventListener('durationchange', handleDuration);
+    video.addEventListener('play', handlePlayState);
+    video.addEventListener('pause', handlePlayState);
+    video.addEventListener('ended', handlePlayState);
+
+    return () => {
+      video.removeEventListener('timeupdate', handleTime);
+      video.removeEventListener('durationchange', handleDuration);
+      video.removeEventListener('play', handlePlayState);
+      video.removeEventListener('pause', handlePlayState);
+      video.removeEventListener('ended', handlePlayState);
+    };
+  }, [video]);
+
+  const handlePlayPause = useCallback(() => {
+    if (video.paused) {
+      video.play().catch((error) => console.error('Error playing video file:', error));
+    } else {
+      video.pause();
+    }
+  }, [video]);
+
+  const handleSeek = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const time = Number(event.target.value);
+      seekVideo(video, time);
+      setCurrentTime(time);
+    },
+    [video]
+  );
+
+  const handleRateChange = useCallback(
+    (event: ChangeEvent<HTMLSelectElement>) => {
+      const rate = Number(event.target.value);
+      setVideoRate(video, rate);
+      setPlaybackRate(rate);
+    },
+    [video]
+  );
+
+  const handleLoopToggle = useCallback(() => {
+    setVideoLoop(video, !video.loop);
+    setIsLooping(video.loop);
+  }, [video]);
+
+  return (
+    <div
+      className="flex items-center gap-3 px-4 py-2 text-sm text-white/70"
+      role="group"
+      aria-label="Video file controls"
+      style={{
+        height: 40,
+        borderRadius: 20,
+        background: 'rgba(0, 0, 0, 0.4)',
+        backdropFilter: 'blur(10px)',
+        WebkitBackdropFilter: 'blur(10px)',
+        border: '1px solid rgba(255, 255, 255, 0.1)',
+      }}
+    >
+      <button
+        type="button"
+        onClick={handlePlayPause}
+        aria-label={isPlaying ? 'Pause video' : 'Play video'}
+        className="flex h-7 w-7 items-center justify-center transition-colors hover:text-white"
+        style={buttonStyle}
+      >
+        <span aria-hidden="true">{isPlaying ? '❚❚' : '▶'}</span>
+      </button>
+
+      <input
+        type="range"
+        min={0}
+        max={duration}
+        step={1}
+        value={Math.min(currentTime, duration)}
+        onChange={handleSeek}
+        aria-label="Video position"
+        className="w-48 accent-teal-400"
+      />
+
+      <span className="font-mono text-xs">
+        {formatSessionTime(currentTime)} / {formatSessionTime(duration)}
+      </span>
+
+      <select
+        value={playbackRate}
+        onChange={handleRateChange}
+        aria-label="Playback speed"
+        className="bg-transparent font-mono text-xs"
+      >
+        {PLAYBACK_RATES.map((rate) => (
+          <option key={rate} value={rate} className="bg-black">
+            {rate}×
+          </option>
+        ))}
+      </select>
+
+      <button
+        type="button"
+        onClick={handleLoopToggle}
+        aria-pressed={isLooping}
+        aria-label="Loop video"
+        className="px-2 text-xs transition-colors hover:text-white"
+        style={{
+          ...buttonStyle,
+          color: isLooping ? '#14B8A6' : undefined,
+        }}
+      >
+        Loop
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+/**
+ * VideoFilePreview - Plays a local video file and tracks it like the camera
+ * Same size and overlays as CameraPreview; the video element is handed to
+ * the caller for transport controls
+ */
+
+import { useRef, useEffect, useState } from 'react';
+import { useHandTracking } from '@/lib/HandTrackingProvider';
+import { useCoordinateMapper } from '@/lib/useCoordinateMapper';
+import type { CoordinateMapping } from '@/core/coordinates';
+import { HandSkeleton } from './HandSkeleton';
+import { FaceMesh } from './FaceMesh';
+
+export interface VideoFilePreviewProps {
+  /** Video file to play (mp4/webm) */
+  file: Blob;
+  /** Called with the playing video element (null when it goes away) */
+  onVideoChange?: (video: HTMLVideoElement | null) => void;
+  width?: number;
+  height?: number;
+  /** Same mapping as the particle canvas, so the preview is a miniature of it */
+  mapping?: Partial<CoordinateMapping>;
+}
+
+export function VideoFilePreview({
+  file,
+  onVideoChange,
+  width = 256,
+  height = 144,
+  mapping,
+}: VideoFilePreviewProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const { startTracking, stopTracking } = useHandTracking();
+  const [imageAspect, setImageAspect] = useState<number>();
+  const mapper = useCoordinateMapper(mapping, width, height, imageAspect);
+  const imageRect = mapper.getImageRect();
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    let isMounted = true;
+    const url = URL.createObjectURL(file);
+
+    video.src = url;
+
+    // Follow the video's frame size (the video is placed by the mapper)
+    const handleResize = () => {
+      if (video.videoHeight > 0) setImageAspect(video.videoWidth / video.videoHeight);
+    };
+    video.addEventListener('loadedmetadata', handleResize);
+    video.addEventListener('resize', handleResize);
+    video.play().catch((error) => {
+      // Ignore AbortError - happens when component remounts in StrictMode
+      if (error.name === 'AbortError') return;
+      console.error('Error playing video file:', error);
+    });
+
+    // Start tracking when the first frame is decoded
+    const handleLoadedData = () => {
+      if (isMounted) {
+        startTracking(video);
+        onVideoChange?.(video);
+      }
+    };
+
+    video.addEventListener('loadeddata', handleLoadedData);
+
+    return () => {
+      isMounted = false;
+      video.removeEventListener('loadeddata', handleLoadedData);
+      video.removeEventListener('loadedmetadata', handleResize);
+      video.removeEventListener('resize', handleResize);
+      stopTracking();
+      onVideoChange?.(null);
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    };
+  }, [file, onVideoChange, startTracking, stopTracking]);
+
+  return (
+    <div
+      className="absolute left-1/2 top-4 z-[200] -translate-x-1/2 overflow-hidden rounded-lg"
+      style={{
+        width,
+        height,
+        background: 'rgba(0, 0, 0, 0.4)',
+        border: '1px solid rgba(255, 255, 255, 0.1)',
+        boxShadow: '0 4px 24px rgba(0, 0, 0, 0.5)',
+      }}
+    >
+      <video
+        ref={videoRef}
+        loop
+        playsInline
+        muted
+        className="absolute max-w-none object-fill"
+        style={{
+          left: imageRect.x,
+          top: imageRect.y,
+          width: imageRect.width,
+          height: imageRect.height,
+          transform: mapper.isMirrored() ? 'scaleX(-1)' : undefined,
+        }}
+        data-testid="video-file-preview"
+      />
+      {/* Hand skeleton overlay */}
+      <HandSkeleton width={width} height={height} mapper={mapper} />
+      {/* Face mesh overlay */}
+      <FaceMesh width={width} height={height} mapper={mapper} />
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
+export { CameraPicker, type CameraPickerProps } from "./CameraPicker";
 export { CameraPreview } from "./CameraPreview";
 export { FaceMesh } from "./FaceMesh";
 export { GridBackground } from "./GridBackground";
@@ -6,4 +7,9 @@ export { IntroScreen } from "./IntroScreen";
 export { KeyboardShortcuts, type KeyboardShortcutsProps } from "./KeyboardShortcuts";
 export { ModeToggle, type PhysicsModeType, type ModeToggleProps } from "./ModeToggle";
 export { ParticleCanvas, type ParticleCanvasProps } from "./ParticleCanvas";
+export { RecordingControls, type RecordingControlsProps } from "./RecordingControls";
+export { ReplayControls, type ReplayControlsProps } from "./ReplayControls";
+export { SessionDropZone, type SessionDropZoneProps } from "./SessionDropZone";
 export { StatusIndicator, type StatusIndicatorProps } from "./StatusIndicator";
+export { VideoFileControls, type VideoFileControlsProps } from "./VideoFileControls";
+export { VideoFilePreview, type VideoFilePreviewProps } from "./VideoFilePreview";
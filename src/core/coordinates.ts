@@ -0,0 +1,221 @@
+/**
+ * Coordinate mapping between the tracked image and a drawing surface
+ *
+ * Landmarks arrive normalized to the camera image (0-1 on both axes of a
+ * usually 16:9 frame). The mapper places that image on a target of any size:
+ * optionally cropped to a region of interest, fitted by cover, contain or
+ * stretch, mirrored for a selfie view and shifted by a calibration offset.
+ * Particles and the preview overlays share it so they always agree.
+ */
+
+/**
+ * How the image (or its region of interest) is fitted to the target
+ * - cover: fill the target, cropping the overflowing sides (no distortion)
+ * - contain: show everything, leaving bars (no distortion)
+ * - stretch: fill the target exactly (distorts when aspect ratios differ)
+ */
+export type FitMode = 'cover' | 'contain' | 'stretch';
+
+/**
+ * Part of the image to show, normalized to the image
+ */
+export interface RegionOfInterest {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Mapping settings
+ */
+export interface CoordinateMapping {
+  /** Flip horizontally (selfie view: your right hand appears on the right) */
+  mirror: boolean;
+  /** How the region of interest is fitted to the target */
+  fit: FitMode;
+  /** Part of the image mapped to the target */
+  roi: RegionOfInterest;
+  /** Calibration shift after fitting, in fractions of the target size */
+  offset: { x: number; y: number };
+  /** Image width / height, used until tracking reports the real one */
+  sourceAspect: number;
+}
+
+export const DEFAULT_COORDINATE_MAPPING: CoordinateMapping = {
+  mirror: true,
+  fit: 'cover',
+  roi: { x: 0, y: 0, width: 1, height: 1 },
+  offset: { x: 0, y: 0 },
+  sourceAspect: 16 / 9,
+};
+
+// Smallest region of interest side (keeps the scale finite)
+const MIN_ROI_SIZE = 0.01;
+
+/**
+ * Clamp a region of interest into the image
+ */
+function clampRoi(roi: RegionOfInterest): RegionOfInterest {
+  const width = Math.max(MIN_ROI_SIZE, Math.min(1, roi.width));
+  const height = Math.max(MIN_ROI_SIZE, Math.min(1, roi.height));
+  return {
+    x: Math.max(0, Math.min(1 - width, roi.x)),
+    y: Math.max(0, Math.min(1 - height, roi.y)),
+    width,
+    height,
+  };
+}
+
+/**
+ * Maps normalized image coordinates to target pixels
+ * PERF: the mapping is affine per axis; coefficients are recomputed only when
+ * the settings or sizes change, so mapX/mapY are a multiply-add
+ */
+export class CoordinateMapper {
+  private mapping: CoordinateMapping;
+  private sourceAspect: number;
+  private targetWidth = 1;
+  private targetHeight = 1;
+
+  // screen = scale * normalized + origin
+  private scaleX = 1;
+  private scaleY = 1;
+  private originX = 0;
+  private originY = 0;
+
+  /**
+   * @param mapping Settings (merged with DEFAULT_COORDINATE_MAPPING)
+   */
+  constructor(mapping: Partial<CoordinateMapping> = {}) {
+    this.mapping = { ...DEFAULT_COORDINATE_MAPPING, ...mapping };
+    this.mapping.roi = clampRoi(this.mapping.roi);
+    this.sourceAspect = this.mapping.sourceAspect;
+    this.update();
+  }
+
+  /**
+   * Change settings (unspecified fields keep their values)
+   */
+  setMapping(mapping: Partial<CoordinateMapping>): void {
+    this.mapping = { ...this.mapping, ...mapping };
+    this.mapping.roi = clampRoi(this.mapping.roi);
+    if (mapping.sourceAspect) this.sourceAspect = mapping.sourceAspect;
+    this.update();
+  }
+
+  getMapping(): Readonly<CoordinateMapping> {
+    return this.mapping;
+  }
+
+  /**
+   * Set the aspect ratio (width / height) of the tracked image
+   */
+  setSourceAspect(aspect: number): void {
+    if (!(aspect > 0) || aspect === this.sourceAspect) return;
+    this.sourceAspect = aspect;
+    this.update();
+  }
+
+  getSourceAspect(): number {
+    return this.sourceAspect;
+  }
+
+  /**
+   * Set the size of the drawing surface (pixels)
+   */
+  setTargetSize(width: number, height: number): void {
+    if (width === this.targetWidth && height === this.targetHeight) return;
+    this.targetWidth = Math.max(1, width);
+    this.targetHeight = Math.max(1, height);
+    this.update();
+  }
+
+  /**
+   * Size of the drawing surface (pixels)
+   */
+  getTargetSize(): { width: number; height: number } {
+    return { width: this.targetWidth, height: this.targetHeight };
+  }
+
+  isMirrored(): boolean {
+    return this.mapping.mirror;
+  }
+
+  /**
+   * Target x of a normalized image x
+   */
+  mapX(x: number): number {
+    return this.scaleX * x + this.originX;
+  }
+
+  /**
+   * Target y of a normalized image y
+   */
+  mapY(y: number): number {
+    return this.scaleY * y + this.originY;
+  }
+
+  /**
+   * Target pixels per normalized image unit on each axis (always positive;
+   * landmark z is in x units, so it scales with x)
+   */
+  getScale(): { x: number; y: number } {
+    return { x: Math.abs(this.scaleX), y: this.scaleY };
+  }
+
+  /**
+   * Where the whole image lands on the target (pixels), e.g. to place a
+   * video element under overlays drawn with this mapper
+   */
+  getImageRect(): { x: number; y: number; width: number; height: number } {
+    const left = Math.min(this.mapX(0), this.mapX(1));
+    return {
+      x: left,
+      y: this.originY,
+      width: Math.abs(this.scaleX),
+      height: this.scaleY,
+    };
+  }
+
+  private update(): void {
+    const { fit, roi, mirror, offset } = this.mapping;
+    const { targetWidth, targetHeight } = this;
+
+    // Region of interest size in image-height units
+    const roiWidth = roi.width * this.sourceAspect;
+    const roiHeight = roi.height;
+
+    let pixelsX: number;
+    let pixelsY: number;
+    if (fit === 'stretch') {
+      pixelsX = targetWidth / roiWidth;
+      pixelsY = targetHeight / roiHeight;
+    } else {
+      const fitScale =
+        fit === 'cover'
+          ? Math.max(targetWidth / roiWidth, targetHeight / roiHeight)
+          : Math.min(targetWidth / roiWidth, targetHeight / roiHeight);
+      pixelsX = fitScale;
+      pixelsY = fitScale;
+    }
+
+    // Center the fitted region, then shift by the calibration offset
+    const scaleX = this.sourceAspect * pixelsX;
+    const left = (targetWidth - roiWidth * pixelsX) / 2;
+    const top = (targetHeight - roiHeight * pixelsY) / 2;
+    const shiftX = offset.x * targetWidth;
+    const shiftY = offset.y * targetHeight;
+
+    if (mirror) {
+      // x = roi.x + roi.width lands on the left edge of the fitted region
+      this.scaleX = -scaleX;
+      this.originX = left + (roi.x + roi.width) * scaleX + shiftX;
+    } else {
+      this.scaleX = scaleX;
+      this.originX = left - roi.x * scaleX + shiftX;
+    }
+    this.scaleY = pixelsY;
+    this.originY = top - roi.y * pixelsY + shiftY;
+  }
+}
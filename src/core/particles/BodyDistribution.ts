@@ -0,0 +1,119 @@
+/**
+ * BodyDistribution - Limb-segment distribution for body particles
+ *
+ * Body particles fill the bones of the 33-point pose skeleton instead of
+ * clustering on landmarks: each segment runs between two joints (or joint
+ * midpoints) and is filled along its length, with a golden-ratio offset
+ * across its width. Widths scale with the on-screen shoulder width, so the
+ * figure keeps its proportions at any distance.
+ */
+
+import { PHI } from './HandDistribution';
+
+/**
+ * A filled bone between two skeleton points
+ * Each end is the midpoint of two pose landmarks (the same index twice for a joint)
+ */
+export interface BodySegment {
+  readonly name: string;
+  readonly from: readonly [number, number];
+  readonly to: readonly [number, number];
+  /** Segment width as a fraction of shoulder width */
+  readonly width: number;
+  /** Particles filling the segment */
+  readonly particles: number;
+}
+
+/**
+ * Default body segments (~4,100 particles)
+ * Torso gets the densest fill; limbs taper from upper to lower segments
+ */
+export const BODY_SEGMENTS: readonly BodySegment[] = [
+  { name: 'torso', from: [11, 12], to: [23, 24], width: 0.45, particles: 1400 },
+  { name: 'shoulders', from: [11, 11], to: [12, 12], width: 0.08, particles: 200 },
+  { name: 'hips', from: [23, 23], to: [24, 24], width: 0.08, particles: 150 },
+  { name: 'neck', from: [11, 12], to: [9, 10], width: 0.1, particles: 150 },
+  { name: 'leftUpperArm', from: [11, 11], to: [13, 13], width: 0.12, particles: 300 },
+  { name: 'rightUpperArm', from: [12, 12], to: [14, 14], width: 0.12, particles: 300 },
+  { name: 'leftForearm', from: [13, 13], to: [15, 15], width: 0.09, particles: 250 },
+  { name: 'rightForearm', from: [14, 14], to: [16, 16], width: 0.09, particles: 250 },
+  { name: 'leftThigh', from: [23, 23], to: [25, 25], width: 0.14, particles: 300 },
+  { name: 'rightThigh', from: [24, 24], to: [26, 26], width: 0.14, particles: 300 },
+  { name: 'leftShin', from: [25, 25], to: [27, 27], width: 0.1, particles: 250 },
+  { name: 'rightShin', from: [26, 26], to: [28, 28], width: 0.1, particles: 250 },
+];
+
+/**
+ * Average endpoint visibility a segment needs to be drawn
+ * (MediaPipe reports low visibility for joints outside the image)
+ */
+export const BODY_VISIBILITY_THRESHOLD = 0.5;
+
+/**
+ * Shoulder width (pixels) assumed when the shoulders overlap on screen
+ */
+export const MIN_SHOULDER_WIDTH = 40;
+
+/**
+ * Calculate total particles for the body
+ */
+export function calculateBodyParticleCount(
+  segments: readonly BodySegment[] = BODY_SEGMENTS
+): number {
+  let total = 0;
+  for (const segment of segments) {
+    total += segment.particles;
+  }
+  return total;
+}
+
+/**
+ * Whether a segment is drawn, from the visibility of its end landmarks
+ * @param visibility Visibility of a pose landmark by index
+ */
+export function isBodySegmentVisible(
+  segment: BodySegment,
+  visibility: (landmarkIndex: number) => number
+): boolean {
+  const from = (visibility(segment.from[0]) + visibility(segment.from[1])) / 2;
+  const to = (visibility(segment.to[0]) + visibility(segment.to[1])) / 2;
+  return (from + to) / 2 >= BODY_VISIBILITY_THRESHOLD;
+}
+
+/**
+ * Calculate a particle's position within a segment
+ * Particles are stratified along the segment (even coverage, no clumping at
+ * the joints) and spread across its width by the golden ratio
+ *
+ * @param particleIndex - Index of the particle within the segment
+ * @param totalParticles - Particles in the segment
+ * @param fromX, fromY - Segment start in pixels
+ * @param toX, toY - Segment end in pixels
+ * @param width - Segment width in pixels
+ * @returns Screen position { x, y }
+ */
+export function calculateBodyParticlePosition(
+  particleIndex: number,
+  totalParticles: number,
+  fromX: number,
+  fromY: number,
+  toX: number,
+  toY: number,
+  width: number
+): { x: number; y: number } {
+  const t = (particleIndex + 0.5) / Math.max(1, totalParticles);
+  const across = ((particleIndex * PHI) % 1) - 0.5;
+
+  const dx = toX - fromX;
+  const dy = toY - fromY;
+  const length = Math.sqrt(dx * dx + dy * dy) || 1;
+
+  // Unit normal to the segment
+  const nx = -dy / length;
+  const ny = dx / length;
+
+  return {
+    x: fromX + dx * t + nx * across * width,
+    y: fromY + dy * t + ny * across * width,
+  };
+}
@@ -10,7 +10,7 @@
  */
 
 /**
- * Detection states for entities (hands, face)
+ * Detection states for entities (hands, faces, body, silhouette)
  */
 export const enum DetectionState {
   /** Actively tracking, full opacity */
@@ -42,7 +42,7 @@ export const DETECTION_TIMING = {
 } as const;
 
 /**
- * State for a single detected entity (hand or face)
+ * State for a single detected entity (hand, face, body or silhouette)
  */
 interface EntityState {
   /** Current detection state */
@@ -60,14 +60,25 @@ interface EntityState {
 }
 
 /**
- * Manages detection states for hands and face with smooth transitions
+ * Manages detection states for hands, faces, the body and the silhouette with
+ * smooth transitions
  */
 export class DetectionStateManager {
-  /** State for each hand (index 0 and 1) */
-  private handStates: [EntityState, EntityState];
+  /** State for each hand slot */
+  private handStates: EntityState[];
   
-  /** State for face */
-  private faceState: EntityState;
+  /** State for each face slot */
+  private faceStates: EntityState[];
+  
+  /** State for the body */
+  private bodyState: EntityState;
+  
+  /** State for the segmentation silhouette */
+  private silhouetteState: EntityState;
+  
+  /** Number of hand and face slots */
+  private readonly handCount: number;
+  private readonly faceCount: number;
   
   /** Whether system is in global idle state (nothing detected for 500ms+) */
   private _isIdle = true;
@@ -75,12 +86,24 @@ export class DetectionStateManager {
   /** Last time anything was detected */
   private lastAnyDetectionAt = 0;
 
-  constructor() {
-    this.handStates = [
-      this.createInitialState(),
-      this.createInitialState(),
-    ];
-    this.faceState = this.createInitialState();
+  /**
+   * @param handCount Number of hand slots to track (default 2)
+   * @param faceCount Number of face slots to track (default 1)
+   */
+  constructor(handCount = 2, faceCount = 1) {
+    this.handCount = Math.max(1, handCount);
+    this.faceCount = Math.max(1, faceCount);
+    this.handStates = this.createStates(this.handCount);
+    this.faceStates = this.createStates(this.faceCount);
+    this.bodyState = this.createInitialState();
+    this.silhouetteState = this.createInitialState();
+  }
+
+  /**
+   * Create initial states for a number of slots
+   */
+  private createStates(count: number): EntityState[] {
+    return Array.from({ length: count }, () => this.createInitialState());
   }
 
   /**
@@ -101,23 +124,41 @@ export class DetectionStateManager {
    * Update detection states based on current detection results
    * @param timestamp Current timestamp (performance.now())
    * @param handsVisible Which hands are currently visible
-   * @param faceVisible Whether face is currently visible
+   * @param facesVisible Which face slots are currently visible (a single flag for the first face)
+   * @param bodyVisible Whether the body is currently visible
+   * @param silhouetteVisible Whether a person currently shows in the segmentation mask
    */
   update(
     timestamp: number,
     handsVisible: boolean[],
-    faceVisible: boolean
+    facesVisible: boolean | boolean[],
+    bodyVisible = false,
+    silhouetteVisible = false
   ): void {
     // Update hand states
-    for (let i = 0; i < 2; i++) {
-      this.updateEntityState(this.handStates[i], handsVisible[i], timestamp);
+    let anyHandVisible = false;
+    for (let i = 0; i < this.handStates.length; i++) {
+      const visible = !!handsVisible[i];
+      this.updateEntityState(this.handStates[i], visible, timestamp);
+      anyHandVisible ||= visible;
     }
     
-    // Update face state
-    this.updateEntityState(this.faceState, faceVisible, timestamp);
+    // Update face states
+    let anyFaceVisible = false;
+    for (let i = 0; i < this.faceStates.length; i++) {
+      const visible = Array.isArray(facesVisible) ? !!facesVisible[i] : i === 0 && facesVisible;
+      this.updateEntityState(this.faceStates[i], visible, timestamp);
+      anyFaceVisible ||= visible;
+    }
+    
+    // Update body state
+    this.updateEntityState(this.bodyState, bodyVisible, timestamp);
+    
+    // Update silhouette state
+    this.updateEntityState(this.silhouetteState, silhouetteVisible, timestamp);
     
     // Update global idle state
-    const anyDetected = handsVisible[0] || handsVisible[1] || faceVisible;
+    const anyDetected = anyHandVisible || anyFaceVisible || bodyVisible || silhouetteVisible;
     if (anyDetected) {
       this.lastAnyDetectionAt = timestamp;
       this._isIdle = false;
@@ -308,10 +349,24 @@ export class DetectionStateManager {
   }
 
   /**
-   * Get current state for face
+   * Get current state for a face slot
    */
-  getFaceState(): DetectionState {
-    return this.faceState.state;
+  getFaceState(index = 0): DetectionState {
+    return this.faceStates[index]?.state ?? DetectionState.Hidden;
+  }
+
+  /**
+   * Get current state for the body
+   */
+  getBodyState(): DetectionState {
+    return this.bodyState.state;
+  }
+
+  /**
+   * Get current state for the silhouette
+   */
+  getSilhouetteState(): DetectionState {
+    return this.silhouetteState.state;
   }
 
   /**
@@ -322,10 +377,24 @@ export class DetectionStateManager {
   }
 
   /**
-   * Get alpha multiplier for face (0-1)
+   * Get alpha multiplier for a face slot (0-1)
+   */
+  getFaceAlphaMultiplier(index = 0): number {
+    return this.faceStates[index]?.alphaMultiplier ?? 0;
+  }
+
+  /**
+   * Get alpha multiplier for the body (0-1)
+   */
+  getBodyAlphaMultiplier(): number {
+    return this.bodyState.alphaMultiplier;
+  }
+
+  /**
+   * Get alpha multiplier for the silhouette (0-1)
    */
-  getFaceAlphaMultiplier(): number {
-    return this.faceState.alphaMultiplier;
+  getSilhouetteAlphaMultiplier(): number {
+    return this.silhouetteState.alphaMultiplier;
   }
 
   /**
@@ -337,11 +406,27 @@ export class DetectionStateManager {
   }
 
   /**
-   * Check if face is in a fading state (for drift behavior)
+   * Check if a face is in a fading state (for drift behavior)
    */
-  isFaceFading(): boolean {
-    return this.faceState.state === DetectionState.FadingOut || 
-           this.faceState.state === DetectionState.Occluded;
+  isFaceFading(index = 0): boolean {
+    const state = this.faceStates[index]?.state;
+    return state === DetectionState.FadingOut || state === DetectionState.Occluded;
+  }
+
+  /**
+   * Check if the body is in a fading state (for drift behavior)
+   */
+  isBodyFading(): boolean {
+    const state = this.bodyState.state;
+    return state === DetectionState.FadingOut || state === DetectionState.Occluded;
+  }
+
+  /**
+   * Check if the silhouette is in a fading state (for drift behavior)
+   */
+  isSilhouetteFading(): boolean {
+    const state = this.silhouetteState.state;
+    return state === DetectionState.FadingOut || state === DetectionState.Occluded;
   }
 
   /**
@@ -352,10 +437,10 @@ export class DetectionStateManager {
   }
 
   /**
-   * Check if face is transitioning in (for position lerping)
+   * Check if a face is transitioning in (for position lerping)
    */
-  isFaceFadingIn(): boolean {
-    return this.faceState.state === DetectionState.FadingIn;
+  isFaceFadingIn(index = 0): boolean {
+    return this.faceStates[index]?.state === DetectionState.FadingIn;
   }
 
   /**
@@ -373,15 +458,16 @@ export class DetectionStateManager {
   }
 
   /**
-   * Get fade-in progress for face (0-1, for position lerping)
+   * Get fade-in progress for a face (0-1, for position lerping)
    */
-  getFaceFadeInProgress(): number {
-    if (this.faceState.state !== DetectionState.FadingIn) {
+  getFaceFadeInProgress(index = 0): number {
+    const entity = this.faceStates[index];
+    if (!entity || entity.state !== DetectionState.FadingIn) {
       return 1;
     }
     return Math.min(
       1,
-      (performance.now() - this.faceState.stateEnteredAt) / DETECTION_TIMING.FADEIN_DURATION
+      (performance.now() - entity.stateEnteredAt) / DETECTION_TIMING.FADEIN_DURATION
     );
   }
 
@@ -401,11 +487,27 @@ export class DetectionStateManager {
   }
 
   /**
-   * Check if face should update targets (when detected or fading in)
+   * Check if a face should update targets (when detected or fading in)
+   */
+  shouldUpdateFaceTargets(index = 0): boolean {
+    const state = this.faceStates[index]?.state;
+    return state === DetectionState.Detected || state === DetectionState.FadingIn;
+  }
+
+  /**
+   * Check if the body should update targets (when detected or fading in)
    */
-  shouldUpdateFaceTargets(): boolean {
-    return this.faceState.state === DetectionState.Detected || 
-           this.faceState.state === DetectionState.FadingIn;
+  shouldUpdateBodyTargets(): boolean {
+    const state = this.bodyState.state;
+    return state === DetectionState.Detected || state === DetectionState.FadingIn;
+  }
+
+  /**
+   * Check if the silhouette should update targets (when detected or fading in)
+   */
+  shouldUpdateSilhouetteTargets(): boolean {
+    const state = this.silhouetteState.state;
+    return state === DetectionState.Detected || state === DetectionState.FadingIn;
   }
 
   /**
@@ -416,21 +518,60 @@ export class DetectionStateManager {
   }
 
   /**
-   * Check if face is visible (not hidden)
+   * Number of hand slots
+   */
+  getHandCount(): number {
+    return this.handStates.length;
+  }
+
+  /**
+   * Number of hands currently visible (detected, occluded or fading)
+   */
+  getVisibleHandCount(): number {
+    let count = 0;
+    for (const entity of this.handStates) {
+      if (entity.state !== DetectionState.Hidden) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Check if a face is visible (not hidden)
+   */
+  isFaceVisible(index = 0): boolean {
+    const entity = this.faceStates[index];
+    return !!entity && entity.state !== DetectionState.Hidden;
+  }
+
+  /**
+   * Number of face slots
+   */
+  getFaceCount(): number {
+    return this.faceStates.length;
+  }
+
+  /**
+   * Check if the body is visible (not hidden)
+   */
+  isBodyVisible(): boolean {
+    return this.bodyState.state !== DetectionState.Hidden;
+  }
+
+  /**
+   * Check if the silhouette is visible (not hidden)
    */
-  isFaceVisible(): boolean {
-    return this.faceState.state !== DetectionState.Hidden;
+  isSilhouetteVisible(): boolean {
+    return this.silhouetteState.state !== DetectionState.Hidden;
   }
 
   /**
    * Reset state
    */
   reset(): void {
-    this.handStates = [
-      this.createInitialState(),
-      this.createInitialState(),
-    ];
-    this.faceState = this.createInitialState();
+    this.handStates = this.createStates(this.handCount);
+    this.faceStates = this.createStates(this.faceCount);
+    this.bodyState = this.createInitialState();
+    this.silhouetteState = this.createInitialState();
     this._isIdle = true;
     this.lastAnyDetectionAt = 0;
   }
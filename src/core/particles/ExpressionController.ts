@@ -0,0 +1,251 @@
+/**
+ * ExpressionController - Maps face blendshapes to particle behaviors
+ *
+ * Behaviors (per face slot):
+ * - jawOpen: opening the mouth bursts the lip particles outward
+ * - eyeBlink: a blink bursts the particles around each eye
+ * - browInnerUp: raising the brows widens the face particle spread
+ * - mouthSmile: holding a smile cycles the color theme
+ */
+
+import { LEFT_EYE, RIGHT_EYE, type FaceBlendshapes } from '@/lib/types';
+import { ExponentialSmoother } from '../performance';
+import { themeManager as defaultThemeManager, type ThemeManager } from '../themes';
+import { LIPS_LANDMARKS } from './FaceDistribution';
+import type { ParticlePhysics } from './ParticlePhysics';
+import type { ParticlePool } from './ParticlePool';
+
+/**
+ * Expression mapping settings
+ * Thresholds compare against smoothed blendshape scores (0-1)
+ */
+export interface ExpressionConfig {
+  /** Whether expressions drive particles at all */
+  enabled: boolean;
+  /** jawOpen score that triggers a lip burst */
+  jawOpenThreshold: number;
+  /** Outward velocity of a lip burst (pixels/step) */
+  lipBurstStrength: number;
+  /** eyeBlink score (average of both eyes) that triggers an eye burst */
+  blinkThreshold: number;
+  /** Outward velocity of an eye burst (pixels/step) */
+  eyeBurstStrength: number;
+  /** Extra face spread per unit of browInnerUp (spread = 1 + score * gain) */
+  browSpreadGain: number;
+  /** mouthSmile score (average of both corners) that counts as smiling */
+  smileThreshold: number;
+  /** How long a smile must be held before the theme changes (ms) */
+  smileHoldMs: number;
+  /** Minimum time between smile-driven theme changes (ms) */
+  themeCooldownMs: number;
+  /** Smoothing factor for blendshape scores (0-1, lower = smoother) */
+  smoothing: number;
+}
+
+export const DEFAULT_EXPRESSION_CONFIG: ExpressionConfig = {
+  enabled: true,
+  jawOpenThreshold: 0.45,
+  lipBurstStrength: 12,
+  blinkThreshold: 0.6,
+  eyeBurstStrength: 6,
+  browSpreadGain: 3,
+  smileThreshold: 0.6,
+  smileHoldMs: 600,
+  themeCooldownMs: 2500,
+  smoothing: 0.35,
+};
+
+/**
+ * Smoothed expression scores for one face
+ */
+export interface ExpressionState {
+  jawOpen: number;
+  eyeBlink: number;
+  browInnerUp: number;
+  mouthSmile: number;
+}
+
+// Scores must drop this far below a threshold before the behavior can fire again
+const RETRIGGER_HYSTERESIS = 0.15;
+
+/**
+ * Per-face tracking of smoothed scores and trigger state
+ */
+interface FaceExpression {
+  jawOpen: ExponentialSmoother;
+  eyeBlink: ExponentialSmoother;
+  browInnerUp: ExponentialSmoother;
+  mouthSmile: ExponentialSmoother;
+  state: ExpressionState;
+  mouthOpen: boolean;
+  eyesClosed: boolean;
+  /** When the current smile started (null when not smiling) */
+  smileStartedAt: number | null;
+  /** Whether the current smile already changed the theme */
+  smileConsumed: boolean;
+}
+
+/**
+ * Turns blendshapes into lip/eye bursts, face spread and theme changes
+ */
+export class ExpressionController {
+  /** Current settings */
+  private config: ExpressionConfig;
+
+  private readonly themes: ThemeManager;
+  private faces: FaceExpression[];
+  private lastThemeChangeAt = -Infinity;
+
+  /**
+   * @param faceCount Face slots to track
+   * @param config Settings (merged with DEFAULT_EXPRESSION_CONFIG)
+   * @param themes Theme manager smiles cycle (default: the global one)
+   */
+  constructor(
+    faceCount = 1,
+    config: Partial<ExpressionConfig> = {},
+    themes: ThemeManager = defaultThemeManager
+  ) {
+    this.config = { ...DEFAULT_EXPRESSION_CONFIG, ...config };
+    this.themes = themes;
+    this.faces = Array.from({ length: Math.max(1, faceCount) }, () =>
+      this.createFace(this.config.smoothing)
+    );
+  }
+
+  private createFace(smoothing: number): FaceExpression {
+    return {
+      jawOpen: new ExponentialSmoother(smoothing),
+      eyeBlink: new ExponentialSmoother(smoothing),
+      browInnerUp: new ExponentialSmoother(smoothing),
+      mouthSmile: new ExponentialSmoother(smoothing),
+      state: { jawOpen: 0, eyeBlink: 0, browInnerUp: 0, mouthSmile: 0 },
+      mouthOpen: false,
+      eyesClosed: false,
+      smileStartedAt: null,
+      smileConsumed: false,
+    };
+  }
+
+  /**
+   * Apply one face's expression to its particles (call once per render frame)
+   * @param faceIndex Face slot
+   * @param blendshapes Latest blendshapes (null when the face is gone or they are disabled)
+   * @param timestamp Render timestamp (ms)
+   */
+  update(
+    faceIndex: number,
+    blendshapes: FaceBlendshapes | null,
+    timestamp: number,
+    pool: ParticlePool,
+    physics: ParticlePhysics
+  ): void {
+    const face = this.faces[faceIndex];
+    if (!face) return;
+
+    if (!this.config.enabled || !blendshapes) {
+      this.resetFace(face);
+      pool.setFaceSpreadScale(faceIndex, 1);
+      return;
+    }
+
+    const { config } = this;
+    const state = face.state;
+    state.jawOpen = face.jawOpen.smooth(blendshapes.jawOpen);
+    state.eyeBlink = face.eyeBlink.smooth(
+      (blendshapes.eyeBlinkLeft + blendshapes.eyeBlinkRight) / 2
+    );
+    state.browInnerUp = face.browInnerUp.smooth(blendshapes.browInnerUp);
+    state.mouthSmile = face.mouthSmile.smooth(
+      (blendshapes.mouthSmileLeft + blendshapes.mouthSmileRight) / 2
+    );
+
+    // Raised brows widen the spread continuously
+    pool.setFaceSpreadScale(faceIndex, 1 + state.browInnerUp * config.browSpreadGain);
+
+    // Opening the mouth bursts the lips once per opening
+    if (!face.mouthOpen && state.jawOpen >= config.jawOpenThreshold) {
+      face.mouthOpen = true;
+      physics.applyFaceBurst(faceIndex, LIPS_LANDMARKS, config.lipBurstStrength);
+    } else if (face.mouthOpen && state.jawOpen < config.jawOpenThreshold - RETRIGGER_HYSTERESIS) {
+      face.mouthOpen = false;
+    }
+
+    // Blinking bursts each eye (around its own center) once per blink
+    if (!face.eyesClosed && state.eyeBlink >= config.blinkThreshold) {
+      face.eyesClosed = true;
+      physics.applyFaceBurst(faceIndex, LEFT_EYE, config.eyeBurstStrength);
+      physics.applyFaceBurst(faceIndex, RIGHT_EYE, config.eyeBurstStrength);
+    } else if (face.eyesClosed && state.eyeBlink < config.blinkThreshold - RETRIGGER_HYSTERESIS) {
+      face.eyesClosed = false;
+    }
+
+    // A held smile cycles the theme once per smile (shared cooldown across faces)
+    if (state.mouthSmile >= config.smileThreshold) {
+      face.smileStartedAt ??= timestamp;
+      if (
+        !face.smileConsumed &&
+        timestamp - face.smileStartedAt >= config.smileHoldMs &&
+        timestamp - this.lastThemeChangeAt >= config.themeCooldownMs
+      ) {
+        face.smileConsumed = true;
+        this.lastThemeChangeAt = timestamp;
+        this.themes.cycleTheme();
+      }
+    } else if (state.mouthSmile < config.smileThreshold - RETRIGGER_HYSTERESIS) {
+      face.smileStartedAt = null;
+      face.smileConsumed = false;
+    }
+  }
+
+  /**
+   * Smoothed expression scores of a face slot (all 0 when inactive)
+   */
+  getState(faceIndex = 0): Readonly<ExpressionState> | null {
+    return this.faces[faceIndex]?.state ?? null;
+  }
+
+  /**
+   * Get current settings
+   */
+  getConfig(): ExpressionConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Update settings (a smoothing change restarts the smoothed scores)
+   */
+  setConfig(config: Partial<ExpressionConfig>): void {
+    const smoothingChanged =
+      config.smoothing !== undefined && config.smoothing !== this.config.smoothing;
+    this.config = { ...this.config, ...config };
+    if (smoothingChanged) {
+      this.faces = this.faces.map(() => this.createFace(this.config.smoothing));
+    }
+  }
+
+  /**
+   * Reset all faces
+   */
+  reset(): void {
+    for (const face of this.faces) {
+      this.resetFace(face);
+    }
+    this.lastThemeChangeAt = -Infinity;
+  }
+
+  private resetFace(face: FaceExpression): void {
+    face.jawOpen.reset();
+    face.eyeBlink.reset();
+    face.browInnerUp.reset();
+    face.mouthSmile.reset();
+    face.state.jawOpen = 0;
+    face.state.eyeBlink = 0;
+    face.state.browInnerUp = 0;
+    face.state.mouthSmile = 0;
+    face.mouthOpen = false;
+    face.eyesClosed = false;
+    face.smileStartedAt = null;
+    face.smileConsumed = false;
+  }
+}
@@ -1,14 +1,18 @@
 /**
  * FaceDistribution - Tight clustering distribution for face particles
  * 
- * Implements zone-specific particle distribution for 468 face landmarks:
+ * Implements zone-specific particle distribution for 478 face landmarks
+ * (468 mesh points plus 10 iris points):
  * - All zones: 1-2px spread (ultra-tight clustering for mesh effect)
- * - Depth enhancement: nose forward, cheekbones forward, eye sockets recessed
+ * - Depth enhancement: nose forward, cheekbones forward, eye sockets recessed,
+ *   irises slightly forward of the sockets
  * - Exponential depth-based scaling (reduced sensitivity vs hands)
  * 
  * Uses golden ratio for organic spiral placement.
  */
 
+import { LEFT_IRIS, RIGHT_IRIS } from '@/lib/types';
+import { FACE_LANDMARK_CAPACITY } from '../tracking/LandmarkFrame';
 import { GOLDEN_ANGLE } from './HandDistribution';
 import { calculateDepthScale, calculateDepthAlpha, FACE_DEPTH_SCALING } from './DepthScaling';
 
@@ -28,6 +32,8 @@ export const enum FaceLandmarkCategory {
   Contour = 4,
   /** General face area - neutral depth */
   General = 5,
+  /** Irises (only in 478-point results) - denser, slightly forward */
+  Iris = 6,
 }
 
 /**
@@ -91,17 +97,24 @@ export const CONTOUR_LANDMARKS = [
   172, 58, 132, 93, 234, 127, 162, 21, 54, 103, 67, 109
 ] as const;
 
+/**
+ * Iris landmarks (center and ring of each eye)
+ */
+export const IRIS_LANDMARKS = [...LEFT_IRIS, ...RIGHT_IRIS] as const;
+
 // Pre-computed lookup set for faster category lookup
 const noseLandmarkSet = new Set<number>(NOSE_LANDMARKS);
 const cheekboneLandmarkSet = new Set<number>(CHEEKBONE_LANDMARKS);
 const eyeSocketLandmarkSet = new Set<number>(EYE_SOCKET_LANDMARKS);
 const lipsLandmarkSet = new Set<number>(LIPS_LANDMARKS);
 const contourLandmarkSet = new Set<number>(CONTOUR_LANDMARKS);
+const irisLandmarkSet = new Set<number>(IRIS_LANDMARKS);
 
 /**
  * Get the category of a face landmark by index
  */
 export function getFaceLandmarkCategory(index: number): FaceLandmarkCategory {
+  if (irisLandmarkSet.has(index)) return FaceLandmarkCategory.Iris;
   if (noseLandmarkSet.has(index)) return FaceLandmarkCategory.Nose;
   if (cheekboneLandmarkSet.has(index)) return FaceLandmarkCategory.Cheekbone;
   if (eyeSocketLandmarkSet.has(index)) return FaceLandmarkCategory.EyeSocket;
@@ -134,13 +147,14 @@ export interface FaceDistributionConfig {
   readonly lips: FaceZoneConfig;
   readonly contour: FaceZoneConfig;
   readonly general: FaceZoneConfig;
+  readonly iris: FaceZoneConfig;
 }
 
 /**
  * Default face distribution configuration matching UX spec
- * - Ultra-tight 1-2px clustering across all 468 landmarks
+ * - Ultra-tight 1-2px clustering across all 478 landmarks
  * - Depth boost for 3D effect: nose forward, eye sockets recessed
- * - ~12 particles per landmark = ~5,616 total particles
+ * - ~12 particles per landmark = ~5,750 total particles
  */
 export const DEFAULT_FACE_DISTRIBUTION: FaceDistributionConfig = {
   nose: {
@@ -179,6 +193,12 @@ export const DEFAULT_FACE_DISTRIBUTION: FaceDistributionConfig = {
     depthBoost: 1.0,   // Neutral
     particlesPerLandmark: 12,
   },
+  iris: {
+    spreadMin: 1,
+    spreadMax: 2.5,
+    depthBoost: 1.1,   // In front of the recessed sockets
+    particlesPerLandmark: 16, // Dense, so eye effects have particles to work with
+  },
 };
 
 /**
@@ -211,6 +231,8 @@ export function getFaceZoneConfig(
       return config.lips;
     case FaceLandmarkCategory.Contour:
       return config.contour;
+    case FaceLandmarkCategory.Iris:
+      return config.iris;
     default:
       return config.general;
   }
@@ -227,7 +249,7 @@ export function getFaceParticlesPerLandmark(
 }
 
 /**
- * Calculate total particles for face (468 landmarks)
+ * Calculate total particles for face (478 landmarks)
  * Returns a value between 4,000-6,000 as per spec
  */
 export function calculateFaceParticleCount(
@@ -235,11 +257,11 @@ export function calculateFaceParticleCount(
 ): number {
   let total = 0;
   
-  for (let lm = 0; lm < 468; lm++) {
+  for (let lm = 0; lm < FACE_LANDMARK_CAPACITY; lm++) {
     total += getFaceParticlesPerLandmark(lm, config);
   }
   
-  return total; // Should be ~5,600 with default config
+  return total; // Should be ~5,750 with default config
 }
 
 /**
@@ -305,11 +327,12 @@ export function calculateFaceParticleOffset(
  * Calculate face particle spread with zone-aware settings
  * Uses exponential depth scaling with reduced sensitivity (face less sensitive than hands)
  * 
- * @param landmarkIndex - Index of the face landmark (0-467)
+ * @param landmarkIndex - Index of the face landmark (0-477)
  * @param particleIndex - Index of the particle for this landmark
  * @param totalParticles - Total particles allocated to this landmark
  * @param landmarkZ - Z-depth from MediaPipe
  * @param config - Distribution configuration
+ * @param spreadScale - Multiplier on the spread (expressions widen it, default: 1)
  * @returns { offsetX, offsetY, adjustedZ, alpha }
  */
 export function calculateFaceParticleSpread(
@@ -317,7 +340,8 @@ export function calculateFaceParticleSpread(
   particleIndex: number,
   totalParticles: number,
   landmarkZ: number = 0,
-  config: FaceDistributionConfig = DEFAULT_FACE_DISTRIBUTION
+  config: FaceDistributionConfig = DEFAULT_FACE_DISTRIBUTION,
+  spreadScale: number = 1
 ): { offsetX: number; offsetY: number; adjustedZ: number; alpha: number } {
   const zoneConfig = getFaceZoneConfig(landmarkIndex, config);
   
@@ -332,7 +356,7 @@ export function calculateFaceParticleSpread(
     zoneConfig.spreadMax,
     zoneConfig.depthBoost,
     landmarkZ,
-    spreadDepthScale
+    spreadDepthScale * spreadScale
   );
   
   // Calculate depth-adjusted alpha using centralized function
@@ -378,6 +402,8 @@ export function getFaceLandmarkRegion(index: number): string {
       return 'LIPS';
     case FaceLandmarkCategory.Contour:
       return 'CONTOUR';
+    case FaceLandmarkCategory.Iris:
+      return 'IRIS';
     default:
       return 'GENERAL';
   }
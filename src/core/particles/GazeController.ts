@@ -0,0 +1,211 @@
+/**
+ * GazeController - Maps the gaze estimate to particle behaviors
+ *
+ * Effects:
+ * - beam: iris particles stream out along each face's on-screen gaze direction
+ * - follow: all particles lean toward where the first tracked face looks
+ */
+
+import type { Gaze } from '@/lib/types';
+import { ExponentialSmoother } from '../performance';
+import { IRIS_LANDMARKS } from './FaceDistribution';
+import type { ParticlePhysics } from './ParticlePhysics';
+import type { ParticlePool } from './ParticlePool';
+
+/**
+ * What the gaze drives
+ * - none: nothing (iris particles still follow the irises)
+ * - beam: eye beams along the gaze
+ * - follow: an attractor at the gaze point
+ */
+export type GazeEffect = 'none' | 'beam' | 'follow';
+
+/**
+ * Gaze effect settings
+ */
+export interface GazeConfig {
+  /** Effect the gaze drives */
+  effect: GazeEffect;
+  /** Launch velocity of beam particles (pixels/step) */
+  beamStrength: number;
+  /** Chance (0-1) that each visible iris particle launches per render frame */
+  beamRate: number;
+  /** Pull toward the gaze point (pixels/step) */
+  followStrength: number;
+  /** Smoothing factor for the gaze (0-1, lower = smoother) */
+  smoothing: number;
+}
+
+export const DEFAULT_GAZE_CONFIG: GazeConfig = {
+  effect: 'none',
+  beamStrength: 9,
+  beamRate: 0.15,
+  followStrength: 0.25,
+  smoothing: 0.3,
+};
+
+// Smallest on-screen gaze tilt (direction x/y length) that aims a beam;
+// closer to the camera axis the beam would point out of the screen
+const MIN_BEAM_TILT = 0.05;
+
+/**
+ * Per-face smoothed gaze
+ */
+interface FaceGaze {
+  directionX: ExponentialSmoother;
+  directionY: ExponentialSmoother;
+  directionZ: ExponentialSmoother;
+  pointX: ExponentialSmoother;
+  pointY: ExponentialSmoother;
+  /** Smoothed gaze (valid while active) */
+  gaze: Gaze;
+  active: boolean;
+}
+
+/**
+ * Turns gaze estimates into eye beams or a gaze-following attractor
+ */
+export class GazeController {
+  /** Current settings */
+  private config: GazeConfig;
+
+  private faces: FaceGaze[];
+
+  /**
+   * @param faceCount Face slots to track
+   * @param config Settings (merged with DEFAULT_GAZE_CONFIG)
+   */
+  constructor(faceCount = 1, config: Partial<GazeConfig> = {}) {
+    this.config = { ...DEFAULT_GAZE_CONFIG, ...config };
+    this.faces = Array.from({ length: Math.max(1, faceCount) }, () =>
+      this.createFace(this.config.smoothing)
+    );
+  }
+
+  private createFace(smoothing: number): FaceGaze {
+    return {
+      directionX: new ExponentialSmoother(smoothing),
+      directionY: new ExponentialSmoother(smoothing),
+      directionZ: new ExponentialSmoother(smoothing),
+      pointX: new ExponentialSmoother(smoothing),
+      pointY: new ExponentialSmoother(smoothing),
+      gaze: { direction: { x: 0, y: 0, z: -1 }, point: { x: 0.5, y: 0.5 } },
+      active: false,
+    };
+  }
+
+  /**
+   * Whether an effect is on (the gaze is not smoothed otherwise)
+   */
+  isEnabled(): boolean {
+    return this.config.effect !== 'none';
+  }
+
+  /**
+   * Smooth one face's gaze and fire its eye beam (call once per render frame)
+   * @param faceIndex Face slot
+   * @param gaze Latest gaze (null when the face is gone or has no irises)
+   */
+  update(faceIndex: number, gaze: Gaze | null, pool: ParticlePool, physics: ParticlePhysics): void {
+    const face = this.faces[faceIndex];
+    if (!face) return;
+
+    if (!this.isEnabled() || !gaze) {
+      this.resetFace(face);
+      return;
+    }
+
+    const x = face.directionX.smooth(gaze.direction.x);
+    const y = face.directionY.smooth(gaze.direction.y);
+    const z = face.directionZ.smooth(gaze.direction.z);
+    const length = Math.hypot(x, y, z) || 1;
+    const { direction, point } = face.gaze;
+    direction.x = x / length;
+    direction.y = y / length;
+    direction.z = z / length;
+    point.x = face.pointX.smooth(gaze.point.x);
+    point.y = face.pointY.smooth(gaze.point.y);
+    face.active = true;
+
+    if (this.config.effect !== 'beam') return;
+
+    // On a mirrored canvas a look toward the camera image's right points left on screen
+    const mirrorSign = pool.mapper.isMirrored() ? -1 : 1;
+    const screenX = mirrorSign * direction.x;
+    const screenY = direction.y;
+    const tilt = Math.hypot(screenX, screenY);
+    if (tilt < MIN_BEAM_TILT) return;
+
+    physics.applyFaceBeam(
+      faceIndex,
+      IRIS_LANDMARKS,
+      screenX / tilt,
+      screenY / tilt,
+      this.config.beamStrength,
+      this.config.beamRate
+    );
+  }
+
+  /**
+   * Pull particles toward the first tracked face's gaze point (call once per
+   * render frame after update)
+   */
+  applyFollow(pool: ParticlePool, physics: ParticlePhysics): void {
+    if (this.config.effect !== 'follow') return;
+
+    const face = this.faces.find((candidate) => candidate.active);
+    if (!face) return;
+
+    physics.applyAttraction(
+      pool.mapper.mapX(face.gaze.point.x),
+      pool.mapper.mapY(face.gaze.point.y),
+      this.config.followStrength
+    );
+  }
+
+  /**
+   * Smoothed gaze of a face slot
+   * @returns null while the slot has no gaze or no effect is on
+   */
+  getGaze(faceIndex = 0): Readonly<Gaze> | null {
+    const face = this.faces[faceIndex];
+    return face?.active ? face.gaze : null;
+  }
+
+  /**
+   * Get current settings
+   */
+  getConfig(): GazeConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Update settings (a smoothing change restarts the smoothed gazes)
+   */
+  setConfig(config: Partial<GazeConfig>): void {
+    const smoothingChanged =
+      config.smoothing !== undefined && config.smoothing !== this.config.smoothing;
+    this.config = { ...this.config, ...config };
+    if (smoothingChanged) {
+      this.faces = this.faces.map(() => this.createFace(this.config.smoothing));
+    }
+  }
+
+  /**
+   * Reset all faces
+   */
+  reset(): void {
+    for (const face of this.faces) {
+      this.resetFace(face);
+    }
+  }
+
+  private resetFace(face: FaceGaze): void {
+    face.directionX.reset();
+    face.directionY.reset();
+    face.directionZ.reset();
+    face.pointX.reset();
+    face.pointY.reset();
+    face.active = false;
+  }
+}
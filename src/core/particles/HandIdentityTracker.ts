@@ -0,0 +1,315 @@
+/**
+ * HandIdentityTracker - Stable identities for detected hands
+ *
+ * MediaPipe returns hands in no particular order, so every detection frame
+ * hands are matched to the tracks of the previous frames: each track predicts
+ * where its palm should be from its velocity, and detections are paired with
+ * the closest prediction (handedness disagreement adds a penalty rather than
+ * forbidding the match, since MediaPipe's handedness can flicker). A track
+ * outlives its hand for as long as DetectionStateManager keeps the slot
+ * occluded or fading, so a hand that returns reclaims its slot and particles.
+ */
+
+import type { HandLandmarks } from '@/lib/types';
+import { LANDMARK_STRIDE, type LandmarkFrame } from '../tracking/LandmarkFrame';
+import { DETECTION_TIMING } from './DetectionStateManager';
+import { PALM_LANDMARKS } from './HandDistribution';
+
+/**
+ * Matching settings (distances in normalized image units)
+ */
+export interface HandIdentityConfig {
+  /** Farthest a hand can be from a track's predicted palm and still match it */
+  maxMatchDistance: number;
+  /** Cost added when a hand's handedness disagrees with its track */
+  handednessPenalty: number;
+  /** How long a track waits for its hand to return (ms) */
+  retentionMs: number;
+  /** Smoothing factor for track velocity (0-1, lower = smoother) */
+  velocitySmoothing: number;
+}
+
+export const DEFAULT_HAND_IDENTITY_CONFIG: HandIdentityConfig = {
+  maxMatchDistance: 0.25,
+  handednessPenalty: 0.08,
+  retentionMs: DETECTION_TIMING.OCCLUSION_THRESHOLD + DETECTION_TIMING.FADEOUT_DURATION,
+  velocitySmoothing: 0.5,
+};
+
+/**
+ * A hand followed across frames (one per slot)
+ */
+interface HandTrack {
+  /** Stable identity (null while the slot has never held a hand or has expired) */
+  id: number | null;
+  /** Last palm center */
+  x: number;
+  y: number;
+  /** Palm velocity (units/ms) */
+  vx: number;
+  vy: number;
+  handedness: 'Left' | 'Right';
+  /** Timestamp of the last matched detection */
+  lastSeenAt: number;
+}
+
+// Velocity prediction is capped so a long gap cannot fling a track off screen
+const MAX_PREDICTION_MS = 150;
+
+/**
+ * Palm center of a hand (average of the palm landmarks)
+ */
+function getPalmCenter(hand: HandLandmarks, out: { x: number; y: number }): void {
+  let x = 0;
+  let y = 0;
+  let count = 0;
+  for (const index of PALM_LANDMARKS) {
+    const landmark = hand.landmarks[index];
+    if (!landmark) continue;
+    x += landmark.x;
+    y += landmark.y;
+    count++;
+  }
+  out.x = count > 0 ? x / count : 0.5;
+  out.y = count > 0 ? y / count : 0.5;
+}
+
+/**
+ * Palm center of a hand in a landmark frame
+ */
+function getFramePalmCenter(
+  frame: LandmarkFrame,
+  hand: number,
+  out: { x: number; y: number }
+): void {
+  const offset = frame.handOffset(hand);
+  let x = 0;
+  let y = 0;
+  for (const index of PALM_LANDMARKS) {
+    x += frame.data[offset + index * LANDMARK_STRIDE];
+    y += frame.data[offset + index * LANDMARK_STRIDE + 1];
+  }
+  out.x = x / PALM_LANDMARKS.length;
+  out.y = y / PALM_LANDMARKS.length;
+}
+
+/**
+ * Assigns each detected hand to a slot that follows the same physical hand
+ */
+export class HandIdentityTracker {
+  private config: HandIdentityConfig;
+  private tracks: HandTrack[];
+  private nextId = 1;
+
+  // PERF: per-hand inputs and matching state, reused every frame
+  private centers: { x: number; y: number }[] = [];
+  private handedness: ('Left' | 'Right')[] = [];
+  private slots: number[] = [];
+  private assigned: boolean[] = [];
+  private costs = new Float64Array(0);
+
+  /**
+   * @param slotCount Hand slots to fill
+   * @param config Settings (merged with DEFAULT_HAND_IDENTITY_CONFIG)
+   */
+  constructor(slotCount: number, config: Partial<HandIdentityConfig> = {}) {
+    this.config = { ...DEFAULT_HAND_IDENTITY_CONFIG, ...config };
+    this.tracks = Array.from({ length: Math.max(1, slotCount) }, (_, slot) => ({
+      id: null,
+      x: 0,
+      y: 0,
+      vx: 0,
+      vy: 0,
+      handedness: slot % 2 === 0 ? 'Left' : 'Right',
+      lastSeenAt: -Infinity,
+    }));
+  }
+
+  /**
+   * Match a detection frame's hands to slots
+   * Hands beyond the slot count are dropped
+   * @param timestamp Detection timestamp (ms)
+   * @returns One entry per slot (null where no hand matched)
+   */
+  assign(hands: HandLandmarks[], timestamp: number): (HandLandmarks | null)[] {
+    this.prepareHands(hands.length);
+    for (let h = 0; h < hands.length; h++) {
+      getPalmCenter(hands[h], this.centers[h]);
+      this.handedness[h] = hands[h].handedness;
+    }
+    const slots = this.match(hands.length, timestamp);
+    return slots.map((hand) => (hand === -1 ? null : hands[hand]));
+  }
+
+  /**
+   * Match a landmark frame's hands to slots (see assign)
+   * @returns Hand index in the frame per slot (-1 where no hand matched), reused by the next call
+   */
+  assignFrame(frame: LandmarkFrame, timestamp: number): number[] {
+    this.prepareHands(frame.handCount);
+    for (let h = 0; h < frame.handCount; h++) {
+      getFramePalmCenter(frame, h, this.centers[h]);
+      this.handedness[h] = frame.getHandedness(h);
+    }
+    return this.match(frame.handCount, timestamp);
+  }
+
+  /**
+   * Grow the per-hand scratch arrays to fit a frame's hands
+   */
+  private prepareHands(handCount: number): void {
+    while (this.centers.length < handCount) {
+      this.centers.push({ x: 0, y: 0 });
+    }
+    const pairCount = handCount * this.tracks.length;
+    if (this.costs.length < pairCount) {
+      this.costs = new Float64Array(pairCount);
+    }
+  }
+
+  /**
+   * Match the prepared hands (palm centers and handedness) to slots
+   * @returns Hand index per slot (-1 where no hand matched)
+   */
+  private match(handCount: number, timestamp: number): number[] {
+    const { config, centers, handedness } = this;
+    const slotCount = this.tracks.length;
+    const slots = this.slots;
+    slots.length = slotCount;
+    slots.fill(-1);
+
+    // Tracks that waited too long lose their identity
+    for (const track of this.tracks) {
+      if (track.id !== null && timestamp - track.lastSeenAt > config.retentionMs) {
+        track.id = null;
+      }
+    }
+
+    // Cost from every hand to every live track's predicted palm (Infinity = no pair)
+    const costs = this.costs;
+    const pairCount = slotCount * handCount;
+    for (let s = 0; s < slotCount; s++) {
+      const track = this.tracks[s];
+      const dt = Math.min(MAX_PREDICTION_MS, Math.max(0, timestamp - track.lastSeenAt));
+      const predictedX = track.x + track.vx * dt;
+      const predictedY = track.y + track.vy * dt;
+
+      for (let h = 0; h < handCount; h++) {
+        const pair = s * handCount + h;
+        const dx = centers[h].x - predictedX;
+        const dy = centers[h].y - predictedY;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        if (track.id === null || distance > config.maxMatchDistance) {
+          costs[pair] = Infinity;
+          continue;
+        }
+
+        const penalty = handedness[h] === track.handedness ? 0 : config.handednessPenalty;
+        costs[pair] = distance + penalty;
+      }
+    }
+
+    // Cheapest remaining pair first (a handful of hands and slots, so a plain scan)
+    const assigned = this.assigned;
+    assigned.length = handCount;
+    assigned.fill(false);
+    for (;;) {
+      let best = -1;
+      for (let pair = 0; pair < pairCount; pair++) {
+        if (costs[pair] === Infinity) continue;
+        if (assigned[pair % handCount] || slots[Math.floor(pair / handCount)] !== -1) continue;
+        if (best === -1 || costs[pair] < costs[best]) best = pair;
+      }
+      if (best === -1) break;
+
+      const slot = Math.floor(best / handCount);
+      const hand = best % handCount;
+      slots[slot] = hand;
+      assigned[hand] = true;
+      this.updateTrack(this.tracks[slot], handedness[hand], centers[hand], timestamp);
+    }
+
+    // Unmatched hands start new tracks in free slots
+    for (let h = 0; h < handCount; h++) {
+      if (assigned[h]) continue;
+      const handedness = this.handedness[h];
+      const slot = this.findFreeSlot(handedness);
+      if (slot === -1) break;
+
+      const track = this.tracks[slot];
+      track.id = this.nextId++;
+      track.x = centers[h].x;
+      track.y = centers[h].y;
+      track.vx = 0;
+      track.vy = 0;
+      track.handedness = handedness;
+      track.lastSeenAt = timestamp;
+      slots[slot] = h;
+    }
+
+    return slots;
+  }
+
+  /**
+   * Stable identity of the hand in a slot (null when the slot has no live track)
+   */
+  getId(slot: number): number | null {
+    return this.tracks[slot]?.id ?? null;
+  }
+
+  /**
+   * Stable identities of all slots
+   * @param out Array to write the identities into (reused across frames)
+   */
+  getIds(out: (number | null)[] = []): (number | null)[] {
+    out.length = this.tracks.length;
+    for (let s = 0; s < this.tracks.length; s++) {
+      out[s] = this.tracks[s].id;
+    }
+    return out;
+  }
+
+  /**
+   * Forget all tracks (identities keep counting up)
+   */
+  reset(): void {
+    for (const track of this.tracks) {
+      track.id = null;
+      track.vx = 0;
+      track.vy = 0;
+      track.lastSeenAt = -Infinity;
+    }
+  }
+
+  private updateTrack(
+    track: HandTrack,
+    handedness: 'Left' | 'Right',
+    center: { x: number; y: number },
+    timestamp: number
+  ): void {
+    const dt = timestamp - track.lastSeenAt;
+    if (dt > 0) {
+      const smoothing = this.config.velocitySmoothing;
+      track.vx += ((center.x - track.x) / dt - track.vx) * smoothing;
+      track.vy += ((center.y - track.y) / dt - track.vy) * smoothing;
+    }
+    track.x = center.x;
+    track.y = center.y;
+    track.handedness = handedness;
+    track.lastSeenAt = timestamp;
+  }
+
+  /**
+   * Free slot for a new hand, preferring one whose last hand had the same handedness
+   */
+  private findFreeSlot(handedness: 'Left' | 'Right'): number {
+    let fallback = -1;
+    for (let s = 0; s < this.tracks.length; s++) {
+      const track = this.tracks[s];
+      if (track.id !== null) continue;
+      if (track.handedness === handedness) return s;
+      if (fallback === -1) fallback = s;
+    }
+    return fallback;
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * LandmarkFilter - Per-landmark jitter filtering before interpolation
+ *
+ * Raw detections jitter by a pixel or two even when nothing moves, which the
+ * particles turn into shimmer. Each landmark's x, y and z are filtered on
+ * their own, with either a One Euro filter (smooths at rest, follows quick
+ * motion) or plain exponential smoothing. Settings are per entity because
+ * fingertips need to react faster than a face. Visibility is never filtered.
+ */
+
+import { lowPassAlpha } from '../performance';
+
+/** Filter applied to an entity's landmarks */
+export type LandmarkFilterMode = 'oneEuro' | 'exponential' | 'none';
+
+/**
+ * Filter settings for one entity (hands, faces or the body)
+ * Positions are normalized image coordinates, so speeds are in image widths per second
+ */
+export interface LandmarkFilterSettings {
+  mode: LandmarkFilterMode;
+  /** One Euro cutoff frequency at rest (Hz), lower = smoother */
+  minCutoff: number;
+  /** One Euro cutoff increase per unit/second of speed, higher = less lag */
+  beta: number;
+  /** One Euro cutoff frequency for the speed estimate (Hz) */
+  derivativeCutoff: number;
+  /** Exponential smoothing factor (0-1, lower = smoother) */
+  alpha: number;
+}
+
+/**
+ * Filtering for all entities
+ */
+export interface LandmarkFilterConfig {
+  /** Whether landmarks are filtered at all (off = raw detections, for comparison) */
+  enabled: boolean;
+  hands: LandmarkFilterSettings;
+  face: LandmarkFilterSettings;
+  body: LandmarkFilterSettings;
+}
+
+export const DEFAULT_LANDMARK_FILTER_CONFIG: LandmarkFilterConfig = {
+  enabled: true,
+  hands: { mode: 'oneEuro', minCutoff: 1.5, beta: 12, derivativeCutoff: 1, alpha: 0.5 },
+  face: { mode: 'oneEuro', minCutoff: 1, beta: 6, derivativeCutoff: 1, alpha: 0.4 },
+  body: { mode: 'oneEuro', minCutoff: 1, beta: 8, derivativeCutoff: 1, alpha: 0.4 },
+};
+
+// Filtered channels per landmark: x, y, z
+const CHANNELS = 3;
+
+/**
+ * Filter state for a fixed set of landmarks in a flat landmark buffer
+ * PERF: state lives in typed arrays, nothing is allocated per frame
+ */
+export class LandmarkFilter {
+  private readonly values: Float32Array;
+  private readonly derivatives: Float32Array;
+  private readonly timestamps: Float64Array;
+  private readonly initialized: Uint8Array;
+  private readonly floatsPerLandmark: number;
+
+  /**
+   * @param landmarkCount Landmarks in the buffers being filtered
+   * @param floatsPerLandmark Buffer stride (x, y, z first)
+   */
+  constructor(landmarkCount: number, floatsPerLandmark = 4) {
+    this.floatsPerLandmark = floatsPerLandmark;
+    this.values = new Float32Array(landmarkCount * CHANNELS);
+    this.derivatives = new Float32Array(landmarkCount * CHANNELS);
+    this.timestamps = new Float64Array(landmarkCount);
+    this.initialized = new Uint8Array(landmarkCount);
+  }
+
+  /**
+   * Filter a run of landmarks in place
+   * Landmarks seen for the first time (or since a reset) pass through unchanged
+   * @param buffer Landmark buffer (x, y, z, visibility, ...)
+   * @param start First landmark of the run
+   * @param count Landmarks in the run
+   * @param timestamp Detection timestamp (ms)
+   */
+  apply(
+    buffer: Float32Array,
+    start: number,
+    count: number,
+    timestamp: number,
+    settings: LandmarkFilterSettings
+  ): void {
+    if (settings.mode === 'none') {
+      this.reset(start, count);
+      return;
+    }
+
+    for (let i = start; i < start + count; i++) {
+      const offset = i * this.floatsPerLandmark;
+      const state = i * CHANNELS;
+      const dt = timestamp - this.timestamps[i];
+
+      if (!this.initialized[i] || dt <= 0) {
+        if (!this.initialized[i]) {
+          for (let c = 0; c < CHANNELS; c++) {
+            this.values[state + c] = buffer[offset + c];
+            this.derivatives[state + c] = 0;
+          }
+          this.initialized[i] = 1;
+          this.timestamps[i] = timestamp;
+        }
+        for (let c = 0; c < CHANNELS; c++) {
+          buffer[offset + c] = this.values[state + c];
+        }
+        continue;
+      }
+
+      for (let c = 0; c < CHANNELS; c++) {
+        const previous = this.values[state + c];
+        const raw = buffer[offset + c];
+        let alpha: number;
+
+        if (settings.mode === 'oneEuro') {
+          const rawDerivative = ((raw - previous) * 1000) / dt;
+          const derivative =
+            this.derivatives[state + c] +
+            (rawDerivative - this.derivatives[state + c]) *
+              lowPassAlpha(settings.derivativeCutoff, dt);
+          this.derivatives[state + c] = derivative;
+          alpha = lowPassAlpha(settings.minCutoff + settings.beta * Math.abs(derivative), dt);
+        } else {
+          alpha = settings.alpha;
+        }
+
+        const value = previous + (raw - previous) * alpha;
+        this.values[state + c] = value;
+        buffer[offset + c] = value;
+      }
+      this.timestamps[i] = timestamp;
+    }
+  }
+
+  /**
+   * Forget a run of landmarks (the next sample passes through unfiltered)
+   */
+  reset(start = 0, count = this.initialized.length - start): void {
+    this.initialized.fill(0, start, start + count);
+  }
+}
@@ -1,19 +1,59 @@
 /**
  * LandmarkInterpolator - Double-buffered interpolation for smooth 60fps rendering
  * Takes 30fps MediaPipe detections and produces smooth interpolated positions
- * Uses pure linear interpolation (NO prediction to avoid overshoot)
+ * Uses pure linear interpolation by default (NO prediction to avoid overshoot);
+ * prediction past the latest detection is opt-in per entity (see LandmarkPredictor)
+ * Detections are jitter-filtered per landmark on arrival (see LandmarkFilter)
+ * Detections are copied from LandmarkFrames float by float; object-based
+ * results are written into a scratch frame first
  */
 
-import type { TrackingResult, HandLandmarks, Landmark } from '@/lib/types';
-import type { InterpolatedLandmarks } from './types';
+import type {
+  TrackingResult,
+  SegmentationMask,
+  Landmark,
+  FaceBlendshapes,
+  HeadPose,
+  Gaze,
+} from '@/lib/types';
+import { MAX_TRACKED_HANDS, MAX_TRACKED_FACES, FACE_MESH_LANDMARK_COUNT } from '@/lib/types';
+import type { InterpolatedLandmarks, LandmarkLatency } from './types';
+import { HandIdentityTracker } from './HandIdentityTracker';
+import {
+  LandmarkFilter,
+  DEFAULT_LANDMARK_FILTER_CONFIG,
+  type LandmarkFilterConfig,
+} from './LandmarkFilter';
+import {
+  LandmarkPredictor,
+  DEFAULT_PREDICTION_CONFIG,
+  type PredictionConfig,
+} from './LandmarkPredictor';
+import { ExponentialSmoother } from '../performance';
+import {
+  LandmarkFrame,
+  LANDMARK_STRIDE,
+  FACE_LANDMARK_CAPACITY,
+  writeTrackingResult,
+} from '../tracking/LandmarkFrame';
+import { getSilhouetteCoverage, MIN_SILHOUETTE_COVERAGE } from './SilhouetteDistribution';
 
 // 4 floats per landmark: x, y, z, visibility
 const FLOATS_PER_LANDMARK = 4;
 
-// Max landmarks: 21 per hand × 2 hands + 468 face
-const MAX_HAND_LANDMARKS = 21 * 2;
-const MAX_FACE_LANDMARKS = 468;
-const MAX_TOTAL_LANDMARKS = MAX_HAND_LANDMARKS + MAX_FACE_LANDMARKS;
+// Landmarks: 21 per hand slot + 478 per face slot (mesh plus irises) + 33 for the body
+const HAND_LANDMARKS = 21;
+const MAX_FACE_LANDMARKS = FACE_LANDMARK_CAPACITY;
+const BODY_LANDMARKS = 33;
+
+// Landmark used to follow faces (nose tip) between frames
+const FACE_ANCHOR_LANDMARK = 1;
+
+// Smoothing factor for the latency readout
+const LATENCY_SMOOTHING = 0.1;
+
+/** Entities with their own filtering and prediction settings */
+type LandmarkEntity = 'hands' | 'face' | 'body';
 
 /**
  * Double-buffered landmark interpolator
@@ -30,146 +70,419 @@ export class LandmarkInterpolator {
   private currTimestamp = 0;
   
   // Visibility tracking
-  private prevHandsVisible: boolean[] = [false, false];
-  private currHandsVisible: boolean[] = [false, false];
-  private prevFaceVisible = false;
-  private currFaceVisible = false;
+  private prevHandsVisible: boolean[];
+  private currHandsVisible: boolean[];
+  private prevFacesVisible: boolean[];
+  private currFacesVisible: boolean[];
+  private currBodyVisible = false;
+  
+  // Latest segmentation mask (not interpolated) and whether a person shows in it
+  private segmentation: SegmentationMask | null = null;
+  private currSilhouetteVisible = false;
+  
+  // Latest blendshapes, head pose and gaze per face slot (not interpolated, null when disabled)
+  private faceBlendshapes: (FaceBlendshapes | null)[];
+  private faceHeadPoses: (HeadPose | null)[];
+  private faceGazes: (Gaze | null)[];
+  
+  // Whether each face slot's latest face came with iris landmarks
+  private faceHasIrises: boolean[];
   
   // Handedness tracking
-  private prevHandedness: ('Left' | 'Right')[] = ['Left', 'Right'];
-  private currHandedness: ('Left' | 'Right')[] = ['Left', 'Right'];
+  private prevHandedness: ('Left' | 'Right')[];
+  private currHandedness: ('Left' | 'Right')[];
+  
+  // Stable hand identities (keeps each physical hand in its slot)
+  private handTracker: HandIdentityTracker;
+  
+  // Jitter filtering applied to incoming detections
+  private filter: LandmarkFilter;
+  private filterConfig: LandmarkFilterConfig;
+  
+  // Opt-in prediction past the latest detection
+  private predictor: LandmarkPredictor;
+  private predictionConfig: PredictionConfig;
+  
+  // Measured latency (detection timestamp → arrival, and → rendered pose)
+  private detectionLatency = new ExponentialSmoother(LATENCY_SMOOTHING);
+  private renderLatency = new ExponentialSmoother(LATENCY_SMOOTHING);
+  private latency: LandmarkLatency = { detectionMs: 0, totalMs: 0 };
   
   // Output structure (reused)
   private output: InterpolatedLandmarks;
   
   // Pre-allocated landmark arrays for getHandLandmarks/getFaceLandmarks
   // PERF: Avoids per-frame array allocation in hot paths
-  private handLandmarkCache: [Landmark[], Landmark[]];
-  private faceLandmarkCache: Landmark[];
+  private handLandmarkCache: Landmark[][];
+  private faceLandmarkCache: Landmark[][];
+  private faceMeshLandmarkCache: Landmark[][];
+  private bodyLandmarkCache: Landmark[];
+  
+  // Number of hand and face slots and total landmarks across them
+  private readonly handSlots: number;
+  private readonly faceSlots: number;
+  private readonly totalLandmarks: number;
+  
+  // Frame that object-based results are written into
+  private scratchFrame: LandmarkFrame | null = null;
+  
+  // Scratch state of assignFaceSlots
+  // PERF: Reused every frame
+  private slotItems: number[] = [];
+  private itemAssigned: boolean[] = [];
+  private pairDistances = new Float64Array(0);
   
   // First frame flag
   private hasData = false;
 
-  constructor() {
-    const bufferSize = MAX_TOTAL_LANDMARKS * FLOATS_PER_LANDMARK;
+  /**
+   * @param maxHands Hand slots to interpolate, 1 to MAX_TRACKED_HANDS
+   * @param maxFaces Face slots to interpolate, 1 to MAX_TRACKED_FACES
+   * @param filterConfig Landmark filtering (merged with DEFAULT_LANDMARK_FILTER_CONFIG)
+   * @param predictionConfig Prediction per entity (merged with DEFAULT_PREDICTION_CONFIG)
+   */
+  constructor(
+    maxHands = 2,
+    maxFaces = 1,
+    filterConfig: Partial<LandmarkFilterConfig> = {},
+    predictionConfig: Partial<PredictionConfig> = {}
+  ) {
+    this.handSlots = Math.max(1, Math.min(MAX_TRACKED_HANDS, Math.floor(maxHands)));
+    this.faceSlots = Math.max(1, Math.min(MAX_TRACKED_FACES, Math.floor(maxFaces)));
+    this.totalLandmarks =
+      this.handSlots * HAND_LANDMARKS + this.faceSlots * MAX_FACE_LANDMARKS + BODY_LANDMARKS;
+    const bufferSize = this.totalLandmarks * FLOATS_PER_LANDMARK;
     
     this.prevBuffer = new Float32Array(bufferSize);
     this.currBuffer = new Float32Array(bufferSize);
     this.outputBuffer = new Float32Array(bufferSize);
     
     // Pre-allocate landmark arrays (PERF: avoids per-frame allocation)
-    this.handLandmarkCache = [
-      Array.from({ length: 21 }, () => ({ x: 0, y: 0, z: 0, visibility: 0 })),
-      Array.from({ length: 21 }, () => ({ x: 0, y: 0, z: 0, visibility: 0 })),
-    ];
-    this.faceLandmarkCache = Array.from({ length: 468 }, () => ({ x: 0, y: 0, z: 0, visibility: 0 }));
+    this.handLandmarkCache = Array.from({ length: this.handSlots }, () =>
+      Array.from({ length: 21 }, () => ({ x: 0, y: 0, z: 0, visibility: 0 }))
+    );
+    this.faceLandmarkCache = Array.from({ length: this.faceSlots }, () =>
+      Array.from({ length: MAX_FACE_LANDMARKS }, () => ({ x: 0, y: 0, z: 0, visibility: 0 }))
+    );
+    this.faceMeshLandmarkCache = this.faceLandmarkCache.map((landmarks) =>
+      landmarks.slice(0, FACE_MESH_LANDMARK_COUNT)
+    );
+    this.bodyLandmarkCache = Array.from({ length: BODY_LANDMARKS }, () => ({
+      x: 0,
+      y: 0,
+      z: 0,
+      visibility: 0,
+    }));
+    
+    this.prevHandsVisible = new Array<boolean>(this.handSlots).fill(false);
+    this.currHandsVisible = new Array<boolean>(this.handSlots).fill(false);
+    this.prevHandedness = this.createDefaultHandedness();
+    this.currHandedness = this.createDefaultHandedness();
+    this.handTracker = new HandIdentityTracker(this.handSlots);
+    this.filter = new LandmarkFilter(this.totalLandmarks, FLOATS_PER_LANDMARK);
+    this.filterConfig = { ...DEFAULT_LANDMARK_FILTER_CONFIG, ...filterConfig };
+    this.predictor = new LandmarkPredictor(this.totalLandmarks, FLOATS_PER_LANDMARK);
+    this.predictionConfig = { ...DEFAULT_PREDICTION_CONFIG, ...predictionConfig };
+    this.prevFacesVisible = new Array<boolean>(this.faceSlots).fill(false);
+    this.currFacesVisible = new Array<boolean>(this.faceSlots).fill(false);
+    this.faceBlendshapes = new Array<FaceBlendshapes | null>(this.faceSlots).fill(null);
+    this.faceHeadPoses = new Array<HeadPose | null>(this.faceSlots).fill(null);
+    this.faceGazes = new Array<Gaze | null>(this.faceSlots).fill(null);
+    this.faceHasIrises = new Array<boolean>(this.faceSlots).fill(false);
     
     // Initialize output structure
     this.output = {
       data: this.outputBuffer,
       handLandmarkCount: 0,
       faceLandmarkCount: 0,
-      handsVisible: [false, false],
+      handsVisible: [...this.currHandsVisible],
       faceVisible: false,
-      handedness: ['Left', 'Right'],
+      facesVisible: [...this.currFacesVisible],
+      bodyVisible: false,
+      silhouetteVisible: false,
+      handedness: [...this.currHandedness],
+      handIds: this.handTracker.getIds(),
     };
   }
 
+  /**
+   * Default handedness per slot (alternating Left, Right)
+   */
+  private createDefaultHandedness(): ('Left' | 'Right')[] {
+    return Array.from({ length: this.handSlots }, (_, h) => (h % 2 === 0 ? 'Left' : 'Right'));
+  }
+
   /**
    * Push a new detection frame (called at ~30fps by MediaPipe)
+   * Reads the result's LandmarkFrame when it has one
+   * @param receivedAt When the result arrived (same clock as its timestamp), for the latency readout
    */
-  pushFrame(result: TrackingResult): void {
+  pushFrame(result: TrackingResult, receivedAt?: number): void {
+    let frame = result.frame;
+    if (!frame) {
+      frame = this.scratchFrame ??= new LandmarkFrame();
+      writeTrackingResult(frame, result);
+    }
+    this.pushLandmarkFrame(frame, receivedAt);
+  }
+
+  /**
+   * Push a new detection frame from a LandmarkFrame (no landmark objects read)
+   * @param receivedAt When the frame arrived (same clock as its timestamp), for the latency readout
+   */
+  pushLandmarkFrame(frame: LandmarkFrame, receivedAt?: number): void {
+    if (receivedAt !== undefined) {
+      this.latency.detectionMs = this.detectionLatency.smooth(
+        Math.max(0, receivedAt - frame.timestamp)
+      );
+    }
+    
     // Swap buffers
     const temp = this.prevBuffer;
     this.prevBuffer = this.currBuffer;
     this.currBuffer = temp;
     
-    // Copy visibility state
-    this.prevHandsVisible = [...this.currHandsVisible];
-    this.prevFaceVisible = this.currFaceVisible;
-    this.prevHandedness = [...this.currHandedness];
+    // Copy visibility state (PERF: in place, no per-frame arrays)
+    for (let h = 0; h < this.handSlots; h++) {
+      this.prevHandsVisible[h] = this.currHandsVisible[h];
+      this.prevHandedness[h] = this.currHandedness[h];
+    }
+    for (let f = 0; f < this.faceSlots; f++) {
+      this.prevFacesVisible[f] = this.currFacesVisible[f];
+    }
     
     // Update timestamps
     this.prevTimestamp = this.currTimestamp;
-    this.currTimestamp = result.timestamp;
+    this.currTimestamp = frame.timestamp;
     
     // Reset visibility
-    this.currHandsVisible = [false, false];
-    this.currFaceVisible = false;
+    this.currHandsVisible.fill(false);
+    this.currFacesVisible.fill(false);
     
     // Copy hand landmarks
-    let offset = 0;
-    const sortedHands = this.sortHandsByPosition(result.hands);
+    const slottedHands = this.handTracker.assignFrame(frame, frame.timestamp);
     
-    for (let h = 0; h < 2; h++) {
-      const hand = sortedHands[h];
-      if (hand) {
+    for (let h = 0; h < this.handSlots; h++) {
+      const hand = slottedHands[h];
+      const offset = this.getHandOffset(h);
+      if (hand !== -1) {
         this.currHandsVisible[h] = true;
-        this.currHandedness[h] = hand.handedness;
-        
-        for (const landmark of hand.landmarks) {
-          this.currBuffer[offset++] = landmark.x;
-          this.currBuffer[offset++] = landmark.y;
-          this.currBuffer[offset++] = landmark.z;
-          this.currBuffer[offset++] = landmark.visibility ?? 1;
-        }
+        this.currHandedness[h] = frame.getHandedness(hand);
+        this.copyLandmarks(frame.data, frame.handOffset(hand), offset, HAND_LANDMARKS);
+        this.prepareLandmarks(
+          h * HAND_LANDMARKS,
+          HAND_LANDMARKS,
+          this.prevHandsVisible[h],
+          frame.timestamp,
+          'hands'
+        );
       } else {
-        // No hand - fill with last known or zeros
-        for (let i = 0; i < 21; i++) {
-          const prevOffset = h * 21 * FLOATS_PER_LANDMARK + i * FLOATS_PER_LANDMARK;
-          this.currBuffer[offset++] = this.prevBuffer[prevOffset] || 0;
-          this.currBuffer[offset++] = this.prevBuffer[prevOffset + 1] || 0;
-          this.currBuffer[offset++] = this.prevBuffer[prevOffset + 2] || 0;
-          this.currBuffer[offset++] = 0; // visibility = 0
-        }
+        // No hand - keep last known position (or zeros), hidden
+        this.holdLandmarks(offset, HAND_LANDMARKS);
       }
     }
     
-    // Copy face landmarks
-    const faceOffset = MAX_HAND_LANDMARKS * FLOATS_PER_LANDMARK;
-    offset = faceOffset;
-    
-    if (result.face) {
-      this.currFaceVisible = true;
-      for (const landmark of result.face.landmarks) {
-        this.currBuffer[offset++] = landmark.x;
-        this.currBuffer[offset++] = landmark.y;
-        this.currBuffer[offset++] = landmark.z;
-        this.currBuffer[offset++] = landmark.visibility ?? 1;
+    // Copy face landmarks, one slot per face
+    const slottedFaces = this.assignFaceSlots(frame);
+    
+    for (let f = 0; f < this.faceSlots; f++) {
+      const faceOffset = this.getFaceOffset(f);
+      const face = slottedFaces[f];
+      this.faceBlendshapes[f] = face !== -1 ? frame.faceBlendshapes[face] : null;
+      this.faceHeadPoses[f] = face !== -1 ? frame.faceHeadPoses[face] : null;
+      this.faceGazes[f] = face !== -1 ? frame.faceGazes[face] : null;
+      
+      if (face !== -1) {
+        this.currFacesVisible[f] = true;
+        const count = Math.min(frame.faceLandmarkCounts[face], MAX_FACE_LANDMARKS);
+        this.faceHasIrises[f] = count === MAX_FACE_LANDMARKS;
+        this.copyLandmarks(frame.data, frame.faceOffset(face), faceOffset, count);
+        // Faces without irises (468 points) keep the iris slots hidden
+        this.holdLandmarks(faceOffset + count * FLOATS_PER_LANDMARK, MAX_FACE_LANDMARKS - count);
+        this.prepareLandmarks(
+          faceOffset / FLOATS_PER_LANDMARK,
+          MAX_FACE_LANDMARKS,
+          this.prevFacesVisible[f],
+          frame.timestamp,
+          'face'
+        );
+      } else {
+        // No face in this slot - keep last known position (or zeros), hidden
+        this.holdLandmarks(faceOffset, MAX_FACE_LANDMARKS);
       }
+    }
+    
+    // Copy body landmarks (visibility is kept, it hides out-of-view limbs)
+    const bodyOffset = this.getBodyOffset();
+    const bodyWasVisible = this.currBodyVisible;
+    this.currBodyVisible = frame.hasBody;
+    if (this.currBodyVisible) {
+      this.copyLandmarks(frame.data, frame.bodyOffset(), bodyOffset, BODY_LANDMARKS);
+      this.prepareLandmarks(
+        bodyOffset / FLOATS_PER_LANDMARK,
+        BODY_LANDMARKS,
+        bodyWasVisible,
+        frame.timestamp,
+        'body'
+      );
     } else {
-      // No face - fill with last known or zeros
-      for (let i = 0; i < 468; i++) {
-        const prevOffset = faceOffset + i * FLOATS_PER_LANDMARK;
-        this.currBuffer[offset++] = this.prevBuffer[prevOffset] || 0;
-        this.currBuffer[offset++] = this.prevBuffer[prevOffset + 1] || 0;
-        this.currBuffer[offset++] = this.prevBuffer[prevOffset + 2] || 0;
-        this.currBuffer[offset++] = 0;
-      }
+      this.holdLandmarks(bodyOffset, BODY_LANDMARKS);
     }
     
+    // Keep the latest mask
+    this.segmentation = frame.segmentation;
+    this.currSilhouetteVisible =
+      !!frame.segmentation && getSilhouetteCoverage(frame.segmentation) >= MIN_SILHOUETTE_COVERAGE;
+    
     this.hasData = true;
   }
 
   /**
-   * Sort hands by X position for consistent indexing
-   * (prevents hand swapping when crossing)
+   * Copy landmarks from a frame into the current buffer
+   * Both layouts use FLOATS_PER_LANDMARK floats (x, y, z, visibility) per landmark
    */
-  private sortHandsByPosition(hands: HandLandmarks[]): (HandLandmarks | null)[] {
-    if (hands.length === 0) return [null, null];
-    if (hands.length === 1) {
-      // Single hand - put in slot based on X position
-      const wristX = hands[0].landmarks[0].x;
-      if (wristX < 0.5) {
-        return [hands[0], null]; // Left side of screen
-      } else {
-        return [null, hands[0]]; // Right side of screen
+  private copyLandmarks(source: Float32Array, sourceOffset: number, offset: number, count: number): void {
+    const end = count * FLOATS_PER_LANDMARK;
+    for (let i = 0; i < end; i++) {
+      this.currBuffer[offset + i] = source[sourceOffset + i];
+    }
+  }
+
+  /**
+   * Carry a run of landmarks over from the previous buffer with visibility 0
+   */
+  private holdLandmarks(offset: number, count: number): void {
+    for (let i = 0; i < count; i++) {
+      const o = offset + i * FLOATS_PER_LANDMARK;
+      this.currBuffer[o] = this.prevBuffer[o] || 0;
+      this.currBuffer[o + 1] = this.prevBuffer[o + 1] || 0;
+      this.currBuffer[o + 2] = this.prevBuffer[o + 2] || 0;
+      this.currBuffer[o + 3] = 0;
+    }
+  }
+
+  /**
+   * Jitter-filter a run of landmarks just written to the current buffer and
+   * feed it to the predictor
+   * An entity that was not visible last frame starts over (no lag from where it left)
+   */
+  private prepareLandmarks(
+    start: number,
+    count: number,
+    wasVisible: boolean,
+    timestamp: number,
+    entity: LandmarkEntity
+  ): void {
+    if (!wasVisible) {
+      this.filter.reset(start, count);
+      this.predictor.reset(start, count);
+    }
+    if (this.filterConfig.enabled) {
+      this.filter.apply(this.currBuffer, start, count, timestamp, this.filterConfig[entity]);
+    }
+    this.predictor.update(this.currBuffer, start, count, timestamp, this.predictionConfig[entity]);
+  }
+
+  /**
+   * Buffer offset of a hand slot
+   */
+  private getHandOffset(handIndex: number): number {
+    return handIndex * HAND_LANDMARKS * FLOATS_PER_LANDMARK;
+  }
+
+  /**
+   * Buffer offset of a face slot
+   */
+  private getFaceOffset(faceIndex: number): number {
+    return (this.handSlots * HAND_LANDMARKS + faceIndex * MAX_FACE_LANDMARKS) * FLOATS_PER_LANDMARK;
+  }
+
+  /**
+   * Buffer offset of the body
+   */
+  private getBodyOffset(): number {
+    return (this.handSlots * HAND_LANDMARKS + this.faceSlots * MAX_FACE_LANDMARKS) * FLOATS_PER_LANDMARK;
+  }
+
+  /**
+   * Buffer offset of a face slot's anchor landmark
+   */
+  private getFaceAnchorOffset(slot: number): number {
+    return this.getFaceOffset(slot) + FACE_ANCHOR_LANDMARK * FLOATS_PER_LANDMARK;
+  }
+
+  /**
+   * Offset of a detected face's anchor landmark in the frame data (-1 when missing)
+   */
+  private getFrameFaceAnchorOffset(frame: LandmarkFrame, face: number): number {
+    return frame.faceLandmarkCounts[face] > FACE_ANCHOR_LANDMARK
+      ? frame.faceOffset(face) + FACE_ANCHOR_LANDMARK * LANDMARK_STRIDE
+      : -1;
+  }
+
+  /**
+   * Assign detected faces to slots so each one keeps its slot (and color) between frames
+   * Faces are matched greedily to the nearest slot that was visible last frame;
+   * new faces take the first free slot and faces beyond the slot count are dropped
+   * @returns Face index per slot (-1 where none was assigned), reused by the next call
+   */
+  private assignFaceSlots(frame: LandmarkFrame): number[] {
+    const source = frame.data;
+    const itemCount = frame.faceCount;
+    const slotCount = this.faceSlots;
+    const prevVisible = this.prevFacesVisible;
+    const slots = this.slotItems;
+    slots.length = slotCount;
+    slots.fill(-1);
+    if (itemCount === 0) return slots;
+    
+    // Squared distances from every item to every previously visible slot
+    // (Infinity where there is no pair)
+    const pairCount = itemCount * slotCount;
+    if (this.pairDistances.length < pairCount) {
+      this.pairDistances = new Float64Array(pairCount);
+    }
+    const distances = this.pairDistances;
+    for (let i = 0; i < itemCount; i++) {
+      const anchor = this.getFrameFaceAnchorOffset(frame, i);
+      for (let s = 0; s < slotCount; s++) {
+        const pair = i * slotCount + s;
+        if (anchor === -1 || !prevVisible[s]) {
+          distances[pair] = Infinity;
+          continue;
+        }
+        const prevOffset = this.getFaceAnchorOffset(s);
+        const dx = source[anchor] - this.prevBuffer[prevOffset];
+        const dy = source[anchor + 1] - this.prevBuffer[prevOffset + 1];
+        distances[pair] = dx * dx + dy * dy;
+      }
+    }
+    
+    // Closest remaining pair first (a handful of items and slots, so a plain scan)
+    const assigned = this.itemAssigned;
+    assigned.length = itemCount;
+    assigned.fill(false);
+    for (;;) {
+      let best = -1;
+      for (let pair = 0; pair < pairCount; pair++) {
+        if (distances[pair] === Infinity) continue;
+        if (assigned[Math.floor(pair / slotCount)] || slots[pair % slotCount] !== -1) continue;
+        if (best === -1 || distances[pair] < distances[best]) best = pair;
       }
+      if (best === -1) break;
+      slots[best % slotCount] = Math.floor(best / slotCount);
+      assigned[Math.floor(best / slotCount)] = true;
     }
     
-    // Two hands - sort by X position
-    const sorted = [...hands].sort((a, b) => a.landmarks[0].x - b.landmarks[0].x);
-    return [sorted[0], sorted[1]];
+    // Remaining items take the first free slot
+    for (let i = 0; i < itemCount; i++) {
+      if (assigned[i]) continue;
+      const free = slots.indexOf(-1);
+      if (free === -1) break;
+      slots[free] = i;
+    }
+    
+    return slots;
   }
 
   /**
@@ -185,42 +498,97 @@ export class LandmarkInterpolator {
     const frameDuration = this.currTimestamp - this.prevTimestamp;
     const elapsed = renderTimestamp - this.currTimestamp;
     
+    // Interpolate (or predict) each entity's landmarks
+    const handLandmarks = this.handSlots * HAND_LANDMARKS;
+    const faceLandmarks = this.faceSlots * MAX_FACE_LANDMARKS;
+    const handsAge = this.followLandmarks(0, handLandmarks, elapsed, frameDuration, 'hands');
+    this.followLandmarks(handLandmarks, faceLandmarks, elapsed, frameDuration, 'face');
+    this.followLandmarks(handLandmarks + faceLandmarks, BODY_LANDMARKS, elapsed, frameDuration, 'body');
+    
+    // Latency readout: how old the rendered hand pose is
+    this.latency.totalMs = this.renderLatency.smooth(Math.max(0, handsAge));
+    
+    // Interpolate visibility (special handling for appearing/disappearing)
+    // Update output structure
+    let visibleHands = 0;
+    for (let h = 0; h < this.handSlots; h++) {
+      if (this.currHandsVisible[h]) visibleHands++;
+    }
+    const handCount = visibleHands * HAND_LANDMARKS;
+    let visibleFaces = 0;
+    for (let f = 0; f < this.faceSlots; f++) {
+      if (this.currFacesVisible[f]) visibleFaces++;
+    }
+    
+    // Update output structure in place (PERF: its arrays are reused)
+    const output = this.output;
+    (output as { handLandmarkCount: number }).handLandmarkCount = handCount;
+    (output as { faceLandmarkCount: number }).faceLandmarkCount =
+      visibleFaces * MAX_FACE_LANDMARKS;
+    (output as { faceVisible: boolean }).faceVisible = visibleFaces > 0;
+    (output as { bodyVisible: boolean }).bodyVisible = this.currBodyVisible;
+    (output as { silhouetteVisible: boolean }).silhouetteVisible = this.currSilhouetteVisible;
+    for (let h = 0; h < this.handSlots; h++) {
+      output.handsVisible[h] = this.currHandsVisible[h];
+      output.handedness[h] = this.currHandedness[h];
+    }
+    for (let f = 0; f < this.faceSlots; f++) {
+      output.facesVisible[f] = this.currFacesVisible[f];
+    }
+    this.handTracker.getIds(output.handIds);
+    
+    return this.output;
+  }
+
+  /**
+   * Write one entity's landmarks to the output buffer
+   * @returns Age of the written pose at render time (ms)
+   */
+  private followLandmarks(
+    start: number,
+    count: number,
+    elapsed: number,
+    frameDuration: number,
+    entity: LandmarkEntity
+  ): number {
+    const settings = this.predictionConfig[entity];
+    if (settings.mode !== 'none') {
+      const horizon = this.predictor.predict(
+        this.outputBuffer,
+        this.prevBuffer,
+        this.currBuffer,
+        start,
+        count,
+        elapsed,
+        frameDuration,
+        settings
+      );
+      return elapsed - horizon;
+    }
+    
     // Clamp t to [0, 1] - no extrapolation/prediction
     let t = 0;
     if (frameDuration > 0) {
       t = Math.max(0, Math.min(1, elapsed / frameDuration));
     }
     
-    // Interpolate all landmarks
-    const totalFloats = MAX_TOTAL_LANDMARKS * FLOATS_PER_LANDMARK;
-    for (let i = 0; i < totalFloats; i++) {
+    const end = (start + count) * FLOATS_PER_LANDMARK;
+    for (let i = start * FLOATS_PER_LANDMARK; i < end; i++) {
       this.outputBuffer[i] = this.prevBuffer[i] + (this.currBuffer[i] - this.prevBuffer[i]) * t;
     }
-    
-    // Interpolate visibility (special handling for appearing/disappearing)
-    // Update output structure
-    const handCount = (this.currHandsVisible[0] ? 21 : 0) + (this.currHandsVisible[1] ? 21 : 0);
-    
-    // Create new output object with updated values
-    (this.output as { handLandmarkCount: number }).handLandmarkCount = handCount;
-    (this.output as { faceLandmarkCount: number }).faceLandmarkCount = this.currFaceVisible ? 468 : 0;
-    (this.output as { handsVisible: boolean[] }).handsVisible = [...this.currHandsVisible];
-    (this.output as { faceVisible: boolean }).faceVisible = this.currFaceVisible;
-    (this.output as { handedness: ('Left' | 'Right')[] }).handedness = [...this.currHandedness];
-    
-    return this.output;
+    return elapsed + (1 - t) * frameDuration;
   }
 
   /**
    * Get raw landmark data for a specific hand
    * OPTIMIZED: Reuses pre-allocated landmark array
-   * @param handIndex 0 or 1
+   * @param handIndex Hand slot
    */
   getHandLandmarks(handIndex: number): Landmark[] | null {
     if (!this.currHandsVisible[handIndex]) return null;
     
     const landmarks = this.handLandmarkCache[handIndex];
-    const baseOffset = handIndex * 21 * FLOATS_PER_LANDMARK;
+    const baseOffset = this.getHandOffset(handIndex);
     
     for (let i = 0; i < 21; i++) {
       const offset = baseOffset + i * FLOATS_PER_LANDMARK;
@@ -235,16 +603,42 @@ export class LandmarkInterpolator {
   }
 
   /**
-   * Get raw landmark data for face
+   * Get raw landmark data for a face slot
+   * OPTIMIZED: Reuses pre-allocated landmark array
+   * @param faceIndex Face slot (0 = first face)
+   * @returns 478 landmarks, or the 468 mesh landmarks when the face came without irises
+   */
+  getFaceLandmarks(faceIndex = 0): Landmark[] | null {
+    if (!this.currFacesVisible[faceIndex]) return null;
+    
+    const landmarks = this.faceHasIrises[faceIndex]
+      ? this.faceLandmarkCache[faceIndex]
+      : this.faceMeshLandmarkCache[faceIndex];
+    const baseOffset = this.getFaceOffset(faceIndex);
+    
+    for (let i = 0; i < landmarks.length; i++) {
+      const offset = baseOffset + i * FLOATS_PER_LANDMARK;
+      const lm = landmarks[i];
+      lm.x = this.outputBuffer[offset];
+      lm.y = this.outputBuffer[offset + 1];
+      lm.z = this.outputBuffer[offset + 2];
+      lm.visibility = this.outputBuffer[offset + 3];
+    }
+    
+    return landmarks;
+  }
+
+  /**
+   * Get raw landmark data for the body
    * OPTIMIZED: Reuses pre-allocated landmark array
    */
-  getFaceLandmarks(): Landmark[] | null {
-    if (!this.currFaceVisible) return null;
+  getBodyLandmarks(): Landmark[] | null {
+    if (!this.currBodyVisible) return null;
     
-    const landmarks = this.faceLandmarkCache;
-    const baseOffset = MAX_HAND_LANDMARKS * FLOATS_PER_LANDMARK;
+    const landmarks = this.bodyLandmarkCache;
+    const baseOffset = this.getBodyOffset();
     
-    for (let i = 0; i < 468; i++) {
+    for (let i = 0; i < BODY_LANDMARKS; i++) {
       const offset = baseOffset + i * FLOATS_PER_LANDMARK;
       const lm = landmarks[i];
       lm.x = this.outputBuffer[offset];
@@ -256,6 +650,106 @@ export class LandmarkInterpolator {
     return landmarks;
   }
 
+  /**
+   * Get the latest segmentation mask
+   * @returns null when no person shows in it or segmentation is disabled
+   */
+  getSegmentationMask(): SegmentationMask | null {
+    return this.currSilhouetteVisible ? this.segmentation : null;
+  }
+
+  /**
+   * Get the latest blendshapes for a face slot
+   * @param faceIndex Face slot (0 = first face)
+   * @returns null when the face is not visible or blendshapes are disabled
+   */
+  getFaceBlendshapes(faceIndex = 0): FaceBlendshapes | null {
+    if (!this.currFacesVisible[faceIndex]) return null;
+    return this.faceBlendshapes[faceIndex] ?? null;
+  }
+
+  /**
+   * Get the latest head pose for a face slot
+   * @param faceIndex Face slot (0 = first face)
+   * @returns null when the face is not visible or head pose is disabled
+   */
+  getFaceHeadPose(faceIndex = 0): HeadPose | null {
+    if (!this.currFacesVisible[faceIndex]) return null;
+    return this.faceHeadPoses[faceIndex] ?? null;
+  }
+
+  /**
+   * Get the latest gaze for a face slot
+   * @param faceIndex Face slot (0 = first face)
+   * @returns null when the face is not visible or came without iris landmarks
+   */
+  getFaceGaze(faceIndex = 0): Gaze | null {
+    if (!this.currFacesVisible[faceIndex]) return null;
+    return this.faceGazes[faceIndex] ?? null;
+  }
+
+  /**
+   * Get the stable identity of the hand in a slot
+   * @param handIndex Hand slot
+   * @returns null when no hand has been in the slot recently
+   */
+  getHandId(handIndex: number): number | null {
+    return this.handTracker.getId(handIndex);
+  }
+
+  /**
+   * Get current landmark filtering settings
+   */
+  getFilterConfig(): LandmarkFilterConfig {
+    return { ...this.filterConfig };
+  }
+
+  /**
+   * Update landmark filtering (e.g. `{ enabled: false }` to compare against raw detections)
+   * Filters restart from the next detection
+   */
+  setFilterConfig(config: Partial<LandmarkFilterConfig>): void {
+    this.filterConfig = { ...this.filterConfig, ...config };
+    this.filter.reset();
+  }
+
+  /**
+   * Get current prediction settings
+   */
+  getPredictionConfig(): PredictionConfig {
+    return { ...this.predictionConfig };
+  }
+
+  /**
+   * Update prediction per entity (mode 'none' restores plain interpolation)
+   * Kalman filters restart from the next detection
+   */
+  setPredictionConfig(config: Partial<PredictionConfig>): void {
+    this.predictionConfig = { ...this.predictionConfig, ...config };
+    this.predictor.reset();
+  }
+
+  /**
+   * Measured latency of the rendered landmarks (smoothed)
+   */
+  getLatency(): Readonly<LandmarkLatency> {
+    return this.latency;
+  }
+
+  /**
+   * Number of hand slots
+   */
+  getHandSlotCount(): number {
+    return this.handSlots;
+  }
+
+  /**
+   * Number of face slots
+   */
+  getFaceSlotCount(): number {
+    return this.faceSlots;
+  }
+
   /**
    * Check if we have any valid data
    */
@@ -272,10 +766,23 @@ export class LandmarkInterpolator {
     this.outputBuffer.fill(0);
     this.prevTimestamp = 0;
     this.currTimestamp = 0;
-    this.prevHandsVisible = [false, false];
-    this.currHandsVisible = [false, false];
-    this.prevFaceVisible = false;
-    this.currFaceVisible = false;
+    this.prevHandsVisible.fill(false);
+    this.currHandsVisible.fill(false);
+    this.prevFacesVisible.fill(false);
+    this.currFacesVisible.fill(false);
+    this.currBodyVisible = false;
+    this.segmentation = null;
+    this.currSilhouetteVisible = false;
+    this.faceBlendshapes.fill(null);
+    this.faceHeadPoses.fill(null);
+    this.faceGazes.fill(null);
+    this.faceHasIrises.fill(false);
+    this.handTracker.reset();
+    this.filter.reset();
+    this.predictor.reset();
+    this.detectionLatency.reset();
+    this.renderLatency.reset();
+    this.latency = { detectionMs: 0, totalMs: 0 };
     this.hasData = false;
   }
 }
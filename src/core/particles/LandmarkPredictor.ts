@@ -0,0 +1,217 @@
+/**
+ * LandmarkPredictor - Opt-in extrapolation past the latest detection
+ *
+ * Interpolating between the last two detections keeps rendered landmarks at
+ * least one detection interval behind the real ones. Predicting instead runs
+ * each landmark forward from the latest detection, either along the last
+ * detection step (constant velocity) or along the velocity a per-channel
+ * Kalman filter estimates. Both are clamped: the horizon is capped and a
+ * prediction may never stray further than one detection step (and
+ * maxOvershoot) from the latest detection, so a hand that stops does not
+ * fly past where it stopped.
+ */
+
+/** How rendered landmarks follow detections */
+export type PredictionMode = 'none' | 'velocity' | 'kalman';
+
+/**
+ * Prediction settings for one entity (hands, faces or the body)
+ * Positions are normalized image coordinates
+ */
+export interface PredictionSettings {
+  /** 'none' interpolates between the last two detections (no overshoot, one interval of lag) */
+  mode: PredictionMode;
+  /** Longest time predicted past the latest detection (ms) */
+  maxPredictionMs: number;
+  /** Farthest a prediction may run from the latest detection (normalized units) */
+  maxOvershoot: number;
+  /** Kalman process noise (acceleration variance, units²/s³), higher = follows changes faster */
+  processNoise: number;
+  /** Kalman measurement noise (variance, units²), higher = trusts detections less */
+  measurementNoise: number;
+}
+
+/**
+ * Prediction for all entities
+ */
+export interface PredictionConfig {
+  hands: PredictionSettings;
+  face: PredictionSettings;
+  body: PredictionSettings;
+}
+
+const DEFAULT_PREDICTION_SETTINGS: PredictionSettings = {
+  mode: 'none',
+  maxPredictionMs: 60,
+  maxOvershoot: 0.04,
+  processNoise: 50,
+  measurementNoise: 1e-5,
+};
+
+export const DEFAULT_PREDICTION_CONFIG: PredictionConfig = {
+  hands: { ...DEFAULT_PREDICTION_SETTINGS },
+  face: { ...DEFAULT_PREDICTION_SETTINGS },
+  body: { ...DEFAULT_PREDICTION_SETTINGS },
+};
+
+// Predicted channels per landmark: x, y, z (visibility follows the latest detection)
+const CHANNELS = 3;
+
+// Kalman state per channel: position, velocity (units/s), covariance p00, p01, p11
+const KALMAN_STATE = 5;
+
+// Initial velocity variance ((units/s)²) of a new Kalman track
+const INITIAL_VELOCITY_VARIANCE = 1;
+
+/**
+ * Prediction state for a fixed set of landmarks in a flat landmark buffer
+ * PERF: state lives in typed arrays, nothing is allocated per frame
+ */
+export class LandmarkPredictor {
+  private readonly kalman: Float64Array;
+  private readonly timestamps: Float64Array;
+  private readonly initialized: Uint8Array;
+  private readonly floatsPerLandmark: number;
+
+  /**
+   * @param landmarkCount Landmarks in the buffers being predicted
+   * @param floatsPerLandmark Buffer stride (x, y, z, visibility)
+   */
+  constructor(landmarkCount: number, floatsPerLandmark = 4) {
+    this.floatsPerLandmark = floatsPerLandmark;
+    this.kalman = new Float64Array(landmarkCount * CHANNELS * KALMAN_STATE);
+    this.timestamps = new Float64Array(landmarkCount);
+    this.initialized = new Uint8Array(landmarkCount);
+  }
+
+  /**
+   * Feed a detection to the Kalman filters of a run of landmarks
+   * (only needed in 'kalman' mode; other modes work from the buffers alone)
+   * @param buffer Buffer holding the detection
+   * @param timestamp Detection timestamp (ms)
+   */
+  update(
+    buffer: Float32Array,
+    start: number,
+    count: number,
+    timestamp: number,
+    settings: PredictionSettings
+  ): void {
+    if (settings.mode !== 'kalman') {
+      this.reset(start, count);
+      return;
+    }
+
+    const r = settings.measurementNoise;
+    const q = settings.processNoise;
+
+    for (let i = start; i < start + count; i++) {
+      const offset = i * this.floatsPerLandmark;
+
+      if (!this.initialized[i]) {
+        for (let c = 0; c < CHANNELS; c++) {
+          const k = (i * CHANNELS + c) * KALMAN_STATE;
+          this.kalman[k] = buffer[offset + c];
+          this.kalman[k + 1] = 0;
+          this.kalman[k + 2] = r;
+          this.kalman[k + 3] = 0;
+          this.kalman[k + 4] = INITIAL_VELOCITY_VARIANCE;
+        }
+        this.initialized[i] = 1;
+        this.timestamps[i] = timestamp;
+        continue;
+      }
+
+      const dt = (timestamp - this.timestamps[i]) / 1000;
+      if (dt <= 0) continue;
+      this.timestamps[i] = timestamp;
+
+      for (let c = 0; c < CHANNELS; c++) {
+        const k = (i * CHANNELS + c) * KALMAN_STATE;
+
+        // Predict (constant velocity, white-noise acceleration)
+        let position = this.kalman[k] + this.kalman[k + 1] * dt;
+        let velocity = this.kalman[k + 1];
+        let p00 = this.kalman[k + 2];
+        let p01 = this.kalman[k + 3];
+        let p11 = this.kalman[k + 4];
+        p00 += dt * (2 * p01 + dt * p11) + (q * dt * dt * dt) / 3;
+        p01 += dt * p11 + (q * dt * dt) / 2;
+        p11 += q * dt;
+
+        // Correct with the detection
+        const innovation = buffer[offset + c] - position;
+        const s = p00 + r;
+        const gain0 = p00 / s;
+        const gain1 = p01 / s;
+        position += gain0 * innovation;
+        velocity += gain1 * innovation;
+        p11 -= gain1 * p01;
+        p00 *= 1 - gain0;
+        p01 *= 1 - gain0;
+
+        this.kalman[k] = position;
+        this.kalman[k + 1] = velocity;
+        this.kalman[k + 2] = p00;
+        this.kalman[k + 3] = p01;
+        this.kalman[k + 4] = p11;
+      }
+    }
+  }
+
+  /**
+   * Write predicted positions for a run of landmarks
+   * @param out Output buffer
+   * @param prev Buffer holding the previous detection
+   * @param curr Buffer holding the latest detection
+   * @param elapsed Time since the latest detection (ms)
+   * @param frameDuration Time between the last two detections (ms)
+   * @returns How far ahead of the latest detection the prediction runs (ms)
+   */
+  predict(
+    out: Float32Array,
+    prev: Float32Array,
+    curr: Float32Array,
+    start: number,
+    count: number,
+    elapsed: number,
+    frameDuration: number,
+    settings: PredictionSettings
+  ): number {
+    const horizon = Math.max(0, Math.min(settings.maxPredictionMs, elapsed));
+    const steps = frameDuration > 0 ? horizon / frameDuration : 0;
+
+    for (let i = start; i < start + count; i++) {
+      const offset = i * this.floatsPerLandmark;
+      // Landmarks missing from the previous detection have no step to follow
+      const hasStep = prev[offset + 3] > 0;
+
+      for (let c = 0; c < CHANNELS; c++) {
+        const latest = curr[offset + c];
+        const step = hasStep ? latest - prev[offset + c] : 0;
+
+        let predicted = latest;
+        if (settings.mode === 'kalman' && this.initialized[i]) {
+          const k = (i * CHANNELS + c) * KALMAN_STATE;
+          predicted = this.kalman[k] + (this.kalman[k + 1] * horizon) / 1000;
+        } else if (settings.mode === 'velocity') {
+          predicted = latest + step * steps;
+        }
+
+        // Overshoot clamp: within one detection step and maxOvershoot of the latest detection
+        const limit = Math.min(Math.abs(step), settings.maxOvershoot);
+        out[offset + c] = Math.max(latest - limit, Math.min(latest + limit, predicted));
+      }
+      out[offset + 3] = curr[offset + 3];
+    }
+
+    return horizon;
+  }
+
+  /**
+   * Forget a run of landmarks (the next detection starts a new Kalman track)
+   */
+  reset(start = 0, count = this.initialized.length - start): void {
+    this.initialized.fill(0, start, start + count);
+  }
+}
@@ -64,6 +64,9 @@ export class ParticlePhysics {
   /** Repulsion configuration */
   private repulsionConfig: RepulsionConfig = { ...DEFAULT_REPULSION_CONFIG };
   
+  /** Attraction force strength (starts at config.attractionStrength, changeable live) */
+  private attractionStrength: number;
+  
   /** Fixed timestep in ms */
   private readonly FIXED_TIMESTEP = 16.67; // 60Hz physics
   
@@ -91,6 +94,7 @@ export class ParticlePhysics {
   constructor(pool: ParticlePool) {
     this.pool = pool;
     this.config = pool.config;
+    this.attractionStrength = pool.config.attractionStrength;
   }
 
   /**
@@ -130,7 +134,8 @@ export class ParticlePhysics {
    */
   private fixedUpdate(): void {
     const { physics } = this.pool;
-    const { attractionStrength, damping } = this.config;
+    const { damping } = this.config;
+    const { attractionStrength } = this;
     const count = this.pool.allocatedCount;
     
     // Update mode transition (smooth blending over ~300ms = 18 frames)
@@ -233,12 +238,17 @@ export class ParticlePhysics {
     
     const { physics } = this.pool;
     const landmarkType = physics.landmarkType[particleIndex];
+    // Hand slot for hand particles, face slot for face particles (unused for body)
     const handIndex = physics.handIndex[particleIndex];
     
     if (landmarkType === LandmarkType.Hand) {
       return this.detectionStateManager.isHandFading(handIndex);
     } else if (landmarkType === LandmarkType.Face) {
-      return this.detectionStateManager.isFaceFading();
+      return this.detectionStateManager.isFaceFading(handIndex);
+    } else if (landmarkType === LandmarkType.Body) {
+      return this.detectionStateManager.isBodyFading();
+    } else if (landmarkType === LandmarkType.Silhouette) {
+      return this.detectionStateManager.isSilhouetteFading();
     }
     
     return false;
@@ -329,6 +339,20 @@ export class ParticlePhysics {
     return { ...this.repulsionConfig };
   }
 
+  /**
+   * Change the attraction force strength (spring constant) live
+   */
+  setAttractionStrength(strength: number): void {
+    this.attractionStrength = Math.max(0, strength);
+  }
+
+  /**
+   * Get current attraction force strength
+   */
+  getAttractionStrength(): number {
+    return this.attractionStrength;
+  }
+
   /**
    * Get current interpolation alpha for smooth rendering
    */
@@ -353,6 +377,113 @@ export class ParticlePhysics {
     this.modeTransitionProgress = 1; // Complete any transition
   }
 
+  /**
+   * Push a face's particles around some landmarks outward from their centroid
+   * (for expression bursts such as opening the mouth)
+   * @param faceIndex Face slot
+   * @param landmarks Face landmark indices whose particles burst
+   * @param strength Outward velocity added at the edge of the region (pixels/step)
+   */
+  applyFaceBurst(faceIndex: number, landmarks: readonly number[], strength: number): void {
+    const { physics } = this.pool;
+    const faceBindings = this.pool.bindings.faces[faceIndex];
+    if (!faceBindings || strength <= 0) return;
+    
+    // Centroid and radius of the region's visible particles
+    let sumX = 0;
+    let sumY = 0;
+    let visible = 0;
+    for (const lm of landmarks) {
+      const range = faceBindings.get(lm);
+      if (!range) continue;
+      for (let i = range.start; i < range.start + range.count; i++) {
+        if (physics.alpha[i] < 0.01) continue;
+        sumX += physics.positionX[i];
+        sumY += physics.positionY[i];
+        visible++;
+      }
+    }
+    if (visible === 0) return;
+    
+    const centerX = sumX / visible;
+    const centerY = sumY / visible;
+    
+    for (const lm of landmarks) {
+      const range = faceBindings.get(lm);
+      if (!range) continue;
+      for (let i = range.start; i < range.start + range.count; i++) {
+        if (physics.alpha[i] < 0.01) continue;
+        const dx = physics.positionX[i] - centerX;
+        const dy = physics.positionY[i] - centerY;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        if (distance < 0.001) continue;
+        
+        // Slight per-particle variation so the burst doesn't look stamped
+        const force = strength * (0.6 + Math.random() * 0.4);
+        physics.velocityX[i] += (dx / distance) * force;
+        physics.velocityY[i] += (dy / distance) * force;
+      }
+    }
+  }
+
+  /**
+   * Launch some of a face's particles around some landmarks along a direction
+   * (for gaze beams); the spring pulls them back, so repeated calls stream
+   * @param faceIndex Face slot
+   * @param landmarks Face landmark indices whose particles launch
+   * @param directionX Launch direction on the canvas (unit vector)
+   * @param directionY Launch direction on the canvas (unit vector)
+   * @param strength Launch velocity (pixels/step)
+   * @param rate Chance (0-1) that each particle launches on this call
+   */
+  applyFaceBeam(
+    faceIndex: number,
+    landmarks: readonly number[],
+    directionX: number,
+    directionY: number,
+    strength: number,
+    rate: number
+  ): void {
+    const { physics } = this.pool;
+    const faceBindings = this.pool.bindings.faces[faceIndex];
+    if (!faceBindings || strength <= 0 || rate <= 0) return;
+    
+    for (const lm of landmarks) {
+      const range = faceBindings.get(lm);
+      if (!range) continue;
+      for (let i = range.start; i < range.start + range.count; i++) {
+        if (physics.alpha[i] < 0.01 || Math.random() >= rate) continue;
+        
+        // Slight per-particle variation so the beam reads as a stream
+        const force = strength * (0.7 + Math.random() * 0.6);
+        physics.velocityX[i] += directionX * force;
+        physics.velocityY[i] += directionY * force;
+      }
+    }
+  }
+
+  /**
+   * Pull all visible particles toward a canvas point (for gaze-following)
+   * @param x Canvas x (pixels)
+   * @param y Canvas y (pixels)
+   * @param strength Velocity added toward the point (pixels/step)
+   */
+  applyAttraction(x: number, y: number, strength: number): void {
+    const { physics } = this.pool;
+    const count = this.pool.allocatedCount;
+    if (strength <= 0) return;
+    
+    for (let i = 0; i < count; i++) {
+      if (physics.alpha[i] < 0.01) continue;
+      const dx = x - physics.positionX[i];
+      const dy = y - physics.positionY[i];
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      if (distance < 1) continue;
+      physics.velocityX[i] += (dx / distance) * strength;
+      physics.velocityY[i] += (dy / distance) * strength;
+    }
+  }
+
   /**
    * Apply impulse to all particles (for visual effects)
    */
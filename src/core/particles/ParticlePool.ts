@@ -13,7 +13,10 @@ import {
   DEFAULT_PARTICLE_CONFIG,
   DEFAULT_PARTICLE_COLORS,
   LandmarkType,
+  getFaceColor,
 } from './types';
+import { MAX_TRACKED_HANDS, MAX_TRACKED_FACES, FACE_MESH_LANDMARK_COUNT } from '@/lib/types';
+import { FACE_LANDMARK_CAPACITY } from '../tracking/LandmarkFrame';
 
 import {
   GOLDEN_ANGLE,
@@ -25,10 +28,22 @@ import {
 import {
   DEFAULT_FACE_DISTRIBUTION,
   getFaceParticlesPerLandmark,
+  calculateFaceParticleCount,
   calculateFaceParticleSpread,
-  FACE_COLOR,
 } from './FaceDistribution';
 
+import {
+  BODY_SEGMENTS,
+  MIN_SHOULDER_WIDTH,
+  calculateBodyParticleCount,
+  calculateBodyParticlePosition,
+  isBodySegmentVisible,
+} from './BodyDistribution';
+
+import { sampleSilhouette } from './SilhouetteDistribution';
+import type { SegmentationMask } from '@/lib/types';
+import { CoordinateMapper } from '@/core/coordinates';
+
 /**
  * Pre-allocated particle pool with static landmark bindings
  */
@@ -51,26 +66,51 @@ export class ParticlePool {
   /** Number of particles actually allocated */
   public readonly allocatedCount: number;
   
-  /** Canvas dimensions for coordinate conversion */
-  private canvasWidth = 1920;
-  private canvasHeight = 1080;
+  /** Normalized landmark to canvas pixel mapping (mirroring, fit, region of interest) */
+  public readonly mapper = new CoordinateMapper();
   
   /** Base alpha values per particle (before detection state multiplier) */
   private readonly baseAlpha: Float32Array;
   
-  /** Alpha multipliers per hand (from DetectionStateManager) */
-  private handAlphaMultipliers: [number, number] = [1, 1];
+  /** Alpha multipliers per hand slot (from DetectionStateManager) */
+  private readonly handAlphaMultipliers: number[];
+  
+  /** Share of each hand's particles in use (hand budget split among visible hands) */
+  private handShare = 1;
+  
+  /** Alpha multipliers per face slot (from DetectionStateManager) */
+  private readonly faceAlphaMultipliers: number[];
+  
+  /** Spread multipliers per face slot (from expressions) */
+  private readonly faceSpreadScales: number[];
   
-  /** Alpha multiplier for face (from DetectionStateManager) */
-  private faceAlphaMultiplier = 1;
+  /** Extra rotation per face slot in radians (from head pose) */
+  private readonly faceRotations: { yaw: number; pitch: number }[];
+  
+  /** Alpha multiplier for the body (from DetectionStateManager) */
+  private bodyAlphaMultiplier = 1;
+  
+  /** Alpha multiplier for the silhouette (from DetectionStateManager) */
+  private silhouetteAlphaMultiplier = 1;
+  
+  /** Rendered size / allocated size (set through setBaseSize) */
+  private sizeScale = 1;
+  
+  /** Normalized silhouette sample positions (x, y per silhouette particle) */
+  private readonly silhouetteSamples: Float32Array;
 
   constructor(config: Partial<ParticleConfig> = {}) {
     this.config = { ...DEFAULT_PARTICLE_CONFIG, ...config };
     this.colors = { ...DEFAULT_PARTICLE_COLORS };
+    this.handAlphaMultipliers = new Array<number>(this.handSlotCount).fill(1);
+    this.faceAlphaMultipliers = new Array<number>(this.faceSlotCount).fill(1);
+    this.faceSpreadScales = new Array<number>(this.faceSlotCount).fill(1);
+    this.faceRotations = Array.from({ length: this.faceSlotCount }, () => ({ yaw: 0, pitch: 0 }));
     
     // Create static bindings
     this.bindings = this.createBindings();
     this.allocatedCount = this.bindings.totalParticleCount;
+    this.silhouetteSamples = new Float32Array(this.bindings.silhouette.count * 2);
     
     // Pre-allocate GPU buffer
     this.gpuBuffer = new Float32Array(this.allocatedCount * 7);
@@ -100,6 +140,20 @@ export class ParticlePool {
     this.initializeParticles();
   }
 
+  /**
+   * Number of hand slots (config.maxHands clamped to 1..MAX_TRACKED_HANDS)
+   */
+  get handSlotCount(): number {
+    return Math.max(1, Math.min(MAX_TRACKED_HANDS, Math.floor(this.config.maxHands)));
+  }
+
+  /**
+   * Number of face slots (config.maxFaces clamped to 1..MAX_TRACKED_FACES)
+   */
+  get faceSlotCount(): number {
+    return Math.max(1, Math.min(MAX_TRACKED_FACES, Math.floor(this.config.maxFaces)));
+  }
+
   /**
    * Create static bindings from landmarks to particle ranges
    * Called once at initialization
@@ -107,13 +161,14 @@ export class ParticlePool {
    */
   private createBindings(): ParticleBindings {
     const handBindings = new Map<number, ParticleRange>();
-    const faceBindings = new Map<number, ParticleRange>();
+    const faceBindings: Map<number, ParticleRange>[] = [];
     
     let currentIndex = 0;
     
-    // Hand particles: 21 landmarks × 2 hands
+    // Hand particles: 21 landmarks per hand slot, each slot bound at full density
+    // (only a share is used once more hands are visible than the hand budget)
     const handLandmarkCount = 21;
-    const handsCount = 2;
+    const handsCount = this.handSlotCount;
     
     // Use zone-specific particle counts from HandDistribution
     // This produces 800-1200 particles per hand as per spec
@@ -121,7 +176,7 @@ export class ParticlePool {
       return getParticlesPerLandmark(landmarkIdx, DEFAULT_HAND_DISTRIBUTION);
     };
     
-    // Create bindings for both hands
+    // Create bindings for every hand slot
     for (let hand = 0; hand < handsCount; hand++) {
       for (let lm = 0; lm < handLandmarkCount; lm++) {
         const compositeKey = hand * 100 + lm; // Unique key per hand+landmark
@@ -138,18 +193,61 @@ export class ParticlePool {
     
     const handParticleCount = currentIndex;
     
-    // Face particles: 468 landmarks with zone-specific particle counts
-    // Uses FaceDistribution for 4,000-6,000 particles total
-    const faceLandmarkCount = 468;
+    // Body particles: one range per skeleton segment (only when body tracking is on)
+    const bodyBindings = new Map<number, ParticleRange>();
+    if (this.config.body) {
+      const bodyBudget = Math.max(0, this.config.maxParticles - handParticleCount);
+      const bodyScale = Math.min(1, bodyBudget / calculateBodyParticleCount());
+      
+      for (let segment = 0; segment < BODY_SEGMENTS.length; segment++) {
+        const count = Math.max(1, Math.floor(BODY_SEGMENTS[segment].particles * bodyScale));
+        bodyBindings.set(segment, {
+          start: currentIndex,
+          count,
+        });
+        currentIndex += count;
+      }
+    }
+    
+    const bodyParticleCount = currentIndex - handParticleCount;
+    
+    // Silhouette particles: one range filling the segmentation mask (only when on)
+    const silhouetteStart = currentIndex;
+    if (this.config.silhouette) {
+      const silhouetteBudget = Math.max(0, this.config.maxParticles - currentIndex);
+      const requested = Math.max(0, Math.floor(this.config.silhouetteParticles));
+      currentIndex += Math.min(requested, silhouetteBudget);
+    }
+    const silhouette: ParticleRange = {
+      start: silhouetteStart,
+      count: currentIndex - silhouetteStart,
+    };
+    
+    // Face particles: 478 landmarks (mesh plus irises) with zone-specific particle counts per face slot
+    // Uses FaceDistribution for 4,000-6,000 particles per face; with several
+    // faces the counts are scaled down so every slot fits the remaining budget
+    const faceLandmarkCount = FACE_LANDMARK_CAPACITY;
+    const faceSlots = this.faceSlotCount;
     const faceStartIndex = currentIndex;
     
-    for (let lm = 0; lm < faceLandmarkCount; lm++) {
-      const count = getFaceParticlesPerLandmark(lm, DEFAULT_FACE_DISTRIBUTION);
-      faceBindings.set(lm, {
-        start: currentIndex,
-        count,
-      });
-      currentIndex += count;
+    const fullFaceCount = calculateFaceParticleCount(DEFAULT_FACE_DISTRIBUTION);
+    const faceBudget = Math.max(0, this.config.maxParticles - faceStartIndex);
+    const faceScale = Math.min(1, faceBudget / (fullFaceCount * faceSlots));
+    
+    for (let face = 0; face < faceSlots; face++) {
+      const bindings = new Map<number, ParticleRange>();
+      
+      for (let lm = 0; lm < faceLandmarkCount; lm++) {
+        const baseCount = getFaceParticlesPerLandmark(lm, DEFAULT_FACE_DISTRIBUTION);
+        const count = Math.max(1, Math.floor(baseCount * faceScale));
+        bindings.set(lm, {
+          start: currentIndex,
+          count,
+        });
+        currentIndex += count;
+      }
+      
+      faceBindings.push(bindings);
     }
     
     const faceParticleCount = currentIndex - faceStartIndex;
@@ -159,9 +257,14 @@ export class ParticlePool {
     
     return {
       hand: handBindings,
-      face: faceBindings,
+      face: faceBindings[0],
+      faces: faceBindings,
+      body: bodyBindings,
+      silhouette,
       handParticleCount: Math.min(handParticleCount, this.config.maxParticles),
-      faceParticleCount: Math.min(faceParticleCount, this.config.maxParticles - handParticleCount),
+      faceParticleCount: Math.min(faceParticleCount, this.config.maxParticles - faceStartIndex),
+      bodyParticleCount: Math.min(bodyParticleCount, this.config.maxParticles - handParticleCount),
+      silhouetteParticleCount: silhouette.count,
       totalParticleCount,
     };
   }
@@ -204,21 +307,52 @@ export class ParticlePool {
       }
     }
     
-    // Initialize face particles
-    for (const [landmarkIndex, range] of bindings.face) {
+    // Initialize face particles (handIndex holds the face slot)
+    for (let face = 0; face < bindings.faces.length; face++) {
+      for (const [landmarkIndex, range] of bindings.faces[face]) {
+        for (let i = 0; i < range.count; i++) {
+          const idx = range.start + i;
+          if (idx >= this.allocatedCount) break;
+          
+          // Set binding info
+          physics.landmarkIndex[idx] = landmarkIndex;
+          physics.landmarkType[idx] = LandmarkType.Face;
+          physics.handIndex[idx] = face;
+        
+          // Size (face particles slightly smaller)
+          const angle = i * GOLDEN_ANGLE;
+          const sizeVariation = Math.sin(angle * 3) * config.sizeVariance * 0.8;
+          physics.size[idx] = config.baseSize * 0.8 + sizeVariation;
+          
+          // Start invisible
+          physics.alpha[idx] = 0;
+          
+          // Position off-screen initially
+          physics.positionX[idx] = -1000;
+          physics.positionY[idx] = -1000;
+          physics.targetX[idx] = -1000;
+          physics.targetY[idx] = -1000;
+          physics.velocityX[idx] = 0;
+          physics.velocityY[idx] = 0;
+        }
+      }
+    }
+    
+    // Initialize body particles (landmarkIndex holds the segment)
+    for (const [segment, range] of bindings.body) {
       for (let i = 0; i < range.count; i++) {
         const idx = range.start + i;
         if (idx >= this.allocatedCount) break;
         
         // Set binding info
-        physics.landmarkIndex[idx] = landmarkIndex;
-        physics.landmarkType[idx] = LandmarkType.Face;
+        physics.landmarkIndex[idx] = segment;
+        physics.landmarkType[idx] = LandmarkType.Body;
         physics.handIndex[idx] = 0;
         
-        // Size (face particles slightly smaller)
+        // Size (body particles between hand and face sizes)
         const angle = i * GOLDEN_ANGLE;
-        const sizeVariation = Math.sin(angle * 3) * config.sizeVariance * 0.8;
-        physics.size[idx] = config.baseSize * 0.8 + sizeVariation;
+        const sizeVariation = Math.sin(angle * 3) * config.sizeVariance * 0.9;
+        physics.size[idx] = config.baseSize * 0.9 + sizeVariation;
         
         // Start invisible
         physics.alpha[idx] = 0;
@@ -232,20 +366,47 @@ export class ParticlePool {
         physics.velocityY[idx] = 0;
       }
     }
+    
+    // Initialize silhouette particles (no landmark binding)
+    for (let i = 0; i < bindings.silhouette.count; i++) {
+      const idx = bindings.silhouette.start + i;
+      if (idx >= this.allocatedCount) break;
+      
+      // Set binding info
+      physics.landmarkIndex[idx] = 0;
+      physics.landmarkType[idx] = LandmarkType.Silhouette;
+      physics.handIndex[idx] = 0;
+      
+      // Size (silhouette particles are the smallest, a backdrop for the rest)
+      const angle = i * GOLDEN_ANGLE;
+      const sizeVariation = Math.sin(angle * 3) * config.sizeVariance * 0.6;
+      physics.size[idx] = config.baseSize * 0.7 + sizeVariation;
+      
+      // Start invisible
+      physics.alpha[idx] = 0;
+      
+      // Position off-screen initially
+      physics.positionX[idx] = -1000;
+      physics.positionY[idx] = -1000;
+      physics.targetX[idx] = -1000;
+      physics.targetY[idx] = -1000;
+      physics.velocityX[idx] = 0;
+      physics.velocityY[idx] = 0;
+    }
   }
 
   /**
    * Update canvas dimensions for coordinate conversion
    */
   setCanvasSize(width: number, height: number): void {
-    this.canvasWidth = width;
-    this.canvasHeight = height;
+    this.mapper.setTargetSize(width, height);
   }
 
   /**
    * Update hand landmark targets from normalized coordinates
    * Uses zone-specific spread: fingertips 1-2px, finger segments 3-5px, palm 8-12px
-   * @param handIndex 0 or 1
+   * Only the current hand share of each landmark's particles is shown
+   * @param handIndex Hand slot
    * @param landmarks Array of 21 normalized landmarks
    * @param handedness 'Left' or 'Right' for color selection
    * @param alphaMultiplier Alpha multiplier from detection state (0-1)
@@ -268,20 +429,30 @@ export class ParticlePool {
       if (!range) continue;
       
       const landmark = landmarks[lm];
-      // Convert normalized to screen coords (mirror X for selfie view)
-      const screenX = (1 - landmark.x) * this.canvasWidth;
-      const screenY = landmark.y * this.canvasHeight;
+      // Convert normalized to screen coords
+      const screenX = this.mapper.mapX(landmark.x);
+      const screenY = this.mapper.mapY(landmark.y);
       const visibility = landmark.visibility ?? 1;
+      const activeCount = Math.max(1, Math.ceil(range.count * this.handShare));
       
       for (let i = 0; i < range.count; i++) {
         const idx = range.start + i;
         if (idx >= this.allocatedCount) break;
         
+        // Particles outside the share wait hidden on the landmark
+        if (i >= activeCount) {
+          physics.targetX[idx] = screenX;
+          physics.targetY[idx] = screenY;
+          this.baseAlpha[idx] = 0;
+          physics.alpha[idx] = 0;
+          continue;
+        }
+        
         // Calculate golden spiral offset with zone-specific spread and depth scaling
         const { offsetX, offsetY } = calculateParticleSpread(
           lm,
           i,
-          range.count,
+          activeCount,
           landmark.z
         );
         
@@ -306,29 +477,71 @@ export class ParticlePool {
   /**
    * Update face landmark targets from normalized coordinates
    * Uses zone-specific tight clustering (1-2px) and depth boost
-   * @param landmarks Array of 468 normalized landmarks
+   * @param landmarks 468 normalized mesh landmarks, followed by the 10 iris
+   *                  landmarks when tracked (iris particles hide without them)
    * @param alphaMultiplier Alpha multiplier from detection state (0-1)
+   * @param faceIndex Face slot (0 = first face)
    */
   updateFaceTargets(
     landmarks: { x: number; y: number; z: number; visibility?: number }[],
-    alphaMultiplier = 1
+    alphaMultiplier = 1,
+    faceIndex = 0
   ): void {
-    const { physics, bindings } = this;
-    // Use the face color from FaceDistribution module
-    const color = { r: FACE_COLOR.r, g: FACE_COLOR.g, b: FACE_COLOR.b };
+    const { physics, bindings, mapper } = this;
+    const faceBindings = bindings.faces[faceIndex];
+    if (!faceBindings) return;
+    
+    // Each face slot has its own theme color and spread
+    const color = getFaceColor(this.colors, faceIndex);
+    const spreadScale = this.faceSpreadScales[faceIndex];
+    
+    // Extra 3D rotation about the face center (landmark z is in x units)
+    const { yaw, pitch } = this.faceRotations[faceIndex];
+    const rotate = yaw !== 0 || pitch !== 0;
+    const cosYaw = Math.cos(yaw);
+    const sinYaw = Math.sin(yaw);
+    const cosPitch = Math.cos(pitch);
+    const sinPitch = Math.sin(pitch);
+    const scale = mapper.getScale();
+    const mirrorSign = mapper.isMirrored() ? -1 : 1;
+    let centerX = 0;
+    let centerY = 0;
+    let centerZ = 0;
+    if (rotate) {
+      const count = Math.min(landmarks.length, FACE_MESH_LANDMARK_COUNT);
+      for (let lm = 0; lm < count; lm++) {
+        centerX += landmarks[lm].x;
+        centerY += landmarks[lm].y;
+        centerZ += landmarks[lm].z;
+      }
+      centerX /= count;
+      centerY /= count;
+      centerZ /= count;
+    }
     
-    // Store the alpha multiplier for face
-    this.faceAlphaMultiplier = alphaMultiplier;
+    // Store the alpha multiplier for this face
+    this.faceAlphaMultipliers[faceIndex] = alphaMultiplier;
     
-    for (let lm = 0; lm < landmarks.length && lm < 468; lm++) {
-      const range = bindings.face.get(lm);
+    for (let lm = 0; lm < landmarks.length && lm < FACE_LANDMARK_CAPACITY; lm++) {
+      const range = faceBindings.get(lm);
       if (!range) continue;
       
       const landmark = landmarks[lm];
-      const screenX = (1 - landmark.x) * this.canvasWidth;
-      const screenY = landmark.y * this.canvasHeight;
+      let screenX = mapper.mapX(landmark.x);
+      let screenY = mapper.mapY(landmark.y);
       const visibility = landmark.visibility ?? 1;
       
+      if (rotate) {
+        // Yaw turns the nose toward the camera image's right, pitch tilts it down
+        // (offsets in image orientation, in canvas pixels)
+        const dx = (landmark.x - centerX) * scale.x;
+        const dy = (landmark.y - centerY) * scale.y;
+        const dz = (landmark.z - centerZ) * scale.x;
+        const yawedZ = dx * sinYaw + dz * cosYaw;
+        screenX = mapper.mapX(centerX) + mirrorSign * (dx * cosYaw - dz * sinYaw);
+        screenY = mapper.mapY(centerY) + dy * cosPitch - yawedZ * sinPitch;
+      }
+      
       for (let i = 0; i < range.count; i++) {
         const idx = range.start + i;
         if (idx >= this.allocatedCount) break;
@@ -339,7 +552,8 @@ export class ParticlePool {
           i,
           range.count,
           landmark.z,
-          DEFAULT_FACE_DISTRIBUTION
+          DEFAULT_FACE_DISTRIBUTION,
+          spreadScale
         );
         
         physics.targetX[idx] = screenX + offsetX;
@@ -352,17 +566,187 @@ export class ParticlePool {
         // Apply detection state multiplier
         physics.alpha[idx] = baseAlphaValue * alphaMultiplier;
         
-        // Set face color (pink/magenta #EC4899)
+        // Set face slot color
         physics.colorR[idx] = color.r;
         physics.colorG[idx] = color.g;
         physics.colorB[idx] = color.b;
       }
     }
+    
+    // Landmarks the face did not come with (irises) keep their particles hidden
+    for (let lm = landmarks.length; lm < FACE_LANDMARK_CAPACITY; lm++) {
+      const range = faceBindings.get(lm);
+      if (!range) continue;
+      for (let idx = range.start; idx < range.start + range.count && idx < this.allocatedCount; idx++) {
+        this.baseAlpha[idx] = 0;
+        physics.alpha[idx] = 0;
+      }
+    }
+  }
+
+  /**
+   * Update body targets from normalized pose landmarks
+   * Each segment is filled between its end points, sized by shoulder width;
+   * segments whose joints are out of view are hidden
+   * @param landmarks Array of 33 normalized pose landmarks
+   * @param alphaMultiplier Alpha multiplier from detection state (0-1)
+   */
+  updateBodyTargets(
+    landmarks: { x: number; y: number; z: number; visibility?: number }[],
+    alphaMultiplier = 1
+  ): void {
+    const { physics, bindings } = this;
+    if (bindings.body.size === 0 || landmarks.length < 33) return;
+    
+    const color = this.colors.body;
+    const screenX = (lm: number) => this.mapper.mapX(landmarks[lm].x);
+    const screenY = (lm: number) => this.mapper.mapY(landmarks[lm].y);
+    const visibility = (lm: number) => landmarks[lm].visibility ?? 1;
+    
+    // Segment widths follow the on-screen shoulder width (landmarks 11 and 12)
+    const shoulderWidth = Math.max(
+      MIN_SHOULDER_WIDTH,
+      Math.hypot(screenX(11) - screenX(12), screenY(11) - screenY(12))
+    );
+    
+    // Store the alpha multiplier for the body
+    this.bodyAlphaMultiplier = alphaMultiplier;
+    
+    for (const [segmentIndex, range] of bindings.body) {
+      const segment = BODY_SEGMENTS[segmentIndex];
+      const visible = isBodySegmentVisible(segment, visibility);
+      const [fromA, fromB] = segment.from;
+      const [toA, toB] = segment.to;
+      const fromX = (screenX(fromA) + screenX(fromB)) / 2;
+      const fromY = (screenY(fromA) + screenY(fromB)) / 2;
+      const toX = (screenX(toA) + screenX(toB)) / 2;
+      const toY = (screenY(toA) + screenY(toB)) / 2;
+      const width = segment.width * shoulderWidth;
+      
+      for (let i = 0; i < range.count; i++) {
+        const idx = range.start + i;
+        if (idx >= this.allocatedCount) break;
+        
+        const { x, y } = calculateBodyParticlePosition(
+          i,
+          range.count,
+          fromX,
+          fromY,
+          toX,
+          toY,
+          width
+        );
+        physics.targetX[idx] = x;
+        physics.targetY[idx] = y;
+        
+        // Store base alpha based on segment visibility (before multiplier)
+        const baseAlphaValue = visible ? 0.5 + Math.random() * 0.3 : 0;
+        this.baseAlpha[idx] = baseAlphaValue;
+        
+        // Apply detection state multiplier
+        physics.alpha[idx] = baseAlphaValue * alphaMultiplier;
+        
+        // Set body color
+        physics.colorR[idx] = color.r;
+        physics.colorG[idx] = color.g;
+        physics.colorB[idx] = color.b;
+      }
+    }
+  }
+
+  /**
+   * Update silhouette targets from a segmentation mask
+   * Particles are spread over the person's cells; with no one in the mask
+   * they keep their targets and are hidden
+   * @param mask Person mask (unmirrored image)
+   * @param alphaMultiplier Alpha multiplier from detection state (0-1)
+   */
+  updateSilhouetteTargets(mask: SegmentationMask, alphaMultiplier = 1): void {
+    const { physics, bindings, silhouetteSamples } = this;
+    const { start, count } = bindings.silhouette;
+    if (count === 0) return;
+    
+    const color = this.colors.silhouette;
+    const hasPerson = sampleSilhouette(mask, count, silhouetteSamples);
+    
+    // Store the alpha multiplier for the silhouette
+    this.silhouetteAlphaMultiplier = alphaMultiplier;
+    
+    for (let i = 0; i < count; i++) {
+      const idx = start + i;
+      if (idx >= this.allocatedCount) break;
+      
+      if (hasPerson) {
+        // Convert normalized to screen coords
+        physics.targetX[idx] = this.mapper.mapX(silhouetteSamples[i * 2]);
+        physics.targetY[idx] = this.mapper.mapY(silhouetteSamples[i * 2 + 1]);
+      }
+      
+      // Store base alpha (before multiplier), dimmer than landmark particles
+      const baseAlphaValue = hasPerson ? 0.35 + Math.random() * 0.2 : 0;
+      this.baseAlpha[idx] = baseAlphaValue;
+      
+      // Apply detection state multiplier
+      physics.alpha[idx] = baseAlphaValue * alphaMultiplier;
+      
+      // Set silhouette color
+      physics.colorR[idx] = color.r;
+      physics.colorG[idx] = color.g;
+      physics.colorB[idx] = color.b;
+    }
+  }
+
+  /**
+   * Scale the particle spread around a face's landmarks
+   * (applied on the next target update)
+   * @param faceIndex Face slot
+   * @param scale Spread multiplier (1 = default clustering)
+   */
+  setFaceSpreadScale(faceIndex: number, scale: number): void {
+    if (faceIndex < 0 || faceIndex >= this.faceSlotCount) return;
+    this.faceSpreadScales[faceIndex] = Math.max(0, scale);
+  }
+
+  /**
+   * Get the spread multiplier of a face slot
+   */
+  getFaceSpreadScale(faceIndex = 0): number {
+    return this.faceSpreadScales[faceIndex] ?? 1;
+  }
+
+  /**
+   * Rotate a face's particle cloud in 3D about the face center
+   * (applied on the next target update; angles follow HeadPose)
+   * @param faceIndex Face slot
+   * @param yaw Extra yaw in radians
+   * @param pitch Extra pitch in radians
+   */
+  setFaceRotation(faceIndex: number, yaw: number, pitch: number): void {
+    const rotation = this.faceRotations[faceIndex];
+    if (!rotation) return;
+    rotation.yaw = yaw;
+    rotation.pitch = pitch;
+  }
+
+  /**
+   * Split the hand budget among the visible hands
+   * Up to config.handBudget hands use all their particles; beyond that each
+   * hand shows budget / count of them (applied on the next target update)
+   */
+  setVisibleHandCount(count: number): void {
+    this.handShare = count > this.config.handBudget ? this.config.handBudget / count : 1;
+  }
+
+  /**
+   * Get the share of each hand's particles currently in use (0-1)
+   */
+  getHandShare(): number {
+    return this.handShare;
   }
 
   /**
    * Apply alpha multiplier to a hand (for smooth transitions)
-   * @param handIndex 0 or 1
+   * @param handIndex Hand slot
    * @param multiplier Alpha multiplier (0-1)
    */
   applyHandAlphaMultiplier(handIndex: number, multiplier: number): void {
@@ -383,14 +767,17 @@ export class ParticlePool {
   }
 
   /**
-   * Apply alpha multiplier to face (for smooth transitions)
+   * Apply alpha multiplier to a face (for smooth transitions)
    * @param multiplier Alpha multiplier (0-1)
+   * @param faceIndex Face slot (0 = first face)
    */
-  applyFaceAlphaMultiplier(multiplier: number): void {
+  applyFaceAlphaMultiplier(multiplier: number, faceIndex = 0): void {
     const { physics, bindings } = this;
-    this.faceAlphaMultiplier = multiplier;
+    const faceBindings = bindings.faces[faceIndex];
+    if (!faceBindings) return;
+    this.faceAlphaMultipliers[faceIndex] = multiplier;
     
-    for (const [, range] of bindings.face) {
+    for (const [, range] of faceBindings) {
       for (let i = 0; i < range.count; i++) {
         const idx = range.start + i;
         if (idx >= this.allocatedCount) break;
@@ -399,6 +786,39 @@ export class ParticlePool {
     }
   }
 
+  /**
+   * Apply alpha multiplier to the body (for smooth transitions)
+   * @param multiplier Alpha multiplier (0-1)
+   */
+  applyBodyAlphaMultiplier(multiplier: number): void {
+    const { physics, bindings } = this;
+    this.bodyAlphaMultiplier = multiplier;
+    
+    for (const [, range] of bindings.body) {
+      for (let i = 0; i < range.count; i++) {
+        const idx = range.start + i;
+        if (idx >= this.allocatedCount) break;
+        physics.alpha[idx] = this.baseAlpha[idx] * multiplier;
+      }
+    }
+  }
+
+  /**
+   * Apply alpha multiplier to the silhouette (for smooth transitions)
+   * @param multiplier Alpha multiplier (0-1)
+   */
+  applySilhouetteAlphaMultiplier(multiplier: number): void {
+    const { physics, bindings } = this;
+    this.silhouetteAlphaMultiplier = multiplier;
+    
+    const { start, count } = bindings.silhouette;
+    for (let i = 0; i < count; i++) {
+      const idx = start + i;
+      if (idx >= this.allocatedCount) break;
+      physics.alpha[idx] = this.baseAlpha[idx] * multiplier;
+    }
+  }
+
   /**
    * Hide all particles for a specific hand (instant, sets multiplier to 0)
    */
@@ -407,10 +827,24 @@ export class ParticlePool {
   }
 
   /**
-   * Hide all face particles (instant, sets multiplier to 0)
+   * Hide all particles for a face slot (instant, sets multiplier to 0)
    */
-  hideFace(): void {
-    this.applyFaceAlphaMultiplier(0);
+  hideFace(faceIndex = 0): void {
+    this.applyFaceAlphaMultiplier(0, faceIndex);
+  }
+
+  /**
+   * Hide all body particles (instant, sets multiplier to 0)
+   */
+  hideBody(): void {
+    this.applyBodyAlphaMultiplier(0);
+  }
+
+  /**
+   * Hide all silhouette particles (instant, sets multiplier to 0)
+   */
+  hideSilhouette(): void {
+    this.applySilhouetteAlphaMultiplier(0);
   }
 
   /**
@@ -421,23 +855,52 @@ export class ParticlePool {
   }
 
   /**
-   * Get current alpha multiplier for face
+   * Get current alpha multiplier for a face slot
+   */
+  getFaceAlphaMultiplier(faceIndex = 0): number {
+    return this.faceAlphaMultipliers[faceIndex] ?? 0;
+  }
+
+  /**
+   * Get current alpha multiplier for the body
+   */
+  getBodyAlphaMultiplier(): number {
+    return this.bodyAlphaMultiplier;
+  }
+
+  /**
+   * Get current alpha multiplier for the silhouette
+   */
+  getSilhouetteAlphaMultiplier(): number {
+    return this.silhouetteAlphaMultiplier;
+  }
+
+  /**
+   * Change the base particle size live (every particle keeps its size relative to it)
+   * @param baseSize Size in pixels, replaces config.baseSize
+   */
+  setBaseSize(baseSize: number): void {
+    this.sizeScale = Math.max(0, baseSize) / this.config.baseSize;
+  }
+
+  /**
+   * Get the current base particle size in pixels
    */
-  getFaceAlphaMultiplier(): number {
-    return this.faceAlphaMultiplier;
+  getBaseSize(): number {
+    return this.config.baseSize * this.sizeScale;
   }
 
   /**
    * Copy physics state to GPU buffer for rendering
    */
   updateGPUBuffer(): void {
-    const { physics, gpuBuffer, allocatedCount } = this;
+    const { physics, gpuBuffer, allocatedCount, sizeScale } = this;
     
     for (let i = 0; i < allocatedCount; i++) {
       const offset = i * 7;
       gpuBuffer[offset] = physics.positionX[i];
       gpuBuffer[offset + 1] = physics.positionY[i];
-      gpuBuffer[offset + 2] = physics.size[i];
+      gpuBuffer[offset + 2] = physics.size[i] * sizeScale;
       gpuBuffer[offset + 3] = physics.colorR[i];
       gpuBuffer[offset + 4] = physics.colorG[i];
       gpuBuffer[offset + 5] = physics.colorB[i];
@@ -4,16 +4,34 @@
  * Handles smooth transitions when detection is lost or regained
  */
 
-import type { TrackingResult } from '@/lib/types';
+import type { TrackingResult, HeadPose, Landmark } from '@/lib/types';
 import { ParticlePool } from './ParticlePool';
 import { LandmarkInterpolator } from './LandmarkInterpolator';
 import { ParticlePhysics, PhysicsMode, type RepulsionConfig } from './ParticlePhysics';
 import { DetectionStateManager } from './DetectionStateManager';
-import type { ParticleConfig, ParticleColors } from './types';
+import { ExpressionController, type ExpressionConfig } from './ExpressionController';
+import { GazeController, type GazeConfig } from './GazeController';
+import { PinchController, type PinchConfig } from './PinchController';
+import type { LandmarkFilterConfig } from './LandmarkFilter';
+import type { PredictionConfig } from './LandmarkPredictor';
+import type { CoordinateMapping } from '@/core/coordinates';
+import type { ParticleConfig, ParticleColors, LandmarkLatency } from './types';
 import { DEFAULT_PARTICLE_CONFIG, DEFAULT_PARTICLE_COLORS } from './types';
 
 export interface ParticleSystemConfig extends Partial<ParticleConfig> {
   colors?: Partial<ParticleColors>;
+  /** Expression behaviors (only active when faces carry blendshapes) */
+  expressions?: Partial<ExpressionConfig>;
+  /** Gaze effects (only active when faces carry iris landmarks, default: none) */
+  gaze?: Partial<GazeConfig>;
+  /** Continuous hand controls (pinch, pinch position, two-hand span) */
+  pinch?: Partial<PinchConfig>;
+  /** Jitter filtering of incoming landmarks */
+  filtering?: Partial<LandmarkFilterConfig>;
+  /** Prediction past the latest detection per entity (default: plain interpolation) */
+  prediction?: Partial<PredictionConfig>;
+  /** Landmark to canvas mapping (default: mirrored, cover fit, whole image) */
+  mapping?: Partial<CoordinateMapping>;
 }
 
 /**
@@ -33,6 +51,15 @@ export class ParticleSystem {
   /** Detection state manager for smooth transitions */
   public readonly detectionState: DetectionStateManager;
   
+  /** Blendshape-driven face behaviors */
+  public readonly expressions: ExpressionController;
+  
+  /** Gaze-driven eye beams and attractor */
+  public readonly gaze: GazeController;
+  
+  /** Hand controls that parameters can be bound to */
+  public readonly pinch: PinchController;
+  
   /** Configuration */
   public readonly config: ParticleConfig;
   
@@ -42,17 +69,23 @@ export class ParticleSystem {
   /** Last tracking result timestamp */
   private lastTrackingTimestamp = 0;
   
-  /** Track which hands were visible last frame */
-  private prevHandsVisible: boolean[] = [false, false];
+  /** Track which hand slots were visible last frame */
+  private prevHandsVisible: boolean[] = [];
   
-  /** Track if face was visible last frame */
-  private prevFaceVisible = false;
+  /** Track which face slots were visible last frame */
+  private prevFacesVisible: boolean[] = [];
   
   /** First detection flag (for snap-to-target) */
   private isFirstDetection = true;
   
   /** Last handedness per hand slot (for re-detection position lerping) */
-  private lastHandedness: ('Left' | 'Right')[] = ['Left', 'Right'];
+  private lastHandedness: ('Left' | 'Right')[] = [];
+  
+  /** Landmarks per hand slot fed to the pinch controls (reused every frame) */
+  private controlHands: (Landmark[] | null)[] = [];
+  
+  /** Whether the latest result was synthetic (demo hands do not dial the controls) */
+  private syntheticInput = false;
 
   constructor(config: ParticleSystemConfig = {}) {
     this.config = { ...DEFAULT_PARTICLE_CONFIG, ...config };
@@ -65,14 +98,35 @@ export class ParticleSystem {
       this.pool.colors = { ...DEFAULT_PARTICLE_COLORS, ...config.colors };
     }
     
-    // Create interpolator
-    this.interpolator = new LandmarkInterpolator();
+    // Apply custom coordinate mapping if provided
+    if (config.mapping) {
+      this.pool.mapper.setMapping(config.mapping);
+    }
+    
+    // Create interpolator with the pool's hand and face slots
+    const handSlots = this.pool.handSlotCount;
+    const faceSlots = this.pool.faceSlotCount;
+    this.interpolator = new LandmarkInterpolator(
+      handSlots,
+      faceSlots,
+      config.filtering,
+      config.prediction
+    );
     
     // Create physics
     this.physics = new ParticlePhysics(this.pool);
     
     // Create detection state manager for smooth transitions
-    this.detectionState = new DetectionStateManager();
+    this.detectionState = new DetectionStateManager(handSlots, faceSlots);
+    
+    // Create expression controller (idle until blendshapes arrive)
+    this.expressions = new ExpressionController(faceSlots, config.expressions);
+    
+    // Create gaze controller (idle until an effect is chosen)
+    this.gaze = new GazeController(faceSlots, config.gaze);
+    
+    // Create pinch controls (parameters follow only once bound)
+    this.pinch = new PinchController(config.pinch);
     
     this.initialized = true;
   }
@@ -86,16 +140,24 @@ export class ParticleSystem {
 
   /**
    * Push new tracking result from MediaPipe (~30fps)
+   * @param synthetic Demo landmarks standing in for tracking (drawn, but kept
+   * away from the pinch controls so bound parameters hold their values)
    */
-  pushTrackingResult(result: TrackingResult): void {
+  pushTrackingResult(result: TrackingResult, synthetic = false): void {
     if (!this.initialized) return;
     
     // Avoid processing duplicate frames
     if (result.timestamp === this.lastTrackingTimestamp) return;
     this.lastTrackingTimestamp = result.timestamp;
+    this.syntheticInput = synthetic;
+    
+    // Fit the image the landmarks were detected in (sources that know its size report it)
+    if (result.imageAspect) {
+      this.pool.mapper.setSourceAspect(result.imageAspect);
+    }
     
-    // Push to interpolator for smoothing
-    this.interpolator.pushFrame(result);
+    // Push to interpolator for smoothing (arrival time feeds the latency readout)
+    this.interpolator.pushFrame(result, performance.now());
   }
 
   /**
@@ -112,11 +174,23 @@ export class ParticleSystem {
     this.detectionState.update(
       renderTimestamp,
       interpolated.handsVisible,
-      interpolated.faceVisible
+      interpolated.facesVisible,
+      interpolated.bodyVisible,
+      interpolated.silhouetteVisible
     );
     
+    // Apply expressions (face spread and bursts), head pose and gaze before targets and physics
+    this.updateExpressions(interpolated.facesVisible, renderTimestamp);
+    this.updateHeadPoses(interpolated.facesVisible);
+    this.updateGaze(interpolated.facesVisible);
+    this.updatePinch(interpolated.handsVisible, interpolated.handedness);
+    
     // Update particle targets and apply alpha multipliers based on detection state
-    this.updateParticleTargets(interpolated.handsVisible, interpolated.faceVisible, renderTimestamp);
+    this.updateParticleTargets(
+      interpolated.handsVisible,
+      interpolated.handedness,
+      interpolated.facesVisible
+    );
     
     // Run physics simulation (includes drift for fading particles)
     this.physics.update(renderTimestamp, this.detectionState);
@@ -132,7 +206,76 @@ export class ParticleSystem {
     
     // Store visibility for next frame
     this.prevHandsVisible = [...interpolated.handsVisible];
-    this.prevFaceVisible = interpolated.faceVisible;
+    this.prevFacesVisible = [...interpolated.facesVisible];
+  }
+
+  /**
+   * Feed each face slot's blendshapes to the expression controller
+   */
+  private updateExpressions(facesVisible: boolean[], renderTimestamp: number): void {
+    for (let f = 0; f < facesVisible.length; f++) {
+      const blendshapes = this.detectionState.shouldUpdateFaceTargets(f)
+        ? this.interpolator.getFaceBlendshapes(f)
+        : null;
+      this.expressions.update(f, blendshapes, renderTimestamp, this.pool, this.physics);
+    }
+  }
+
+  /**
+   * Rotate each face's particles with its head pose and let the first
+   * tracked head steer all particles
+   */
+  private updateHeadPoses(facesVisible: boolean[]): void {
+    const { headRotationGain, headSteering } = this.config;
+    let steeringPose: HeadPose | null = null;
+    
+    for (let f = 0; f < facesVisible.length; f++) {
+      const pose = this.detectionState.shouldUpdateFaceTargets(f)
+        ? this.interpolator.getFaceHeadPose(f)
+        : null;
+      this.pool.setFaceRotation(
+        f,
+        (pose?.yaw ?? 0) * headRotationGain,
+        (pose?.pitch ?? 0) * headRotationGain
+      );
+      steeringPose ??= pose;
+    }
+    
+    if (steeringPose && headSteering > 0) {
+      // On a mirrored canvas a nose turned to the camera image's right points left on screen
+      const yawSign = this.pool.mapper.isMirrored() ? -1 : 1;
+      this.physics.applyImpulse(
+        yawSign * steeringPose.yaw * headSteering,
+        steeringPose.pitch * headSteering
+      );
+    }
+  }
+
+  /**
+   * Feed each face slot's gaze to the gaze controller
+   */
+  private updateGaze(facesVisible: boolean[]): void {
+    for (let f = 0; f < facesVisible.length; f++) {
+      const gaze = this.detectionState.shouldUpdateFaceTargets(f)
+        ? this.interpolator.getFaceGaze(f)
+        : null;
+      this.gaze.update(f, gaze, this.pool, this.physics);
+    }
+    this.gaze.applyFollow(this.pool, this.physics);
+  }
+
+  /**
+   * Feed the tracked hands to the pinch controls (bound parameters follow)
+   */
+  private updatePinch(handsVisible: boolean[], handedness: ('Left' | 'Right')[]): void {
+    if (this.syntheticInput) return;
+    this.controlHands.length = handsVisible.length;
+    for (let h = 0; h < handsVisible.length; h++) {
+      this.controlHands[h] = this.detectionState.shouldUpdateHandTargets(h)
+        ? this.interpolator.getHandLandmarks(h)
+        : null;
+    }
+    this.pinch.update(this.controlHands, handedness, this.pool.mapper);
   }
 
   /**
@@ -141,20 +284,22 @@ export class ParticleSystem {
    */
   private updateParticleTargets(
     handsVisible: boolean[],
-    faceVisible: boolean,
-    renderTimestamp: number
+    handedness: ('Left' | 'Right')[],
+    facesVisible: boolean[]
   ): void {
+    // Share the hand budget among the hands on screen
+    this.pool.setVisibleHandCount(this.detectionState.getVisibleHandCount());
+    
     // Update hand particles
-    for (let h = 0; h < 2; h++) {
+    for (let h = 0; h < handsVisible.length; h++) {
       const alphaMultiplier = this.detectionState.getHandAlphaMultiplier(h);
       
       if (this.detectionState.shouldUpdateHandTargets(h)) {
         // Hand is detected or fading in - update targets with new positions
         const landmarks = this.interpolator.getHandLandmarks(h);
         if (landmarks) {
-          const handedness = this.interpolator.getInterpolated(renderTimestamp).handedness[h];
-          this.lastHandedness[h] = handedness;
-          this.pool.updateHandTargets(h, landmarks, handedness, alphaMultiplier);
+          this.lastHandedness[h] = handedness[h];
+          this.pool.updateHandTargets(h, landmarks, handedness[h], alphaMultiplier);
         }
       } else if (this.detectionState.isHandVisible(h)) {
         // Hand is fading out or occluded - just update alpha, keep last positions
@@ -162,18 +307,42 @@ export class ParticleSystem {
       }
     }
     
-    // Update face particles
-    const faceAlphaMultiplier = this.detectionState.getFaceAlphaMultiplier();
+    // Update face particles, one slot per face
+    for (let f = 0; f < facesVisible.length; f++) {
+      const faceAlphaMultiplier = this.detectionState.getFaceAlphaMultiplier(f);
+      
+      if (this.detectionState.shouldUpdateFaceTargets(f)) {
+        // Face is detected or fading in - update targets with new positions
+        const landmarks = this.interpolator.getFaceLandmarks(f);
+        if (landmarks) {
+          this.pool.updateFaceTargets(landmarks, faceAlphaMultiplier, f);
+        }
+      } else if (this.detectionState.isFaceVisible(f)) {
+        // Face is fading out or occluded - just update alpha, keep last positions
+        this.pool.applyFaceAlphaMultiplier(faceAlphaMultiplier, f);
+      }
+    }
     
-    if (this.detectionState.shouldUpdateFaceTargets()) {
-      // Face is detected or fading in - update targets with new positions
-      const landmarks = this.interpolator.getFaceLandmarks();
+    // Update body particles
+    const bodyAlphaMultiplier = this.detectionState.getBodyAlphaMultiplier();
+    if (this.detectionState.shouldUpdateBodyTargets()) {
+      const landmarks = this.interpolator.getBodyLandmarks();
       if (landmarks) {
-        this.pool.updateFaceTargets(landmarks, faceAlphaMultiplier);
+        this.pool.updateBodyTargets(landmarks, bodyAlphaMultiplier);
+      }
+    } else if (this.detectionState.isBodyVisible()) {
+      this.pool.applyBodyAlphaMultiplier(bodyAlphaMultiplier);
+    }
+    
+    // Update silhouette particles
+    const silhouetteAlphaMultiplier = this.detectionState.getSilhouetteAlphaMultiplier();
+    if (this.detectionState.shouldUpdateSilhouetteTargets()) {
+      const mask = this.interpolator.getSegmentationMask();
+      if (mask) {
+        this.pool.updateSilhouetteTargets(mask, silhouetteAlphaMultiplier);
       }
-    } else if (this.detectionState.isFaceVisible()) {
-      // Face is fading out or occluded - just update alpha, keep last positions
-      this.pool.applyFaceAlphaMultiplier(faceAlphaMultiplier);
+    } else if (this.detectionState.isSilhouetteVisible()) {
+      this.pool.applySilhouetteAlphaMultiplier(silhouetteAlphaMultiplier);
     }
   }
 
@@ -247,6 +416,83 @@ export class ParticleSystem {
     return this.physics.getRepulsionConfig();
   }
 
+  /**
+   * Change the base particle size live (pixels)
+   */
+  setBaseSize(baseSize: number): void {
+    this.pool.setBaseSize(baseSize);
+  }
+
+  /**
+   * Get current base particle size (pixels)
+   */
+  getBaseSize(): number {
+    return this.pool.getBaseSize();
+  }
+
+  /**
+   * Change how strongly particles are pulled to their landmarks
+   */
+  setAttractionStrength(strength: number): void {
+    this.physics.setAttractionStrength(strength);
+  }
+
+  /**
+   * Get current attraction strength
+   */
+  getAttractionStrength(): number {
+    return this.physics.getAttractionStrength();
+  }
+
+  /**
+   * Configure landmark jitter filtering
+   */
+  setFilterConfig(config: Partial<LandmarkFilterConfig>): void {
+    this.interpolator.setFilterConfig(config);
+  }
+
+  /**
+   * Get current landmark filtering configuration
+   */
+  getFilterConfig(): LandmarkFilterConfig {
+    return this.interpolator.getFilterConfig();
+  }
+
+  /**
+   * Configure prediction past the latest detection
+   */
+  setPredictionConfig(config: Partial<PredictionConfig>): void {
+    this.interpolator.setPredictionConfig(config);
+  }
+
+  /**
+   * Get current prediction configuration
+   */
+  getPredictionConfig(): PredictionConfig {
+    return this.interpolator.getPredictionConfig();
+  }
+
+  /**
+   * Measured latency of the rendered landmarks
+   */
+  getLatency(): Readonly<LandmarkLatency> {
+    return this.interpolator.getLatency();
+  }
+
+  /**
+   * Configure how landmarks map onto the canvas (mirroring, fit, region of interest, offset)
+   */
+  setMapping(mapping: Partial<CoordinateMapping>): void {
+    this.pool.mapper.setMapping(mapping);
+  }
+
+  /**
+   * Get current coordinate mapping
+   */
+  getMapping(): Readonly<CoordinateMapping> {
+    return this.pool.mapper.getMapping();
+  }
+
   /**
    * Update color theme
    */
@@ -268,16 +514,24 @@ export class ParticleSystem {
     this.interpolator.reset();
     this.physics.reset();
     this.detectionState.reset();
-    this.prevHandsVisible = [false, false];
-    this.prevFaceVisible = false;
+    this.expressions.reset();
+    this.gaze.reset();
+    this.pinch.reset();
+    this.prevHandsVisible = [];
+    this.prevFacesVisible = [];
     this.isFirstDetection = true;
     this.lastTrackingTimestamp = 0;
-    this.lastHandedness = ['Left', 'Right'];
+    this.lastHandedness = [];
     
     // Hide all particles
-    this.pool.hideHand(0);
-    this.pool.hideHand(1);
-    this.pool.hideFace();
+    for (let h = 0; h < this.pool.handSlotCount; h++) {
+      this.pool.hideHand(h);
+    }
+    for (let f = 0; f < this.pool.faceSlotCount; f++) {
+      this.pool.hideFace(f);
+    }
+    this.pool.hideBody();
+    this.pool.hideSilhouette();
     this.pool.updateGPUBuffer();
   }
 
@@ -0,0 +1,290 @@
+/**
+ * PinchController - Continuous hand controls bound to live parameters
+ *
+ * Controls (smoothed, 0-1):
+ * - pinch: thumb-to-index distance in palm sizes (0 = tips touching, 1 = open hand)
+ * - pinchX / pinchY: where the pinch is on the canvas (between the thumb and index tips)
+ * - span: distance between two hands' pinch points, in fractions of maxSpan canvas widths
+ *
+ * A control keeps its last value while its hands are out of view, so a
+ * performer can set a parameter, drop their hands and it stays dialed in
+ * (ParticleSystem does not feed it the synthetic demo hands either).
+ */
+
+import type { Landmark } from '@/lib/types';
+import { HAND_LANDMARKS } from '@/lib/types';
+import { getPinchDistance } from '@/lib/gestures';
+import type { CoordinateMapper } from '@/core/coordinates';
+import { ExponentialSmoother } from '../performance';
+
+/**
+ * Continuous control a parameter can be bound to
+ */
+export type PinchControl = 'pinch' | 'pinchX' | 'pinchY' | 'span';
+
+export const PINCH_CONTROLS: readonly PinchControl[] = ['pinch', 'pinchX', 'pinchY', 'span'];
+
+/**
+ * Control settings
+ */
+export interface PinchConfig {
+  /** Hand that drives pinch, pinchX and pinchY ('any' = first tracked hand slot) */
+  hand: 'any' | 'Left' | 'Right';
+  /** Pinch distance (palm sizes) read as pinch 0 */
+  closedDistance: number;
+  /** Pinch distance (palm sizes) read as pinch 1 */
+  openDistance: number;
+  /** Distance between the hands (canvas widths) read as span 1 */
+  maxSpan: number;
+  /** Smoothing factor for the controls (0-1, lower = smoother) */
+  smoothing: number;
+}
+
+export const DEFAULT_PINCH_CONFIG: PinchConfig = {
+  hand: 'any',
+  closedDistance: 0.1,
+  openDistance: 1,
+  maxSpan: 0.8,
+  smoothing: 0.25,
+};
+
+/**
+ * Maps a control onto a parameter
+ */
+export interface ControlBinding {
+  /** Control driving the parameter */
+  control: PinchControl;
+  /** Parameter value at control 0 */
+  min: number;
+  /** Parameter value at control 1 */
+  max: number;
+  /** Receives the parameter value whenever it changes */
+  apply: (value: number) => void;
+}
+
+/**
+ * Live parameters controls can be bound to by name (see ParticleCanvas)
+ * - baseSize: ParticleConfig.baseSize, in pixels
+ * - repulsionRadius: RepulsionConfig.maxRadius, in pixels
+ * - trailFade: WebGLRenderer trail fade per frame (lower = longer trails)
+ * - attractionStrength: spring constant pulling particles to their landmarks
+ */
+export type ControlParameter = 'baseSize' | 'repulsionRadius' | 'trailFade' | 'attractionStrength';
+
+export const CONTROL_PARAMETERS: readonly ControlParameter[] = [
+  'baseSize',
+  'repulsionRadius',
+  'trailFade',
+  'attractionStrength',
+];
+
+/**
+ * Parameter values at control 0 and 1 unless a binding sets its own
+ */
+export const DEFAULT_PARAMETER_RANGES: Readonly<
+  Record<ControlParameter, { min: number; max: number }>
+> = {
+  baseSize: { min: 1.5, max: 8 },
+  repulsionRadius: { min: 60, max: 300 },
+  trailFade: { min: 0.04, max: 0.5 },
+  attractionStrength: { min: 0.03, max: 0.4 },
+};
+
+/**
+ * Named parameter driven by a control (range defaults to DEFAULT_PARAMETER_RANGES)
+ */
+export interface ParameterBinding {
+  control: PinchControl;
+  parameter: ControlParameter;
+  min?: number;
+  max?: number;
+}
+
+// Parameter changes smaller than this share of the binding's range are not applied
+const MIN_APPLIED_CHANGE = 0.002;
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+/**
+ * Turns tracked hands into smoothed controls and drives bound parameters
+ */
+export class PinchController {
+  /** Current settings */
+  private config: PinchConfig;
+
+  private smoothers: Record<PinchControl, ExponentialSmoother>;
+
+  /** Latest value per control (null until its hands have been seen) */
+  private values: Record<PinchControl, number | null> = {
+    pinch: null,
+    pinchX: null,
+    pinchY: null,
+    span: null,
+  };
+
+  /** Bindings with the parameter value last applied (NaN before the first) */
+  private bindings: { binding: ControlBinding; applied: number }[] = [];
+
+  // PERF: reused pinch point (canvas fraction) per hand
+  private readonly pointA = { x: 0, y: 0 };
+  private readonly pointB = { x: 0, y: 0 };
+
+  /**
+   * @param config Settings (merged with DEFAULT_PINCH_CONFIG)
+   */
+  constructor(config: Partial<PinchConfig> = {}) {
+    this.config = { ...DEFAULT_PINCH_CONFIG, ...config };
+    this.smoothers = this.createSmoothers(this.config.smoothing);
+  }
+
+  private createSmoothers(smoothing: number): Record<PinchControl, ExponentialSmoother> {
+    return {
+      pinch: new ExponentialSmoother(smoothing),
+      pinchX: new ExponentialSmoother(smoothing),
+      pinchY: new ExponentialSmoother(smoothing),
+      span: new ExponentialSmoother(smoothing),
+    };
+  }
+
+  /**
+   * Update the controls from the tracked hands and apply the bindings
+   * (call once per render frame)
+   * @param hands Landmarks per hand slot (null for slots without a tracked hand)
+   * @param handedness Handedness per hand slot
+   * @param mapper Canvas mapping, so positions match what the performer sees
+   */
+  update(
+    hands: readonly (Landmark[] | null)[],
+    handedness: readonly ('Left' | 'Right')[],
+    mapper: CoordinateMapper
+  ): void {
+    let controlHand = -1;
+    let firstHand = -1;
+    let secondHand = -1;
+    for (let h = 0; h < hands.length; h++) {
+      if (!hands[h]) continue;
+      if (firstHand < 0) firstHand = h;
+      else if (secondHand < 0) secondHand = h;
+      if (controlHand < 0 && (this.config.hand === 'any' || handedness[h] === this.config.hand)) {
+        controlHand = h;
+      }
+    }
+
+    const { closedDistance, openDistance, maxSpan } = this.config;
+    const { width, height } = mapper.getTargetSize();
+
+    const controlLandmarks = controlHand >= 0 ? hands[controlHand] : null;
+    if (controlLandmarks) {
+      const distance = getPinchDistance(controlLandmarks);
+      this.set('pinch', (distance - closedDistance) / (openDistance - closedDistance));
+
+      const point = this.pinchPoint(controlLandmarks, mapper, this.pointA);
+      this.set('pinchX', point.x);
+      this.set('pinchY', point.y);
+    }
+
+    const first = firstHand >= 0 ? hands[firstHand] : null;
+    const second = secondHand >= 0 ? hands[secondHand] : null;
+    if (first && second) {
+      const a = this.pinchPoint(first, mapper, this.pointA);
+      const b = this.pinchPoint(second, mapper, this.pointB);
+      const distance = Math.hypot(a.x - b.x, ((a.y - b.y) * height) / width);
+      this.set('span', distance / maxSpan);
+    }
+
+    this.applyBindings();
+  }
+
+  /**
+   * Midpoint of the thumb and index tips as a fraction of the canvas
+   */
+  private pinchPoint(
+    landmarks: readonly Landmark[],
+    mapper: CoordinateMapper,
+    out: { x: number; y: number }
+  ): { x: number; y: number } {
+    const thumb = landmarks[HAND_LANDMARKS.THUMB_TIP];
+    const index = landmarks[HAND_LANDMARKS.INDEX_FINGER_TIP];
+    const { width, height } = mapper.getTargetSize();
+    out.x = mapper.mapX((thumb.x + index.x) / 2) / width;
+    out.y = mapper.mapY((thumb.y + index.y) / 2) / height;
+    return out;
+  }
+
+  private set(control: PinchControl, raw: number): void {
+    this.values[control] = this.smoothers[control].smooth(clamp01(raw));
+  }
+
+  private applyBindings(): void {
+    for (const entry of this.bindings) {
+      const { control, min, max, apply } = entry.binding;
+      const value = this.values[control];
+      if (value === null) continue;
+
+      const parameter = min + (max - min) * value;
+      if (Math.abs(parameter - entry.applied) < Math.abs(max - min) * MIN_APPLIED_CHANGE) continue;
+      entry.applied = parameter;
+      apply(parameter);
+    }
+  }
+
+  /**
+   * Drive a parameter with a control
+   * @returns Function removing the binding
+   */
+  bind(binding: ControlBinding): () => void {
+    const entry = { binding, applied: NaN };
+    this.bindings.push(entry);
+    return () => {
+      this.bindings = this.bindings.filter((candidate) => candidate !== entry);
+    };
+  }
+
+  /**
+   * Remove every binding
+   */
+  clearBindings(): void {
+    this.bindings = [];
+  }
+
+  /**
+   * Latest value of a control (null until its hands have been seen)
+   */
+  getValue(control: PinchControl): number | null {
+    return this.values[control];
+  }
+
+  /**
+   * Get current settings
+   */
+  getConfig(): PinchConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Update settings (a smoothing change restarts the smoothed controls)
+   */
+  setConfig(config: Partial<PinchConfig>): void {
+    const smoothingChanged =
+      config.smoothing !== undefined && config.smoothing !== this.config.smoothing;
+    this.config = { ...this.config, ...config };
+    if (smoothingChanged) {
+      this.smoothers = this.createSmoothers(this.config.smoothing);
+    }
+  }
+
+  /**
+   * Forget all control values (bound parameters keep their last values)
+   */
+  reset(): void {
+    for (const control of PINCH_CONTROLS) {
+      this.smoothers[control].reset();
+      this.values[control] = null;
+    }
+    for (const entry of this.bindings) {
+      entry.applied = NaN;
+    }
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * SilhouetteDistribution - Fills a person mask with particles
+ *
+ * Silhouette particles are not bound to landmarks: every frame each one is
+ * given a point inside the segmentation mask. Points are stratified over the
+ * mask cells (weighted by confidence, in scan order), so a particle keeps
+ * roughly the same place in the figure while the mask moves, and are spread
+ * within their cell by the golden ratio.
+ */
+
+import type { SegmentationMask } from '@/lib/types';
+import { PHI } from './HandDistribution';
+
+/** Confidence a mask cell needs to count as the person */
+export const SILHOUETTE_THRESHOLD = 0.5;
+
+/** Share of mask cells that must be the person before the silhouette shows */
+export const MIN_SILHOUETTE_COVERAGE = 0.01;
+
+/**
+ * Share of mask cells at or above the threshold (0-1)
+ */
+export function getSilhouetteCoverage(
+  mask: SegmentationMask,
+  threshold = SILHOUETTE_THRESHOLD
+): number {
+  const cells = mask.width * mask.height;
+  if (cells === 0) return 0;
+
+  let covered = 0;
+  for (let i = 0; i < cells; i++) {
+    if (mask.data[i] >= threshold) covered++;
+  }
+  return covered / cells;
+}
+
+/**
+ * Place particles inside a mask
+ * @param mask Person mask (unmirrored image, row-major)
+ * @param count Particles to place
+ * @param out Receives normalized x, y per particle (2 × count values)
+ * @param threshold Confidence a cell needs to receive particles
+ * @returns Whether anything was placed (false when no cell passes the threshold)
+ */
+export function sampleSilhouette(
+  mask: SegmentationMask,
+  count: number,
+  out: Float32Array,
+  threshold = SILHOUETTE_THRESHOLD
+): boolean {
+  const { width, height, data } = mask;
+  const cells = width * height;
+
+  let total = 0;
+  for (let i = 0; i < cells; i++) {
+    if (data[i] >= threshold) total += data[i];
+  }
+  if (total === 0 || count === 0) return false;
+
+  // Walk the cells once, handing out evenly spaced points along the cumulative weight
+  const step = total / count;
+  let next = step / 2;
+  let cumulative = 0;
+  let particle = 0;
+  for (let cell = 0; cell < cells && particle < count; cell++) {
+    const weight = data[cell];
+    if (weight < threshold) continue;
+    cumulative += weight;
+
+    const col = cell % width;
+    const row = Math.floor(cell / width);
+    while (next < cumulative && particle < count) {
+      const jitterX = (particle * PHI) % 1;
+      const jitterY = (particle * PHI * PHI) % 1;
+      out[particle * 2] = (col + jitterX) / width;
+      out[particle * 2 + 1] = (row + jitterY) / height;
+      particle++;
+      next += step;
+    }
+  }
+
+  // Rounding can leave the last few particles over; stack them on the last point
+  for (; particle < count; particle++) {
+    out[particle * 2] = out[(particle - 1) * 2];
+    out[particle * 2 + 1] = out[(particle - 1) * 2 + 1];
+  }
+
+  return true;
+}
@@ -6,8 +6,51 @@
 export { ParticleSystem, type ParticleSystemConfig } from './ParticleSystem';
 export { ParticlePool } from './ParticlePool';
 export { LandmarkInterpolator } from './LandmarkInterpolator';
+export {
+  HandIdentityTracker,
+  DEFAULT_HAND_IDENTITY_CONFIG,
+  type HandIdentityConfig,
+} from './HandIdentityTracker';
+export {
+  LandmarkFilter,
+  DEFAULT_LANDMARK_FILTER_CONFIG,
+  type LandmarkFilterMode,
+  type LandmarkFilterSettings,
+  type LandmarkFilterConfig,
+} from './LandmarkFilter';
+export {
+  LandmarkPredictor,
+  DEFAULT_PREDICTION_CONFIG,
+  type PredictionMode,
+  type PredictionSettings,
+  type PredictionConfig,
+} from './LandmarkPredictor';
 export { ParticlePhysics, PhysicsMode, type RepulsionConfig } from './ParticlePhysics';
 export { DetectionStateManager, DetectionState, DETECTION_TIMING } from './DetectionStateManager';
+export {
+  ExpressionController,
+  DEFAULT_EXPRESSION_CONFIG,
+  type ExpressionConfig,
+  type ExpressionState,
+} from './ExpressionController';
+export {
+  GazeController,
+  DEFAULT_GAZE_CONFIG,
+  type GazeConfig,
+  type GazeEffect,
+} from './GazeController';
+export {
+  PinchController,
+  DEFAULT_PINCH_CONFIG,
+  DEFAULT_PARAMETER_RANGES,
+  PINCH_CONTROLS,
+  CONTROL_PARAMETERS,
+  type PinchConfig,
+  type PinchControl,
+  type ControlBinding,
+  type ControlParameter,
+  type ParameterBinding,
+} from './PinchController';
 
 // Performance utilities
 export {
@@ -15,6 +58,8 @@ export {
   LODManager,
   ExponentialSmoother,
   Point2DSmoother,
+  OneEuroFilter,
+  lowPassAlpha,
   measureTime,
   measureTimeAsync,
   type PerformanceMetrics,
@@ -68,11 +113,13 @@ export {
   type ParticlePhysicsState,
   type ParticleBufferLayout,
   type InterpolatedLandmarks,
+  type LandmarkLatency,
   DEFAULT_PARTICLE_CONFIG,
   DEFAULT_PARTICLE_COLORS,
   LandmarkType,
   HandLandmarkCategory,
   getHandLandmarkCategory,
+  getFaceColor,
 } from './types';
 
 // Face distribution with tight clustering
@@ -84,6 +131,7 @@ export {
   EYE_SOCKET_LANDMARKS,
   LIPS_LANDMARKS,
   CONTOUR_LANDMARKS,
+  IRIS_LANDMARKS,
   FaceLandmarkCategory,
   getFaceLandmarkCategory,
   getFaceZoneConfig,
@@ -97,3 +145,22 @@ export {
   type FaceZoneConfig,
   type FaceDistributionConfig,
 } from './FaceDistribution';
+
+// Body distribution along skeleton segments
+export {
+  BODY_SEGMENTS,
+  BODY_VISIBILITY_THRESHOLD,
+  MIN_SHOULDER_WIDTH,
+  calculateBodyParticleCount,
+  isBodySegmentVisible,
+  calculateBodyParticlePosition,
+  type BodySegment,
+} from './BodyDistribution';
+
+// Silhouette fill from segmentation masks
+export {
+  SILHOUETTE_THRESHOLD,
+  MIN_SILHOUETTE_COVERAGE,
+  getSilhouetteCoverage,
+  sampleSilhouette,
+} from './SilhouetteDistribution';
@@ -45,8 +45,8 @@ export interface ParticlePhysicsState {
   
   // Binding info - which landmark owns this particle
   readonly landmarkIndex: Uint16Array;
-  readonly landmarkType: Uint8Array; // 0 = none, 1 = hand, 2 = face
-  readonly handIndex: Uint8Array;    // 0 = first hand, 1 = second hand
+  readonly landmarkType: Uint8Array; // 0 = none, 1 = hand, 2 = face, 3 = body (landmarkIndex = segment), 4 = silhouette
+  readonly handIndex: Uint8Array;    // Hand slot for hand particles, face slot for face particles
 }
 
 /**
@@ -63,11 +63,16 @@ export interface ParticleRange {
 export interface ParticleBindings {
   // Each entry maps landmark index to particle range
   readonly hand: Map<number, ParticleRange>;
-  readonly face: Map<number, ParticleRange>;
+  readonly face: Map<number, ParticleRange>;   // First face (same map as faces[0])
+  readonly faces: readonly Map<number, ParticleRange>[]; // One map per face slot
+  readonly body: Map<number, ParticleRange>;   // Body segment index (empty when body is off)
+  readonly silhouette: ParticleRange;          // Mask-filling particles (count 0 when off)
   
   // Pre-computed totals
   readonly handParticleCount: number;
-  readonly faceParticleCount: number;
+  readonly faceParticleCount: number;          // All face slots together
+  readonly bodyParticleCount: number;
+  readonly silhouetteParticleCount: number;
   readonly totalParticleCount: number;
 }
 
@@ -81,16 +86,34 @@ export interface ParticleConfig {
   /** Particles per hand landmark (21 landmarks per hand) */
   readonly handParticlesPerLandmark: number;
   
-  /** Particles per face landmark (468 landmarks) */
+  /** Particles per face landmark (478 landmarks, mesh plus irises) */
   readonly faceParticlesPerLandmark: number;
   
-  /** Base particle size in pixels */
+  /** Hand slots, 1 to MAX_TRACKED_HANDS (default 2) */
+  readonly maxHands: number;
+  
+  /** Hands drawn at full density; more visible hands share this budget (default 2) */
+  readonly handBudget: number;
+  
+  /** Face slots, 1 to MAX_TRACKED_FACES (default 1); faces share the face budget */
+  readonly maxFaces: number;
+  
+  /** Bind particles to the body (default false); body particles come out of the face budget */
+  readonly body: boolean;
+  
+  /** Fill the segmentation mask with particles (default false); also comes out of the face budget */
+  readonly silhouette: boolean;
+  
+  /** Particles filling the silhouette when it is on (default 3000) */
+  readonly silhouetteParticles: number;
+  
+  /** Base particle size in pixels (ParticleSystem.setBaseSize changes it live) */
   readonly baseSize: number;
   
   /** Size variance (+/-) */
   readonly sizeVariance: number;
   
-  /** Attraction force strength (spring constant) */
+  /** Attraction force strength (spring constant, ParticleSystem.setAttractionStrength changes it live) */
   readonly attractionStrength: number;
   
   /** Velocity damping (0-1, higher = more friction) */
@@ -98,6 +121,12 @@ export interface ParticleConfig {
   
   /** Max spread radius from landmark center */
   readonly maxSpreadRadius: number;
+  
+  /** Extra 3D rotation of a face's particles per radian of head yaw/pitch (0 = off) */
+  readonly headRotationGain: number;
+  
+  /** Push on all particles per radian of head yaw/pitch, in pixels/frame (0 = off) */
+  readonly headSteering: number;
 }
 
 /**
@@ -107,11 +136,19 @@ export const DEFAULT_PARTICLE_CONFIG: ParticleConfig = {
   maxParticles: 15000,
   handParticlesPerLandmark: 50,
   faceParticlesPerLandmark: 12,
+  maxHands: 2,
+  handBudget: 2,
+  maxFaces: 1,
+  body: false,
+  silhouette: false,
+  silhouetteParticles: 3000,
   baseSize: 3,
   sizeVariance: 1.5,
   attractionStrength: 0.15,
   damping: 0.92,
   maxSpreadRadius: 15,
+  headRotationGain: 0.5,
+  headSteering: 10,
 };
 
 /**
@@ -121,6 +158,8 @@ export const enum LandmarkType {
   None = 0,
   Hand = 1,
   Face = 2,
+  Body = 3,
+  Silhouette = 4,
 }
 
 /**
@@ -163,34 +202,83 @@ export function getHandLandmarkCategory(index: number): HandLandmarkCategory {
 export interface ParticleColors {
   leftHand: { r: number; g: number; b: number };
   rightHand: { r: number; g: number; b: number };
+  /** First face */
   face: { r: number; g: number; b: number };
+  /** Second face onwards (cycled when there are more faces than colors) */
+  faces: { r: number; g: number; b: number }[];
+  body: { r: number; g: number; b: number };
+  silhouette: { r: number; g: number; b: number };
 }
 
 export const DEFAULT_PARTICLE_COLORS: ParticleColors = {
   leftHand: { r: 0.23, g: 0.51, b: 0.96 },   // Blue
   rightHand: { r: 0.13, g: 0.77, b: 0.37 },  // Green
   face: { r: 0.92, g: 0.29, b: 0.60 },       // Pink
+  faces: [
+    { r: 0.98, g: 0.75, b: 0.14 },           // Amber
+    { r: 0.02, g: 0.71, b: 0.83 },           // Cyan
+    { r: 0.66, g: 0.33, b: 0.97 },           // Purple
+  ],
+  body: { r: 0.97, g: 0.45, b: 0.09 },       // Orange
+  silhouette: { r: 0.58, g: 0.64, b: 0.72 }, // Slate
 };
 
+/**
+ * Color for a face slot (slot 0 is the first face)
+ */
+export function getFaceColor(
+  colors: ParticleColors,
+  faceIndex: number
+): { r: number; g: number; b: number } {
+  if (faceIndex === 0 || colors.faces.length === 0) return colors.face;
+  return colors.faces[(faceIndex - 1) % colors.faces.length];
+}
+
 /**
  * Interpolated landmark data from the interpolator
+ * The object and its arrays are reused: the next getInterpolated call overwrites them
  */
 export interface InterpolatedLandmarks {
   /** Interpolated positions (x, y, z, visibility) for all landmarks */
   readonly data: Float32Array;
   
-  /** Number of hand landmarks (21 per hand × numHands) */
+  /** Number of hand landmarks (21 per visible hand) */
   readonly handLandmarkCount: number;
   
-  /** Number of face landmarks (468 if detected, 0 otherwise) */
+  /** Number of face landmarks (478 per visible face, mesh plus irises) */
   readonly faceLandmarkCount: number;
   
-  /** Which hands are visible (index 0 = first, 1 = second) */
+  /** Which hand slots are visible (one entry per slot) */
   readonly handsVisible: boolean[];
   
-  /** Whether face is visible */
+  /** Whether any face is visible */
   readonly faceVisible: boolean;
   
-  /** Handedness for each hand */
+  /** Which face slots are visible (one entry per slot) */
+  readonly facesVisible: boolean[];
+  
+  /** Whether the body is visible */
+  readonly bodyVisible: boolean;
+  
+  /** Whether a person shows in the segmentation mask */
+  readonly silhouetteVisible: boolean;
+  
+  /** Handedness for each hand slot */
   readonly handedness: ('Left' | 'Right')[];
+  
+  /**
+   * Stable identity of the hand in each slot (null for slots with no recent hand)
+   * An identity outlives short occlusions, so a returning hand keeps its slot
+   */
+  readonly handIds: (number | null)[];
+}
+
+/**
+ * Measured latency of rendered landmarks (smoothed, milliseconds)
+ */
+export interface LandmarkLatency {
+  /** Frame capture → detection result arriving */
+  detectionMs: number;
+  /** Frame capture → the hand pose being rendered (includes detection) */
+  totalMs: number;
 }
@@ -327,3 +327,79 @@ export class Point2DSmoother {
     this.ySmoother.reset();
   }
 }
+
+/**
+ * Smoothing factor of a first-order low-pass filter
+ * @param cutoff Cutoff frequency (Hz)
+ * @param dtMs Time since the previous sample (ms)
+ */
+export function lowPassAlpha(cutoff: number, dtMs: number): number {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  const dt = dtMs / 1000;
+  return 1 / (1 + tau / dt);
+}
+
+/**
+ * One Euro filter (Casiez et al. 2012) for jitter that adapts to speed
+ * Slow movement is smoothed heavily (minCutoff), fast movement barely (beta),
+ * so resting points stop shimmering without making quick motion lag
+ */
+export class OneEuroFilter {
+  private value: number | null = null;
+  private derivative = 0;
+  private lastTimestamp = 0;
+  private readonly minCutoff: number;
+  private readonly beta: number;
+  private readonly derivativeCutoff: number;
+
+  /**
+   * Create filter
+   * @param minCutoff Cutoff frequency at rest (Hz), lower = more smoothing (default: 1)
+   * @param beta Cutoff increase per unit/second of speed (default: 0)
+   * @param derivativeCutoff Cutoff frequency for the speed estimate (Hz, default: 1)
+   */
+  constructor(minCutoff = 1, beta = 0, derivativeCutoff = 1) {
+    this.minCutoff = minCutoff;
+    this.beta = beta;
+    this.derivativeCutoff = derivativeCutoff;
+  }
+
+  /**
+   * Filter a new sample
+   * @param newValue New raw value
+   * @param timestamp Sample timestamp (ms)
+   * @returns Filtered value
+   */
+  filter(newValue: number, timestamp: number): number {
+    const dt = timestamp - this.lastTimestamp;
+    if (this.value === null || dt <= 0) {
+      this.value ??= newValue;
+      this.lastTimestamp = timestamp;
+      return this.value;
+    }
+
+    const rawDerivative = ((newValue - this.value) * 1000) / dt;
+    this.derivative += (rawDerivative - this.derivative) * lowPassAlpha(this.derivativeCutoff, dt);
+
+    const cutoff = this.minCutoff + this.beta * Math.abs(this.derivative);
+    this.value += (newValue - this.value) * lowPassAlpha(cutoff, dt);
+    this.lastTimestamp = timestamp;
+    return this.value;
+  }
+
+  /**
+   * Get current filtered value
+   */
+  getValue(): number | null {
+    return this.value;
+  }
+
+  /**
+   * Reset filter
+   */
+  reset(): void {
+    this.value = null;
+    this.derivative = 0;
+    this.lastTimestamp = 0;
+  }
+}
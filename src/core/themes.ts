@@ -37,6 +37,7 @@ function hexToRgb(hex: string): { r: number; g: number; b: number } {
 /**
  * Rainbow Theme - Full spectrum colors
  * Left hand: red-orange, Right hand: green-cyan, Face: violet-purple
+ * (further faces: blue, yellow, pink), Body: orange, Silhouette: slate
  */
 export const RAINBOW_THEME: ColorTheme = {
   name: 'rainbow',
@@ -45,6 +46,13 @@ export const RAINBOW_THEME: ColorTheme = {
     leftHand: hexToRgb('#EF4444'),   // Red
     rightHand: hexToRgb('#22C55E'),  // Green
     face: hexToRgb('#8B5CF6'),       // Violet
+    faces: [
+      hexToRgb('#3B82F6'),           // Blue
+      hexToRgb('#EAB308'),           // Yellow
+      hexToRgb('#EC4899'),           // Pink
+    ],
+    body: hexToRgb('#F97316'),       // Orange
+    silhouette: hexToRgb('#94A3B8'), // Slate-400
   },
 };
 
@@ -59,6 +67,13 @@ export const FIRE_THEME: ColorTheme = {
     leftHand: hexToRgb('#DC2626'),   // Red-600
     rightHand: hexToRgb('#EA580C'),  // Orange-600
     face: hexToRgb('#F59E0B'),       // Amber-500
+    faces: [
+      hexToRgb('#FACC15'),           // Yellow-400
+      hexToRgb('#F97316'),           // Orange-500
+      hexToRgb('#FCA5A5'),           // Red-300
+    ],
+    body: hexToRgb('#FDE047'),       // Yellow-300
+    silhouette: hexToRgb('#7F1D1D'), // Red-900
   },
 };
 
@@ -73,6 +88,13 @@ export const OCEAN_THEME: ColorTheme = {
     leftHand: hexToRgb('#0EA5E9'),   // Sky-500
     rightHand: hexToRgb('#14B8A6'),  // Teal-500
     face: hexToRgb('#7DD3FC'),       // Sky-300 (lighter)
+    faces: [
+      hexToRgb('#2DD4BF'),           // Teal-400
+      hexToRgb('#93C5FD'),           // Blue-300
+      hexToRgb('#E0F2FE'),           // Sky-100
+    ],
+    body: hexToRgb('#0284C7'),       // Sky-600
+    silhouette: hexToRgb('#1E3A8A'), // Blue-900
   },
 };
 
@@ -87,6 +109,13 @@ export const GALAXY_THEME: ColorTheme = {
     leftHand: hexToRgb('#A855F7'),   // Purple-500
     rightHand: hexToRgb('#E879F9'),  // Fuchsia-400
     face: hexToRgb('#C084FC'),       // Purple-400
+    faces: [
+      hexToRgb('#F0ABFC'),           // Fuchsia-300
+      hexToRgb('#818CF8'),           // Indigo-400
+      hexToRgb('#F9A8D4'),           // Pink-300
+    ],
+    body: hexToRgb('#6366F1'),       // Indigo-500
+    silhouette: hexToRgb('#4C1D95'), // Violet-900
   },
 };
 
@@ -101,6 +130,13 @@ export const MATRIX_THEME: ColorTheme = {
     leftHand: hexToRgb('#22C55E'),   // Green-500
     rightHand: hexToRgb('#4ADE80'),  // Green-400
     face: hexToRgb('#86EFAC'),       // Green-300
+    faces: [
+      hexToRgb('#BBF7D0'),           // Green-200
+      hexToRgb('#16A34A'),           // Green-600
+      hexToRgb('#A3E635'),           // Lime-400
+    ],
+    body: hexToRgb('#15803D'),       // Green-700
+    silhouette: hexToRgb('#14532D'), // Green-900
   },
 };
 
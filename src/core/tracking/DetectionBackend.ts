@@ -0,0 +1,53 @@
+/**
+ * DetectionBackend - Where MediaPipe inference runs
+ * The MediaPipe source hands each video frame to a backend: either inline on
+ * the main thread or in a dedicated Web Worker
+ */
+
+import type { DetectionPlan } from './DetectionScheduler';
+import type { LandmarkFrame } from './LandmarkFrame';
+import type { DetectionOptions } from './MediaPipeLandmarkers';
+
+/**
+ * Backend selection
+ * - auto: worker when supported, falling back to inline
+ * - worker: worker only (fails where workers are unavailable)
+ * - inline: always run on the main thread
+ */
+export type DetectionBackendPreference = 'auto' | 'worker' | 'inline';
+
+/**
+ * Landmark detection on video frames
+ */
+export interface DetectionBackend {
+  /** Where detection runs */
+  readonly kind: 'inline' | 'worker';
+
+  /**
+   * Load models
+   * @throws MediaPipeAssetError when self-hosted assets fail verification
+   */
+  initialize(): Promise<void>;
+
+  /**
+   * Detect hands and face in the current video frame
+   * Callers wait for the previous frame before sending the next one
+   * @param frame Frame the results are written into (cleared first)
+   * @param plan Models to run (default: all loaded models)
+   */
+  detect(
+    video: HTMLVideoElement,
+    timestamp: number,
+    frame: LandmarkFrame,
+    plan?: DetectionPlan
+  ): Promise<void>;
+
+  /**
+   * Change detection options on the loaded models (see updateLandmarkers)
+   * @throws Error when re-created models fail to load (the previous ones keep running)
+   */
+  setDetectionOptions(options: Partial<DetectionOptions>): Promise<void>;
+
+  /** Release models (and the worker) */
+  dispose(): void;
+}
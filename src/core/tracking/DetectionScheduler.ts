@@ -0,0 +1,257 @@
+/**
+ * DetectionScheduler - Decides which models run on each camera frame
+ *
+ * Hands run on every new frame. While detection takes most of the frame
+ * interval (CPU-bound), face detection and segmentation take turns on
+ * alternate frames. A face, body or person that has been absent for a while
+ * is only looked for a few times a second until it shows up again; hands are
+ * never backed off, so a hand entering the frame gets particles at once. The
+ * scheduler also measures the effective rate of each model.
+ */
+
+import type { TrackingResult } from '@/lib/types';
+import { countFaces, countHands, hasBody } from './LandmarkFrame';
+
+/**
+ * Which models run on a frame (keys follow TrackingResult)
+ */
+export interface DetectionPlan {
+  /** HandLandmarker */
+  hands: boolean;
+  /** FaceLandmarker */
+  faces: boolean;
+  /** PoseLandmarker */
+  body: boolean;
+  /** ImageSegmenter */
+  segmentation: boolean;
+}
+
+/** A model the scheduler paces */
+export type DetectionModel = keyof DetectionPlan;
+
+/** Run every loaded model */
+export const FULL_DETECTION_PLAN: Readonly<DetectionPlan> = {
+  hands: true,
+  faces: true,
+  body: true,
+  segmentation: true,
+};
+
+/**
+ * Effective rates (Hz): new camera frames and runs of each model
+ */
+export interface DetectionRates {
+  frames: number;
+  hands: number;
+  faces: number;
+  body: number;
+  segmentation: number;
+}
+
+/**
+ * Scheduling settings
+ */
+export interface DetectionSchedulerConfig {
+  /** Share of the camera frame interval detection may take before counting as CPU-bound */
+  cpuBudget: number;
+  /** Alternate face detection and segmentation between frames while CPU-bound */
+  alternateWhenBusy: boolean;
+  /** How long a face, body or person must be missing before its model backs off (ms) */
+  absentAfterMs: number;
+  /** Time between runs of a backed-off model (ms) */
+  absentIntervalMs: number;
+}
+
+export const DEFAULT_DETECTION_SCHEDULER_CONFIG: DetectionSchedulerConfig = {
+  cpuBudget: 0.8,
+  alternateWhenBusy: true,
+  absentAfterMs: 1000,
+  absentIntervalMs: 250,
+};
+
+const MODELS: readonly DetectionModel[] = ['hands', 'faces', 'body', 'segmentation'];
+
+// Smoothing factor for detection durations and frame intervals
+const TIMING_SMOOTHING = 0.1;
+
+// Alternating lowers the measured duration, so CPU-bound only ends well under the budget
+const BUSY_EXIT_RATIO = 0.5;
+
+// Rates are recomputed over windows of this length (ms)
+const RATE_WINDOW_MS = 1000;
+
+// Mask confidence at which the segmentation counts as showing a person
+const PERSON_CONFIDENCE = 0.5;
+
+/**
+ * Whether a model found anything in a result
+ */
+function isPresent(model: DetectionModel, result: TrackingResult): boolean {
+  switch (model) {
+    case 'hands':
+      return countHands(result) > 0;
+    case 'faces':
+      return countFaces(result) > 0;
+    case 'body':
+      return hasBody(result);
+    case 'segmentation':
+      return !!result.segmentation && result.segmentation.data.some((c) => c >= PERSON_CONFIDENCE);
+  }
+}
+
+export class DetectionScheduler {
+  private readonly config: DetectionSchedulerConfig;
+  private readonly enabled: DetectionPlan;
+
+  private frameIndex = 0;
+  private lastFrameAt: number | null = null;
+  private frameInterval = 0;
+  private detectionDuration = 0;
+  private busy = false;
+
+  private lastSeenAt: Record<DetectionModel, number> = {
+    hands: 0,
+    faces: 0,
+    body: 0,
+    segmentation: 0,
+  };
+  private lastRunAt: Record<DetectionModel, number> = {
+    hands: 0,
+    faces: 0,
+    body: 0,
+    segmentation: 0,
+  };
+
+  private windowStart: number | null = null;
+  private counts: DetectionRates = { frames: 0, hands: 0, faces: 0, body: 0, segmentation: 0 };
+  private rates: DetectionRates = { frames: 0, hands: 0, faces: 0, body: 0, segmentation: 0 };
+
+  /**
+   * @param models Loaded models (hands and faces are always loaded)
+   * @param config Settings (merged with DEFAULT_DETECTION_SCHEDULER_CONFIG)
+   */
+  constructor(models: Partial<DetectionPlan> = {}, config: Partial<DetectionSchedulerConfig> = {}) {
+    this.enabled = { hands: true, faces: true, body: false, segmentation: false, ...models };
+    this.config = { ...DEFAULT_DETECTION_SCHEDULER_CONFIG, ...config };
+  }
+
+  /**
+   * Record a new camera frame (whether or not it gets analyzed)
+   * @param timestamp Frame arrival (ms)
+   */
+  frameArrived(timestamp: number): void {
+    if (this.lastFrameAt === null) {
+      // Everything counts as present on the first frame, so nothing starts backed off
+      for (const model of MODELS) {
+        this.lastSeenAt[model] = timestamp;
+      }
+    } else {
+      const interval = timestamp - this.lastFrameAt;
+      this.frameInterval = this.frameInterval
+        ? this.frameInterval + (interval - this.frameInterval) * TIMING_SMOOTHING
+        : interval;
+    }
+    this.lastFrameAt = timestamp;
+    this.counts.frames++;
+    this.updateRates(timestamp);
+  }
+
+  /**
+   * Decide which models run on the frame about to be analyzed
+   */
+  plan(timestamp: number): DetectionPlan {
+    const { config } = this;
+    const alternate = config.alternateWhenBusy && this.isCpuBound();
+    const even = this.frameIndex++ % 2 === 0;
+
+    const plan = { hands: false, faces: false, body: false, segmentation: false };
+    for (const model of MODELS) {
+      if (!this.enabled[model]) continue;
+
+      // Absent entities (other than hands) are only looked for every absentIntervalMs
+      const absent = model !== 'hands' && timestamp - this.lastSeenAt[model] > config.absentAfterMs;
+      let run = !absent || timestamp - this.lastRunAt[model] >= config.absentIntervalMs;
+
+      // CPU-bound: faces on even frames, segmentation on odd ones
+      if (alternate && model === 'faces') run &&= even;
+      if (alternate && model === 'segmentation') run &&= !even;
+
+      plan[model] = run;
+    }
+    return plan;
+  }
+
+  /**
+   * Record the outcome of an analyzed frame
+   * @param durationMs How long detection took
+   */
+  report(plan: DetectionPlan, result: TrackingResult, durationMs: number, timestamp: number): void {
+    this.detectionDuration = this.detectionDuration
+      ? this.detectionDuration + (durationMs - this.detectionDuration) * TIMING_SMOOTHING
+      : durationMs;
+
+    if (this.frameInterval > 0) {
+      const budget = this.frameInterval * this.config.cpuBudget;
+      const limit = this.busy ? budget * BUSY_EXIT_RATIO : budget;
+      this.busy = this.detectionDuration > limit;
+    }
+
+    for (const model of MODELS) {
+      if (!plan[model]) continue;
+      this.lastRunAt[model] = timestamp;
+      this.counts[model]++;
+      if (isPresent(model, result)) {
+        this.lastSeenAt[model] = timestamp;
+      }
+    }
+    this.updateRates(timestamp);
+  }
+
+  /**
+   * Whether detection takes more of the frame interval than the budget allows
+   */
+  isCpuBound(): boolean {
+    return this.busy;
+  }
+
+  /**
+   * Effective rates over the last complete window (Hz)
+   */
+  getRates(): Readonly<DetectionRates> {
+    return this.rates;
+  }
+
+  /**
+   * Forget timings, presence and rates (e.g. when detection restarts)
+   */
+  reset(): void {
+    this.frameIndex = 0;
+    this.lastFrameAt = null;
+    this.frameInterval = 0;
+    this.detectionDuration = 0;
+    this.busy = false;
+    this.windowStart = null;
+    this.counts = { frames: 0, hands: 0, faces: 0, body: 0, segmentation: 0 };
+    this.rates = { frames: 0, hands: 0, faces: 0, body: 0, segmentation: 0 };
+  }
+
+  private updateRates(timestamp: number): void {
+    if (this.windowStart === null) {
+      this.windowStart = timestamp;
+      return;
+    }
+
+    const elapsed = timestamp - this.windowStart;
+    if (elapsed < RATE_WINDOW_MS) return;
+
+    this.rates = {
+      frames: (this.counts.frames * 1000) / elapsed,
+      hands: (this.counts.hands * 1000) / elapsed,
+      faces: (this.counts.faces * 1000) / elapsed,
+      body: (this.counts.body * 1000) / elapsed,
+      segmentation: (this.counts.segmentation * 1000) / elapsed,
+    };
+    this.counts = { frames: 0, hands: 0, faces: 0, body: 0, segmentation: 0 };
+    this.windowStart = timestamp;
+  }
+}
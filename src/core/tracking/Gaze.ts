@@ -0,0 +1,136 @@
+/**
+ * Gaze - Gaze direction from the iris landmarks
+ * Where each iris sits between its eye corners and lids gives the eye's turn
+ * in the head; the head's own turn (the head pose when enabled, otherwise
+ * estimated from the mesh depth) is added on top. Rough by nature: good for
+ * effects that follow the look, not for pointing at pixels.
+ */
+
+import type { Gaze, HeadPose } from '@/lib/types';
+import { LEFT_IRIS, RIGHT_IRIS } from '@/lib/types';
+
+/**
+ * Landmark as MediaPipe and TrackingResult provide it
+ */
+interface LandmarkLike {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * One eye's landmarks: corners in image order, lid centers, iris center
+ */
+interface EyeLandmarks {
+  left: number;
+  right: number;
+  upper: number;
+  lower: number;
+  iris: number;
+}
+
+// Eye on the image's left (the performer's right eye), then on its right
+const EYES: readonly EyeLandmarks[] = [
+  { left: 33, right: 133, upper: 159, lower: 145, iris: LEFT_IRIS[0] },
+  { left: 362, right: 263, upper: 386, lower: 374, iris: RIGHT_IRIS[0] },
+];
+
+// Mesh points the head turn is estimated from when there is no head pose
+const CHEEK_LEFT = 234;
+const CHEEK_RIGHT = 454;
+const FOREHEAD = 10;
+const CHIN = 152;
+
+// Eye turn (radians) per iris offset, in eye widths from the eye's center
+const EYE_YAW_GAIN = 3;
+const EYE_PITCH_GAIN = 4;
+
+// Largest eye turn in the head (radians)
+const MAX_EYE_ANGLE = 0.8;
+
+// Image widths the gaze point moves per unit of gaze tangent
+const GAZE_POINT_REACH = 0.6;
+
+// Camera aspect ratio assumed when none is given (1280×720)
+const DEFAULT_ASPECT_RATIO = 16 / 9;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Estimate where a face is looking
+ * @param landmarks Face landmarks including the irises (478 points)
+ * @param headPose Head pose of the face, when enabled (more accurate than the mesh)
+ * @param aspectRatio Width / height of the image the landmarks are normalized to
+ * @returns null when the landmarks have no irises
+ */
+export function estimateGaze(
+  landmarks: readonly LandmarkLike[],
+  headPose: HeadPose | null = null,
+  aspectRatio = DEFAULT_ASPECT_RATIO
+): Gaze | null {
+  if (landmarks.length <= RIGHT_IRIS[0]) return null;
+
+  // Iris offset from each eye's center, in eye widths (y in x units)
+  let offsetX = 0;
+  let offsetY = 0;
+  for (const eye of EYES) {
+    const left = landmarks[eye.left];
+    const right = landmarks[eye.right];
+    const iris = landmarks[eye.iris];
+    const axisX = right.x - left.x;
+    const axisY = (right.y - left.y) / aspectRatio;
+    const width = Math.hypot(axisX, axisY) || 1;
+
+    // Along the corner line from its midpoint, and across it (down = +)
+    const fromCenterX = iris.x - (left.x + right.x) / 2;
+    const fromCenterY =
+      (iris.y - (landmarks[eye.upper].y + landmarks[eye.lower].y) / 2) / aspectRatio;
+    offsetX += (fromCenterX * axisX + fromCenterY * axisY) / (width * width);
+    offsetY += (fromCenterY * axisX - fromCenterX * axisY) / (width * width);
+  }
+  offsetX /= EYES.length;
+  offsetY /= EYES.length;
+
+  const eyeYaw = clamp(offsetX * EYE_YAW_GAIN, -MAX_EYE_ANGLE, MAX_EYE_ANGLE);
+  const eyePitch = clamp(offsetY * EYE_PITCH_GAIN, -MAX_EYE_ANGLE, MAX_EYE_ANGLE);
+
+  // Head turn: the side of the face that turns away moves back (landmark z is in x units)
+  let headYaw: number;
+  let headPitch: number;
+  if (headPose) {
+    headYaw = headPose.yaw;
+    headPitch = headPose.pitch;
+  } else {
+    const cheekLeft = landmarks[CHEEK_LEFT];
+    const cheekRight = landmarks[CHEEK_RIGHT];
+    const forehead = landmarks[FOREHEAD];
+    const chin = landmarks[CHIN];
+    headYaw = Math.atan2(cheekRight.z - cheekLeft.z, cheekRight.x - cheekLeft.x);
+    headPitch = Math.atan2(chin.z - forehead.z, (chin.y - forehead.y) / aspectRatio);
+  }
+
+  const yaw = headYaw + eyeYaw;
+  const pitch = headPitch + eyePitch;
+  const direction = {
+    x: Math.sin(yaw) * Math.cos(pitch),
+    y: Math.sin(pitch),
+    z: -Math.cos(yaw) * Math.cos(pitch),
+  };
+
+  // Follow the gaze from between the irises (never past sideways)
+  const leftIris = landmarks[LEFT_IRIS[0]];
+  const rightIris = landmarks[RIGHT_IRIS[0]];
+  const depth = Math.max(0.2, -direction.z);
+  const point = {
+    x: clamp((leftIris.x + rightIris.x) / 2 + (direction.x / depth) * GAZE_POINT_REACH, 0, 1),
+    y: clamp(
+      (leftIris.y + rightIris.y) / 2 + (direction.y / depth) * GAZE_POINT_REACH * aspectRatio,
+      0,
+      1
+    ),
+  };
+
+  return { direction, point };
+}
@@ -0,0 +1,150 @@
+/**
+ * HeadPose - Head pose from MediaPipe's facial transformation matrix
+ * Converts the 4x4 face-to-camera matrix to yaw/pitch/roll plus translation
+ * and smooths poses between frames
+ */
+
+import type { HeadPose, TrackingResult } from '@/lib/types';
+import { ExponentialSmoother } from '../performance';
+import type { LandmarkFrame } from './LandmarkFrame';
+
+/**
+ * Decompose a facial transformation matrix into a head pose
+ * The matrix is column-major (as MediaPipe returns it) with the rotation
+ * applied as roll * yaw * pitch
+ * @param matrix 16 values, column-major
+ */
+export function headPoseFromMatrix(matrix: ArrayLike<number>): HeadPose {
+  // Rotation entries r<row><column>
+  const r00 = matrix[0];
+  const r10 = matrix[1];
+  const r20 = matrix[2];
+  const r21 = matrix[6];
+  const r22 = matrix[10];
+
+  return {
+    yaw: Math.asin(Math.max(-1, Math.min(1, -r20))),
+    pitch: Math.atan2(r21, r22),
+    roll: Math.atan2(r10, r00),
+    translation: { x: matrix[12], y: matrix[13], z: matrix[14] },
+  };
+}
+
+/**
+ * Smoothers for the six pose values of one face
+ */
+interface PoseSmoothers {
+  yaw: ExponentialSmoother;
+  pitch: ExponentialSmoother;
+  roll: ExponentialSmoother;
+  x: ExponentialSmoother;
+  y: ExponentialSmoother;
+  z: ExponentialSmoother;
+}
+
+/**
+ * Exponential smoothing of head poses, one smoother set per face
+ * (faces are matched by their index in the result)
+ */
+export class HeadPoseSmoother {
+  private readonly alpha: number;
+  private faces: PoseSmoothers[] = [];
+
+  /**
+   * @param alpha Smoothing factor (0-1), lower = more smoothing (default: 0.4)
+   */
+  constructor(alpha = 0.4) {
+    this.alpha = alpha;
+  }
+
+  /**
+   * Smooth one face's pose
+   * @param faceIndex Face index in the tracking result
+   */
+  smooth(pose: HeadPose, faceIndex = 0): HeadPose {
+    const smoothers = (this.faces[faceIndex] ??= this.createSmoothers());
+    return {
+      yaw: smoothers.yaw.smooth(pose.yaw),
+      pitch: smoothers.pitch.smooth(pose.pitch),
+      roll: smoothers.roll.smooth(pose.roll),
+      translation: {
+        x: smoothers.x.smooth(pose.translation.x),
+        y: smoothers.y.smooth(pose.translation.y),
+        z: smoothers.z.smooth(pose.translation.z),
+      },
+    };
+  }
+
+  /**
+   * Smooth the pose of every face in a result (faces without a pose restart
+   * their smoothing)
+   */
+  smoothResult(result: TrackingResult): TrackingResult {
+    if (result.faces.length === 0) {
+      this.reset();
+      return result;
+    }
+
+    const faces = result.faces.map((face, i) => {
+      if (!face.headPose) {
+        this.resetFace(i);
+        return face;
+      }
+      return { ...face, headPose: this.smooth(face.headPose, i) };
+    });
+    for (let i = faces.length; i < this.faces.length; i++) {
+      this.resetFace(i);
+    }
+
+    return { ...result, faces, face: faces[0] ?? null };
+  }
+
+  /**
+   * Smooth the pose of every face in a frame in place (faces without a pose
+   * restart their smoothing)
+   */
+  smoothFrame(frame: LandmarkFrame): void {
+    if (frame.faceCount === 0) {
+      this.reset();
+      return;
+    }
+
+    for (let i = 0; i < frame.faceCount; i++) {
+      const pose = frame.faceHeadPoses[i];
+      if (pose) {
+        frame.faceHeadPoses[i] = this.smooth(pose, i);
+      } else {
+        this.resetFace(i);
+      }
+    }
+    for (let i = frame.faceCount; i < this.faces.length; i++) {
+      this.resetFace(i);
+    }
+  }
+
+  /**
+   * Forget all previous poses
+   */
+  reset(): void {
+    this.faces = [];
+  }
+
+  private resetFace(faceIndex: number): void {
+    const smoothers = this.faces[faceIndex];
+    if (!smoothers) return;
+    for (const smoother of Object.values(smoothers)) {
+      smoother.reset();
+    }
+  }
+
+  private createSmoothers(): PoseSmoothers {
+    return {
+      yaw: new ExponentialSmoother(this.alpha),
+      pitch: new ExponentialSmoother(this.alpha),
+      roll: new ExponentialSmoother(this.alpha),
+      x: new ExponentialSmoother(this.alpha),
+      y: new ExponentialSmoother(this.alpha),
+      z: new ExponentialSmoother(this.alpha),
+    };
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * InlineDetectionBackend - Runs MediaPipe on the main thread
+ * Fallback for browsers without worker/ImageBitmap/OffscreenCanvas support
+ */
+
+import type { MediaPipeAssetConfig } from '@/lib/mediapipeAssets';
+import type { DetectionBackend } from './DetectionBackend';
+import type { DetectionPlan } from './DetectionScheduler';
+import type { LandmarkFrame } from './LandmarkFrame';
+import {
+  createLandmarkers,
+  closeLandmarkers,
+  detectLandmarks,
+  updateLandmarkers,
+  type DetectionOptions,
+  type LandmarkerOptions,
+  type MediaPipeLandmarkers,
+} from './MediaPipeLandmarkers';
+
+export class InlineDetectionBackend implements DetectionBackend {
+  readonly kind = 'inline';
+
+  private readonly assets?: Partial<MediaPipeAssetConfig>;
+  private options: LandmarkerOptions;
+  private landmarkers: MediaPipeLandmarkers | null = null;
+
+  constructor(assets?: Partial<MediaPipeAssetConfig>, options: LandmarkerOptions = {}) {
+    this.assets = assets;
+    this.options = options;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.landmarkers) return;
+    this.landmarkers = await createLandmarkers(this.assets, this.options);
+  }
+
+  async detect(
+    video: HTMLVideoElement,
+    timestamp: number,
+    frame: LandmarkFrame,
+    plan?: DetectionPlan
+  ): Promise<void> {
+    if (!this.landmarkers) {
+      throw new Error('Detection backend is not initialized');
+    }
+    detectLandmarks(this.landmarkers, video, timestamp, frame, plan);
+  }
+
+  async setDetectionOptions(options: Partial<DetectionOptions>): Promise<void> {
+    this.options = { ...this.options, ...options };
+    if (this.landmarkers) {
+      await updateLandmarkers(this.landmarkers, options);
+    }
+  }
+
+  dispose(): void {
+    if (this.landmarkers) {
+      closeLandmarkers(this.landmarkers);
+      this.landmarkers = null;
+    }
+  }
+}
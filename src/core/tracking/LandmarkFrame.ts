@@ -0,0 +1,610 @@
+/**
+ * LandmarkFrame - Reusable typed-array tracking frame
+ *
+ * Detection writes straight into pooled frames instead of allocating a
+ * Landmark object per point; the interpolator and gestures read them through
+ * offsets and accessors. TrackingResult stays available as a lazy view.
+ *
+ * Layout of `data` (float32, LANDMARK_STRIDE values per landmark: x, y, z, visibility),
+ * sections at fixed offsets sized for the frame's capacity:
+ * - hands:      maxHands × HAND_LANDMARK_COUNT landmarks (normalized image coordinates)
+ * - hand world: maxHands × HAND_LANDMARK_COUNT landmarks (meters, hand-centered)
+ * - faces:      maxFaces × FACE_LANDMARK_CAPACITY landmarks (faceLandmarkCounts[f] used)
+ * - body:       BODY_LANDMARK_COUNT landmarks
+ * - body world: BODY_LANDMARK_COUNT landmarks (meters, hip-centered)
+ *
+ * Only the first handCount hands and faceCount faces (and the body when
+ * hasBody) are valid; the rest of the buffer holds stale values. Landmarks
+ * without a visibility are stored with visibility 1. Blendshapes, head poses,
+ * gazes and the segmentation mask are referenced, not copied.
+ */
+
+import type {
+  BodyLandmarks,
+  FaceBlendshapes,
+  FaceLandmarks,
+  Gaze,
+  HandLandmarks,
+  HeadPose,
+  Landmark,
+  LandmarkAccessor,
+  SegmentationMask,
+  TrackingResult,
+} from '@/lib/types';
+import { MAX_TRACKED_FACES, MAX_TRACKED_HANDS, POSE_LANDMARK_COUNT } from '@/lib/types';
+
+/** Floats per landmark: x, y, z, visibility */
+export const LANDMARK_STRIDE = 4;
+
+/** Landmarks per hand */
+export const HAND_LANDMARK_COUNT = 21;
+
+/** Landmarks a face slot holds (468 mesh points plus 10 iris points) */
+export const FACE_LANDMARK_CAPACITY = 478;
+
+/** Landmarks per body */
+export const BODY_LANDMARK_COUNT = POSE_LANDMARK_COUNT;
+
+/**
+ * Landmark as MediaPipe and TrackingResult provide it
+ */
+interface LandmarkLike {
+  x: number;
+  y: number;
+  z: number;
+  visibility?: number;
+}
+
+/**
+ * Accessor over a run of landmarks in a float buffer
+ * Reusable: reset() points it at another run without allocating
+ */
+export class LandmarkRun implements LandmarkAccessor {
+  private data: Float32Array = new Float32Array(0);
+  private offset = 0;
+  count = 0;
+
+  /**
+   * Point at count landmarks starting at a float offset
+   */
+  reset(data: Float32Array, offset: number, count: number): this {
+    this.data = data;
+    this.offset = offset;
+    this.count = count;
+    return this;
+  }
+
+  x(index: number): number {
+    return this.data[this.offset + index * LANDMARK_STRIDE];
+  }
+
+  y(index: number): number {
+    return this.data[this.offset + index * LANDMARK_STRIDE + 1];
+  }
+
+  z(index: number): number {
+    return this.data[this.offset + index * LANDMARK_STRIDE + 2];
+  }
+
+  visibility(index: number): number {
+    return this.data[this.offset + index * LANDMARK_STRIDE + 3];
+  }
+}
+
+/**
+ * Write landmarks at a float offset (at most max of them)
+ * @returns Number of landmarks written
+ */
+function writeLandmarks(
+  data: Float32Array,
+  offset: number,
+  landmarks: readonly LandmarkLike[],
+  max: number
+): number {
+  const count = Math.min(max, landmarks.length);
+  for (let i = 0; i < count; i++) {
+    const landmark = landmarks[i];
+    data[offset++] = landmark.x;
+    data[offset++] = landmark.y;
+    data[offset++] = landmark.z;
+    data[offset++] = landmark.visibility ?? 1;
+  }
+  return count;
+}
+
+/**
+ * Read landmarks at a float offset into new objects
+ */
+function readLandmarks(data: Float32Array, offset: number, count: number): Landmark[] {
+  const landmarks: Landmark[] = new Array(count);
+  for (let i = 0; i < count; i++) {
+    const base = offset + i * LANDMARK_STRIDE;
+    landmarks[i] = {
+      x: data[base],
+      y: data[base + 1],
+      z: data[base + 2],
+      visibility: data[base + 3],
+    };
+  }
+  return landmarks;
+}
+
+export class LandmarkFrame {
+  readonly maxHands: number;
+  readonly maxFaces: number;
+  readonly data: Float32Array;
+  /** Handedness per hand: 0 = Left, 1 = Right (the performer's own hand) */
+  readonly handedness: Uint8Array;
+  /** Landmarks stored per face (up to FACE_LANDMARK_CAPACITY) */
+  readonly faceLandmarkCounts: Uint16Array;
+  /** Blendshapes per face (null when not enabled) */
+  readonly faceBlendshapes: (FaceBlendshapes | null)[];
+  /** Head pose per face (null when not enabled) */
+  readonly faceHeadPoses: (HeadPose | null)[];
+  /** Gaze per face (null without iris landmarks) */
+  readonly faceGazes: (Gaze | null)[];
+
+  handCount = 0;
+  faceCount = 0;
+  hasBody = false;
+  segmentation: SegmentationMask | null = null;
+  timestamp = 0;
+  imageAspect: number | undefined = undefined;
+
+  /** Incremented on every clear, so views can tell the frame was reused */
+  version = 0;
+
+  private readonly handWorldStart: number;
+  private readonly faceStart: number;
+  private readonly bodyStart: number;
+  private readonly bodyWorldStart: number;
+
+  /**
+   * @param maxHands Hand capacity (default: MAX_TRACKED_HANDS)
+   * @param maxFaces Face capacity (default: MAX_TRACKED_FACES)
+   */
+  constructor(maxHands = MAX_TRACKED_HANDS, maxFaces = MAX_TRACKED_FACES) {
+    this.maxHands = maxHands;
+    this.maxFaces = maxFaces;
+
+    const handFloats = maxHands * HAND_LANDMARK_COUNT * LANDMARK_STRIDE;
+    const bodyFloats = BODY_LANDMARK_COUNT * LANDMARK_STRIDE;
+    this.handWorldStart = handFloats;
+    this.faceStart = 2 * handFloats;
+    this.bodyStart = this.faceStart + maxFaces * FACE_LANDMARK_CAPACITY * LANDMARK_STRIDE;
+    this.bodyWorldStart = this.bodyStart + bodyFloats;
+
+    this.data = new Float32Array(this.bodyWorldStart + bodyFloats);
+    this.handedness = new Uint8Array(maxHands);
+    this.faceLandmarkCounts = new Uint16Array(maxFaces);
+    this.faceBlendshapes = new Array<FaceBlendshapes | null>(maxFaces).fill(null);
+    this.faceHeadPoses = new Array<HeadPose | null>(maxFaces).fill(null);
+    this.faceGazes = new Array<Gaze | null>(maxFaces).fill(null);
+  }
+
+  /** Float offset of a hand's landmarks */
+  handOffset(hand: number): number {
+    return hand * HAND_LANDMARK_COUNT * LANDMARK_STRIDE;
+  }
+
+  /** Float offset of a hand's world landmarks */
+  handWorldOffset(hand: number): number {
+    return this.handWorldStart + hand * HAND_LANDMARK_COUNT * LANDMARK_STRIDE;
+  }
+
+  /** Float offset of a face's landmarks */
+  faceOffset(face: number): number {
+    return this.faceStart + face * FACE_LANDMARK_CAPACITY * LANDMARK_STRIDE;
+  }
+
+  /** Float offset of the body landmarks */
+  bodyOffset(): number {
+    return this.bodyStart;
+  }
+
+  /** Float offset of the body world landmarks */
+  bodyWorldOffset(): number {
+    return this.bodyWorldStart;
+  }
+
+  getHandedness(hand: number): 'Left' | 'Right' {
+    return this.handedness[hand] === 0 ? 'Left' : 'Right';
+  }
+
+  /**
+   * Point an accessor at a hand's landmarks
+   */
+  hand(hand: number, run: LandmarkRun): LandmarkRun {
+    return run.reset(this.data, this.handOffset(hand), HAND_LANDMARK_COUNT);
+  }
+
+  /**
+   * Point an accessor at a face's landmarks
+   */
+  face(face: number, run: LandmarkRun): LandmarkRun {
+    return run.reset(this.data, this.faceOffset(face), this.faceLandmarkCounts[face]);
+  }
+
+  /**
+   * Point an accessor at the body landmarks
+   */
+  body(run: LandmarkRun): LandmarkRun {
+    return run.reset(this.data, this.bodyStart, this.hasBody ? BODY_LANDMARK_COUNT : 0);
+  }
+
+  /**
+   * Empty the frame for reuse (landmark data is left in place)
+   */
+  clear(timestamp = 0): void {
+    this.handCount = 0;
+    this.faceCount = 0;
+    this.hasBody = false;
+    this.faceBlendshapes.fill(null);
+    this.faceHeadPoses.fill(null);
+    this.faceGazes.fill(null);
+    this.segmentation = null;
+    this.timestamp = timestamp;
+    this.imageAspect = undefined;
+    this.version++;
+  }
+
+  /**
+   * Append a hand (ignored beyond the capacity)
+   */
+  addHand(
+    landmarks: readonly LandmarkLike[],
+    worldLandmarks: readonly LandmarkLike[],
+    handedness: 'Left' | 'Right'
+  ): void {
+    const h = this.handCount;
+    if (h >= this.maxHands) return;
+    writeLandmarks(this.data, this.handOffset(h), landmarks, HAND_LANDMARK_COUNT);
+    writeLandmarks(this.data, this.handWorldOffset(h), worldLandmarks, HAND_LANDMARK_COUNT);
+    this.handedness[h] = handedness === 'Left' ? 0 : 1;
+    this.handCount++;
+  }
+
+  /**
+   * Append a face (ignored beyond the capacity)
+   */
+  addFace(
+    landmarks: readonly LandmarkLike[],
+    blendshapes: FaceBlendshapes | null = null,
+    headPose: HeadPose | null = null,
+    gaze: Gaze | null = null
+  ): void {
+    const f = this.faceCount;
+    if (f >= this.maxFaces) return;
+    this.faceLandmarkCounts[f] = writeLandmarks(
+      this.data,
+      this.faceOffset(f),
+      landmarks,
+      FACE_LANDMARK_CAPACITY
+    );
+    this.faceBlendshapes[f] = blendshapes;
+    this.faceHeadPoses[f] = headPose;
+    this.faceGazes[f] = gaze;
+    this.faceCount++;
+  }
+
+  /**
+   * Set the body (missing world landmarks are stored as zeros)
+   */
+  setBody(landmarks: readonly LandmarkLike[], worldLandmarks: readonly LandmarkLike[]): void {
+    writeLandmarks(this.data, this.bodyStart, landmarks, BODY_LANDMARK_COUNT);
+    const written = writeLandmarks(
+      this.data,
+      this.bodyWorldStart,
+      worldLandmarks,
+      BODY_LANDMARK_COUNT
+    );
+    this.data.fill(0, this.bodyWorldStart + written * LANDMARK_STRIDE, this.data.length);
+    this.hasBody = true;
+  }
+
+  /**
+   * Replace the hands with another frame's
+   */
+  copyHandsFrom(source: LandmarkFrame): void {
+    const count = Math.min(source.handCount, this.maxHands);
+    for (let h = 0; h < count; h++) {
+      const length = HAND_LANDMARK_COUNT * LANDMARK_STRIDE;
+      copyFloats(source.data, source.handOffset(h), this.data, this.handOffset(h), length);
+      copyFloats(
+        source.data,
+        source.handWorldOffset(h),
+        this.data,
+        this.handWorldOffset(h),
+        length
+      );
+      this.handedness[h] = source.handedness[h];
+    }
+    this.handCount = count;
+  }
+
+  /**
+   * Replace the faces with another frame's
+   */
+  copyFacesFrom(source: LandmarkFrame): void {
+    const count = Math.min(source.faceCount, this.maxFaces);
+    for (let f = 0; f < count; f++) {
+      const length = source.faceLandmarkCounts[f] * LANDMARK_STRIDE;
+      copyFloats(source.data, source.faceOffset(f), this.data, this.faceOffset(f), length);
+      this.faceLandmarkCounts[f] = source.faceLandmarkCounts[f];
+      this.faceBlendshapes[f] = source.faceBlendshapes[f];
+      this.faceHeadPoses[f] = source.faceHeadPoses[f];
+      this.faceGazes[f] = source.faceGazes[f];
+    }
+    for (let f = count; f < this.maxFaces; f++) {
+      this.faceBlendshapes[f] = null;
+      this.faceHeadPoses[f] = null;
+      this.faceGazes[f] = null;
+    }
+    this.faceCount = count;
+  }
+
+  /**
+   * Replace the body with another frame's
+   */
+  copyBodyFrom(source: LandmarkFrame): void {
+    const length = 2 * BODY_LANDMARK_COUNT * LANDMARK_STRIDE;
+    copyFloats(source.data, source.bodyStart, this.data, this.bodyStart, length);
+    this.hasBody = source.hasBody;
+  }
+
+  /**
+   * Replace everything with another frame's contents
+   */
+  copyFrom(source: LandmarkFrame): void {
+    this.copyHandsFrom(source);
+    this.copyFacesFrom(source);
+    this.copyBodyFrom(source);
+    this.segmentation = source.segmentation;
+    this.timestamp = source.timestamp;
+    this.imageAspect = source.imageAspect;
+  }
+}
+
+/**
+ * Copy a run of floats between buffers (no subarray views allocated)
+ */
+function copyFloats(
+  source: Float32Array,
+  sourceOffset: number,
+  target: Float32Array,
+  targetOffset: number,
+  length: number
+): void {
+  for (let i = 0; i < length; i++) {
+    target[targetOffset + i] = source[sourceOffset + i];
+  }
+}
+
+/**
+ * Free list of frames, so steady-state detection allocates none
+ */
+export class LandmarkFramePool {
+  private readonly free: LandmarkFrame[] = [];
+  private readonly maxHands: number;
+  private readonly maxFaces: number;
+
+  constructor(maxHands = MAX_TRACKED_HANDS, maxFaces = MAX_TRACKED_FACES) {
+    this.maxHands = maxHands;
+    this.maxFaces = maxFaces;
+  }
+
+  /**
+   * Take an empty frame (allocates only when none is free)
+   */
+  acquire(timestamp = 0): LandmarkFrame {
+    const frame = this.free.pop() ?? new LandmarkFrame(this.maxHands, this.maxFaces);
+    frame.clear(timestamp);
+    return frame;
+  }
+
+  /**
+   * Return a frame; views of it stop working once it is acquired again
+   */
+  release(frame: LandmarkFrame): void {
+    this.free.push(frame);
+  }
+}
+
+/**
+ * Frame contents as a structured-clone message (e.g. from the detection worker)
+ */
+export interface LandmarkFrameMessage {
+  /** Copy of the frame's data (transferable) */
+  data: Float32Array;
+  handedness: Uint8Array;
+  faceLandmarkCounts: Uint16Array;
+  handCount: number;
+  faceCount: number;
+  hasBody: boolean;
+  faceBlendshapes: (FaceBlendshapes | null)[];
+  faceHeadPoses: (HeadPose | null)[];
+  faceGazes: (Gaze | null)[];
+  segmentation: SegmentationMask | null;
+  timestamp: number;
+  imageAspect: number | undefined;
+}
+
+/**
+ * Package a frame for postMessage
+ * @param data Buffer of the frame's length to copy the landmark data into
+ *             (reused across frames by transferring it back and forth)
+ */
+export function toFrameMessage(frame: LandmarkFrame, data: Float32Array): LandmarkFrameMessage {
+  data.set(frame.data);
+  return {
+    data,
+    handedness: frame.handedness,
+    faceLandmarkCounts: frame.faceLandmarkCounts,
+    handCount: frame.handCount,
+    faceCount: frame.faceCount,
+    hasBody: frame.hasBody,
+    faceBlendshapes: frame.faceBlendshapes,
+    faceHeadPoses: frame.faceHeadPoses,
+    faceGazes: frame.faceGazes,
+    segmentation: frame.segmentation,
+    timestamp: frame.timestamp,
+    imageAspect: frame.imageAspect,
+  };
+}
+
+/**
+ * Fill a frame from a posted message (same capacity as the sending frame)
+ */
+export function readFrameMessage(frame: LandmarkFrame, message: LandmarkFrameMessage): void {
+  frame.clear(message.timestamp);
+  frame.data.set(message.data);
+  frame.handedness.set(message.handedness);
+  frame.faceLandmarkCounts.set(message.faceLandmarkCounts);
+  frame.handCount = message.handCount;
+  frame.faceCount = message.faceCount;
+  frame.hasBody = message.hasBody;
+  for (let f = 0; f < message.faceCount; f++) {
+    frame.faceBlendshapes[f] = message.faceBlendshapes[f];
+    frame.faceHeadPoses[f] = message.faceHeadPoses[f];
+    frame.faceGazes[f] = message.faceGazes[f];
+  }
+  frame.segmentation = message.segmentation;
+  frame.imageAspect = message.imageAspect;
+}
+
+/**
+ * Fill a frame from an object-based result
+ */
+export function writeTrackingResult(frame: LandmarkFrame, result: TrackingResult): void {
+  frame.clear(result.timestamp);
+  for (const hand of result.hands) {
+    frame.addHand(hand.landmarks, hand.worldLandmarks, hand.handedness);
+  }
+  for (const face of result.faces) {
+    frame.addFace(
+      face.landmarks,
+      face.blendshapes ?? null,
+      face.headPose ?? null,
+      face.gaze ?? null
+    );
+  }
+  if (result.body) {
+    frame.setBody(result.body.landmarks, result.body.worldLandmarks);
+  }
+  frame.segmentation = result.segmentation;
+  frame.imageAspect = result.imageAspect;
+}
+
+function readHands(frame: LandmarkFrame): HandLandmarks[] {
+  const hands: HandLandmarks[] = [];
+  for (let h = 0; h < frame.handCount; h++) {
+    hands.push({
+      landmarks: readLandmarks(frame.data, frame.handOffset(h), HAND_LANDMARK_COUNT),
+      worldLandmarks: readLandmarks(frame.data, frame.handWorldOffset(h), HAND_LANDMARK_COUNT),
+      handedness: frame.getHandedness(h),
+    });
+  }
+  return hands;
+}
+
+function readFaces(frame: LandmarkFrame): FaceLandmarks[] {
+  const faces: FaceLandmarks[] = [];
+  for (let f = 0; f < frame.faceCount; f++) {
+    const face: FaceLandmarks = {
+      landmarks: readLandmarks(frame.data, frame.faceOffset(f), frame.faceLandmarkCounts[f]),
+    };
+    const blendshapes = frame.faceBlendshapes[f];
+    const headPose = frame.faceHeadPoses[f];
+    const gaze = frame.faceGazes[f];
+    if (blendshapes) face.blendshapes = blendshapes;
+    if (headPose) face.headPose = headPose;
+    if (gaze) face.gaze = gaze;
+    faces.push(face);
+  }
+  return faces;
+}
+
+function readBody(frame: LandmarkFrame): BodyLandmarks | null {
+  if (!frame.hasBody) return null;
+  return {
+    landmarks: readLandmarks(frame.data, frame.bodyOffset(), BODY_LANDMARK_COUNT),
+    worldLandmarks: readLandmarks(frame.data, frame.bodyWorldOffset(), BODY_LANDMARK_COUNT),
+  };
+}
+
+/**
+ * Copy a frame into a standalone object-based result
+ */
+export function toTrackingResult(frame: LandmarkFrame): TrackingResult {
+  const faces = readFaces(frame);
+  return {
+    hands: readHands(frame),
+    faces,
+    face: faces[0] ?? null,
+    body: readBody(frame),
+    segmentation: frame.segmentation,
+    timestamp: frame.timestamp,
+    imageAspect: frame.imageAspect,
+  };
+}
+
+/**
+ * Object-based view of a frame
+ * Landmark objects are only created when hands, faces, face or body is first
+ * read; reading them after the frame was reused throws (copy results to keep
+ * with toTrackingResult)
+ */
+export function createTrackingResultView(frame: LandmarkFrame): TrackingResult {
+  const version = frame.version;
+  let hands: HandLandmarks[] | null = null;
+  let faces: FaceLandmarks[] | null = null;
+  let body: BodyLandmarks | null | undefined;
+
+  const checkFrame = () => {
+    if (frame.version !== version) {
+      throw new Error('Tracking result read after its landmark frame was reused');
+    }
+    return frame;
+  };
+
+  return {
+    get hands() {
+      return (hands ??= readHands(checkFrame()));
+    },
+    get faces() {
+      return (faces ??= readFaces(checkFrame()));
+    },
+    get face() {
+      return this.faces[0] ?? null;
+    },
+    get body() {
+      if (body === undefined) body = readBody(checkFrame());
+      return body;
+    },
+    segmentation: frame.segmentation,
+    timestamp: frame.timestamp,
+    imageAspect: frame.imageAspect,
+    frame,
+  };
+}
+
+/**
+ * Number of hands in a result (without creating landmark objects)
+ */
+export function countHands(result: TrackingResult): number {
+  return result.frame ? result.frame.handCount : result.hands.length;
+}
+
+/**
+ * Number of faces in a result (without creating landmark objects)
+ */
+export function countFaces(result: TrackingResult): number {
+  return result.frame ? result.frame.faceCount : result.faces.length;
+}
+
+/**
+ * Whether a result has a body (without creating landmark objects)
+ */
+export function hasBody(result: TrackingResult): boolean {
+  return result.frame ? result.frame.hasBody : result.body !== null;
+}
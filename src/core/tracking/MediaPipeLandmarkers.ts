@@ -0,0 +1,583 @@
+/**
+ * MediaPipeLandmarkers - Landmarker setup and result conversion
+ * Shared by the main-thread and worker detection backends; results are written
+ * straight into a LandmarkFrame (no per-landmark objects)
+ */
+
+import {
+  HandLandmarker,
+  FaceLandmarker,
+  PoseLandmarker,
+  ImageSegmenter,
+  FilesetResolver,
+  type HandLandmarkerResult,
+  type FaceLandmarkerResult,
+  type PoseLandmarkerResult,
+} from '@mediapipe/tasks-vision';
+import {
+  MAX_TRACKED_HANDS,
+  MAX_TRACKED_FACES,
+  createFaceBlendshapes,
+  type FaceBlendshapeName,
+  type FaceBlendshapes,
+  type SegmentationMask,
+} from '@/lib/types';
+import { headPoseFromMatrix } from './HeadPose';
+import { estimateGaze } from './Gaze';
+import type { LandmarkFrame } from './LandmarkFrame';
+import { downsampleMask } from './Segmentation';
+import { FULL_DETECTION_PLAN, type DetectionPlan } from './DetectionScheduler';
+import {
+  resolveAssetConfig,
+  resolveAssetUrl,
+  loadAssetManifest,
+  loadModelAsset,
+  type MediaPipeAssetConfig,
+  type ModelAssetOptions,
+} from '@/lib/mediapipeAssets';
+
+type VisionFileset = Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>;
+
+/** Frame types detection accepts (video on the main thread, bitmaps in workers) */
+export type DetectionImage = HTMLVideoElement | ImageBitmap;
+
+/** Hardware MediaPipe runs the models on */
+export type LandmarkerDelegate = 'GPU' | 'CPU';
+
+/**
+ * Detection settings that can change while tracking runs
+ * Confidences are 0-1; lower values keep tracking in poor light at the cost
+ * of more false detections
+ */
+export interface DetectionOptions {
+  /** Hands tracked at once, 1 to MAX_TRACKED_HANDS */
+  maxHands: number;
+  /** Faces tracked at once, 1 to MAX_TRACKED_FACES */
+  maxFaces: number;
+  /** Palm detection score needed to start tracking a hand */
+  minHandDetectionConfidence: number;
+  /** Hand presence score below which a tracked hand is dropped */
+  minHandPresenceConfidence: number;
+  /** Score below which a tracked hand is re-detected instead of tracked */
+  minHandTrackingConfidence: number;
+  /** Face detection score needed to start tracking a face */
+  minFaceDetectionConfidence: number;
+  /** Face presence score below which a tracked face is dropped */
+  minFacePresenceConfidence: number;
+  /** Score below which a tracked face is re-detected instead of tracked */
+  minFaceTrackingConfidence: number;
+  /** Pose detection score needed to start tracking the body */
+  minPoseDetectionConfidence: number;
+  /** Pose presence score below which the body is dropped */
+  minPosePresenceConfidence: number;
+  /** Score below which the body is re-detected instead of tracked */
+  minPoseTrackingConfidence: number;
+  /** Where the models run (changing it re-creates the landmarkers) */
+  delegate: LandmarkerDelegate;
+}
+
+export const DEFAULT_DETECTION_OPTIONS: DetectionOptions = {
+  maxHands: 2,
+  maxFaces: 1,
+  minHandDetectionConfidence: 0.5,
+  minHandPresenceConfidence: 0.5,
+  minHandTrackingConfidence: 0.5,
+  minFaceDetectionConfidence: 0.5,
+  minFacePresenceConfidence: 0.5,
+  minFaceTrackingConfidence: 0.5,
+  minPoseDetectionConfidence: 0.5,
+  minPosePresenceConfidence: 0.5,
+  minPoseTrackingConfidence: 0.5,
+  delegate: 'GPU',
+};
+
+/**
+ * Loaded hand and face landmarkers (plus the pose landmarker when body tracking
+ * is on and the segmenter when segmentation is on), with what is needed to
+ * re-create them
+ */
+export interface MediaPipeLandmarkers {
+  hand: HandLandmarker;
+  face: FaceLandmarker;
+  pose: PoseLandmarker | null;
+  segmenter: ImageSegmenter | null;
+  /** Settings the landmarkers currently run with */
+  options: ResolvedLandmarkerOptions;
+  /** Loaded WASM fileset and models (kept for re-creation) */
+  resources: LandmarkerResources;
+}
+
+interface LandmarkerResources {
+  vision: VisionFileset;
+  hand: ModelAssetOptions;
+  face: ModelAssetOptions;
+  pose: ModelAssetOptions | null;
+  segmenter: ModelAssetOptions | null;
+}
+
+/**
+ * Landmarker settings (detection options default to DEFAULT_DETECTION_OPTIONS)
+ */
+export interface LandmarkerOptions extends Partial<DetectionOptions> {
+  /** Output face blendshapes (expression coefficients, default: false) */
+  blendshapes?: boolean;
+  /** Output head pose from the facial transformation matrix (default: false) */
+  headPose?: boolean;
+  /** Track the body with PoseLandmarker (default: false) */
+  body?: boolean;
+  /** Output a person mask from ImageSegmenter (default: false) */
+  segmentation?: boolean;
+}
+
+/**
+ * Clamp a requested hand count to the supported range
+ */
+export function clampMaxHands(maxHands = 2): number {
+  return Math.max(1, Math.min(MAX_TRACKED_HANDS, Math.floor(maxHands)));
+}
+
+/**
+ * Clamp a requested face count to the supported range
+ */
+export function clampMaxFaces(maxFaces = 1): number {
+  return Math.max(1, Math.min(MAX_TRACKED_FACES, Math.floor(maxFaces)));
+}
+
+type ResolvedLandmarkerOptions = DetectionOptions &
+  Required<Pick<LandmarkerOptions, 'blendshapes' | 'headPose' | 'body' | 'segmentation'>>;
+
+// Detection options each landmarker's setOptions takes (a change re-applies the group)
+const HAND_OPTION_KEYS = [
+  'maxHands',
+  'minHandDetectionConfidence',
+  'minHandPresenceConfidence',
+  'minHandTrackingConfidence',
+] as const;
+const FACE_OPTION_KEYS = [
+  'maxFaces',
+  'minFaceDetectionConfidence',
+  'minFacePresenceConfidence',
+  'minFaceTrackingConfidence',
+] as const;
+const POSE_OPTION_KEYS = [
+  'minPoseDetectionConfidence',
+  'minPosePresenceConfidence',
+  'minPoseTrackingConfidence',
+] as const;
+
+type ConfidenceKey = Exclude<keyof DetectionOptions, 'maxHands' | 'maxFaces' | 'delegate'>;
+
+const CONFIDENCE_KEYS = [...HAND_OPTION_KEYS, ...FACE_OPTION_KEYS, ...POSE_OPTION_KEYS].filter(
+  (key): key is ConfidenceKey => key !== 'maxHands' && key !== 'maxFaces'
+);
+
+/**
+ * Fill in and clamp detection options (confidences to 0-1, counts to the supported range)
+ */
+export function resolveDetectionOptions(options: Partial<DetectionOptions> = {}): DetectionOptions {
+  const resolved: DetectionOptions = {
+    ...DEFAULT_DETECTION_OPTIONS,
+    maxHands: clampMaxHands(options.maxHands),
+    maxFaces: clampMaxFaces(options.maxFaces),
+    delegate: options.delegate === 'CPU' ? 'CPU' : 'GPU',
+  };
+  for (const key of CONFIDENCE_KEYS) {
+    const value = options[key];
+    if (value !== undefined && Number.isFinite(value)) {
+      resolved[key] = Math.max(0, Math.min(1, value));
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Fill in landmarker options
+ */
+function resolveLandmarkerOptions(options: LandmarkerOptions): ResolvedLandmarkerOptions {
+  return {
+    ...resolveDetectionOptions(options),
+    blendshapes: options.blendshapes ?? false,
+    headPose: options.headPose ?? false,
+    body: options.body ?? false,
+    segmentation: options.segmentation ?? false,
+  };
+}
+
+/**
+ * Verify assets and create the landmarkers
+ * @throws MediaPipeAssetError when self-hosted assets fail verification
+ */
+export async function createLandmarkers(
+  assets?: Partial<MediaPipeAssetConfig>,
+  options: LandmarkerOptions = {}
+): Promise<MediaPipeLandmarkers> {
+  const assetConfig = resolveAssetConfig(assets);
+  const resolved = resolveLandmarkerOptions(options);
+
+  // Verify self-hosted assets before handing them to MediaPipe
+  const manifest = await loadAssetManifest(assetConfig);
+  const [vision, handModel, faceModel, poseModel, segmenterModel] = await Promise.all([
+    FilesetResolver.forVisionTasks(resolveAssetUrl(assetConfig, assetConfig.wasmPath)),
+    loadModelAsset(assetConfig, 'hand', manifest),
+    loadModelAsset(assetConfig, 'face', manifest),
+    resolved.body ? loadModelAsset(assetConfig, 'pose', manifest) : null,
+    resolved.segmentation ? loadModelAsset(assetConfig, 'segmenter', manifest) : null,
+  ]);
+
+  const resources: LandmarkerResources = {
+    vision,
+    hand: handModel,
+    face: faceModel,
+    pose: poseModel,
+    segmenter: segmenterModel,
+  };
+  return { ...(await initializeLandmarkers(resources, resolved)), options: resolved, resources };
+}
+
+/**
+ * Create every landmarker the options ask for
+ * @throws Error when any of them fails to initialize
+ */
+async function initializeLandmarkers(
+  resources: LandmarkerResources,
+  options: ResolvedLandmarkerOptions
+): Promise<Pick<MediaPipeLandmarkers, 'hand' | 'face' | 'pose' | 'segmenter'>> {
+  const { vision } = resources;
+  const [hand, face, pose, segmenter] = await Promise.all([
+    initializeHandLandmarker(vision, resources.hand, options),
+    initializeFaceLandmarker(vision, resources.face, options),
+    resources.pose ? initializePoseLandmarker(vision, resources.pose, options) : null,
+    resources.segmenter
+      ? initializeImageSegmenter(vision, resources.segmenter, options.delegate)
+      : null,
+  ]);
+
+  if (!hand || !face || (resources.pose && !pose) || (resources.segmenter && !segmenter)) {
+    hand?.close();
+    face?.close();
+    pose?.close();
+    segmenter?.close();
+    throw new Error('Failed to initialize tracking models');
+  }
+
+  return { hand, face, pose, segmenter };
+}
+
+/**
+ * Apply new detection options to loaded landmarkers
+ * Counts and confidences go through setOptions; a delegate change re-creates
+ * the landmarkers (the old ones keep running until the new ones are ready)
+ * @throws Error when re-created landmarkers fail to initialize (the old ones stay)
+ */
+export async function updateLandmarkers(
+  landmarkers: MediaPipeLandmarkers,
+  changes: Partial<DetectionOptions>
+): Promise<void> {
+  const previous = landmarkers.options;
+  const next: ResolvedLandmarkerOptions = {
+    ...previous,
+    ...resolveDetectionOptions({ ...previous, ...changes }),
+  };
+
+  if (next.delegate !== previous.delegate) {
+    const created = await initializeLandmarkers(landmarkers.resources, next);
+    const old = { ...landmarkers };
+    Object.assign(landmarkers, created, { options: next });
+    closeLandmarkers(old);
+    return;
+  }
+
+  const changed = (keys: readonly (keyof DetectionOptions)[]) =>
+    keys.some((key) => next[key] !== previous[key]);
+  const handChanged = changed(HAND_OPTION_KEYS);
+  const faceChanged = changed(FACE_OPTION_KEYS);
+  const poseChanged = changed(POSE_OPTION_KEYS);
+
+  await Promise.all([
+    handChanged ? landmarkers.hand.setOptions(handLandmarkerOptions(next)) : null,
+    faceChanged ? landmarkers.face.setOptions(faceLandmarkerOptions(next)) : null,
+    poseChanged && landmarkers.pose
+      ? landmarkers.pose.setOptions(poseLandmarkerOptions(next))
+      : null,
+  ]);
+  landmarkers.options = next;
+}
+
+/**
+ * Release landmarker resources
+ */
+export function closeLandmarkers(landmarkers: MediaPipeLandmarkers): void {
+  landmarkers.hand.close();
+  landmarkers.face.close();
+  landmarkers.pose?.close();
+  landmarkers.segmenter?.close();
+}
+
+/**
+ * Run the landmarkers on an image, writing the results into a frame
+ * @param frame Frame to fill (cleared first)
+ * @param plan Models to run (skipped models report nothing)
+ */
+export function detectLandmarks(
+  landmarkers: MediaPipeLandmarkers,
+  image: DetectionImage,
+  timestamp: number,
+  frame: LandmarkFrame,
+  plan: DetectionPlan = FULL_DETECTION_PLAN
+): void {
+  const handResult: HandLandmarkerResult = plan.hands
+    ? landmarkers.hand.detectForVideo(image, timestamp)
+    : { landmarks: [], worldLandmarks: [], handednesses: [], handedness: [] };
+
+  // Face detection might fail, so wrap it separately
+  let faceResult: FaceLandmarkerResult;
+  try {
+    faceResult = plan.faces
+      ? landmarkers.face.detectForVideo(image, timestamp)
+      : { faceLandmarks: [], faceBlendshapes: [], facialTransformationMatrixes: [] };
+  } catch {
+    // Face detection failed, create empty result
+    faceResult = {
+      faceLandmarks: [],
+      faceBlendshapes: [],
+      facialTransformationMatrixes: [],
+    };
+  }
+
+  // Pose detection is optional and, like face detection, may fail on its own
+  let poseResult: PoseLandmarkerResult | null = null;
+  if (landmarkers.pose && plan.body) {
+    try {
+      poseResult = landmarkers.pose.detectForVideo(image, timestamp);
+    } catch {
+      poseResult = null;
+    }
+  }
+
+  // Segmentation is optional too; the mask is only valid inside the callback
+  let segmentation: SegmentationMask | null = null;
+  if (landmarkers.segmenter && plan.segmentation) {
+    try {
+      landmarkers.segmenter.segmentForVideo(image, timestamp, (result) => {
+        // Selfie segmenters put the person confidence in the last mask
+        const mask = result.confidenceMasks?.[result.confidenceMasks.length - 1];
+        if (mask) {
+          segmentation = downsampleMask(mask.getAsFloat32Array(), mask.width, mask.height);
+        }
+      });
+    } catch {
+      segmentation = null;
+    }
+  }
+
+  writeResults(
+    frame,
+    handResult,
+    faceResult,
+    poseResult,
+    segmentation,
+    timestamp,
+    getImageAspect(image)
+  );
+}
+
+/**
+ * Width / height of a detection image (undefined before the video has a size)
+ */
+function getImageAspect(image: DetectionImage): number | undefined {
+  const width = 'videoWidth' in image ? image.videoWidth : image.width;
+  const height = 'videoHeight' in image ? image.videoHeight : image.height;
+  return height > 0 ? width / height : undefined;
+}
+
+/**
+ * HandLandmarker settings that setOptions can change
+ */
+function handLandmarkerOptions(options: DetectionOptions) {
+  return {
+    numHands: options.maxHands,
+    minHandDetectionConfidence: options.minHandDetectionConfidence,
+    minHandPresenceConfidence: options.minHandPresenceConfidence,
+    minTrackingConfidence: options.minHandTrackingConfidence,
+  };
+}
+
+/**
+ * FaceLandmarker settings that setOptions can change
+ */
+function faceLandmarkerOptions(options: DetectionOptions) {
+  return {
+    numFaces: options.maxFaces,
+    minFaceDetectionConfidence: options.minFaceDetectionConfidence,
+    minFacePresenceConfidence: options.minFacePresenceConfidence,
+    minTrackingConfidence: options.minFaceTrackingConfidence,
+  };
+}
+
+/**
+ * PoseLandmarker settings that setOptions can change
+ */
+function poseLandmarkerOptions(options: DetectionOptions) {
+  return {
+    minPoseDetectionConfidence: options.minPoseDetectionConfidence,
+    minPosePresenceConfidence: options.minPosePresenceConfidence,
+    minTrackingConfidence: options.minPoseTrackingConfidence,
+  };
+}
+
+/**
+ * Initialize MediaPipe HandLandmarker
+ */
+async function initializeHandLandmarker(
+  vision: VisionFileset,
+  model: ModelAssetOptions,
+  options: DetectionOptions
+): Promise<HandLandmarker | null> {
+  try {
+    return await HandLandmarker.createFromOptions(vision, {
+      baseOptions: {
+        ...model,
+        delegate: options.delegate,
+      },
+      runningMode: 'VIDEO',
+      ...handLandmarkerOptions(options),
+    });
+  } catch (err) {
+    console.error('HandLandmarker initialization error:', err);
+    return null;
+  }
+}
+
+/**
+ * Initialize MediaPipe FaceLandmarker
+ */
+async function initializeFaceLandmarker(
+  vision: VisionFileset,
+  model: ModelAssetOptions,
+  options: ResolvedLandmarkerOptions
+): Promise<FaceLandmarker | null> {
+  try {
+    return await FaceLandmarker.createFromOptions(vision, {
+      baseOptions: {
+        ...model,
+        delegate: options.delegate,
+      },
+      runningMode: 'VIDEO',
+      ...faceLandmarkerOptions(options),
+      outputFaceBlendshapes: options.blendshapes,
+      outputFacialTransformationMatrixes: options.headPose,
+    });
+  } catch (err) {
+    console.error('FaceLandmarker initialization error:', err);
+    return null;
+  }
+}
+
+/**
+ * Initialize MediaPipe PoseLandmarker (single body)
+ */
+async function initializePoseLandmarker(
+  vision: VisionFileset,
+  model: ModelAssetOptions,
+  options: DetectionOptions
+): Promise<PoseLandmarker | null> {
+  try {
+    return await PoseLandmarker.createFromOptions(vision, {
+      baseOptions: {
+        ...model,
+        delegate: options.delegate,
+      },
+      runningMode: 'VIDEO',
+      numPoses: 1,
+      ...poseLandmarkerOptions(options),
+      outputSegmentationMasks: false,
+    });
+  } catch (err) {
+    console.error('PoseLandmarker initialization error:', err);
+    return null;
+  }
+}
+
+/**
+ * Initialize MediaPipe ImageSegmenter (person confidence mask)
+ */
+async function initializeImageSegmenter(
+  vision: VisionFileset,
+  model: ModelAssetOptions,
+  delegate: LandmarkerDelegate
+): Promise<ImageSegmenter | null> {
+  try {
+    return await ImageSegmenter.createFromOptions(vision, {
+      baseOptions: {
+        ...model,
+        delegate,
+      },
+      runningMode: 'VIDEO',
+      outputConfidenceMasks: true,
+      outputCategoryMask: false,
+    });
+  } catch (err) {
+    console.error('ImageSegmenter initialization error:', err);
+    return null;
+  }
+}
+
+/**
+ * Name the performer's own hand from a MediaPipe handedness label
+ * MediaPipe labels hands as if the image were mirrored (selfie view), but
+ * frames reach it unmirrored, so the label is swapped. The result does not
+ * depend on how the canvas is drawn (see CoordinateMapper mirroring)
+ */
+function toPerformerHandedness(label: string): 'Left' | 'Right' {
+  return label === 'Left' ? 'Right' : 'Left';
+}
+
+/**
+ * Write MediaPipe results into a frame
+ */
+function writeResults(
+  frame: LandmarkFrame,
+  handResult: HandLandmarkerResult,
+  faceResult: FaceLandmarkerResult,
+  poseResult: PoseLandmarkerResult | null,
+  segmentation: SegmentationMask | null,
+  timestamp: number,
+  imageAspect: number | undefined
+): void {
+  frame.clear(timestamp);
+
+  for (let i = 0; i < handResult.landmarks.length; i++) {
+    const handedness = toPerformerHandedness(handResult.handednesses[i][0].categoryName);
+    frame.addHand(handResult.landmarks[i], handResult.worldLandmarks[i], handedness);
+  }
+
+  // Blendshapes and transformation matrixes are only present when enabled,
+  // the gaze when the model outputs iris landmarks
+  const faceLandmarks = faceResult.faceLandmarks ?? [];
+  for (let i = 0; i < faceLandmarks.length; i++) {
+    let blendshapes: FaceBlendshapes | null = null;
+    const categories = faceResult.faceBlendshapes?.[i]?.categories;
+    if (categories && categories.length > 0) {
+      const scores: Partial<FaceBlendshapes> = {};
+      for (const category of categories) {
+        scores[category.categoryName as FaceBlendshapeName] = category.score;
+      }
+      blendshapes = createFaceBlendshapes(scores);
+    }
+
+    const matrix = faceResult.facialTransformationMatrixes?.[i];
+    const headPose = matrix && matrix.data.length >= 16 ? headPoseFromMatrix(matrix.data) : null;
+
+    const gaze = estimateGaze(faceLandmarks[i], headPose, imageAspect);
+
+    frame.addFace(faceLandmarks[i], blendshapes, headPose, gaze);
+  }
+
+  // First pose only
+  const poseLandmarks = poseResult?.landmarks[0];
+  if (poseLandmarks) {
+    frame.setBody(poseLandmarks, poseResult?.worldLandmarks[0] ?? []);
+  }
+
+  frame.segmentation = segmentation;
+}
@@ -0,0 +1,507 @@
+/**
+ * MediaPipeTrackingSource - Webcam/video tracking with MediaPipe Tasks Vision
+ * Runs HandLandmarker and FaceLandmarker (plus PoseLandmarker when body
+ * tracking is on and ImageSegmenter when segmentation is on) on an attached
+ * video element
+ * once per new camera frame and emits the converted TrackingResult.
+ * Results are written into pooled LandmarkFrames and emitted as lazy views of
+ * them (a frame is reused once the next result is out).
+ * A DetectionScheduler picks the models each frame runs; results of skipped
+ * models are carried over from the previous frame.
+ * Inference runs in a Web Worker where supported, otherwise on the main thread.
+ * Models that fail to load on the GPU are retried on the CPU, and models that
+ * keep failing to detect are re-created (see TrackerRecoveryConfig).
+ */
+
+import type { MediaPipeAssetConfig } from '@/lib/mediapipeAssets';
+import { BaseTrackingSource, type VideoTrackingSource } from './TrackingSource';
+import type { DetectionBackend, DetectionBackendPreference } from './DetectionBackend';
+import {
+  resolveDetectionOptions,
+  type DetectionOptions,
+  type LandmarkerDelegate,
+} from './MediaPipeLandmarkers';
+import { InlineDetectionBackend } from './InlineDetectionBackend';
+import { WorkerDetectionBackend } from './WorkerDetectionBackend';
+import { HeadPoseSmoother } from './HeadPose';
+import { LandmarkFramePool, createTrackingResultView, type LandmarkFrame } from './LandmarkFrame';
+import {
+  DetectionScheduler,
+  type DetectionPlan,
+  type DetectionRates,
+  type DetectionSchedulerConfig,
+} from './DetectionScheduler';
+
+export interface MediaPipeTrackingSourceOptions {
+  /** MediaPipe asset locations (defaults to self-hosted files in public/mediapipe) */
+  assets?: Partial<MediaPipeAssetConfig>;
+  /** Where inference runs (default: 'auto' = worker with main-thread fallback) */
+  backend?: DetectionBackendPreference;
+  /** Hands tracked at once, 1 to MAX_TRACKED_HANDS (default: 2) */
+  maxHands?: number;
+  /** Faces tracked at once, 1 to MAX_TRACKED_FACES (default: 1) */
+  maxFaces?: number;
+  /** Output face blendshapes on each face (default: false) */
+  blendshapes?: boolean;
+  /** Output a smoothed head pose on each face (default: false) */
+  headPose?: boolean;
+  /** Track the body with PoseLandmarker (default: false) */
+  body?: boolean;
+  /** Output a downsampled person mask from ImageSegmenter (default: false) */
+  segmentation?: boolean;
+  /** Per-model detection pacing (see DetectionScheduler) */
+  scheduling?: Partial<DetectionSchedulerConfig>;
+  /** Detection confidences (0-1, default: 0.5 each), changeable with setDetectionOptions */
+  detection?: Partial<Omit<DetectionOptions, 'maxHands' | 'maxFaces' | 'delegate'>>;
+  /** Hardware the models run on (default: 'GPU') */
+  delegate?: LandmarkerDelegate;
+  /** How failures are recovered from */
+  recovery?: Partial<TrackerRecoveryConfig>;
+}
+
+/**
+ * Recovery settings
+ */
+export interface TrackerRecoveryConfig {
+  /** Retry on the CPU when models fail to load on the GPU */
+  cpuFallback: boolean;
+  /** Detections failing in a row before the models are re-created */
+  maxConsecutiveErrors: number;
+  /** Re-creations in a row (without a successful detection between) before giving up */
+  maxRecoveries: number;
+}
+
+export const DEFAULT_TRACKER_RECOVERY_CONFIG: TrackerRecoveryConfig = {
+  cpuFallback: true,
+  maxConsecutiveErrors: 10,
+  maxRecoveries: 3,
+};
+
+/**
+ * Message of a thrown value
+ */
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * MediaPipe-backed tracking source
+ * Models are loaded once on first start and reused across stop/start cycles
+ */
+export class MediaPipeTrackingSource extends BaseTrackingSource implements VideoTrackingSource {
+  readonly id = 'mediapipe';
+
+  private options: MediaPipeTrackingSourceOptions;
+  private readonly headPoseSmoother = new HeadPoseSmoother();
+  private readonly scheduler: DetectionScheduler;
+  private readonly recovery: TrackerRecoveryConfig;
+  private readonly framePool = new LandmarkFramePool();
+
+  private backend: DetectionBackend | null = null;
+  private video: HTMLVideoElement | null = null;
+  /** Pending requestAnimationFrame fallback (browsers without requestVideoFrameCallback) */
+  private animationFrameId: number | null = null;
+  /** Pending requestVideoFrameCallback and the video it was requested on */
+  private videoFrameId: number | null = null;
+  private frameVideo: HTMLVideoElement | null = null;
+  /** Media time of the last frame seen by the animation frame fallback */
+  private lastVideoTime = -1;
+  private lastTimestamp = -1;
+  /** Frame of the last emitted result (supplies the entities of models a frame skipped) */
+  private lastFrame: LandmarkFrame | null = null;
+  /** Whether a frame is being analyzed (frames arriving meanwhile are skipped) */
+  private detecting = false;
+
+  /** Incremented on every start/stop so a stop during model loading wins */
+  private generation = 0;
+
+  /** Pending model initialization (shared by concurrent start calls) */
+  private initPromise: Promise<void> | null = null;
+
+  /** Detections failed in a row */
+  private consecutiveErrors = 0;
+  /** Model re-creations since the last successful detection */
+  private recoveries = 0;
+  /** Why the models run on the CPU although the GPU was requested */
+  private fallbackReason: string | null = null;
+
+  constructor(options: MediaPipeTrackingSourceOptions = {}) {
+    super();
+    this.options = options;
+    this.recovery = { ...DEFAULT_TRACKER_RECOVERY_CONFIG, ...options.recovery };
+    this.scheduler = new DetectionScheduler(
+      { body: options.body ?? false, segmentation: options.segmentation ?? false },
+      options.scheduling
+    );
+  }
+
+  attachVideo(video: HTMLVideoElement | null): void {
+    this.video = video;
+
+    // A frame callback pending on another video would never fire for this one
+    if (this.running && this.frameVideo !== video) {
+      this.cancelFrame();
+      this.scheduleFrame();
+    }
+  }
+
+  async start(): Promise<void> {
+    const generation = ++this.generation;
+    this.consecutiveErrors = 0;
+    this.recoveries = 0;
+    if (!this.backend) this.setStatus('initializing');
+
+    try {
+      await this.initialize();
+    } catch (err) {
+      if (generation === this.generation) this.setStatus('failed', errorMessage(err));
+      throw err;
+    }
+    if (generation !== this.generation) return;
+
+    // Start detection loop
+    this.running = true;
+    this.setHealthyStatus();
+    if (this.animationFrameId === null && this.videoFrameId === null) {
+      this.scheduleFrame();
+    }
+  }
+
+  stop(): void {
+    this.generation++;
+    this.cancelFrame();
+    this.running = false;
+    this.headPoseSmoother.reset();
+    this.scheduler.reset();
+    if (this.lastFrame) {
+      this.framePool.release(this.lastFrame);
+      this.lastFrame = null;
+    }
+    this.lastVideoTime = -1;
+    this.setStatus('idle');
+  }
+
+  dispose(): void {
+    super.dispose();
+    this.backend?.dispose();
+    this.backend = null;
+    this.initPromise = null;
+    this.video = null;
+  }
+
+  /**
+   * Where inference is running, null before models are loaded
+   */
+  getBackendKind(): DetectionBackend['kind'] | null {
+    return this.backend?.kind ?? null;
+  }
+
+  /**
+   * Effective camera frame rate and rate of each model (Hz, over the last second)
+   */
+  getDetectionRates(): Readonly<DetectionRates> {
+    return this.scheduler.getRates();
+  }
+
+  /**
+   * Detection settings the models run with (or will run with once loaded)
+   */
+  getDetectionOptions(): DetectionOptions {
+    const { maxHands, maxFaces, delegate, detection } = this.options;
+    return resolveDetectionOptions({ ...detection, maxHands, maxFaces, delegate });
+  }
+
+  /**
+   * Change detection settings while tracking runs
+   * Confidences and counts are applied in place; a delegate change re-creates
+   * the models (tracking continues on the old ones meanwhile). Unset fields keep
+   * their current value, so an unset delegate keeps the automatic CPU fallback
+   * @throws Error when re-created models fail to load (the old delegate stays,
+   * the other changes are still applied)
+   */
+  async setDetectionOptions(options: Partial<DetectionOptions>): Promise<void> {
+    const changes = Object.fromEntries(
+      Object.entries(options).filter(([, value]) => value !== undefined)
+    ) as Partial<DetectionOptions>;
+    const previous = this.getDetectionOptions();
+    const next = resolveDetectionOptions({ ...previous, ...changes });
+    const keys = Object.keys(next) as (keyof DetectionOptions)[];
+    if (keys.every((key) => next[key] === previous[key])) return;
+
+    // Models loaded from now on start with the new settings
+    const previousOptions = this.options;
+    const { maxHands, maxFaces, delegate, ...detection } = next;
+    this.options = { ...this.options, maxHands, maxFaces, delegate, detection };
+
+    try {
+      // Models being loaded right now were created with the old settings
+      if (this.initPromise && !this.backend) await this.initPromise.catch(() => undefined);
+      await this.backend?.setDetectionOptions(next);
+    } catch (err) {
+      if (next.delegate === previous.delegate) {
+        this.options = previousOptions;
+        throw err;
+      }
+      // Only the new delegate failed - keep the other changes on the current one
+      this.options = { ...this.options, delegate: previous.delegate };
+      await this.backend
+        ?.setDetectionOptions({ ...next, delegate: previous.delegate })
+        .catch(() => undefined);
+      throw err;
+    }
+
+    // An explicitly chosen delegate replaces the automatic CPU fallback
+    if (next.delegate !== previous.delegate) {
+      this.fallbackReason = null;
+      if (this.running) this.setHealthyStatus();
+    }
+  }
+
+  /**
+   * Load models if not already loaded
+   * @throws MediaPipeAssetError when self-hosted assets fail verification
+   */
+  private initialize(): Promise<void> {
+    if (this.backend) return Promise.resolve();
+
+    if (!this.initPromise) {
+      this.initPromise = this.initializeTrackers().catch((err) => {
+        // Allow a retry on the next start
+        this.initPromise = null;
+        throw err;
+      });
+    }
+    return this.initPromise;
+  }
+
+  /**
+   * Create the detection backend, retrying on the CPU when the GPU fails
+   */
+  private async initializeTrackers(): Promise<void> {
+    try {
+      this.backend = await this.createBackend();
+    } catch (err) {
+      // Missing or corrupt assets fail on any delegate
+      const gpu = this.getDetectionOptions().delegate === 'GPU';
+      if (
+        !gpu ||
+        !this.recovery.cpuFallback ||
+        (err instanceof Error && err.name === 'MediaPipeAssetError')
+      ) {
+        throw err;
+      }
+
+      console.warn('Models failed to load on the GPU, retrying on the CPU:', err);
+      const previousOptions = this.options;
+      this.options = { ...this.options, delegate: 'CPU' };
+      try {
+        this.backend = await this.createBackend();
+      } catch (cpuErr) {
+        this.options = previousOptions;
+        throw cpuErr;
+      }
+      this.fallbackReason = `GPU unavailable, running on the CPU (${errorMessage(err)})`;
+    }
+  }
+
+  /**
+   * Create and initialize a detection backend, preferring a worker
+   */
+  private async createBackend(): Promise<DetectionBackend> {
+    const { assets, backend = 'auto', blendshapes, headPose, body, segmentation } = this.options;
+    const landmarkerOptions = {
+      ...this.getDetectionOptions(),
+      blendshapes,
+      headPose,
+      body,
+      segmentation,
+    };
+
+    if (backend !== 'inline' && (backend === 'worker' || WorkerDetectionBackend.isSupported())) {
+      const worker = new WorkerDetectionBackend(assets, landmarkerOptions);
+      try {
+        await worker.initialize();
+        return worker;
+      } catch (err) {
+        worker.dispose();
+        if (backend === 'worker') throw err;
+        console.warn('Detection worker unavailable, running on the main thread:', err);
+      }
+    }
+
+    const inline = new InlineDetectionBackend(assets, landmarkerOptions);
+    try {
+      await inline.initialize();
+    } catch (err) {
+      inline.dispose();
+      throw err;
+    }
+    return inline;
+  }
+
+  /**
+   * Running status: degraded while on the CPU fallback
+   */
+  private setHealthyStatus(): void {
+    if (this.fallbackReason) {
+      this.setStatus('degraded', this.fallbackReason);
+    } else {
+      this.setStatus('running');
+    }
+  }
+
+  /**
+   * Re-create the models after repeated detection errors
+   * Detection pauses until they are loaded; gives up after maxRecoveries attempts in a row
+   */
+  private recover(err: unknown): void {
+    this.consecutiveErrors = 0;
+    const { maxRecoveries } = this.recovery;
+    if (this.recoveries >= maxRecoveries) {
+      this.fail(`Detection keeps failing (${errorMessage(err)})`);
+      return;
+    }
+
+    this.recoveries++;
+    this.setStatus(
+      'degraded',
+      `Reloading models after repeated detection errors (attempt ${this.recoveries}/${maxRecoveries})`
+    );
+    console.warn('Detection keeps failing, reloading models:', err);
+
+    const generation = this.generation;
+    this.backend?.dispose();
+    this.backend = null;
+    this.initPromise = null;
+    this.initialize().catch((initErr) => {
+      if (generation !== this.generation) return;
+      console.error('Model reload error:', initErr);
+      this.fail(`Models failed to reload (${errorMessage(initErr)})`);
+    });
+  }
+
+  /**
+   * Stop detecting for good (a new start retries from scratch)
+   */
+  private fail(reason: string): void {
+    this.cancelFrame();
+    this.running = false;
+    this.setStatus('failed', reason);
+  }
+
+  /**
+   * Wait for the next camera frame
+   * Uses requestVideoFrameCallback where available; otherwise polls every
+   * animation frame and compares the video's media time
+   */
+  private scheduleFrame(): void {
+    const video = this.video;
+    if (video && typeof video.requestVideoFrameCallback === 'function') {
+      this.frameVideo = video;
+      this.videoFrameId = video.requestVideoFrameCallback(this.onVideoFrame);
+    } else {
+      this.animationFrameId = requestAnimationFrame(this.onAnimationFrame);
+    }
+  }
+
+  private cancelFrame(): void {
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+    if (this.videoFrameId !== null && this.frameVideo) {
+      this.frameVideo.cancelVideoFrameCallback(this.videoFrameId);
+    }
+    this.videoFrameId = null;
+    this.frameVideo = null;
+  }
+
+  private onVideoFrame = (): void => {
+    this.videoFrameId = null;
+    this.frameVideo = null;
+    this.processFrame();
+    this.scheduleFrame();
+  };
+
+  private onAnimationFrame = (): void => {
+    this.animationFrameId = null;
+    const video = this.video;
+    if (video && video.currentTime !== this.lastVideoTime) {
+      this.lastVideoTime = video.currentTime;
+      this.processFrame();
+    }
+    this.scheduleFrame();
+  };
+
+  /**
+   * Analyze a new camera frame with the models the scheduler picks
+   * Only one frame is in flight at a time; frames arriving meanwhile are skipped
+   */
+  private processFrame(): void {
+    const video = this.video;
+    const backend = this.backend;
+    if (!video || !backend || video.readyState < 2) return;
+
+    const timestamp = performance.now();
+    this.scheduler.frameArrived(timestamp);
+    if (this.detecting || timestamp === this.lastTimestamp) return;
+
+    this.lastTimestamp = timestamp;
+    this.detecting = true;
+    const generation = this.generation;
+    const plan = this.scheduler.plan(timestamp);
+    const imageAspect = video.videoHeight > 0 ? video.videoWidth / video.videoHeight : undefined;
+    const frame = this.framePool.acquire(timestamp);
+
+    backend
+      .detect(video, timestamp, frame, plan)
+      .then(() => {
+        // Drop results that finish after a stop
+        if (generation !== this.generation) {
+          this.framePool.release(frame);
+          return;
+        }
+
+        const duration = performance.now() - timestamp;
+        this.scheduler.report(plan, createTrackingResultView(frame), duration, timestamp);
+        if (this.consecutiveErrors > 0 || this.recoveries > 0) {
+          this.consecutiveErrors = 0;
+          this.recoveries = 0;
+          this.setHealthyStatus();
+        }
+        frame.imageAspect = imageAspect;
+        // Only fresh poses are smoothed (carried-over faces were smoothed when detected)
+        if (this.options.headPose && plan.faces) this.headPoseSmoother.smoothFrame(frame);
+        this.carryOverSkipped(plan, frame);
+
+        // The previous frame is reused only after listeners have the new result
+        const previous = this.lastFrame;
+        this.lastFrame = frame;
+        this.emit(createTrackingResultView(frame));
+        if (previous) this.framePool.release(previous);
+      })
+      .catch((err) => {
+        this.framePool.release(frame);
+        if (generation !== this.generation) return;
+        console.error('Detection error:', err);
+        if (++this.consecutiveErrors >= this.recovery.maxConsecutiveErrors) {
+          this.recover(err);
+        }
+      })
+      .finally(() => {
+        this.detecting = false;
+      });
+  }
+
+  /**
+   * Fill in the entities of models this frame skipped from the previous frame
+   */
+  private carryOverSkipped(plan: DetectionPlan, frame: LandmarkFrame): void {
+    const previous = this.lastFrame;
+    if (!previous) return;
+    if (!plan.hands) frame.copyHandsFrom(previous);
+    if (!plan.faces) frame.copyFacesFrom(previous);
+    if (!plan.body) frame.copyBodyFrom(previous);
+    if (!plan.segmentation) frame.segmentation = previous.segmentation;
+  }
+}
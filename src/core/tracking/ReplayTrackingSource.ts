@@ -0,0 +1,178 @@
+/**
+ * ReplayTrackingSource - Plays back a recorded tracking session
+ * Emits recorded frames on the original timeline (scaled by playback rate),
+ * with looping and seeking. Emitted timestamps use performance.now() so
+ * downstream interpolation sees a live-looking stream.
+ */
+
+import type { TrackingResult } from '@/lib/types';
+import type { TrackingSession } from './SessionFormat';
+import { BaseTrackingSource } from './TrackingSource';
+
+export interface ReplayTrackingSourceOptions {
+  /** Restart from the beginning when the end is reached (default: true) */
+  loop?: boolean;
+  /** Playback speed multiplier (default: 1) */
+  playbackRate?: number;
+}
+
+/** Allowed playback rate range */
+const MIN_PLAYBACK_RATE = 0.1;
+const MAX_PLAYBACK_RATE = 4;
+
+/**
+ * Tracking source driven by a decoded session
+ */
+export class ReplayTrackingSource extends BaseTrackingSource {
+  readonly id = 'replay';
+
+  private readonly frames: TrackingResult[];
+  private readonly duration: number;
+
+  private loop: boolean;
+  private playbackRate: number;
+
+  /** Playback position in session time (ms) */
+  private playhead = 0;
+  /** Index of the last emitted frame (-1 = none yet) */
+  private frameIndex = -1;
+  private lastTickTime = -1;
+  private animationFrameId: number | null = null;
+
+  constructor(session: TrackingSession, options: ReplayTrackingSourceOptions = {}) {
+    super();
+    this.frames = session.frames;
+    this.duration =
+      session.frames.length > 0 ? session.frames[session.frames.length - 1].timestamp : 0;
+    this.loop = options.loop ?? true;
+    this.playbackRate = clampRate(options.playbackRate ?? 1);
+  }
+
+  async start(): Promise<void> {
+    if (this.running || this.frames.length === 0) return;
+
+    // Restart a finished non-looping replay from the beginning
+    if (this.isEnded()) {
+      this.seek(0);
+    }
+
+    this.running = true;
+    this.setStatus('running');
+    this.lastTickTime = -1;
+    this.animationFrameId = requestAnimationFrame(this.tick);
+  }
+
+  stop(): void {
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+    this.running = false;
+    this.setStatus('idle');
+  }
+
+  /**
+   * Jump to a position and emit the frame shown there (works while paused)
+   * @param time Session time in milliseconds
+   */
+  seek(time: number): void {
+    if (this.frames.length === 0) return;
+
+    this.playhead = Math.max(0, Math.min(this.duration, time));
+    this.frameIndex = this.findFrameIndex(this.playhead);
+    this.emitFrame(this.frameIndex, performance.now());
+  }
+
+  setPlaybackRate(rate: number): void {
+    this.playbackRate = clampRate(rate);
+  }
+
+  getPlaybackRate(): number {
+    return this.playbackRate;
+  }
+
+  setLoop(loop: boolean): void {
+    this.loop = loop;
+  }
+
+  isLooping(): boolean {
+    return this.loop;
+  }
+
+  /**
+   * Current playback position (ms)
+   */
+  getCurrentTime(): number {
+    return this.playhead;
+  }
+
+  /**
+   * Session length (ms)
+   */
+  getDuration(): number {
+    return this.duration;
+  }
+
+  /**
+   * Whether a non-looping replay has reached its last frame
+   */
+  isEnded(): boolean {
+    return !this.loop && this.frames.length > 0 && this.frameIndex === this.frames.length - 1;
+  }
+
+  /**
+   * Index of the last frame at or before a session time (binary search)
+   */
+  private findFrameIndex(time: number): number {
+    let low = 0;
+    let high = this.frames.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.frames[mid].timestamp <= time) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low;
+  }
+
+  private emitFrame(index: number, now: number): void {
+    this.emit({ ...this.frames[index], timestamp: now });
+  }
+
+  /**
+   * Playback loop: advance the playhead and emit the newest due frame
+   */
+  private tick = (now: number): void => {
+    const elapsed = this.lastTickTime < 0 ? 0 : now - this.lastTickTime;
+    this.lastTickTime = now;
+    this.playhead += elapsed * this.playbackRate;
+
+    if (this.playhead > this.duration) {
+      if (this.loop && this.duration > 0) {
+        this.playhead %= this.duration;
+        this.frameIndex = -1;
+      } else {
+        this.playhead = this.duration;
+      }
+    }
+
+    const index = this.findFrameIndex(this.playhead);
+    if (index !== this.frameIndex) {
+      this.frameIndex = index;
+      this.emitFrame(index, now);
+    }
+
+    if (this.isEnded()) {
+      this.stop();
+      return;
+    }
+
+    this.animationFrameId = requestAnimationFrame(this.tick);
+  };
+}
+
+function clampRate(rate: number): number {
+  return Math.max(MIN_PLAYBACK_RATE, Math.min(MAX_PLAYBACK_RATE, rate));
+}
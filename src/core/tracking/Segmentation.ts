@@ -0,0 +1,46 @@
+/**
+ * Segmentation - Person masks from MediaPipe's ImageSegmenter
+ * Full-resolution confidence masks are averaged down to a small grid so they
+ * can travel from the worker, be recorded in sessions and be sampled cheaply
+ */
+
+import type { SegmentationMask } from '@/lib/types';
+
+/** Columns of a downsampled mask (rows follow the image aspect ratio) */
+export const SEGMENTATION_MASK_WIDTH = 64;
+
+/**
+ * Average a confidence mask down to a coarse grid
+ * @param data Row-major confidences (0-1), width × height values
+ * @param targetWidth Columns of the result (default: SEGMENTATION_MASK_WIDTH)
+ */
+export function downsampleMask(
+  data: ArrayLike<number>,
+  width: number,
+  height: number,
+  targetWidth = SEGMENTATION_MASK_WIDTH
+): SegmentationMask {
+  const outWidth = Math.max(1, Math.min(width, Math.round(targetWidth)));
+  const outHeight = Math.max(1, Math.round((height * outWidth) / width));
+  const out = new Float32Array(outWidth * outHeight);
+
+  for (let row = 0; row < outHeight; row++) {
+    const y0 = Math.floor((row * height) / outHeight);
+    const y1 = Math.max(y0 + 1, Math.floor(((row + 1) * height) / outHeight));
+    for (let col = 0; col < outWidth; col++) {
+      const x0 = Math.floor((col * width) / outWidth);
+      const x1 = Math.max(x0 + 1, Math.floor(((col + 1) * width) / outWidth));
+
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        const base = y * width;
+        for (let x = x0; x < x1; x++) {
+          sum += data[base + x];
+        }
+      }
+      out[row * outWidth + col] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+
+  return { width: outWidth, height: outHeight, data: out };
+}
@@ -0,0 +1,457 @@
+/**
+ * SessionFormat - Versioned binary file format for recorded tracking sessions
+ *
+ * File layout (little-endian):
+ * - 4 bytes   magic "PVTS"
+ * - uint16    format version
+ * - uint16    reserved (0)
+ * - uint32    header length N in bytes
+ * - N bytes   UTF-8 JSON header (SessionHeader)
+ * - padding   to a 4-byte boundary
+ * - float32[] frames, back to back
+ *
+ * Frame layout (float32, FLOATS_PER_LANDMARK values per landmark):
+ * - [0] timestamp in ms relative to the first frame
+ * - [1] hand count H
+ * - [2] face count N
+ * - H × { handedness (0 = Left, 1 = Right), landmark count L, L landmarks, L world landmarks }
+ *   (world landmarks are padded with zeros or truncated to L)
+ * - N × { landmark count F, F landmarks, blendshape count B, B blendshape scores,
+ *         head pose count P, P head pose values }
+ * - body landmark count K (0 = no body), K landmarks, K visibilities, K world landmarks
+ * - segmentation mask width W and height M (0 × 0 = no mask), W × M confidences
+ *
+ * Blendshape scores follow FACE_BLENDSHAPE_NAMES order (B = 0 when not recorded).
+ * The head pose is yaw, pitch, roll, translation x, y, z (P = 0 when not recorded).
+ * Gazes are not stored; faces recorded with iris landmarks get theirs re-estimated.
+ * Version 5 files end after the body, version 4 files after the faces, version 3 files have no head pose count
+ * and version 2 files no blendshape count either. Version 1 files stored a single
+ * face: [2] is its landmark count F (0 = no face) and the F landmarks follow
+ * the hands directly.
+ */
+
+import type {
+  TrackingResult,
+  BodyLandmarks,
+  SegmentationMask,
+  HandLandmarks,
+  FaceLandmarks,
+  FaceBlendshapes,
+  Landmark,
+} from '@/lib/types';
+import { FACE_BLENDSHAPE_NAMES, createFaceBlendshapes } from '@/lib/types';
+import { estimateGaze } from './Gaze';
+
+/** Current format version written by encodeSession */
+export const SESSION_FORMAT_VERSION = 6;
+
+/** Floats per encoded head pose (yaw, pitch, roll, translation x/y/z) */
+const HEAD_POSE_FLOATS = 6;
+
+/** File extension for downloaded sessions */
+export const SESSION_FILE_EXTENSION = '.pvsession';
+
+/** MIME type for downloaded sessions */
+export const SESSION_MIME_TYPE = 'application/x-particle-vision-session';
+
+/** Values stored per landmark: x, y, z (visibility is not recorded) */
+export const FLOATS_PER_LANDMARK = 3;
+
+const MAGIC = 'PVTS';
+const PREAMBLE_BYTES = 12;
+
+/**
+ * JSON header stored at the start of a session file
+ */
+export interface SessionHeader {
+  /** Format version the file was written with */
+  readonly version: number;
+  /** ISO timestamp of when recording started */
+  readonly createdAt: string;
+  /** Number of frames in the file */
+  readonly frameCount: number;
+  /** Timestamp of the last frame (ms, relative to the first) */
+  readonly durationMs: number;
+  /** Values per landmark in the frame data */
+  readonly floatsPerLandmark: number;
+}
+
+/**
+ * Decoded session with frame timestamps relative to the first frame
+ */
+export interface TrackingSession {
+  readonly header: SessionHeader;
+  readonly frames: TrackingResult[];
+}
+
+/**
+ * Raised when a file is not a valid or supported session
+ */
+export class SessionFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionFormatError';
+  }
+}
+
+/**
+ * Number of floats needed to encode a tracking result
+ */
+function getFrameLength(result: TrackingResult): number {
+  let length = 3;
+  for (const hand of result.hands) {
+    // Landmarks plus as many world landmarks
+    length += 2 + hand.landmarks.length * 2 * FLOATS_PER_LANDMARK;
+  }
+  for (const face of result.faces) {
+    length += 3 + face.landmarks.length * FLOATS_PER_LANDMARK;
+    if (face.blendshapes) length += FACE_BLENDSHAPE_NAMES.length;
+    if (face.headPose) length += HEAD_POSE_FLOATS;
+  }
+  length += 1;
+  if (result.body) {
+    // Landmarks with visibility plus as many world landmarks
+    length += result.body.landmarks.length * (2 * FLOATS_PER_LANDMARK + 1);
+  }
+  length += 2;
+  if (result.segmentation) {
+    length += result.segmentation.width * result.segmentation.height;
+  }
+  return length;
+}
+
+/**
+ * Write landmarks into a frame buffer
+ * @returns Offset after the written landmarks
+ */
+function writeLandmarks(target: Float32Array, offset: number, landmarks: Landmark[]): number {
+  for (const lm of landmarks) {
+    target[offset++] = lm.x;
+    target[offset++] = lm.y;
+    target[offset++] = lm.z;
+  }
+  return offset;
+}
+
+/**
+ * Check a count read from a frame against the data left in the buffer
+ * @param itemLength Floats per counted item
+ * @throws SessionFormatError when the count is invalid or overruns the buffer
+ */
+function checkCount(data: Float32Array, offset: number, count: number, itemLength: number): number {
+  if (!Number.isInteger(count) || count < 0 || offset + count * itemLength > data.length) {
+    throw new SessionFormatError('Session frame data is truncated');
+  }
+  return count;
+}
+
+/**
+ * Read landmarks from a frame buffer
+ */
+function readLandmarks(source: Float32Array, offset: number, count: number): Landmark[] {
+  const landmarks: Landmark[] = new Array(count);
+  for (let i = 0; i < count; i++) {
+    const base = offset + i * FLOATS_PER_LANDMARK;
+    landmarks[i] = { x: source[base], y: source[base + 1], z: source[base + 2] };
+  }
+  return landmarks;
+}
+
+/**
+ * Encode a single tracking result as a float frame
+ * @param result Tracking result to encode
+ * @param timestamp Timestamp to store (defaults to result.timestamp)
+ */
+export function encodeFrame(result: TrackingResult, timestamp = result.timestamp): Float32Array {
+  const frame = new Float32Array(getFrameLength(result));
+
+  frame[0] = timestamp;
+  frame[1] = result.hands.length;
+  frame[2] = result.faces.length;
+
+  let offset = 3;
+  for (const hand of result.hands) {
+    frame[offset++] = hand.handedness === 'Left' ? 0 : 1;
+    frame[offset++] = hand.landmarks.length;
+    offset = writeLandmarks(frame, offset, hand.landmarks);
+    // Missing world landmarks are stored as zeros
+    writeLandmarks(frame, offset, hand.worldLandmarks.slice(0, hand.landmarks.length));
+    offset += hand.landmarks.length * FLOATS_PER_LANDMARK;
+  }
+
+  for (const face of result.faces) {
+    frame[offset++] = face.landmarks.length;
+    offset = writeLandmarks(frame, offset, face.landmarks);
+
+    const blendshapes = face.blendshapes;
+    frame[offset++] = blendshapes ? FACE_BLENDSHAPE_NAMES.length : 0;
+    if (blendshapes) {
+      for (const name of FACE_BLENDSHAPE_NAMES) {
+        frame[offset++] = blendshapes[name];
+      }
+    }
+
+    const headPose = face.headPose;
+    frame[offset++] = headPose ? HEAD_POSE_FLOATS : 0;
+    if (headPose) {
+      frame[offset++] = headPose.yaw;
+      frame[offset++] = headPose.pitch;
+      frame[offset++] = headPose.roll;
+      frame[offset++] = headPose.translation.x;
+      frame[offset++] = headPose.translation.y;
+      frame[offset++] = headPose.translation.z;
+    }
+  }
+
+  // Body landmarks keep their visibility (limbs often leave the frame)
+  const body = result.body;
+  frame[offset++] = body ? body.landmarks.length : 0;
+  if (body) {
+    offset = writeLandmarks(frame, offset, body.landmarks);
+    for (const lm of body.landmarks) {
+      frame[offset++] = lm.visibility ?? 1;
+    }
+    // Missing world landmarks are stored as zeros
+    writeLandmarks(frame, offset, body.worldLandmarks.slice(0, body.landmarks.length));
+    offset += body.landmarks.length * FLOATS_PER_LANDMARK;
+  }
+
+  const segmentation = result.segmentation;
+  frame[offset++] = segmentation ? segmentation.width : 0;
+  frame[offset++] = segmentation ? segmentation.height : 0;
+  if (segmentation) {
+    frame.set(segmentation.data.subarray(0, segmentation.width * segmentation.height), offset);
+    offset += segmentation.width * segmentation.height;
+  }
+
+  return frame;
+}
+
+/**
+ * Decode a float frame starting at offset
+ * @param version Format version the frame was written with
+ * @returns The tracking result and the offset of the next frame
+ * @throws SessionFormatError when a count in the frame overruns the data
+ */
+export function decodeFrame(
+  data: Float32Array,
+  offset = 0,
+  version = SESSION_FORMAT_VERSION
+): { result: TrackingResult; next: number } {
+  checkCount(data, offset, 3, 1);
+  const timestamp = data[offset];
+  const handCount = data[offset + 1];
+  const faceCount = data[offset + 2];
+  offset += 3;
+  // Each hand and face stores at least its count (and a hand its handedness)
+  checkCount(data, offset, handCount, 2);
+  checkCount(data, offset, version < 2 ? 0 : faceCount, 1);
+
+  const hands: HandLandmarks[] = [];
+  for (let h = 0; h < handCount; h++) {
+    const handedness = data[offset++] === 0 ? 'Left' : 'Right';
+    const count = checkCount(data, offset + 1, data[offset], 2 * FLOATS_PER_LANDMARK);
+    offset++;
+    const landmarks = readLandmarks(data, offset, count);
+    offset += count * FLOATS_PER_LANDMARK;
+    const worldLandmarks = readLandmarks(data, offset, count);
+    offset += count * FLOATS_PER_LANDMARK;
+    hands.push({ landmarks, worldLandmarks, handedness });
+  }
+
+  const faces: FaceLandmarks[] = [];
+  if (version < 2) {
+    // v1: a single face, faceCount is its landmark count
+    if (checkCount(data, offset, faceCount, FLOATS_PER_LANDMARK) > 0) {
+      faces.push({ landmarks: readLandmarks(data, offset, faceCount) });
+      offset += faceCount * FLOATS_PER_LANDMARK;
+    }
+  } else {
+    for (let f = 0; f < faceCount; f++) {
+      const count = checkCount(data, offset + 1, data[offset], FLOATS_PER_LANDMARK);
+      offset++;
+      const face: FaceLandmarks = { landmarks: readLandmarks(data, offset, count) };
+      offset += count * FLOATS_PER_LANDMARK;
+
+      // v3+: blendshape scores follow the landmarks
+      if (version >= 3) {
+        const blendshapeCount = checkCount(data, offset + 1, data[offset], 1);
+        offset++;
+        if (blendshapeCount > 0) {
+          const scores: Partial<FaceBlendshapes> = {};
+          for (let b = 0; b < blendshapeCount && b < FACE_BLENDSHAPE_NAMES.length; b++) {
+            scores[FACE_BLENDSHAPE_NAMES[b]] = data[offset + b];
+          }
+          face.blendshapes = createFaceBlendshapes(scores);
+          offset += blendshapeCount;
+        }
+      }
+
+      // v4+: head pose follows the blendshapes
+      if (version >= 4) {
+        const poseCount = checkCount(data, offset + 1, data[offset], 1);
+        offset++;
+        if (poseCount >= HEAD_POSE_FLOATS) {
+          face.headPose = {
+            yaw: data[offset],
+            pitch: data[offset + 1],
+            roll: data[offset + 2],
+            translation: { x: data[offset + 3], y: data[offset + 4], z: data[offset + 5] },
+          };
+        }
+        offset += poseCount;
+      }
+
+      const gaze = estimateGaze(face.landmarks, face.headPose);
+      if (gaze) face.gaze = gaze;
+
+      faces.push(face);
+    }
+  }
+
+  // v5+: the body follows the faces
+  let body: BodyLandmarks | null = null;
+  if (version >= 5) {
+    const count = checkCount(data, offset + 1, data[offset], 2 * FLOATS_PER_LANDMARK + 1);
+    offset++;
+    if (count > 0) {
+      const landmarks = readLandmarks(data, offset, count);
+      offset += count * FLOATS_PER_LANDMARK;
+      for (let i = 0; i < count; i++) {
+        landmarks[i].visibility = data[offset++];
+      }
+      const worldLandmarks = readLandmarks(data, offset, count);
+      offset += count * FLOATS_PER_LANDMARK;
+      body = { landmarks, worldLandmarks };
+    }
+  }
+
+  // v6+: the segmentation mask follows the body
+  let segmentation: SegmentationMask | null = null;
+  if (version >= 6) {
+    const width = checkCount(data, offset + 2, data[offset], 0);
+    const height = checkCount(data, offset + 2, data[offset + 1], 0);
+    offset += 2;
+    checkCount(data, offset, width * height, 1);
+    if (width > 0 && height > 0) {
+      segmentation = { width, height, data: data.slice(offset, offset + width * height) };
+      offset += width * height;
+    }
+  }
+
+  return {
+    result: { hands, faces, face: faces[0] ?? null, body, segmentation, timestamp },
+    next: offset,
+  };
+}
+
+/**
+ * Assemble encoded frames into a session file
+ * @param frames Frames from encodeFrame, timestamps relative to the first frame
+ * @param createdAt When recording started
+ */
+export function encodeSession(frames: Float32Array[], createdAt = new Date()): ArrayBuffer {
+  const header: SessionHeader = {
+    version: SESSION_FORMAT_VERSION,
+    createdAt: createdAt.toISOString(),
+    frameCount: frames.length,
+    durationMs: frames.length > 0 ? frames[frames.length - 1][0] : 0,
+    floatsPerLandmark: FLOATS_PER_LANDMARK,
+  };
+
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const dataStart = Math.ceil((PREAMBLE_BYTES + headerBytes.length) / 4) * 4;
+  const floatCount = frames.reduce((total, frame) => total + frame.length, 0);
+
+  const buffer = new ArrayBuffer(dataStart + floatCount * 4);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  for (let i = 0; i < MAGIC.length; i++) {
+    view.setUint8(i, MAGIC.charCodeAt(i));
+  }
+  view.setUint16(4, SESSION_FORMAT_VERSION, true);
+  view.setUint16(6, 0, true);
+  view.setUint32(8, headerBytes.length, true);
+  bytes.set(headerBytes, PREAMBLE_BYTES);
+
+  let offset = dataStart;
+  for (const frame of frames) {
+    for (let i = 0; i < frame.length; i++) {
+      view.setFloat32(offset, frame[i], true);
+      offset += 4;
+    }
+  }
+
+  return buffer;
+}
+
+/**
+ * Parse a session file
+ * @throws SessionFormatError for foreign, corrupt or newer-version files
+ */
+export function decodeSession(buffer: ArrayBuffer): TrackingSession {
+  if (buffer.byteLength < PREAMBLE_BYTES) {
+    throw new SessionFormatError('File is too small to be a tracking session');
+  }
+
+  const view = new DataView(buffer);
+  const magic = String.fromCharCode(
+    view.getUint8(0),
+    view.getUint8(1),
+    view.getUint8(2),
+    view.getUint8(3)
+  );
+  if (magic !== MAGIC) {
+    throw new SessionFormatError('Not a tracking session file');
+  }
+
+  const version = view.getUint16(4, true);
+  if (version > SESSION_FORMAT_VERSION) {
+    throw new SessionFormatError(
+      `Session format v${version} is newer than supported (v${SESSION_FORMAT_VERSION})`
+    );
+  }
+
+  const headerLength = view.getUint32(8, true);
+  if (PREAMBLE_BYTES + headerLength > buffer.byteLength) {
+    throw new SessionFormatError('Session header is truncated');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(
+      new TextDecoder().decode(new Uint8Array(buffer, PREAMBLE_BYTES, headerLength))
+    );
+  } catch {
+    throw new SessionFormatError('Session header is corrupt');
+  }
+  if (typeof parsed !== 'object' || parsed === null) {
+    throw new SessionFormatError('Session header is corrupt');
+  }
+  const header = parsed as SessionHeader;
+
+  if (header.floatsPerLandmark !== FLOATS_PER_LANDMARK) {
+    throw new SessionFormatError(
+      `Unsupported landmark layout (${header.floatsPerLandmark} floats)`
+    );
+  }
+
+  // Copy frame data out as native floats
+  const dataStart = Math.ceil((PREAMBLE_BYTES + headerLength) / 4) * 4;
+  const floatCount = Math.floor((buffer.byteLength - dataStart) / 4);
+  const data = new Float32Array(floatCount);
+  for (let i = 0; i < floatCount; i++) {
+    data[i] = view.getFloat32(dataStart + i * 4, true);
+  }
+
+  const frames: TrackingResult[] = [];
+  let offset = 0;
+  while (frames.length < header.frameCount && offset < data.length) {
+    const { result, next } = decodeFrame(data, offset, version);
+    frames.push(result);
+    offset = next;
+  }
+
+  return { header, frames };
+}
@@ -0,0 +1,86 @@
+/**
+ * SessionRecorder - Captures frames from a tracking source into a session file
+ * Frames are encoded as they arrive so long recordings stay compact in memory
+ */
+
+import { encodeFrame, encodeSession, SESSION_MIME_TYPE } from './SessionFormat';
+import type { TrackingSource } from './TrackingSource';
+import type { TrackingResult } from '@/lib/types';
+
+/**
+ * Records the TrackingResult stream of a source
+ */
+export class SessionRecorder {
+  private frames: Float32Array[] = [];
+  private firstTimestamp = -1;
+  private lastTimestamp = 0;
+  private createdAt = new Date();
+  private unsubscribe: (() => void) | null = null;
+
+  /**
+   * Start recording a source (discards any previous recording)
+   */
+  start(source: TrackingSource): void {
+    this.stop();
+    this.clear();
+    this.createdAt = new Date();
+    this.unsubscribe = source.subscribe(this.handleFrame);
+  }
+
+  /**
+   * Stop recording (captured frames are kept)
+   */
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  isRecording(): boolean {
+    return this.unsubscribe !== null;
+  }
+
+  /**
+   * Number of captured frames
+   */
+  getFrameCount(): number {
+    return this.frames.length;
+  }
+
+  /**
+   * Recorded duration in milliseconds
+   */
+  getDuration(): number {
+    return this.lastTimestamp;
+  }
+
+  /**
+   * Encode the captured frames as a session file
+   */
+  toArrayBuffer(): ArrayBuffer {
+    return encodeSession(this.frames, this.createdAt);
+  }
+
+  /**
+   * Encode the captured frames as a downloadable blob
+   */
+  toBlob(): Blob {
+    return new Blob([this.toArrayBuffer()], { type: SESSION_MIME_TYPE });
+  }
+
+  /**
+   * Discard captured frames
+   */
+  clear(): void {
+    this.frames = [];
+    this.firstTimestamp = -1;
+    this.lastTimestamp = 0;
+  }
+
+  private handleFrame = (result: TrackingResult): void => {
+    if (this.firstTimestamp < 0) {
+      this.firstTimestamp = result.timestamp;
+    }
+    this.lastTimestamp = result.timestamp - this.firstTimestamp;
+    this.frames.push(encodeFrame(result, this.lastTimestamp));
+  };
+}
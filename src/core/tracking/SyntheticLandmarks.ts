@@ -0,0 +1,1002 @@
+/**
+ * SyntheticLandmarks - Deterministic procedural hand and face landmarks
+ *
+ * Produces MediaPipe-shaped data (21-point hands, 478-point face with irises, 33-point
+ * body, person segmentation mask) from
+ * hand-authored poses plus seeded smooth noise, so the same seed and time
+ * always yield the same frame. Used for the no-camera demo and for driving
+ * the particle pipeline, gestures and detection states without a webcam.
+ *
+ * Coordinates follow MediaPipe: normalized to the unmirrored camera image
+ * (x right, y down), z relative to the wrist / face plane, negative = closer.
+ */
+
+import type {
+  HandLandmarks,
+  FaceLandmarks,
+  BodyLandmarks,
+  SegmentationMask,
+  Landmark,
+  TrackingResult,
+} from '@/lib/types';
+import {
+  POSE_LANDMARKS,
+  POSE_LANDMARK_COUNT,
+  FACE_OVAL,
+  LEFT_EYE,
+  RIGHT_EYE,
+  LEFT_IRIS,
+  RIGHT_IRIS,
+  FACE_MESH_LANDMARK_COUNT,
+  MAX_TRACKED_HANDS,
+  MAX_TRACKED_FACES,
+  createFaceBlendshapes,
+} from '@/lib/types';
+import {
+  NOSE_LANDMARKS,
+  CHEEKBONE_LANDMARKS,
+  EYE_SOCKET_LANDMARKS,
+  LIPS_LANDMARKS,
+} from '@/core/particles/FaceDistribution';
+import { GOLDEN_ANGLE } from '@/core/particles/HandDistribution';
+import { estimateGaze } from './Gaze';
+
+/**
+ * Scripted hand poses
+ * - open: flat palm facing the camera
+ * - fist: all fingers curled (triggers detectFist)
+ * - pinch: thumb and index tips touching
+ * - wave: open palm rocking side to side
+ * - approach: open palm moving toward and away from the camera
+ */
+export type SyntheticHandPose = 'open' | 'fist' | 'pinch' | 'wave' | 'approach';
+
+export const SYNTHETIC_HAND_POSES: readonly SyntheticHandPose[] = [
+  'open',
+  'wave',
+  'pinch',
+  'fist',
+  'approach',
+];
+
+/** Number of landmarks MediaPipe FaceLandmarker emits (mesh plus irises) */
+export const SYNTHETIC_FACE_LANDMARK_COUNT = 478;
+
+/** Camera aspect ratio assumed when none is given (1280×720) */
+const DEFAULT_ASPECT_RATIO = 16 / 9;
+
+/** Palm length in meters, used for world landmarks */
+const PALM_LENGTH_METERS = 0.09;
+
+/** Shoulder width in meters, used for body world landmarks */
+const SHOULDER_WIDTH_METERS = 0.38;
+
+// ============================================================================
+// Seeded noise
+// ============================================================================
+
+/**
+ * Integer hash to [0, 1)
+ */
+function hash(seed: number, n: number): number {
+  let h = Math.imul(seed ^ 0x9e3779b9, 0x85ebca6b) ^ Math.imul(n, 0xc2b2ae35);
+  h = Math.imul(h ^ (h >>> 16), 0x7feb352d);
+  h = Math.imul(h ^ (h >>> 15), 0x846ca68b);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+}
+
+/**
+ * Smooth 1D value noise in [-1, 1]; a pure function of (seed, t)
+ */
+export function smoothNoise(seed: number, t: number): number {
+  const i = Math.floor(t);
+  const f = t - i;
+  const a = hash(seed, i) * 2 - 1;
+  const b = hash(seed, i + 1) * 2 - 1;
+  return a + (b - a) * f * f * (3 - 2 * f);
+}
+
+function smoothstep(t: number): number {
+  const x = Math.max(0, Math.min(1, t));
+  return x * x * (3 - 2 * x);
+}
+
+// ============================================================================
+// Hands
+// ============================================================================
+
+type Point3 = [number, number, number];
+
+/**
+ * Open right palm facing the camera
+ * Local units: wrist at origin, wrist→middle MCP = 1, fingers toward -y
+ * (right hand: thumb on +x in the unmirrored image)
+ */
+const OPEN_HAND: Point3[] = [
+  [0, 0, 0], // wrist
+  [0.25, -0.12, -0.02], // thumb
+  [0.45, -0.3, -0.04],
+  [0.58, -0.48, -0.05],
+  [0.68, -0.63, -0.06],
+  [0.22, -0.92, 0], // index
+  [0.27, -1.32, -0.01],
+  [0.3, -1.56, -0.02],
+  [0.32, -1.75, -0.03],
+  [0, -1, 0], // middle
+  [0, -1.45, -0.01],
+  [0, -1.72, -0.02],
+  [0, -1.93, -0.03],
+  [-0.2, -0.93, 0], // ring
+  [-0.24, -1.32, -0.01],
+  [-0.27, -1.56, -0.02],
+  [-0.29, -1.75, -0.03],
+  [-0.38, -0.8, 0], // pinky
+  [-0.47, -1.08, -0.01],
+  [-0.52, -1.25, -0.02],
+  [-0.56, -1.4, -0.03],
+];
+
+/**
+ * Fist: fingers fold forward from their MCP and tuck back into the palm,
+ * thumb wraps across the index finger
+ */
+const FIST_HAND: Point3[] = OPEN_HAND.map((point, index): Point3 => {
+  if (index === 0) return point;
+  if (index <= 4) {
+    const thumb: Point3[] = [
+      [0.25, -0.12, -0.03],
+      [0.38, -0.33, -0.08],
+      [0.32, -0.55, -0.14],
+      [0.15, -0.7, -0.15],
+    ];
+    return thumb[index - 1];
+  }
+
+  const mcp = OPEN_HAND[index - ((index - 1) % 4)];
+  switch ((index - 1) % 4) {
+    case 0:
+      return [mcp[0], mcp[1] * 0.95, -0.05];
+    case 1:
+      return [mcp[0] * 1.05, mcp[1] * 1.08, -0.36];
+    case 2:
+      return [mcp[0] * 0.95, mcp[1] * 0.68, -0.4];
+    default:
+      return [mcp[0] * 0.8, mcp[1] * 0.4, -0.22];
+  }
+});
+
+/**
+ * Pinch: index bends toward the thumb so both tips meet, other fingers relaxed
+ */
+const PINCH_HAND: Point3[] = OPEN_HAND.map((point, index): Point3 => {
+  const pinch: Record<number, Point3> = {
+    1: [0.25, -0.12, -0.02],
+    2: [0.45, -0.35, -0.08],
+    3: [0.5, -0.8, -0.18],
+    4: [0.46, -1.17, -0.25],
+    6: [0.3, -1.25, -0.1],
+    7: [0.38, -1.3, -0.2],
+    8: [0.45, -1.21, -0.26],
+  };
+  if (pinch[index]) return pinch[index];
+
+  // Relax the remaining fingers a quarter of the way toward the fist
+  const fist = FIST_HAND[index];
+  return [
+    point[0] + (fist[0] - point[0]) * 0.25,
+    point[1] + (fist[1] - point[1]) * 0.25,
+    point[2] + (fist[2] - point[2]) * 0.25,
+  ];
+});
+
+export interface SyntheticHandOptions {
+  /** Which hand (as reported by the tracker, i.e. the user's hand) */
+  handedness: 'Left' | 'Right';
+  /** Pose to generate */
+  pose: SyntheticHandPose;
+  /** Animation time in milliseconds (drives wave/approach and tremor) */
+  time?: number;
+  /** Wrist position, normalized image coordinates */
+  x?: number;
+  y?: number;
+  /** Wrist→middle MCP length as a fraction of image width (default: 0.09) */
+  size?: number;
+  /** In-plane rotation in radians (0 = fingers up) */
+  rotation?: number;
+  /** Image width / height, keeps proportions in normalized coordinates */
+  aspectRatio?: number;
+  /** Noise seed for natural tremor */
+  seed?: number;
+}
+
+/**
+ * Generate a 21-point hand
+ */
+export function generateHand(options: SyntheticHandOptions): HandLandmarks {
+  const {
+    handedness,
+    pose,
+    time = 0,
+    x = 0.5,
+    y = 0.7,
+    aspectRatio = DEFAULT_ASPECT_RATIO,
+    seed = 1,
+  } = options;
+  let size = options.size ?? 0.09;
+  let rotation = options.rotation ?? 0;
+
+  const template = pose === 'fist' ? FIST_HAND : pose === 'pinch' ? PINCH_HAND : OPEN_HAND;
+
+  if (pose === 'wave') {
+    rotation += 0.35 * Math.sin((time / 700) * Math.PI * 2);
+  } else if (pose === 'approach') {
+    size *= 1 + 0.35 * Math.sin((time / 2500) * Math.PI * 2);
+  }
+
+  const mirror = handedness === 'Left' ? -1 : 1;
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+
+  const landmarks: Landmark[] = [];
+  const worldLandmarks: Landmark[] = [];
+
+  for (let i = 0; i < template.length; i++) {
+    // Small per-joint tremor (none on the wrist anchor)
+    const tremor = i === 0 ? 0 : 0.015;
+    const lx = template[i][0] * mirror + tremor * smoothNoise(seed + i * 3, time / 250);
+    const ly = template[i][1] + tremor * smoothNoise(seed + i * 3 + 1, time / 250);
+    const lz = template[i][2] + tremor * smoothNoise(seed + i * 3 + 2, time / 250);
+
+    const rx = lx * cos - ly * sin;
+    const ry = lx * sin + ly * cos;
+
+    landmarks.push({ x: x + rx * size, y: y + ry * size * aspectRatio, z: lz * size });
+    // World landmarks are centered on the palm (middle MCP halfway point)
+    worldLandmarks.push({
+      x: rx * PALM_LENGTH_METERS,
+      y: (ry + 0.5) * PALM_LENGTH_METERS,
+      z: lz * PALM_LENGTH_METERS,
+    });
+  }
+
+  return { landmarks, worldLandmarks, handedness };
+}
+
+// ============================================================================
+// Face
+// ============================================================================
+
+// Contours not covered by src/lib/types.ts (MediaPipe canonical mesh indices)
+const RIGHT_BROW_UPPER = [70, 63, 105, 66, 107];
+const RIGHT_BROW_LOWER = [46, 53, 52, 65, 55];
+const LEFT_BROW_UPPER = [300, 293, 334, 296, 336];
+const LEFT_BROW_LOWER = [276, 283, 282, 295, 285];
+const NOSE_BRIDGE = [168, 6, 197, 195, 5, 4, 1, 19, 94, 2];
+const LIPS_UPPER_OUTER = [61, 185, 40, 39, 37, 0, 267, 269, 270, 409, 291];
+const LIPS_LOWER_OUTER = [146, 91, 181, 84, 17, 314, 405, 321, 375];
+const LIPS_UPPER_INNER = [78, 191, 80, 81, 82, 13, 312, 311, 310, 415, 308];
+const LIPS_LOWER_INNER = [95, 88, 178, 87, 14, 317, 402, 318, 324];
+
+/** Upper eyelid indices (second half of each eye contour), moved when blinking */
+const UPPER_LIDS = [...LEFT_EYE.slice(9), ...RIGHT_EYE.slice(9)];
+
+// Feature anchors in face-local units (half face width = 1, y down)
+const EYE_Y = -0.2;
+const EYE_X = 0.38;
+const EYE_RADIUS_X = 0.2;
+const EYE_RADIUS_Y = 0.07;
+const IRIS_RADIUS = 0.06;
+// Iris travel at a full eye turn (gaze options of ±1)
+const IRIS_TRAVEL_X = 0.08;
+const IRIS_TRAVEL_Y = 0.03;
+const MOUTH_Y = 0.68;
+const FACE_RADIUS_Y = 1.3;
+
+/**
+ * Depth of the face surface (ellipsoid bulge, negative = toward camera)
+ */
+function faceSurfaceDepth(x: number, y: number): number {
+  return -0.3 * Math.sqrt(Math.max(0, 1 - x * x - (y / FACE_RADIUS_Y) ** 2));
+}
+
+/**
+ * Which half of the face an index belongs to in the canonical mesh
+ * (indices for the subject's left side are mirrored copies numbered from ~249)
+ */
+function faceSide(index: number): number {
+  return index >= 249 ? 1 : -1;
+}
+
+/**
+ * Build the neutral face in local units, one [x, y, z] triple per landmark
+ */
+function buildFaceTemplate(): Float32Array {
+  const points = new Float32Array(SYNTHETIC_FACE_LANDMARK_COUNT * 3);
+  const placed = new Set<number>();
+
+  const place = (index: number, x: number, y: number, z = faceSurfaceDepth(x, y)) => {
+    if (placed.has(index)) return;
+    placed.add(index);
+    points[index * 3] = x;
+    points[index * 3 + 1] = y;
+    points[index * 3 + 2] = z;
+  };
+
+  // Oval, clockwise from the forehead, with a tapered jaw
+  FACE_OVAL.forEach((index, k) => {
+    const angle = -Math.PI / 2 + (k / FACE_OVAL.length) * Math.PI * 2;
+    const taper = Math.sin(angle) > 0 ? 1 - 0.25 * Math.sin(angle) ** 2 : 1;
+    place(index, Math.cos(angle) * taper, Math.sin(angle) * FACE_RADIUS_Y, 0);
+  });
+
+  // Eyes: outer/inner corner, lower lid, other corner, upper lid
+  for (const [contour, side] of [
+    [LEFT_EYE, -1],
+    [RIGHT_EYE, 1],
+  ] as const) {
+    contour.forEach((index, k) => {
+      const angle = k <= 8 ? Math.PI - (k * Math.PI) / 8 : (-(k - 8) * Math.PI) / 8;
+      const x = side * EYE_X + Math.cos(angle) * EYE_RADIUS_X;
+      const y = EYE_Y + Math.sin(angle) * EYE_RADIUS_Y;
+      place(index, x, y, faceSurfaceDepth(x, y) + 0.05);
+    });
+  }
+
+  // Irises: center, then right, top, left and bottom of the ring
+  for (const [iris, side] of [
+    [LEFT_IRIS, -1],
+    [RIGHT_IRIS, 1],
+  ] as const) {
+    const z = faceSurfaceDepth(side * EYE_X, EYE_Y) + 0.03;
+    place(iris[0], side * EYE_X, EYE_Y, z);
+    for (let k = 1; k < iris.length; k++) {
+      const angle = (-(k - 1) * Math.PI) / 2;
+      const x = side * EYE_X + Math.cos(angle) * IRIS_RADIUS;
+      place(iris[k], x, EYE_Y + Math.sin(angle) * IRIS_RADIUS, z);
+    }
+  }
+
+  // Brows, outer to inner
+  for (const [upper, lower, side] of [
+    [RIGHT_BROW_UPPER, RIGHT_BROW_LOWER, -1],
+    [LEFT_BROW_UPPER, LEFT_BROW_LOWER, 1],
+  ] as const) {
+    for (let k = 0; k < upper.length; k++) {
+      const t = k / (upper.length - 1);
+      const x = side * (0.7 - t * 0.55);
+      const y = -0.45 - 0.08 * Math.sin(Math.PI * t);
+      place(upper[k], x, y);
+      place(lower[k], x, y + 0.06);
+    }
+  }
+
+  // Nose bridge down to the tip and columella
+  NOSE_BRIDGE.forEach((index, k) => {
+    const t = k / (NOSE_BRIDGE.length - 1);
+    const y = EYE_Y + t * 0.65;
+    const z = faceSurfaceDepth(0, y) - 0.05 - 0.2 * Math.sin(Math.PI * Math.min(1, t * 1.3) * 0.5);
+    place(index, 0, y, z);
+  });
+
+  // Lips, left to right in the image
+  const lipRow = (
+    indices: number[],
+    halfWidth: number,
+    y: number,
+    curve: number,
+    ends: boolean
+  ) => {
+    indices.forEach((index, k) => {
+      const t = ends ? k / (indices.length - 1) : (k + 1) / (indices.length + 1);
+      place(index, -halfWidth + t * halfWidth * 2, y + curve * Math.sin(Math.PI * t));
+    });
+  };
+  lipRow(LIPS_UPPER_OUTER, 0.35, MOUTH_Y, -0.05, true);
+  lipRow(LIPS_LOWER_OUTER, 0.35, MOUTH_Y, 0.1, false);
+  lipRow(LIPS_UPPER_INNER, 0.3, MOUTH_Y + 0.01, -0.015, true);
+  lipRow(LIPS_LOWER_INNER, 0.3, MOUTH_Y + 0.01, 0.02, false);
+
+  // Fill the remaining indices region by region on a golden-angle spiral
+  const fillRegion = (
+    indices: readonly number[],
+    region: (side: number) => { cx: number; cy: number; rx: number; ry: number; dz: number },
+    ring = false
+  ) => {
+    const pending = indices.filter((index) => !placed.has(index));
+    for (const side of [-1, 1]) {
+      const members = pending.filter((index) => faceSide(index) === side);
+      const { cx, cy, rx, ry, dz } = region(side);
+      members.forEach((index, k) => {
+        const r = ring ? 0.75 + 0.25 * ((k * 0.618) % 1) : Math.sqrt((k + 0.5) / members.length);
+        const angle = k * GOLDEN_ANGLE;
+        const x = cx + Math.cos(angle) * r * rx;
+        const y = cy + Math.sin(angle) * r * ry;
+        place(index, x, y, faceSurfaceDepth(x, y) + dz * (1 - r));
+      });
+    }
+  };
+
+  fillRegion(NOSE_LANDMARKS, (side) => ({
+    cx: side * 0.08,
+    cy: 0.15,
+    rx: 0.14,
+    ry: 0.3,
+    dz: -0.15,
+  }));
+  fillRegion(
+    EYE_SOCKET_LANDMARKS,
+    (side) => ({ cx: side * EYE_X, cy: EYE_Y, rx: 0.3, ry: 0.16, dz: 0.05 }),
+    true
+  );
+  fillRegion(CHEEKBONE_LANDMARKS, (side) => ({
+    cx: side * 0.55,
+    cy: 0.2,
+    rx: 0.22,
+    ry: 0.25,
+    dz: -0.03,
+  }));
+  fillRegion(
+    LIPS_LANDMARKS,
+    (side) => ({ cx: side * 0.2, cy: MOUTH_Y, rx: 0.22, ry: 0.16, dz: 0 }),
+    true
+  );
+
+  const general: number[] = [];
+  for (let index = 0; index < FACE_MESH_LANDMARK_COUNT; index++) {
+    if (!placed.has(index)) general.push(index);
+  }
+  fillRegion(general, (side) => ({ cx: side * 0.45, cy: 0, rx: 0.45, ry: 1.1, dz: 0 }));
+
+  return points;
+}
+
+/** Neutral face, built on first use */
+let faceTemplate: Float32Array | null = null;
+
+export interface SyntheticFaceOptions {
+  /** Face center, normalized image coordinates */
+  x?: number;
+  y?: number;
+  /** Half face width as a fraction of image width (default: 0.11) */
+  size?: number;
+  /** Head rotation in radians: turn, nod, tilt */
+  yaw?: number;
+  pitch?: number;
+  roll?: number;
+  /** Eyelid closure 0-1 */
+  blink?: number;
+  /** Eye turn -1 to 1: irises toward the image's right / down */
+  gazeX?: number;
+  gazeY?: number;
+  /** Jaw opening 0-1 */
+  mouthOpen?: number;
+  /** Image width / height, keeps proportions in normalized coordinates */
+  aspectRatio?: number;
+}
+
+/**
+ * Generate a 478-point face (mesh plus irises)
+ */
+export function generateFace(options: SyntheticFaceOptions = {}): FaceLandmarks {
+  const {
+    x = 0.5,
+    y = 0.4,
+    size = 0.11,
+    yaw = 0,
+    pitch = 0,
+    roll = 0,
+    blink = 0,
+    gazeX = 0,
+    gazeY = 0,
+    mouthOpen = 0,
+    aspectRatio = DEFAULT_ASPECT_RATIO,
+  } = options;
+
+  if (!faceTemplate) {
+    faceTemplate = buildFaceTemplate();
+  }
+  const template = faceTemplate;
+  const upperLids = new Set(UPPER_LIDS);
+
+  const cy = Math.cos(yaw);
+  const sy = Math.sin(yaw);
+  const cp = Math.cos(pitch);
+  const sp = Math.sin(pitch);
+  const cr = Math.cos(roll);
+  const sr = Math.sin(roll);
+
+  const landmarks: Landmark[] = new Array(SYNTHETIC_FACE_LANDMARK_COUNT);
+  for (let i = 0; i < SYNTHETIC_FACE_LANDMARK_COUNT; i++) {
+    let lx = template[i * 3];
+    let ly = template[i * 3 + 1];
+    let lz = template[i * 3 + 2];
+
+    // Expression: lids drop onto the eye line, jaw and lower lip drop
+    if (upperLids.has(i)) {
+      ly += (EYE_Y - ly) * blink;
+    }
+    if (i >= FACE_MESH_LANDMARK_COUNT) {
+      lx += gazeX * IRIS_TRAVEL_X;
+      ly += gazeY * IRIS_TRAVEL_Y;
+    }
+    if (ly > MOUTH_Y + 0.005 && Math.abs(lx) < 0.75) {
+      ly += mouthOpen * 0.2 * smoothstep((ly - MOUTH_Y) / 0.1) * (1 - Math.abs(lx) / 0.75);
+    }
+
+    // Yaw (around y), pitch (around x), roll (in image plane)
+    const x1 = lx * cy + lz * sy;
+    const z1 = -lx * sy + lz * cy;
+    const y2 = ly * cp - z1 * sp;
+    lz = ly * sp + z1 * cp;
+    lx = x1 * cr - y2 * sr;
+    ly = x1 * sr + y2 * cr;
+
+    landmarks[i] = { x: x + lx * size, y: y + ly * size * aspectRatio, z: lz * size };
+  }
+
+  return { landmarks };
+}
+
+// ============================================================================
+// Body
+// ============================================================================
+
+/**
+ * Standing body facing the camera, arms excluded
+ * Local units: shoulder midpoint at origin, shoulder width = 1, y down
+ * (the user's left side is on +x in the unmirrored image)
+ */
+const BODY_TEMPLATE: Partial<Record<number, Point3>> = {
+  0: [0, -0.62, -0.15], // nose
+  1: [0.06, -0.7, -0.1], // left eye
+  2: [0.1, -0.7, -0.1],
+  3: [0.14, -0.7, -0.09],
+  4: [-0.06, -0.7, -0.1], // right eye
+  5: [-0.1, -0.7, -0.1],
+  6: [-0.14, -0.7, -0.09],
+  7: [0.22, -0.66, 0], // ears
+  8: [-0.22, -0.66, 0],
+  9: [0.07, -0.52, -0.12], // mouth
+  10: [-0.07, -0.52, -0.12],
+  11: [0.5, 0, 0], // shoulders
+  12: [-0.5, 0, 0],
+  23: [0.32, 1.45, 0], // hips
+  24: [-0.32, 1.45, 0],
+  25: [0.34, 2.25, -0.02], // knees
+  26: [-0.34, 2.25, -0.02],
+  27: [0.36, 3.05, 0.05], // ankles
+  28: [-0.36, 3.05, 0.05],
+  29: [0.36, 3.15, 0.12], // heels
+  30: [-0.36, 3.15, 0.12],
+  31: [0.4, 3.2, -0.12], // foot index
+  32: [-0.4, 3.2, -0.12],
+};
+
+const UPPER_ARM_LENGTH = 0.75;
+const FOREARM_LENGTH = 0.7;
+
+export interface SyntheticBodyOptions {
+  /** Shoulder midpoint, normalized image coordinates */
+  x?: number;
+  y?: number;
+  /** Shoulder width as a fraction of image width (default: 0.26) */
+  size?: number;
+  /** Upper arm angle from hanging straight down, radians (π/2 = out to the side) */
+  leftArm?: number;
+  rightArm?: number;
+  /** Extra elbow bend (forearm angle relative to the upper arm), radians */
+  leftElbow?: number;
+  rightElbow?: number;
+  /** Image width / height (default: 16 / 9) */
+  aspectRatio?: number;
+}
+
+/**
+ * Generate a 33-point body
+ * Landmarks outside the image get low visibility, as MediaPipe reports them
+ */
+export function generateBody(options: SyntheticBodyOptions = {}): BodyLandmarks {
+  const {
+    x = 0.5,
+    y = 0.6,
+    size = 0.26,
+    leftArm = 0.3,
+    rightArm = 0.3,
+    leftElbow = 0.3,
+    rightElbow = 0.3,
+    aspectRatio = DEFAULT_ASPECT_RATIO,
+  } = options;
+
+  const local: Point3[] = new Array(POSE_LANDMARK_COUNT);
+  for (const [index, point] of Object.entries(BODY_TEMPLATE)) {
+    local[Number(index)] = point as Point3;
+  }
+
+  // Arms: shoulder → elbow → wrist, then the hand points beyond the wrist
+  // [side, shoulder, elbow, wrist, pinky, index, thumb]
+  const arms = [
+    [1, 11, 13, 15, 17, 19, 21, leftArm, leftElbow],
+    [-1, 12, 14, 16, 18, 20, 22, rightArm, rightElbow],
+  ] as const;
+  for (const [side, shoulder, elbow, wrist, pinky, index, thumb, angle, bend] of arms) {
+    const [sx, sy] = local[shoulder];
+    const ex = sx + side * Math.sin(angle) * UPPER_ARM_LENGTH;
+    const ey = sy + Math.cos(angle) * UPPER_ARM_LENGTH;
+    const forearm = angle + bend;
+    const dx = side * Math.sin(forearm);
+    const dy = Math.cos(forearm);
+    const wx = ex + dx * FOREARM_LENGTH;
+    const wy = ey + dy * FOREARM_LENGTH;
+    local[elbow] = [ex, ey, -0.05];
+    local[wrist] = [wx, wy, -0.1];
+    // Perpendicular to the forearm, pointing away from the body midline
+    const px = dy * side;
+    const py = -dx * side;
+    local[pinky] = [wx + dx * 0.16 + px * 0.05, wy + dy * 0.16 + py * 0.05, -0.11];
+    local[index] = [wx + dx * 0.18 - px * 0.03, wy + dy * 0.18 - py * 0.03, -0.12];
+    local[thumb] = [wx + dx * 0.1 - px * 0.07, wy + dy * 0.1 - py * 0.07, -0.12];
+  }
+
+  const landmarks: Landmark[] = local.map(([lx, ly, lz]) => {
+    const px = x + lx * size;
+    const py = y + ly * size * aspectRatio;
+    const inside = px >= 0 && px <= 1 && py >= 0 && py <= 1;
+    return { x: px, y: py, z: lz * size, visibility: inside ? 0.98 : 0.08 };
+  });
+
+  // World landmarks: meters, origin between the hips, y down like MediaPipe
+  const hipY = BODY_TEMPLATE[POSE_LANDMARKS.LEFT_HIP]![1];
+  const worldLandmarks: Landmark[] = local.map(([lx, ly, lz], i) => ({
+    x: lx * SHOULDER_WIDTH_METERS,
+    y: (ly - hipY) * SHOULDER_WIDTH_METERS,
+    z: lz * SHOULDER_WIDTH_METERS,
+    visibility: landmarks[i].visibility,
+  }));
+
+  return { landmarks, worldLandmarks };
+}
+
+// ============================================================================
+// Segmentation
+// ============================================================================
+
+/** Limb capsules: [from, to, radius as a fraction of shoulder width] */
+const SILHOUETTE_LIMBS: readonly [number, number, number][] = [
+  [11, 13, 0.13], // upper arms
+  [12, 14, 0.13],
+  [13, 15, 0.1], // forearms
+  [14, 16, 0.1],
+  [23, 25, 0.17], // thighs
+  [24, 26, 0.17],
+  [25, 27, 0.13], // shins
+  [26, 28, 0.13],
+];
+
+export interface SyntheticSegmentationOptions {
+  /** Mask columns (default: 64) */
+  width?: number;
+  /** Image width / height (default: 16 / 9) */
+  aspectRatio?: number;
+}
+
+/**
+ * Distance from a point to the segment a-b
+ */
+function distanceToSegment(
+  px: number,
+  py: number,
+  ax: number,
+  ay: number,
+  bx: number,
+  by: number
+): number {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t =
+    lengthSq > 0 ? Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq)) : 0;
+  return Math.hypot(px - ax - dx * t, py - ay - dy * t);
+}
+
+/**
+ * Person mask for a body: capsules around the torso, neck and limbs plus a
+ * round head, with soft one-cell edges like a real segmenter's confidences
+ */
+export function generateSegmentationMask(
+  body: BodyLandmarks,
+  options: SyntheticSegmentationOptions = {}
+): SegmentationMask {
+  const { width = 64, aspectRatio = DEFAULT_ASPECT_RATIO } = options;
+  const height = Math.max(1, Math.round(width / aspectRatio));
+  const data = new Float32Array(width * height);
+
+  // Work in isotropic units (x scaled by the aspect ratio)
+  const point = (index: number): [number, number] => [
+    body.landmarks[index].x * aspectRatio,
+    body.landmarks[index].y,
+  ];
+  const midpoint = (a: number, b: number): [number, number] => {
+    const [ax, ay] = point(a);
+    const [bx, by] = point(b);
+    return [(ax + bx) / 2, (ay + by) / 2];
+  };
+  const [lsx, lsy] = point(11);
+  const [rsx, rsy] = point(12);
+  const shoulderWidth = Math.hypot(lsx - rsx, lsy - rsy);
+  const shoulders = midpoint(11, 12);
+  const hips = midpoint(23, 24);
+  const head = midpoint(7, 8);
+
+  // Capsules as [ax, ay, bx, by, radius]
+  const capsules: [number, number, number, number, number][] = [
+    [...shoulders, ...hips, shoulderWidth * 0.48],
+    [...shoulders, ...head, shoulderWidth * 0.12],
+    [...head, ...head, shoulderWidth * 0.34],
+  ];
+  for (const [from, to, radius] of SILHOUETTE_LIMBS) {
+    capsules.push([...point(from), ...point(to), shoulderWidth * radius]);
+  }
+
+  const cell = aspectRatio / width;
+  for (let row = 0; row < height; row++) {
+    const py = (row + 0.5) / height;
+    for (let col = 0; col < width; col++) {
+      const px = ((col + 0.5) / width) * aspectRatio;
+      let inside = -Infinity;
+      for (const [ax, ay, bx, by, radius] of capsules) {
+        inside = Math.max(inside, radius - distanceToSegment(px, py, ax, ay, bx, by));
+      }
+      data[row * width + col] = smoothstep(0.5 + inside / cell);
+    }
+  }
+
+  return { width, height, data };
+}
+
+// ============================================================================
+// Scene
+// ============================================================================
+
+export interface SyntheticSceneOptions {
+  /** Noise seed; the same seed always produces the same animation */
+  seed?: number;
+  /** Number of hands to show, 0 to MAX_TRACKED_HANDS (default: 2) */
+  hands?: number;
+  /** Whether to show a face (default: true) */
+  face?: boolean;
+  /** Number of faces to show, 0 to MAX_TRACKED_FACES (overrides face, default: 1) */
+  faces?: number;
+  /** Attach blendshapes matching the blinks and mouth movement (default: false) */
+  blendshapes?: boolean;
+  /** Attach the head pose each face is generated with (default: false) */
+  headPose?: boolean;
+  /** Show a body below the first face, waving its arms (default: false) */
+  body?: boolean;
+  /** Attach a person mask of that body (shown or not, default: false) */
+  segmentation?: boolean;
+  /** Hand pose sequence to cycle through */
+  poses?: readonly SyntheticHandPose[];
+  /** How long each pose is held in ms (default: 2500) */
+  poseDurationMs?: number;
+  /** Image width / height (default: 16 / 9) */
+  aspectRatio?: number;
+}
+
+/** Rest position (x, y) per hand; pairs alternate right/left of the first face */
+const HAND_REST_POSITIONS: readonly [number, number][] = [
+  [0.28, 0.78],
+  [0.72, 0.78],
+  [0.1, 0.62],
+  [0.9, 0.62],
+  [0.38, 0.6],
+  [0.62, 0.6],
+];
+
+/** Rest position (x, y) and size per face; the first face sits centered above the hands */
+const FACE_REST_POSITIONS: readonly [number, number, number][] = [
+  [0.5, 0.38, 0.11],
+  [0.2, 0.34, 0.08],
+  [0.8, 0.34, 0.08],
+  [0.5, 0.14, 0.06],
+];
+
+/** Blend time between consecutive poses (ms) */
+const POSE_TRANSITION_MS = 400;
+
+/**
+ * Choreographed scene of hands cycling through poses, idle faces and an
+ * optional waving body
+ * getFrame is a pure function of time, so frames can be sampled in any order
+ */
+export class SyntheticScene {
+  private readonly seed: number;
+  private readonly handCount: number;
+  private readonly faceCount: number;
+  private readonly blendshapes: boolean;
+  private readonly headPose: boolean;
+  private readonly body: boolean;
+  private readonly segmentation: boolean;
+  private readonly poses: readonly SyntheticHandPose[];
+  private readonly poseDuration: number;
+  private readonly aspectRatio: number;
+
+  constructor(options: SyntheticSceneOptions = {}) {
+    this.seed = options.seed ?? 1;
+    this.handCount = Math.max(0, Math.min(MAX_TRACKED_HANDS, options.hands ?? 2));
+    this.faceCount = Math.max(
+      0,
+      Math.min(MAX_TRACKED_FACES, options.faces ?? (options.face === false ? 0 : 1))
+    );
+    this.blendshapes = options.blendshapes ?? false;
+    this.headPose = options.headPose ?? false;
+    this.body = options.body ?? false;
+    this.segmentation = options.segmentation ?? false;
+    this.poses = options.poses && options.poses.length > 0 ? options.poses : SYNTHETIC_HAND_POSES;
+    this.poseDuration = Math.max(POSE_TRANSITION_MS, options.poseDurationMs ?? 2500);
+    this.aspectRatio = options.aspectRatio ?? DEFAULT_ASPECT_RATIO;
+  }
+
+  /**
+   * Pose held by a hand at a given time (hands are offset by one pose)
+   */
+  getPose(time: number, hand = 0): SyntheticHandPose {
+    const step = Math.floor(time / this.poseDuration) + hand;
+    return this.poses[step % this.poses.length];
+  }
+
+  /**
+   * Frame at a time in milliseconds
+   */
+  getFrame(time: number): TrackingResult {
+    const hands: HandLandmarks[] = [];
+    for (let h = 0; h < this.handCount; h++) {
+      hands.push(this.getHand(time, h));
+    }
+
+    const faces: FaceLandmarks[] = [];
+    for (let f = 0; f < this.faceCount; f++) {
+      faces.push(this.getFace(time, f));
+    }
+
+    // The mask outlines the same body, whether or not it is reported
+    const body = this.body || this.segmentation ? this.getBody(time) : null;
+
+    return {
+      hands,
+      faces,
+      face: faces[0] ?? null,
+      body: this.body ? body : null,
+      segmentation:
+        body && this.segmentation
+          ? generateSegmentationMask(body, { aspectRatio: this.aspectRatio })
+          : null,
+      timestamp: time,
+    };
+  }
+
+  private getHand(time: number, hand: number): HandLandmarks {
+    const seed = this.seed * 101 + hand * 7919;
+    const handedness = hand % 2 === 0 ? 'Right' : 'Left';
+    const side = hand % 2 === 0 ? -1 : 1;
+    const [restX, restY] = HAND_REST_POSITIONS[hand];
+
+    // Drift gently around a rest position either side of the face
+    const base = {
+      handedness,
+      time,
+      x: restX + 0.04 * smoothNoise(seed, time / 1500),
+      y: restY + 0.04 * smoothNoise(seed + 1, time / 1700),
+      rotation: side * -0.2 + 0.08 * smoothNoise(seed + 2, time / 1300),
+      aspectRatio: this.aspectRatio,
+      seed,
+    } as const;
+
+    const current = generateHand({ ...base, pose: this.getPose(time, hand) });
+
+    // Blend into the next pose at the end of each step
+    const remaining = this.poseDuration - (time % this.poseDuration);
+    if (remaining >= POSE_TRANSITION_MS) return current;
+
+    const next = generateHand({ ...base, pose: this.getPose(time + remaining, hand) });
+    const t = smoothstep(1 - remaining / POSE_TRANSITION_MS);
+    return {
+      handedness,
+      landmarks: lerpLandmarks(current.landmarks, next.landmarks, t),
+      worldLandmarks: lerpLandmarks(current.worldLandmarks, next.worldLandmarks, t),
+    };
+  }
+
+  private getFace(time: number, face: number): FaceLandmarks {
+    const seed = this.seed * 101 + 31337 + face * 7919;
+    const [restX, restY, size] = FACE_REST_POSITIONS[face];
+
+    // Blink for 150ms roughly every 3.5s, talk-like mouth movement
+    const blinkPhase = (time + hash(seed, 0) * 3500) % 3500;
+    const blink = blinkPhase < 150 ? Math.sin((blinkPhase / 150) * Math.PI) : 0;
+    const mouthOpen = Math.max(0, smoothNoise(seed + 1, time / 400)) * 0.6;
+
+    const x = restX + 0.02 * smoothNoise(seed + 2, time / 2000);
+    const y = restY + 0.015 * smoothNoise(seed + 3, time / 2300);
+    const yaw = 0.25 * smoothNoise(seed + 4, time / 1800);
+    const pitch = 0.12 * smoothNoise(seed + 5, time / 2100);
+    const roll = 0.08 * smoothNoise(seed + 6, time / 2500);
+    const gazeX = 0.8 * smoothNoise(seed + 8, time / 1500);
+    const gazeY = 0.5 * smoothNoise(seed + 9, time / 1700);
+
+    const result = generateFace({
+      x,
+      y,
+      size,
+      yaw,
+      pitch,
+      roll,
+      blink,
+      gazeX,
+      gazeY,
+      mouthOpen,
+      aspectRatio: this.aspectRatio,
+    });
+
+    if (this.blendshapes) {
+      const browInnerUp = Math.max(0, smoothNoise(seed + 7, time / 2700)) * 0.5;
+      result.blendshapes = createFaceBlendshapes({
+        eyeBlinkLeft: blink,
+        eyeBlinkRight: blink,
+        jawOpen: mouthOpen,
+        mouthLowerDownLeft: mouthOpen * 0.5,
+        mouthLowerDownRight: mouthOpen * 0.5,
+        browInnerUp,
+      });
+    }
+
+    if (this.headPose) {
+      // generateFace turns and tilts the other way round from MediaPipe's
+      // camera space; distance roughly as a ~60° webcam would see the face
+      const distance = 15 / size;
+      result.headPose = {
+        yaw: -yaw,
+        pitch,
+        roll: -roll,
+        translation: { x: (x - 0.5) * distance, y: (0.5 - y) * distance * 0.75, z: -distance },
+      };
+    }
+
+    const gaze = estimateGaze(result.landmarks, result.headPose, this.aspectRatio);
+    if (gaze) result.gaze = gaze;
+
+    return result;
+  }
+
+  private getBody(time: number): BodyLandmarks {
+    const seed = this.seed * 101 + 65537;
+    const [restX, restY, faceSize] = FACE_REST_POSITIONS[0];
+    const size = faceSize * 2.4;
+
+    // Shoulders sit below the first face's rest position; arms swing between
+    // hanging down and raised overhead, one after the other
+    const armSwing = (offset: number) =>
+      1.2 +
+      1.1 * Math.sin((time / 3000) * Math.PI * 2 + offset) +
+      0.15 * smoothNoise(seed, time / 900);
+
+    return generateBody({
+      x: restX + 0.02 * smoothNoise(seed + 1, time / 2000),
+      y: restY + 0.62 * size * this.aspectRatio,
+      size,
+      leftArm: armSwing(0),
+      rightArm: armSwing(Math.PI),
+      leftElbow: 0.4 + 0.3 * smoothNoise(seed + 2, time / 1100),
+      rightElbow: 0.4 + 0.3 * smoothNoise(seed + 3, time / 1300),
+      aspectRatio: this.aspectRatio,
+    });
+  }
+}
+
+function lerpLandmarks(from: Landmark[], to: Landmark[], t: number): Landmark[] {
+  return from.map((a, i) => ({
+    x: a.x + (to[i].x - a.x) * t,
+    y: a.y + (to[i].y - a.y) * t,
+    z: a.z + (to[i].z - a.z) * t,
+  }));
+}
@@ -0,0 +1,56 @@
+/**
+ * SyntheticTrackingSource - No-camera tracking source
+ * Emits frames from a seeded SyntheticScene every animation frame so the
+ * whole pipeline (particles, gestures, detection states) runs without a webcam
+ */
+
+import { SyntheticScene, type SyntheticSceneOptions } from './SyntheticLandmarks';
+import { BaseTrackingSource } from './TrackingSource';
+
+export type SyntheticTrackingSourceOptions = SyntheticSceneOptions;
+
+/**
+ * Tracking source driven by procedural landmarks
+ */
+export class SyntheticTrackingSource extends BaseTrackingSource {
+  readonly id = 'synthetic';
+
+  private readonly scene: SyntheticScene;
+  private animationFrameId: number | null = null;
+  /** Scene time at which the current run started (resumes where it stopped) */
+  private sceneOffset = 0;
+  private startTime = -1;
+
+  constructor(options: SyntheticTrackingSourceOptions = {}) {
+    super();
+    this.scene = new SyntheticScene(options);
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+
+    this.running = true;
+    this.setStatus('running');
+    this.startTime = -1;
+    this.animationFrameId = requestAnimationFrame(this.tick);
+  }
+
+  stop(): void {
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+    this.running = false;
+    this.setStatus('idle');
+  }
+
+  private tick = (now: number): void => {
+    if (this.startTime < 0) {
+      this.startTime = now - this.sceneOffset;
+    }
+    this.sceneOffset = now - this.startTime;
+
+    this.emit({ ...this.scene.getFrame(this.sceneOffset), timestamp: now });
+    this.animationFrameId = requestAnimationFrame(this.tick);
+  };
+}
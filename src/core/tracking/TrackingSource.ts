@@ -0,0 +1,151 @@
+/**
+ * TrackingSource - Producer of TrackingResult frames
+ * Decouples where landmarks come from (webcam, recordings, generators, remote feeds)
+ * from the consumers that render them
+ */
+
+import type { TrackingResult } from '@/lib/types';
+
+/**
+ * Callback receiving each emitted tracking frame
+ */
+export type TrackingListener = (result: TrackingResult) => void;
+
+/**
+ * Lifecycle state of a source
+ * - idle: not started (or stopped)
+ * - initializing: loading models, opening files, etc.
+ * - running: emitting frames
+ * - degraded: emitting frames with reduced capability or while recovering
+ * - failed: gave up; needs a restart
+ */
+export type TrackingState = 'idle' | 'initializing' | 'running' | 'degraded' | 'failed';
+
+/**
+ * State of a source and why it is in it
+ */
+export interface TrackingStatus {
+  state: TrackingState;
+  /** Human-readable cause (set for degraded and failed) */
+  reason: string | null;
+}
+
+/**
+ * Callback receiving each status change
+ */
+export type TrackingStatusListener = (status: TrackingStatus) => void;
+
+/**
+ * Common interface for all tracking sources
+ */
+export interface TrackingSource {
+  /** Stable identifier for debugging and UI labels */
+  readonly id: string;
+
+  /**
+   * Start emitting frames
+   * Resolves once the source is producing (loads models, opens files, etc.)
+   */
+  start(): Promise<void>;
+
+  /** Stop emitting frames (can be restarted) */
+  stop(): void;
+
+  /**
+   * Subscribe to emitted frames
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: TrackingListener): () => void;
+
+  /** Whether the source is currently emitting */
+  isRunning(): boolean;
+
+  /** Current lifecycle state */
+  getStatus(): TrackingStatus;
+
+  /**
+   * Subscribe to status changes
+   * @returns Unsubscribe function
+   */
+  subscribeStatus(listener: TrackingStatusListener): () => void;
+
+  /** Stop and release all resources (cannot be restarted) */
+  dispose(): void;
+}
+
+/**
+ * Source that analyzes frames from a video element (webcam, video file)
+ */
+export interface VideoTrackingSource extends TrackingSource {
+  /** Bind the video element to analyze (null to detach) */
+  attachVideo(video: HTMLVideoElement | null): void;
+}
+
+/**
+ * Check whether a source consumes a video element
+ */
+export function isVideoTrackingSource(source: TrackingSource): source is VideoTrackingSource {
+  return typeof (source as Partial<VideoTrackingSource>).attachVideo === 'function';
+}
+
+/**
+ * Base class handling listener bookkeeping for concrete sources
+ */
+export abstract class BaseTrackingSource implements TrackingSource {
+  abstract readonly id: string;
+
+  /** Whether the source is emitting */
+  protected running = false;
+
+  private listeners: Set<TrackingListener> = new Set();
+  private statusListeners: Set<TrackingStatusListener> = new Set();
+  private status: TrackingStatus = { state: 'idle', reason: null };
+
+  abstract start(): Promise<void>;
+
+  abstract stop(): void;
+
+  subscribe(listener: TrackingListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  getStatus(): TrackingStatus {
+    return this.status;
+  }
+
+  subscribeStatus(listener: TrackingStatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => this.statusListeners.delete(listener);
+  }
+
+  /**
+   * Change the status and notify status subscribers (no-op when unchanged)
+   */
+  protected setStatus(state: TrackingState, reason: string | null = null): void {
+    if (state === this.status.state && reason === this.status.reason) return;
+    this.status = { state, reason };
+    for (const listener of this.statusListeners) {
+      listener(this.status);
+    }
+  }
+
+  /**
+   * Deliver a frame to all subscribers
+   */
+  protected emit(result: TrackingResult): void {
+    for (const listener of this.listeners) {
+      listener(result);
+    }
+  }
+
+  dispose(): void {
+    this.stop();
+    this.listeners.clear();
+    this.statusListeners.clear();
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * WorkerDetectionBackend - Runs MediaPipe in a dedicated Web Worker
+ * Video frames are transferred as ImageBitmaps; results come back as
+ * LandmarkFrame messages whose data buffers shuttle between the threads, so
+ * steady-state detection allocates no landmark storage
+ */
+
+import { resolveAssetConfig, type MediaPipeAssetConfig } from '@/lib/mediapipeAssets';
+import type { DetectionBackend } from './DetectionBackend';
+import type { DetectionPlan } from './DetectionScheduler';
+import type { DetectionOptions, LandmarkerOptions } from './MediaPipeLandmarkers';
+import { readFrameMessage, type LandmarkFrame, type LandmarkFrameMessage } from './LandmarkFrame';
+
+/**
+ * Messages from the main thread to the worker
+ */
+export type DetectionWorkerRequest =
+  | { type: 'init'; assets: MediaPipeAssetConfig; options: LandmarkerOptions }
+  | {
+      type: 'detect';
+      id: number;
+      image: ImageBitmap;
+      /** Buffer the worker copies the frame data into (returned with the result) */
+      buffer: Float32Array;
+      timestamp: number;
+      plan?: DetectionPlan;
+    }
+  | { type: 'options'; id: number; options: Partial<DetectionOptions> };
+
+/**
+ * Messages from the worker to the main thread
+ */
+export type DetectionWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'result'; id: number; frame: LandmarkFrameMessage }
+  | { type: 'options'; id: number }
+  | { type: 'error'; id: number | null; name: string; message: string };
+
+interface PendingRequest {
+  /** Frame the result is copied into */
+  frame: LandmarkFrame;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+interface PendingOptions {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Rebuild an error raised inside the worker (keeps MediaPipeAssetError's name)
+ */
+function toError(name: string, message: string): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+export class WorkerDetectionBackend implements DetectionBackend {
+  readonly kind = 'worker';
+
+  /**
+   * Whether this browser can run detection in a worker
+   * (MediaPipe's GPU delegate needs OffscreenCanvas inside the worker)
+   */
+  static isSupported(): boolean {
+    return (
+      typeof Worker !== 'undefined' &&
+      typeof createImageBitmap === 'function' &&
+      typeof OffscreenCanvas !== 'undefined'
+    );
+  }
+
+  private readonly assets?: Partial<MediaPipeAssetConfig>;
+  private options: LandmarkerOptions;
+  private worker: Worker | null = null;
+  private initPromise: Promise<void> | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private pendingOptions = new Map<number, PendingOptions>();
+  // Data buffers back from the worker, lent out again with the next requests
+  private buffers: Float32Array[] = [];
+  private nextId = 0;
+
+  constructor(assets?: Partial<MediaPipeAssetConfig>, options: LandmarkerOptions = {}) {
+    this.assets = assets;
+    this.options = options;
+  }
+
+  initialize(): Promise<void> {
+    if (this.initPromise) return this.initPromise;
+
+    this.initPromise = new Promise<void>((resolve, reject) => {
+      const worker = new Worker(new URL('./detection.worker.ts', import.meta.url));
+      this.worker = worker;
+
+      worker.onmessage = (event: MessageEvent<DetectionWorkerResponse>) => {
+        const message = event.data;
+        switch (message.type) {
+          case 'ready':
+            resolve();
+            break;
+          case 'result':
+            this.settle(message.id, (request) => {
+              readFrameMessage(request.frame, message.frame);
+              this.buffers.push(message.frame.data);
+              request.resolve();
+            });
+            break;
+          case 'options':
+            this.pendingOptions.get(message.id)?.resolve();
+            this.pendingOptions.delete(message.id);
+            break;
+          case 'error':
+            if (message.id === null) {
+              reject(toError(message.name, message.message));
+            } else if (this.pendingOptions.has(message.id)) {
+              this.pendingOptions.get(message.id)?.reject(toError(message.name, message.message));
+              this.pendingOptions.delete(message.id);
+            } else {
+              this.settle(message.id, (request) =>
+                request.reject(toError(message.name, message.message))
+              );
+            }
+            break;
+        }
+      };
+
+      // Script failed to load or crashed outside a request
+      worker.onerror = (event) => {
+        event.preventDefault();
+        const error = new Error(event.message || 'Detection worker failed');
+        reject(error);
+        this.rejectAll(error);
+      };
+
+      // Relative asset URLs would resolve against the worker script, so make them absolute
+      const config = resolveAssetConfig(this.assets);
+      const request: DetectionWorkerRequest = {
+        type: 'init',
+        assets: { ...config, baseUrl: new URL(config.baseUrl, location.href).href },
+        options: this.options,
+      };
+      worker.postMessage(request);
+    });
+
+    return this.initPromise;
+  }
+
+  async detect(
+    video: HTMLVideoElement,
+    timestamp: number,
+    frame: LandmarkFrame,
+    plan?: DetectionPlan
+  ): Promise<void> {
+    const worker = this.worker;
+    if (!worker) {
+      throw new Error('Detection backend is not initialized');
+    }
+
+    const image = await createImageBitmap(video);
+    const buffer = this.buffers.pop() ?? new Float32Array(frame.data.length);
+    const id = this.nextId++;
+
+    return new Promise<void>((resolve, reject) => {
+      this.pending.set(id, { frame, resolve, reject });
+      const request: DetectionWorkerRequest = {
+        type: 'detect',
+        id,
+        image,
+        buffer,
+        timestamp,
+        plan,
+      };
+      worker.postMessage(request, [image, buffer.buffer]);
+    });
+  }
+
+  async setDetectionOptions(options: Partial<DetectionOptions>): Promise<void> {
+    this.options = { ...this.options, ...options };
+    const worker = this.worker;
+    if (!worker) return;
+
+    await this.initPromise;
+    const id = this.nextId++;
+    return new Promise<void>((resolve, reject) => {
+      this.pendingOptions.set(id, { resolve, reject });
+      const request: DetectionWorkerRequest = { type: 'options', id, options };
+      worker.postMessage(request);
+    });
+  }
+
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.initPromise = null;
+    this.rejectAll(new Error('Detection backend disposed'));
+  }
+
+  private settle(id: number, handler: (request: PendingRequest) => void): void {
+    const request = this.pending.get(id);
+    if (!request) return;
+    this.pending.delete(id);
+    handler(request);
+  }
+
+  private rejectAll(error: Error): void {
+    for (const request of this.pending.values()) {
+      request.reject(error);
+    }
+    for (const request of this.pendingOptions.values()) {
+      request.reject(error);
+    }
+    this.pending.clear();
+    this.pendingOptions.clear();
+  }
+}
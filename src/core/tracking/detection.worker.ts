@@ -0,0 +1,79 @@
+/**
+ * Detection worker - Runs MediaPipe landmarkers off the main thread
+ * Receives ImageBitmap frames, writes the results into its own LandmarkFrame
+ * and replies with a copy of it in the buffer the request lent
+ * (protocol types live in WorkerDetectionBackend)
+ */
+
+import {
+  createLandmarkers,
+  detectLandmarks,
+  updateLandmarkers,
+  type MediaPipeLandmarkers,
+} from './MediaPipeLandmarkers';
+import { LandmarkFrame, toFrameMessage } from './LandmarkFrame';
+import type { DetectionWorkerRequest, DetectionWorkerResponse } from './WorkerDetectionBackend';
+
+/** The parts of DedicatedWorkerGlobalScope used here (the DOM lib types `self` as Window) */
+interface DetectionWorkerScope {
+  onmessage: ((event: MessageEvent<DetectionWorkerRequest>) => void) | null;
+  postMessage(message: DetectionWorkerResponse, transfer?: Transferable[]): void;
+}
+
+const scope = self as unknown as DetectionWorkerScope;
+
+let landmarkers: MediaPipeLandmarkers | null = null;
+const frame = new LandmarkFrame();
+
+function postError(id: number | null, err: unknown): void {
+  scope.postMessage({
+    type: 'error',
+    id,
+    name: err instanceof Error ? err.name : 'Error',
+    message: err instanceof Error ? err.message : String(err),
+  });
+}
+
+scope.onmessage = async (event) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'init':
+      try {
+        landmarkers ??= await createLandmarkers(request.assets, request.options);
+        scope.postMessage({ type: 'ready' });
+      } catch (err) {
+        postError(null, err);
+      }
+      break;
+
+    case 'detect':
+      try {
+        if (!landmarkers) {
+          throw new Error('Detection worker is not initialized');
+        }
+        detectLandmarks(landmarkers, request.image, request.timestamp, frame, request.plan);
+        const message = toFrameMessage(frame, request.buffer);
+        scope.postMessage({ type: 'result', id: request.id, frame: message }, [
+          message.data.buffer,
+        ]);
+      } catch (err) {
+        postError(request.id, err);
+      } finally {
+        request.image.close();
+      }
+      break;
+
+    case 'options':
+      try {
+        if (!landmarkers) {
+          throw new Error('Detection worker is not initialized');
+        }
+        await updateLandmarkers(landmarkers, request.options);
+        scope.postMessage({ type: 'options', id: request.id });
+      } catch (err) {
+        postError(request.id, err);
+      }
+      break;
+  }
+};
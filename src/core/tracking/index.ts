@@ -0,0 +1,92 @@
+/**
+ * Tracking Module
+ * Pluggable sources that emit TrackingResult frames
+ */
+
+export {
+  BaseTrackingSource,
+  isVideoTrackingSource,
+  type TrackingSource,
+  type TrackingListener,
+  type TrackingState,
+  type TrackingStatus,
+  type TrackingStatusListener,
+  type VideoTrackingSource,
+} from './TrackingSource';
+export {
+  MediaPipeTrackingSource,
+  DEFAULT_TRACKER_RECOVERY_CONFIG,
+  type MediaPipeTrackingSourceOptions,
+  type TrackerRecoveryConfig,
+} from './MediaPipeTrackingSource';
+export { type DetectionBackend, type DetectionBackendPreference } from './DetectionBackend';
+export {
+  DEFAULT_DETECTION_OPTIONS,
+  resolveDetectionOptions,
+  type DetectionOptions,
+  type LandmarkerDelegate,
+} from './MediaPipeLandmarkers';
+export {
+  DetectionScheduler,
+  DEFAULT_DETECTION_SCHEDULER_CONFIG,
+  FULL_DETECTION_PLAN,
+  type DetectionPlan,
+  type DetectionModel,
+  type DetectionRates,
+  type DetectionSchedulerConfig,
+} from './DetectionScheduler';
+export {
+  LandmarkFrame,
+  LandmarkFramePool,
+  LandmarkRun,
+  writeTrackingResult,
+  toTrackingResult,
+  createTrackingResultView,
+  countHands,
+  countFaces,
+  hasBody,
+  LANDMARK_STRIDE,
+  HAND_LANDMARK_COUNT,
+  FACE_LANDMARK_CAPACITY,
+  BODY_LANDMARK_COUNT,
+} from './LandmarkFrame';
+export { InlineDetectionBackend } from './InlineDetectionBackend';
+export { WorkerDetectionBackend } from './WorkerDetectionBackend';
+export { ReplayTrackingSource, type ReplayTrackingSourceOptions } from './ReplayTrackingSource';
+export { SessionRecorder } from './SessionRecorder';
+export { headPoseFromMatrix, HeadPoseSmoother } from './HeadPose';
+export { estimateGaze } from './Gaze';
+export { downsampleMask, SEGMENTATION_MASK_WIDTH } from './Segmentation';
+export {
+  encodeFrame,
+  decodeFrame,
+  encodeSession,
+  decodeSession,
+  SessionFormatError,
+  SESSION_FORMAT_VERSION,
+  SESSION_FILE_EXTENSION,
+  SESSION_MIME_TYPE,
+  FLOATS_PER_LANDMARK,
+  type SessionHeader,
+  type TrackingSession,
+} from './SessionFormat';
+export {
+  SyntheticTrackingSource,
+  type SyntheticTrackingSourceOptions,
+} from './SyntheticTrackingSource';
+export {
+  SyntheticScene,
+  generateHand,
+  generateFace,
+  generateBody,
+  generateSegmentationMask,
+  smoothNoise,
+  SYNTHETIC_HAND_POSES,
+  SYNTHETIC_FACE_LANDMARK_COUNT,
+  type SyntheticHandPose,
+  type SyntheticHandOptions,
+  type SyntheticFaceOptions,
+  type SyntheticBodyOptions,
+  type SyntheticSegmentationOptions,
+  type SyntheticSceneOptions,
+} from './SyntheticLandmarks';
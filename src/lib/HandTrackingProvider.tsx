@@ -5,269 +5,223 @@ import {
   useContext,
   useState,
   useCallback,
-  useRef,
   useEffect,
+  useMemo,
+  useRef,
+  useSyncExternalStore,
   type ReactNode,
 } from "react";
+import type { TrackingResult } from "@/lib/types";
 import {
-  HandLandmarker,
-  FaceLandmarker,
-  FilesetResolver,
-  type HandLandmarkerResult,
-  type FaceLandmarkerResult,
-} from "@mediapipe/tasks-vision";
-import type { HandLandmarks, TrackingResult, FaceLandmarks, Landmark } from "@/lib/types";
+  TrackingStore,
+  selectFaceCount,
+  selectFacePresent,
+  selectHandCount,
+  type TrackingSelector,
+} from "@/lib/trackingStore";
+import type { MediaPipeAssetConfig } from "@/lib/mediapipeAssets";
+import {
+  MediaPipeTrackingSource,
+  isVideoTrackingSource,
+  type DetectionOptions,
+  type LandmarkerDelegate,
+  type MediaPipeTrackingSourceOptions,
+  type TrackingSource,
+  type TrackingStatus,
+} from "@/core/tracking";
+
+const IDLE_STATUS: TrackingStatus = { state: "idle", reason: null };
 
 interface HandTrackingContextValue {
-  result: TrackingResult | null;
+  /**
+   * Latest result as an external store (read it with the selector hooks below or
+   * subscribe directly; frames do not re-render consumers of this context)
+   */
+  store: TrackingStore;
   isLoading: boolean;
   error: string | null;
-  startTracking: (video: HTMLVideoElement) => void;
+  /**
+   * Lifecycle of the active source: initializing, running, degraded (e.g. models
+   * on the CPU after the GPU failed, or reloading after repeated detection errors)
+   * or failed, with the reason
+   */
+  status: TrackingStatus;
+  /** Start the active source (video is bound when the source analyzes video) */
+  startTracking: (video?: HTMLVideoElement) => void;
   stopTracking: () => void;
+  /** Source currently feeding results */
+  source: TrackingSource;
+  /**
+   * Change detection confidences, hand/face counts or the delegate while tracking
+   * runs (MediaPipe source only; other sources ignore it)
+   */
+  setDetectionOptions: (options: Partial<DetectionOptions>) => Promise<void>;
 }
 
 const HandTrackingContext = createContext<HandTrackingContextValue | null>(null);
 
 interface HandTrackingProviderProps {
   children: ReactNode;
+  /** Tracking source to use instead of the MediaPipe webcam pipeline */
+  source?: TrackingSource;
+  /**
+   * MediaPipe asset locations (defaults to self-hosted files in public/mediapipe)
+   * Changing this, blendshapes, headPose, body or segmentation replaces the
+   * MediaPipe source (keep it memoized)
+   */
+  assets?: Partial<MediaPipeAssetConfig>;
+  /** Hands the MediaPipe source tracks at once (default: 2, up to MAX_TRACKED_HANDS) */
+  maxHands?: number;
+  /** Faces the MediaPipe source tracks at once (default: 1, up to MAX_TRACKED_FACES) */
+  maxFaces?: number;
+  /** Output face blendshapes from the MediaPipe source (default: false) */
+  blendshapes?: boolean;
+  /** Output a smoothed head pose per face from the MediaPipe source (default: false) */
+  headPose?: boolean;
+  /** Track the body with the MediaPipe source's PoseLandmarker (default: false) */
+  body?: boolean;
+  /** Output a person mask from the MediaPipe source's ImageSegmenter (default: false) */
+  segmentation?: boolean;
+  /**
+   * Detection confidences of the MediaPipe source (0-1, default: 0.5 each)
+   * Applied live when this or maxHands/maxFaces/delegate change (keep it memoized)
+   */
+  detection?: MediaPipeTrackingSourceOptions["detection"];
+  /**
+   * Hardware the MediaPipe source runs its models on (default: "GPU")
+   * Leave unset to keep the automatic CPU fallback after the GPU fails
+   */
+  delegate?: LandmarkerDelegate;
 }
 
-export function HandTrackingProvider({ children }: HandTrackingProviderProps) {
-  const [result, setResult] = useState<TrackingResult | null>(null);
+export function HandTrackingProvider({
+  children,
+  source,
+  assets,
+  maxHands,
+  maxFaces,
+  blendshapes,
+  headPose,
+  body,
+  segmentation,
+  detection,
+  delegate,
+}: HandTrackingProviderProps) {
+  const [store] = useState(() => new TrackingStore());
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const handLandmarkerRef = useRef<HandLandmarker | null>(null);
-  const faceLandmarkerRef = useRef<FaceLandmarker | null>(null);
-  const videoRef = useRef<HTMLVideoElement | null>(null);
-  const animationFrameRef = useRef<number | null>(null);
-  const lastTimestampRef = useRef<number>(-1);
-
-  // Initialize MediaPipe HandLandmarker
-  const initializeHandLandmarker = useCallback(async () => {
-    try {
-      const vision = await FilesetResolver.forVisionTasks(
-        "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm"
-      );
-
-      const handLandmarker = await HandLandmarker.createFromOptions(vision, {
-        baseOptions: {
-          modelAssetPath:
-            "https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task",
-          delegate: "GPU",
-        },
-        runningMode: "VIDEO",
-        numHands: 2,
-        minHandDetectionConfidence: 0.5,
-        minHandPresenceConfidence: 0.5,
-        minTrackingConfidence: 0.5,
-      });
-
-      handLandmarkerRef.current = handLandmarker;
-      return handLandmarker;
-    } catch (err) {
-      console.error("HandLandmarker initialization error:", err);
-      return null;
-    }
-  }, []);
-
-  // Initialize MediaPipe FaceLandmarker
-  const initializeFaceLandmarker = useCallback(async () => {
-    try {
-      const vision = await FilesetResolver.forVisionTasks(
-        "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm"
-      );
-
-      const faceLandmarker = await FaceLandmarker.createFromOptions(vision, {
-        baseOptions: {
-          modelAssetPath:
-            "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task",
-          delegate: "GPU",
-        },
-        runningMode: "VIDEO",
-        numFaces: 1,
-        minFaceDetectionConfidence: 0.5,
-        minFacePresenceConfidence: 0.5,
-        minTrackingConfidence: 0.5,
-        outputFaceBlendshapes: false,
-        outputFacialTransformationMatrixes: false,
-      });
-
-      faceLandmarkerRef.current = faceLandmarker;
-      return faceLandmarker;
-    } catch (err) {
-      console.error("FaceLandmarker initialization error:", err);
-      return null;
-    }
-  }, []);
-
-  // Initialize both trackers
-  const initializeTrackers = useCallback(async () => {
-    setIsLoading(true);
-    setError(null);
-
-    const [handLandmarker, faceLandmarker] = await Promise.all([
-      initializeHandLandmarker(),
-      initializeFaceLandmarker(),
-    ]);
-
-    if (!handLandmarker || !faceLandmarker) {
-      setError("Failed to initialize tracking models");
-    }
-
-    setIsLoading(false);
-  }, [initializeHandLandmarker, initializeFaceLandmarker]);
-
-  // Convert MediaPipe results to our format
-  const convertResults = useCallback(
-    (
-      handResult: HandLandmarkerResult,
-      faceResult: FaceLandmarkerResult,
-      timestamp: number
-    ): TrackingResult => {
-      // Convert hands
-      const hands: HandLandmarks[] = [];
-      for (let i = 0; i < handResult.landmarks.length; i++) {
-        const landmarks: Landmark[] = handResult.landmarks[i].map((lm) => ({
-          x: lm.x,
-          y: lm.y,
-          z: lm.z,
-          visibility: lm.visibility,
-        }));
-
-        const worldLandmarks: Landmark[] = handResult.worldLandmarks[i].map((lm) => ({
-          x: lm.x,
-          y: lm.y,
-          z: lm.z,
-          visibility: lm.visibility,
-        }));
-
-        const rawHandedness = handResult.handednesses[i][0].categoryName;
-        const handedness = rawHandedness === "Left" ? "Right" : "Left";
-
-        hands.push({
-          landmarks,
-          worldLandmarks,
-          handedness: handedness as "Left" | "Right",
-        });
-      }
-
-      // Convert face
-      let face: FaceLandmarks | null = null;
-      if (faceResult.faceLandmarks && faceResult.faceLandmarks.length > 0) {
-        const landmarks: Landmark[] = faceResult.faceLandmarks[0].map((lm) => ({
-          x: lm.x,
-          y: lm.y,
-          z: lm.z,
-          visibility: lm.visibility,
-        }));
+  // Default MediaPipe source, owned by the provider and rebuilt when the models
+  // it loads change (detection settings are applied live below)
+  const defaultSource = useMemo(
+    () => new MediaPipeTrackingSource({ assets, blendshapes, headPose, body, segmentation }),
+    [assets, blendshapes, headPose, body, segmentation]
+  );
+  const activeSource = source ?? defaultSource;
 
-        face = { landmarks };
+  // Change detection settings on the running MediaPipe source
+  const setDetectionOptions = useCallback(
+    async (options: Partial<DetectionOptions>) => {
+      if (!(activeSource instanceof MediaPipeTrackingSource)) return;
+      try {
+        await activeSource.setDetectionOptions(options);
+      } catch (err) {
+        console.error("Detection options error:", err);
+        setError(err instanceof Error ? err.message : "Failed to apply detection options");
       }
-
-      return { hands, face, timestamp };
     },
-    []
+    [activeSource]
   );
 
-  // Detection loop using requestAnimationFrame for 60 FPS
-  const detect = useCallback(() => {
-    const video = videoRef.current;
-    const handLandmarker = handLandmarkerRef.current;
-    const faceLandmarker = faceLandmarkerRef.current;
+  // Apply detection prop changes live, and to a rebuilt source (no-op when nothing
+  // changed; unset props are left out so they keep the source's current values)
+  useEffect(() => {
+    const options: Partial<DetectionOptions> = { ...detection };
+    if (maxHands !== undefined) options.maxHands = maxHands;
+    if (maxFaces !== undefined) options.maxFaces = maxFaces;
+    if (delegate !== undefined) options.delegate = delegate;
+    defaultSource.setDetectionOptions(options).catch((err) => {
+      console.error("Detection options error:", err);
+      setError(err instanceof Error ? err.message : "Failed to apply detection options");
+    });
+  }, [defaultSource, detection, maxHands, maxFaces, delegate]);
+
+  // Feed frames from the active source into the store (no React state per frame)
+  useEffect(() => {
+    const unsubscribe = activeSource.subscribe((result) => store.setResult(result));
+    return () => {
+      unsubscribe();
+      store.setResult(null);
+    };
+  }, [activeSource, store]);
 
-    if (!video || !handLandmarker || !faceLandmarker || video.readyState < 2) {
-      animationFrameRef.current = requestAnimationFrame(detect);
-      return;
-    }
+  // Status of the active source (its state machine handles fallback and recovery)
+  const subscribeStatus = useCallback(
+    (onChange: () => void) => activeSource.subscribeStatus(onChange),
+    [activeSource]
+  );
+  const status = useSyncExternalStore(
+    subscribeStatus,
+    () => activeSource.getStatus(),
+    () => IDLE_STATUS
+  );
 
-    const timestamp = performance.now();
+  // Start tracking
+  const startTracking = useCallback(
+    async (video?: HTMLVideoElement) => {
+      if (video && isVideoTrackingSource(activeSource)) {
+        activeSource.attachVideo(video);
+      }
+      if (activeSource.isRunning()) return;
 
-    // Only process if enough time has passed
-    if (timestamp !== lastTimestampRef.current) {
-      lastTimestampRef.current = timestamp;
+      setIsLoading(true);
+      setError(null);
 
       try {
-        // Run both detections
-        const handResult = handLandmarker.detectForVideo(video, timestamp);
-        
-        // Face detection might fail, so wrap it separately
-        let faceResult: FaceLandmarkerResult;
-        try {
-          faceResult = faceLandmarker.detectForVideo(video, timestamp);
-        } catch (faceError) {
-          // Face detection failed, create empty result
-          faceResult = {
-            faceLandmarks: [],
-            faceBlendshapes: [],
-            facialTransformationMatrixes: [],
-          };
-        }
-        
-        const trackingResult = convertResults(handResult, faceResult, timestamp);
-        setResult(trackingResult);
+        await activeSource.start();
       } catch (err) {
-        console.error("Detection error:", err);
-      }
-    }
-
-    animationFrameRef.current = requestAnimationFrame(detect);
-  }, [convertResults]);
-
-  // Start tracking
-  const startTracking = useCallback(
-    async (video: HTMLVideoElement) => {
-      videoRef.current = video;
-
-      // Initialize if not already done
-      if (!handLandmarkerRef.current || !faceLandmarkerRef.current) {
-        await initializeTrackers();
-        if (!handLandmarkerRef.current || !faceLandmarkerRef.current) return;
+        console.error("Tracking source error:", err);
+        setError(err instanceof Error ? err.message : "Failed to start tracking");
       }
 
-      // Start detection loop
-      if (animationFrameRef.current === null) {
-        animationFrameRef.current = requestAnimationFrame(detect);
-      }
+      setIsLoading(false);
     },
-    [initializeTrackers, detect]
+    [activeSource]
   );
 
   // Stop tracking
   const stopTracking = useCallback(() => {
-    if (animationFrameRef.current !== null) {
-      cancelAnimationFrame(animationFrameRef.current);
-      animationFrameRef.current = null;
+    activeSource.stop();
+    if (isVideoTrackingSource(activeSource)) {
+      activeSource.attachVideo(null);
     }
-    videoRef.current = null;
-    setResult(null);
-  }, []);
+    store.setResult(null);
+  }, [activeSource, store]);
 
-  // Cleanup on unmount
+  // Release models when the source is rebuilt or on unmount (external sources
+  // are owned by the caller)
   useEffect(() => {
     return () => {
-      if (animationFrameRef.current !== null) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
-      if (handLandmarkerRef.current) {
-        handLandmarkerRef.current.close();
-      }
-      if (faceLandmarkerRef.current) {
-        faceLandmarkerRef.current.close();
-      }
+      defaultSource.dispose();
     };
-  }, []);
+  }, [defaultSource]);
+
+  const value = useMemo(
+    () => ({
+      store,
+      isLoading,
+      error,
+      status,
+      startTracking,
+      stopTracking,
+      source: activeSource,
+      setDetectionOptions,
+    }),
+    [store, isLoading, error, status, startTracking, stopTracking, activeSource, setDetectionOptions]
+  );
 
   return (
-    <HandTrackingContext.Provider
-      value={{
-        result,
-        isLoading,
-        error,
-        startTracking,
-        stopTracking,
-      }}
-    >
+    <HandTrackingContext.Provider value={value}>
       {children}
     </HandTrackingContext.Provider>
   );
@@ -280,3 +234,69 @@ export function useHandTracking() {
   }
   return context;
 }
+
+/**
+ * Store holding the latest tracking result
+ */
+export function useTrackingStore(): TrackingStore {
+  return useHandTracking().store;
+}
+
+/**
+ * Re-render only when the selected slice of the latest result changes
+ * @param selector Picks the slice (may be an inline function)
+ * @param isEqual Slice comparison (default: Object.is)
+ */
+export function useTrackingSelector<T>(
+  selector: TrackingSelector<T>,
+  isEqual: (a: T, b: T) => boolean = Object.is
+): T {
+  const store = useTrackingStore();
+  const selection = useRef<{ result: TrackingResult | null; value: T } | null>(null);
+
+  // Same result (or an equal slice) returns the cached value, so React bails out
+  const getSelection = () => {
+    const result = store.getSnapshot();
+    const cached = selection.current;
+    if (cached && cached.result === result) return cached.value;
+
+    const value = selector(result);
+    if (cached && isEqual(cached.value, value)) {
+      cached.result = result;
+      return cached.value;
+    }
+    selection.current = { result, value };
+    return value;
+  };
+
+  return useSyncExternalStore(store.subscribe, getSelection, getSelection);
+}
+
+/**
+ * Latest tracking result (re-renders on every frame; prefer a selector)
+ */
+export function useTrackingResult(): TrackingResult | null {
+  const store = useTrackingStore();
+  return useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot);
+}
+
+/**
+ * Number of tracked hands
+ */
+export function useHandCount(): number {
+  return useTrackingSelector(selectHandCount);
+}
+
+/**
+ * Number of tracked faces
+ */
+export function useFaceCount(): number {
+  return useTrackingSelector(selectFaceCount);
+}
+
+/**
+ * Whether a face is tracked
+ */
+export function useFacePresent(): boolean {
+  return useTrackingSelector(selectFacePresent);
+}
@@ -0,0 +1,125 @@
+/**
+ * Camera device helpers - Listing cameras, opening them with a chosen
+ * resolution and frame rate, and remembering the choice between visits
+ */
+
+/**
+ * Which camera to open and how
+ */
+export interface CameraSettings {
+  /** Camera to open (null = the browser's default front camera) */
+  deviceId: string | null;
+  /** Requested frame width in pixels */
+  width: number;
+  /** Requested frame height in pixels */
+  height: number;
+  /** Requested frames per second */
+  frameRate: number;
+}
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  width: 1280,
+  height: 720,
+  frameRate: 30,
+};
+
+/** Resolutions offered in the camera picker */
+export const CAMERA_RESOLUTIONS: readonly { label: string; width: number; height: number }[] = [
+  { label: "480p", width: 640, height: 480 },
+  { label: "720p", width: 1280, height: 720 },
+  { label: "1080p", width: 1920, height: 1080 },
+];
+
+/** Frame rates offered in the camera picker */
+export const CAMERA_FRAME_RATES: readonly number[] = [15, 24, 30, 60];
+
+/** localStorage key of the saved camera choice */
+const STORAGE_KEY = "particle-vision:camera";
+
+/**
+ * Video constraints for a camera choice
+ * Sizes and rate are ideals (the camera picks its closest mode); the device is exact
+ */
+export function buildVideoConstraints(settings: CameraSettings): MediaTrackConstraints {
+  return {
+    ...(settings.deviceId ? { deviceId: { exact: settings.deviceId } } : { facingMode: "user" }),
+    width: { ideal: settings.width },
+    height: { ideal: settings.height },
+    frameRate: { ideal: settings.frameRate },
+  };
+}
+
+/**
+ * Open a camera
+ * Falls back to the default camera when the chosen one is gone (unplugged)
+ * @throws DOMException from getUserMedia (NotAllowedError, NotFoundError, ...)
+ */
+export async function openCamera(settings: CameraSettings): Promise<MediaStream> {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ video: buildVideoConstraints(settings) });
+  } catch (error) {
+    const missing =
+      error instanceof Error &&
+      (error.name === "OverconstrainedError" || error.name === "NotFoundError");
+    if (!settings.deviceId || !missing) throw error;
+
+    return navigator.mediaDevices.getUserMedia({
+      video: buildVideoConstraints({ ...settings, deviceId: null }),
+    });
+  }
+}
+
+/**
+ * Stop every track of a stream (releases the camera)
+ */
+export function stopStream(stream: MediaStream): void {
+  stream.getTracks().forEach((track) => track.stop());
+}
+
+/**
+ * Device id of the camera a stream is using (null when unknown)
+ */
+export function getStreamDeviceId(stream: MediaStream): string | null {
+  return stream.getVideoTracks()[0]?.getSettings().deviceId ?? null;
+}
+
+/**
+ * Cameras the browser can see
+ * Labels are empty until camera permission has been granted
+ */
+export async function listCameras(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === "videoinput");
+}
+
+/**
+ * Read the saved camera choice (defaults when nothing valid is stored)
+ */
+export function loadCameraSettings(): CameraSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as Partial<CameraSettings> | null;
+    if (!stored || typeof stored !== "object") return DEFAULT_CAMERA_SETTINGS;
+    return {
+      deviceId: typeof stored.deviceId === "string" ? stored.deviceId : null,
+      width: Number(stored.width) || DEFAULT_CAMERA_SETTINGS.width,
+      height: Number(stored.height) || DEFAULT_CAMERA_SETTINGS.height,
+      frameRate: Number(stored.frameRate) || DEFAULT_CAMERA_SETTINGS.frameRate,
+    };
+  } catch {
+    // Storage unavailable (private mode) or corrupt
+    return DEFAULT_CAMERA_SETTINGS;
+  }
+}
+
+/**
+ * Remember a camera choice for the next visit
+ */
+export function saveCameraSettings(settings: CameraSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage unavailable; the choice only lasts this visit
+  }
+}
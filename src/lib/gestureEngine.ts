@@ -0,0 +1,340 @@
+/**
+ * GestureEngine - Named gesture registry with per-hand gesture events
+ *
+ * Each registered gesture is a classifier scoring a hand from 0 to 1. Every
+ * update scores every gesture on every hand and runs the scores through the
+ * same state machine: a gesture starts once its score stays at or above the
+ * start threshold for the start delay, and ends once it stays at or below the
+ * (lower) end threshold for the end delay. Listeners get `start`, then `hold`
+ * on every update while the gesture lasts, then `end`.
+ *
+ * Gestures are independent: one hand can show several at once (an OK sign is
+ * also a pinch; pointing also reads as a fist with four curled fingers).
+ *
+ * Hands are matched to slots with a HandIdentityTracker, so a gesture follows
+ * the physical hand when MediaPipe reorders hands between results.
+ */
+
+import { MAX_TRACKED_HANDS, type HandLandmarks, type LandmarkAccessor } from './types';
+import {
+  GESTURE_CLASSIFIERS,
+  toAccessor,
+  type GestureClassifier,
+  type GestureName,
+} from './gestures';
+import { LandmarkRun, type LandmarkFrame } from '@/core/tracking/LandmarkFrame';
+import { HandIdentityTracker } from '@/core/particles/HandIdentityTracker';
+
+/**
+ * Thresholds and delays of the gesture state machine
+ */
+export interface GestureTiming {
+  /** Score (0-1) at or above which a gesture starts */
+  startThreshold: number;
+  /** Score (0-1) at or below which a gesture ends (below startThreshold) */
+  endThreshold: number;
+  /** How long the score must stay at or above startThreshold (ms) */
+  startDelayMs: number;
+  /** How long the score must stay at or below endThreshold, or the hand stay lost (ms) */
+  endDelayMs: number;
+}
+
+export const DEFAULT_GESTURE_TIMING: GestureTiming = {
+  startThreshold: 0.7,
+  endThreshold: 0.4,
+  startDelayMs: 60,
+  endDelayMs: 100,
+};
+
+/**
+ * A gesture in the registry
+ */
+export interface GestureDefinition extends Partial<GestureTiming> {
+  /** Registry key (built-in gestures use their GestureName) */
+  name: string;
+  /** Scores a hand with at least 21 landmarks */
+  classify: GestureClassifier;
+}
+
+/**
+ * The built-in gestures with the engine's default timing
+ */
+export const BUILT_IN_GESTURES: readonly GestureDefinition[] = (
+  Object.keys(GESTURE_CLASSIFIERS) as GestureName[]
+).map((name) => ({ name, classify: GESTURE_CLASSIFIERS[name] }));
+
+export type GestureEventType = 'start' | 'hold' | 'end';
+
+/**
+ * A gesture starting, continuing or ending on one hand
+ */
+export interface GestureEvent {
+  type: GestureEventType;
+  /** Registry name of the gesture */
+  gesture: string;
+  /** Hand slot (follows the same physical hand across results) */
+  hand: number;
+  /** Last known handedness of that hand */
+  handedness: 'Left' | 'Right';
+  /** Latest score (0 when the hand is not in the result) */
+  confidence: number;
+  /** Timestamp of the update that emitted the event (ms) */
+  timestamp: number;
+  /** Time since the gesture started (0 on start) */
+  duration: number;
+  /** End events only: the hand was lost (or tracking stopped) rather than the gesture released */
+  lost: boolean;
+}
+
+export type GestureListener = (event: GestureEvent) => void;
+
+/**
+ * Registered gesture with its timing resolved
+ */
+interface RegisteredGesture extends GestureTiming {
+  name: string;
+  classify: GestureClassifier;
+}
+
+/**
+ * State machine of one gesture on one hand
+ */
+interface GestureTrack {
+  active: boolean;
+  confidence: number;
+  startTime: number;
+  /** When the score crossed the threshold toward the next transition (-1 when it has not) */
+  pendingSince: number;
+}
+
+/**
+ * Gesture tracks of one hand slot
+ */
+interface HandGestures {
+  handedness: 'Left' | 'Right';
+  tracks: Map<string, GestureTrack>;
+}
+
+/**
+ * Scores registered gestures on every hand and emits start/hold/end events
+ */
+export class GestureEngine {
+  private timing: GestureTiming;
+  private gestures: Map<string, RegisteredGesture> = new Map();
+  private hands: HandGestures[] = Array.from({ length: MAX_TRACKED_HANDS }, () => ({
+    handedness: 'Right',
+    tracks: new Map(),
+  }));
+  private listeners: Set<GestureListener> = new Set();
+  private identities = new HandIdentityTracker(MAX_TRACKED_HANDS);
+
+  // PERF: reused to read hands out of a LandmarkFrame
+  private run = new LandmarkRun();
+
+  /**
+   * @param timing Default timing (merged with DEFAULT_GESTURE_TIMING)
+   * @param gestures Gestures to register (default: BUILT_IN_GESTURES)
+   */
+  constructor(
+    timing: Partial<GestureTiming> = {},
+    gestures: readonly GestureDefinition[] = BUILT_IN_GESTURES
+  ) {
+    this.timing = { ...DEFAULT_GESTURE_TIMING, ...timing };
+    for (const gesture of gestures) {
+      this.register(gesture);
+    }
+  }
+
+  /**
+   * Add a gesture, or replace the classifier and timing of one with the same
+   * name (its state carries over, so an active gesture stays active)
+   */
+  register(definition: GestureDefinition): void {
+    const { name, classify, ...timing } = definition;
+    this.gestures.set(name, { ...this.timing, ...timing, name, classify });
+  }
+
+  /**
+   * Remove a gesture (an active one ends without an event)
+   * @returns Whether the gesture was registered
+   */
+  unregister(name: string): boolean {
+    for (const hand of this.hands) {
+      hand.tracks.delete(name);
+    }
+    return this.gestures.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.gestures.has(name);
+  }
+
+  /**
+   * Names of the registered gestures, in registration order
+   */
+  getGestureNames(): string[] {
+    return [...this.gestures.keys()];
+  }
+
+  /**
+   * Listen for gesture events (bound, so it can be passed around)
+   * @returns Unsubscribe function
+   */
+  subscribe = (listener: GestureListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  /**
+   * Score every gesture on the hands of a tracking result and emit events
+   * @param hands Hands of the result (a frame is read without creating landmark objects)
+   * @param timestamp Time of the result (ms)
+   */
+  update(hands: HandLandmarks[] | LandmarkFrame, timestamp: number): void {
+    if (Array.isArray(hands)) {
+      const slotted = this.identities.assign(hands, timestamp);
+      for (let s = 0; s < this.hands.length; s++) {
+        const hand = slotted[s];
+        this.updateSlot(s, hand ? toAccessor(hand.landmarks) : null, hand?.handedness, timestamp);
+      }
+      return;
+    }
+
+    const slots = this.identities.assignFrame(hands, timestamp);
+    for (let s = 0; s < this.hands.length; s++) {
+      const h = slots[s];
+      if (h >= 0) {
+        this.updateSlot(s, hands.hand(h, this.run), hands.getHandedness(h), timestamp);
+      } else {
+        this.updateSlot(s, null, undefined, timestamp);
+      }
+    }
+  }
+
+  /**
+   * Whether a gesture is active on a hand slot (any hand when omitted)
+   */
+  isActive(name: string, hand?: number): boolean {
+    if (hand !== undefined) {
+      return this.hands[hand]?.tracks.get(name)?.active ?? false;
+    }
+    return this.hands.some((candidate) => candidate.tracks.get(name)?.active);
+  }
+
+  /**
+   * Latest score of a gesture on a hand slot (0 before a hand was seen there)
+   */
+  getConfidence(name: string, hand = 0): number {
+    return this.hands[hand]?.tracks.get(name)?.confidence ?? 0;
+  }
+
+  /**
+   * End every active gesture (as lost) and forget all hands, e.g. when
+   * tracking stops and no further updates will arrive
+   * @param timestamp Time of the reset (ms, same clock as update)
+   */
+  reset(timestamp = performance.now()): void {
+    for (let h = 0; h < this.hands.length; h++) {
+      const hand = this.hands[h];
+      for (const [name, track] of hand.tracks) {
+        if (!track.active) continue;
+        track.active = false;
+        this.emit('end', name, h, hand, 0, timestamp, timestamp - track.startTime, true);
+      }
+      hand.tracks.clear();
+    }
+    this.identities.reset();
+  }
+
+  /**
+   * Score every gesture on one hand slot (landmarks null when the slot has no hand)
+   */
+  private updateSlot(
+    slot: number,
+    landmarks: LandmarkAccessor | null,
+    handedness: 'Left' | 'Right' | undefined,
+    timestamp: number
+  ): void {
+    const hand = this.hands[slot];
+    if (handedness) hand.handedness = handedness;
+
+    for (const gesture of this.gestures.values()) {
+      const score = landmarks && landmarks.count >= 21 ? gesture.classify(landmarks) : 0;
+      this.step(slot, hand, gesture, score, landmarks === null, timestamp);
+    }
+  }
+
+  /**
+   * Advance one gesture's state machine on one hand slot
+   */
+  private step(
+    slot: number,
+    hand: HandGestures,
+    gesture: RegisteredGesture,
+    score: number,
+    lost: boolean,
+    timestamp: number
+  ): void {
+    let track = hand.tracks.get(gesture.name);
+    if (!track) {
+      track = { active: false, confidence: 0, startTime: 0, pendingSince: -1 };
+      hand.tracks.set(gesture.name, track);
+    }
+    track.confidence = score;
+
+    if (!track.active) {
+      if (score < gesture.startThreshold) {
+        track.pendingSince = -1;
+        return;
+      }
+      if (track.pendingSince < 0) track.pendingSince = timestamp;
+      if (timestamp - track.pendingSince < gesture.startDelayMs) return;
+
+      track.active = true;
+      track.startTime = timestamp;
+      track.pendingSince = -1;
+      this.emit('start', gesture.name, slot, hand, score, timestamp, 0, false);
+      return;
+    }
+
+    const duration = timestamp - track.startTime;
+    if (score > gesture.endThreshold) {
+      track.pendingSince = -1;
+    } else {
+      if (track.pendingSince < 0) track.pendingSince = timestamp;
+      if (timestamp - track.pendingSince >= gesture.endDelayMs) {
+        track.active = false;
+        track.pendingSince = -1;
+        this.emit('end', gesture.name, slot, hand, score, timestamp, duration, lost);
+        return;
+      }
+    }
+    this.emit('hold', gesture.name, slot, hand, score, timestamp, duration, false);
+  }
+
+  private emit(
+    type: GestureEventType,
+    gesture: string,
+    slot: number,
+    hand: HandGestures,
+    confidence: number,
+    timestamp: number,
+    duration: number,
+    lost: boolean
+  ): void {
+    if (this.listeners.size === 0) return;
+    const event: GestureEvent = {
+      type,
+      gesture,
+      hand: slot,
+      handedness: hand.handedness,
+      confidence,
+      timestamp,
+      duration,
+      lost,
+    };
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+}
@@ -1,10 +1,16 @@
 /**
  * Gesture Detection for Hand Tracking
  * Pure functions for detecting hand gestures from landmark data
+ * Landmarks are read through accessors, so hands in a LandmarkFrame are
+ * checked without creating landmark objects
+ *
+ * Classifiers score a gesture from 0 to 1 instead of answering yes/no, so
+ * GestureEngine (gestureEngine.ts) can apply hysteresis to the scores
  */
 
-import type { Landmark, HandLandmarks } from './types';
+import type { Landmark, HandLandmarks, LandmarkAccessor } from './types';
 import { HAND_LANDMARKS } from './types';
+import { LandmarkRun, type LandmarkFrame } from '@/core/tracking/LandmarkFrame';
 
 /**
  * Configuration for fist detection
@@ -21,13 +27,56 @@ const DEFAULT_FIST_CONFIG: FistDetectionConfig = {
   minCurledFingers: 4, // At least 4 fingers must be curled
 };
 
+/**
+ * Accessor over a Landmark array (reusable: reset() points it at another array)
+ */
+class LandmarkArrayAccessor implements LandmarkAccessor {
+  private landmarks: Landmark[] = [];
+
+  get count(): number {
+    return this.landmarks.length;
+  }
+
+  reset(landmarks: Landmark[]): this {
+    this.landmarks = landmarks;
+    return this;
+  }
+
+  x(index: number): number {
+    return this.landmarks[index].x;
+  }
+
+  y(index: number): number {
+    return this.landmarks[index].y;
+  }
+
+  z(index: number): number {
+    return this.landmarks[index].z ?? 0;
+  }
+
+  visibility(index: number): number {
+    return this.landmarks[index].visibility ?? 1;
+  }
+}
+
+// PERF: shared accessors, gesture checks run synchronously one hand at a time
+const arrayAccessor = new LandmarkArrayAccessor();
+const frameAccessor = new LandmarkRun();
+
+/**
+ * Read landmarks through an accessor (arrays are wrapped without copying)
+ */
+export function toAccessor(landmarks: Landmark[] | LandmarkAccessor): LandmarkAccessor {
+  return Array.isArray(landmarks) ? arrayAccessor.reset(landmarks) : landmarks;
+}
+
 /**
  * Calculate distance between two landmarks
  */
-function landmarkDistance(a: Landmark, b: Landmark): number {
-  const dx = a.x - b.x;
-  const dy = a.y - b.y;
-  const dz = (a.z ?? 0) - (b.z ?? 0);
+function landmarkDistance(landmarks: LandmarkAccessor, a: number, b: number): number {
+  const dx = landmarks.x(a) - landmarks.x(b);
+  const dy = landmarks.y(a) - landmarks.y(b);
+  const dz = landmarks.z(a) - landmarks.z(b);
   return Math.sqrt(dx * dx + dy * dy + dz * dz);
 }
 
@@ -38,21 +87,17 @@ function landmarkDistance(a: Landmark, b: Landmark): number {
  * When finger is curled, tip is close to wrist
  */
 function isFingerCurled(
-  landmarks: Landmark[],
+  landmarks: LandmarkAccessor,
   tipIndex: number,
   mcpIndex: number,
   wristIndex: number,
   threshold: number
 ): boolean {
-  const tip = landmarks[tipIndex];
-  const mcp = landmarks[mcpIndex];
-  const wrist = landmarks[wristIndex];
-
   // Distance from tip to wrist
-  const tipToWrist = landmarkDistance(tip, wrist);
+  const tipToWrist = landmarkDistance(landmarks, tipIndex, wristIndex);
   
   // Distance from MCP to wrist (reference for extended finger)
-  const mcpToWrist = landmarkDistance(mcp, wrist);
+  const mcpToWrist = landmarkDistance(landmarks, mcpIndex, wristIndex);
   
   // When curled, tip is close to or behind MCP relative to wrist
   // Ratio: tipToWrist / mcpToWrist < threshold means curled
@@ -65,15 +110,14 @@ function isFingerCurled(
  * Check if thumb is curled using its unique anatomy
  * Thumb curls across the palm, so we check if tip is close to index MCP
  */
-function isThumbCurled(landmarks: Landmark[], threshold: number): boolean {
-  const thumbTip = landmarks[HAND_LANDMARKS.THUMB_TIP];
-  const thumbMcp = landmarks[HAND_LANDMARKS.THUMB_MCP];
-  const indexMcp = landmarks[HAND_LANDMARKS.INDEX_FINGER_MCP];
-  const wrist = landmarks[HAND_LANDMARKS.WRIST];
-  
+function isThumbCurled(landmarks: LandmarkAccessor, threshold: number): boolean {
   // Check if thumb tip is close to palm/index area
-  const tipToIndex = landmarkDistance(thumbTip, indexMcp);
-  const mcpToWrist = landmarkDistance(thumbMcp, wrist);
+  const tipToIndex = landmarkDistance(
+    landmarks,
+    HAND_LANDMARKS.THUMB_TIP,
+    HAND_LANDMARKS.INDEX_FINGER_MCP
+  );
+  const mcpToWrist = landmarkDistance(landmarks, HAND_LANDMARKS.THUMB_MCP, HAND_LANDMARKS.WRIST);
   
   // Thumb is curled if tip is close to index MCP
   return tipToIndex < mcpToWrist * threshold;
@@ -84,10 +128,11 @@ function isThumbCurled(landmarks: Landmark[], threshold: number): boolean {
  * A fist is detected when all or most fingers are curled toward the palm
  */
 export function detectFist(
-  landmarks: Landmark[],
+  hand: Landmark[] | LandmarkAccessor,
   config: FistDetectionConfig = DEFAULT_FIST_CONFIG
 ): boolean {
-  if (landmarks.length < 21) return false;
+  const landmarks = toAccessor(hand);
+  if (landmarks.count < 21) return false;
 
   const { curlThreshold, minCurledFingers } = config;
   let curledCount = 0;
@@ -119,9 +164,18 @@ export function detectFist(
  * Returns the hand index that made a fist, or -1 if no fist detected
  */
 export function detectFistInHands(
-  hands: HandLandmarks[],
+  hands: HandLandmarks[] | LandmarkFrame,
   config?: FistDetectionConfig
 ): number {
+  if (!Array.isArray(hands)) {
+    for (let i = 0; i < hands.handCount; i++) {
+      if (detectFist(hands.hand(i, frameAccessor), config)) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
   for (let i = 0; i < hands.length; i++) {
     if (detectFist(hands[i].landmarks, config)) {
       return i;
@@ -130,6 +184,271 @@ export function detectFistInHands(
   return -1;
 }
 
+// ============================================================================
+// Gesture classifiers
+// ============================================================================
+
+/**
+ * Built-in gestures
+ * - fist: all or most fingers curled (detectFist as a score)
+ * - openPalm: all five fingers extended
+ * - point: index extended, middle, ring and pinky curled
+ * - pinch: thumb and index tips touching (also part of ok)
+ * - peace: index and middle extended and spread, ring and pinky curled
+ * - thumbsUp: thumb extended upward, the other fingers curled
+ * - ok: thumb and index tips touching, the other fingers extended
+ * - rock: index and pinky extended, middle and ring curled
+ */
+export type GestureName =
+  | 'fist'
+  | 'openPalm'
+  | 'point'
+  | 'pinch'
+  | 'peace'
+  | 'thumbsUp'
+  | 'ok'
+  | 'rock';
+
+/**
+ * Scores how clearly a hand shows a gesture
+ * @param hand 21 hand landmarks
+ * @returns Confidence from 0 (not shown) to 1 (clearly shown)
+ */
+export type GestureClassifier = (hand: LandmarkAccessor) => number;
+
+// Tip-to-wrist / MCP-to-wrist ratio of a fully curled and a fully extended finger
+const FINGER_CURLED_RATIO = 1.0;
+const FINGER_EXTENDED_RATIO = 1.5;
+
+// Thumb tip to index MCP, in thumb MCP-to-wrist lengths, tucked and extended
+const THUMB_TUCKED_RATIO = 0.6;
+const THUMB_EXTENDED_RATIO = 0.9;
+
+// Thumb-to-index tip distance (palm sizes) of a closed and an open pinch
+const PINCH_CLOSED_DISTANCE = 0.1;
+const PINCH_OPEN_DISTANCE = 0.3;
+
+// Cosine of the angle between index and middle finger, together and spread in a V
+const PEACE_TOGETHER_COS = Math.cos(0.15);
+const PEACE_SPREAD_COS = Math.cos(0.35);
+
+// Upward share of the thumb's direction (0-1) from sideways to clearly up
+const THUMB_SIDEWAYS = 0.4;
+const THUMB_UPRIGHT = 0.8;
+
+// Half the band around the fist curl threshold over which a finger goes from curled to not
+const FIST_CURL_BAND = 0.15;
+
+// Tip and MCP of the index, middle, ring and pinky fingers
+const FIST_FINGER_TIPS = [
+  HAND_LANDMARKS.INDEX_FINGER_TIP,
+  HAND_LANDMARKS.MIDDLE_FINGER_TIP,
+  HAND_LANDMARKS.RING_FINGER_TIP,
+  HAND_LANDMARKS.PINKY_TIP,
+] as const;
+const FIST_FINGER_MCPS = [
+  HAND_LANDMARKS.INDEX_FINGER_MCP,
+  HAND_LANDMARKS.MIDDLE_FINGER_MCP,
+  HAND_LANDMARKS.RING_FINGER_MCP,
+  HAND_LANDMARKS.PINKY_MCP,
+] as const;
+
+// PERF: curl per finger plus the thumb, reused by classifyFist
+const fistCurls = new Float64Array(FIST_FINGER_TIPS.length + 1);
+
+/**
+ * Hermite step from 0 at edge0 to 1 at edge1 (edge0 may be above edge1)
+ */
+function smoothstep(edge0: number, edge1: number, value: number): number {
+  const t = Math.max(0, Math.min(1, (value - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * Wrist to middle finger MCP, the reference length gestures are measured in
+ */
+function palmSize(landmarks: LandmarkAccessor): number {
+  return Math.max(
+    1e-6,
+    landmarkDistance(landmarks, HAND_LANDMARKS.WRIST, HAND_LANDMARKS.MIDDLE_FINGER_MCP)
+  );
+}
+
+/**
+ * How extended a finger is (0 = curled into the palm, 1 = straight)
+ */
+function fingerExtension(landmarks: LandmarkAccessor, tipIndex: number, mcpIndex: number): number {
+  const tipToWrist = landmarkDistance(landmarks, tipIndex, HAND_LANDMARKS.WRIST);
+  const mcpToWrist = Math.max(1e-6, landmarkDistance(landmarks, mcpIndex, HAND_LANDMARKS.WRIST));
+  return smoothstep(FINGER_CURLED_RATIO, FINGER_EXTENDED_RATIO, tipToWrist / mcpToWrist);
+}
+
+/**
+ * How far the thumb is out from the palm (0 = tucked against the index MCP, 1 = out)
+ */
+function thumbExtension(landmarks: LandmarkAccessor): number {
+  const tipToIndex = landmarkDistance(
+    landmarks,
+    HAND_LANDMARKS.THUMB_TIP,
+    HAND_LANDMARKS.INDEX_FINGER_MCP
+  );
+  const mcpToWrist = Math.max(
+    1e-6,
+    landmarkDistance(landmarks, HAND_LANDMARKS.THUMB_MCP, HAND_LANDMARKS.WRIST)
+  );
+  return smoothstep(THUMB_TUCKED_RATIO, THUMB_EXTENDED_RATIO, tipToIndex / mcpToWrist);
+}
+
+/**
+ * Extension of the index, middle, ring and pinky fingers
+ */
+function fingerExtensions(landmarks: LandmarkAccessor): [number, number, number, number] {
+  return [
+    fingerExtension(landmarks, HAND_LANDMARKS.INDEX_FINGER_TIP, HAND_LANDMARKS.INDEX_FINGER_MCP),
+    fingerExtension(landmarks, HAND_LANDMARKS.MIDDLE_FINGER_TIP, HAND_LANDMARKS.MIDDLE_FINGER_MCP),
+    fingerExtension(landmarks, HAND_LANDMARKS.RING_FINGER_TIP, HAND_LANDMARKS.RING_FINGER_MCP),
+    fingerExtension(landmarks, HAND_LANDMARKS.PINKY_TIP, HAND_LANDMARKS.PINKY_MCP),
+  ];
+}
+
+/**
+ * Thumb-to-index tip distance in palm sizes (about 0.1 when the tips touch,
+ * over 1 with the hand open)
+ */
+export function getPinchDistance(hand: Landmark[] | LandmarkAccessor): number {
+  const landmarks = toAccessor(hand);
+  if (landmarks.count < 21) return Infinity;
+  return (
+    landmarkDistance(landmarks, HAND_LANDMARKS.THUMB_TIP, HAND_LANDMARKS.INDEX_FINGER_TIP) /
+    palmSize(landmarks)
+  );
+}
+
+/**
+ * How closed the thumb-index pinch is (0-1)
+ */
+function pinchClosure(landmarks: LandmarkAccessor): number {
+  return smoothstep(PINCH_OPEN_DISTANCE, PINCH_CLOSED_DISTANCE, getPinchDistance(landmarks));
+}
+
+/**
+ * Fist score: detectFist with soft thresholds, so it crosses 0.5 where
+ * detectFist flips (the minCurledFingers-th most curled finger decides)
+ */
+export function classifyFist(
+  hand: Landmark[] | LandmarkAccessor,
+  config: FistDetectionConfig = DEFAULT_FIST_CONFIG
+): number {
+  const landmarks = toAccessor(hand);
+  if (landmarks.count < 21) return 0;
+
+  const { curlThreshold, minCurledFingers } = config;
+  const curledBelow = curlThreshold - FIST_CURL_BAND;
+  const curledAbove = curlThreshold + FIST_CURL_BAND;
+  const wrist = HAND_LANDMARKS.WRIST;
+  const curls = fistCurls;
+
+  // Same ratios isFingerCurled and isThumbCurled compare against the threshold
+  for (let f = 0; f < FIST_FINGER_TIPS.length; f++) {
+    const ratio =
+      landmarkDistance(landmarks, FIST_FINGER_TIPS[f], wrist) /
+      Math.max(1e-6, landmarkDistance(landmarks, FIST_FINGER_MCPS[f], wrist));
+    curls[f] = smoothstep(curledAbove, curledBelow, ratio);
+  }
+  const thumbRatio =
+    landmarkDistance(landmarks, HAND_LANDMARKS.THUMB_TIP, HAND_LANDMARKS.INDEX_FINGER_MCP) /
+    Math.max(1e-6, landmarkDistance(landmarks, HAND_LANDMARKS.THUMB_MCP, wrist));
+  curls[FIST_FINGER_TIPS.length] = smoothstep(curledAbove, curledBelow, thumbRatio);
+
+  // Ascending, so the minCurledFingers-th most curled is counted from the end
+  curls.sort();
+  const required = Math.max(1, Math.min(curls.length, minCurledFingers));
+  return curls[curls.length - required];
+}
+
+function classifyOpenPalm(landmarks: LandmarkAccessor): number {
+  const [index, middle, ring, pinky] = fingerExtensions(landmarks);
+
+  // A pinch can leave every finger extended enough, so its closure counts against the palm
+  const fingers = Math.min(index, middle, ring, pinky, thumbExtension(landmarks));
+  return Math.min(fingers, 1 - pinchClosure(landmarks));
+}
+
+function classifyPoint(landmarks: LandmarkAccessor): number {
+  const [index, middle, ring, pinky] = fingerExtensions(landmarks);
+  return Math.min(index, 1 - middle, 1 - ring, 1 - pinky);
+}
+
+function classifyPinch(landmarks: LandmarkAccessor): number {
+  return pinchClosure(landmarks);
+}
+
+function classifyPeace(landmarks: LandmarkAccessor): number {
+  const [index, middle, ring, pinky] = fingerExtensions(landmarks);
+
+  // Angle between the index and middle finger (MCP to tip)
+  const { INDEX_FINGER_MCP, INDEX_FINGER_TIP, MIDDLE_FINGER_MCP, MIDDLE_FINGER_TIP } =
+    HAND_LANDMARKS;
+  const ix = landmarks.x(INDEX_FINGER_TIP) - landmarks.x(INDEX_FINGER_MCP);
+  const iy = landmarks.y(INDEX_FINGER_TIP) - landmarks.y(INDEX_FINGER_MCP);
+  const mx = landmarks.x(MIDDLE_FINGER_TIP) - landmarks.x(MIDDLE_FINGER_MCP);
+  const my = landmarks.y(MIDDLE_FINGER_TIP) - landmarks.y(MIDDLE_FINGER_MCP);
+  const cos = (ix * mx + iy * my) / Math.max(1e-6, Math.hypot(ix, iy) * Math.hypot(mx, my));
+  const spread = smoothstep(PEACE_TOGETHER_COS, PEACE_SPREAD_COS, cos);
+
+  return Math.min(index, middle, 1 - ring, 1 - pinky, spread);
+}
+
+function classifyThumbsUp(landmarks: LandmarkAccessor): number {
+  const [index, middle, ring, pinky] = fingerExtensions(landmarks);
+
+  // Thumb direction (MCP to tip); image y points down
+  const dx = landmarks.x(HAND_LANDMARKS.THUMB_TIP) - landmarks.x(HAND_LANDMARKS.THUMB_MCP);
+  const dy = landmarks.y(HAND_LANDMARKS.THUMB_TIP) - landmarks.y(HAND_LANDMARKS.THUMB_MCP);
+  const upShare = -dy / Math.max(1e-6, Math.hypot(dx, dy));
+  const upright = smoothstep(THUMB_SIDEWAYS, THUMB_UPRIGHT, upShare);
+
+  return Math.min(thumbExtension(landmarks), upright, 1 - index, 1 - middle, 1 - ring, 1 - pinky);
+}
+
+function classifyOk(landmarks: LandmarkAccessor): number {
+  const [, middle, ring, pinky] = fingerExtensions(landmarks);
+  return Math.min(pinchClosure(landmarks), middle, ring, pinky);
+}
+
+function classifyRock(landmarks: LandmarkAccessor): number {
+  const [index, middle, ring, pinky] = fingerExtensions(landmarks);
+  return Math.min(index, pinky, 1 - middle, 1 - ring);
+}
+
+/**
+ * Classifiers of the built-in gestures (the hand has at least 21 landmarks)
+ */
+export const GESTURE_CLASSIFIERS: Readonly<Record<GestureName, GestureClassifier>> = {
+  fist: (landmarks) => classifyFist(landmarks),
+  openPalm: classifyOpenPalm,
+  point: classifyPoint,
+  pinch: classifyPinch,
+  peace: classifyPeace,
+  thumbsUp: classifyThumbsUp,
+  ok: classifyOk,
+  rock: classifyRock,
+};
+
+/**
+ * Score a built-in gesture on one hand
+ * @returns Confidence (0-1), 0 when the hand has fewer than 21 landmarks
+ */
+export function classifyGesture(name: GestureName, hand: Landmark[] | LandmarkAccessor): number {
+  const landmarks = toAccessor(hand);
+  if (landmarks.count < 21) return 0;
+  return GESTURE_CLASSIFIERS[name](landmarks);
+}
+
+// ============================================================================
+// Fist state (single-gesture form of GestureEngine)
+// ============================================================================
+
 /**
  * Gesture state for tracking fist transitions
  */
@@ -159,7 +478,7 @@ export const INITIAL_FIST_STATE: FistGestureState = {
  * Returns the new state and whether a "fist released" event occurred
  */
 export function processFistGesture(
-  hands: HandLandmarks[],
+  hands: HandLandmarks[] | LandmarkFrame,
   prevState: FistGestureState,
   timestamp: number,
   config?: FistDetectionConfig
@@ -0,0 +1,173 @@
+/**
+ * MediaPipe asset configuration
+ * Resolves the WASM fileset and model files (self-hosted from public/ by default)
+ * and verifies them against the pinned @mediapipe/tasks-vision version
+ */
+
+/**
+ * Version of @mediapipe/tasks-vision the app is built against (pinned exactly in
+ * package.json, inlined at build time through next.config)
+ */
+export const MEDIAPIPE_VERSION: string = process.env.MEDIAPIPE_VERSION ?? "";
+
+/**
+ * Models loaded by the tracking provider (pose only when body tracking is on,
+ * segmenter only when segmentation is on)
+ */
+export type MediaPipeModelName = "hand" | "face" | "pose" | "segmenter";
+
+export interface MediaPipeAssetConfig {
+  /** Base URL that relative asset paths resolve against */
+  baseUrl: string;
+  /** WASM fileset directory (relative to baseUrl, or absolute) */
+  wasmPath: string;
+  /** Model file per landmarker (relative to baseUrl, or absolute) */
+  models: Record<MediaPipeModelName, string>;
+  /** tasks-vision version the served assets must match */
+  version: string;
+  /** Asset manifest with version and checksums (relative to baseUrl), null to skip verification */
+  manifestPath: string | null;
+}
+
+/**
+ * Default configuration: assets served by the Next app from public/mediapipe,
+ * populated by `npm run mediapipe:assets`
+ */
+export const DEFAULT_MEDIAPIPE_ASSETS: MediaPipeAssetConfig = {
+  baseUrl: "/mediapipe",
+  wasmPath: "wasm",
+  models: {
+    hand: "models/hand_landmarker.task",
+    face: "models/face_landmarker.task",
+    pose: "models/pose_landmarker_lite.task",
+    segmenter: "models/selfie_segmenter.task",
+  },
+  version: MEDIAPIPE_VERSION,
+  manifestPath: "manifest.json",
+};
+
+/**
+ * Manifest written next to the self-hosted assets
+ */
+export interface MediaPipeAssetManifest {
+  /** tasks-vision version the WASM fileset was copied from */
+  version: string;
+  /** SHA-256 hex digest per file, keyed by path relative to baseUrl */
+  files: Record<string, string>;
+}
+
+/**
+ * Model location passed to MediaPipe baseOptions
+ * Verified models are handed over as a buffer so they are only fetched once
+ */
+export type ModelAssetOptions = { modelAssetPath: string } | { modelAssetBuffer: Uint8Array };
+
+/**
+ * Raised when self-hosted assets are missing or do not match the pinned version
+ * The message is user-facing and surfaced through the provider's error state
+ */
+export class MediaPipeAssetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MediaPipeAssetError";
+  }
+}
+
+/**
+ * Merge partial overrides with the default asset configuration
+ */
+export function resolveAssetConfig(
+  overrides: Partial<MediaPipeAssetConfig> = {}
+): MediaPipeAssetConfig {
+  return {
+    ...DEFAULT_MEDIAPIPE_ASSETS,
+    ...overrides,
+    models: { ...DEFAULT_MEDIAPIPE_ASSETS.models, ...overrides.models },
+  };
+}
+
+/**
+ * Resolve an asset path against the configured base URL
+ * Absolute URLs and root-relative paths are returned unchanged
+ */
+export function resolveAssetUrl(config: MediaPipeAssetConfig, path: string): string {
+  if (/^[a-z][a-z\d+.-]*:/i.test(path) || path.startsWith("/")) {
+    return path;
+  }
+  return `${config.baseUrl.replace(/\/+$/, "")}/${path}`;
+}
+
+/**
+ * Fetch the asset manifest and check it against the expected version
+ * @returns The manifest, or null when verification is disabled
+ */
+export async function loadAssetManifest(
+  config: MediaPipeAssetConfig
+): Promise<MediaPipeAssetManifest | null> {
+  if (!config.manifestPath) return null;
+
+  const url = resolveAssetUrl(config, config.manifestPath);
+  let response: Response;
+  try {
+    response = await fetch(url, { cache: "no-cache" });
+  } catch {
+    throw new MediaPipeAssetError(`Could not reach MediaPipe assets at ${url}`);
+  }
+
+  if (!response.ok) {
+    throw new MediaPipeAssetError(
+      `MediaPipe assets not found at ${url} - run "npm run mediapipe:assets"`
+    );
+  }
+
+  const manifest = (await response.json()) as MediaPipeAssetManifest;
+  if (manifest.version !== config.version) {
+    throw new MediaPipeAssetError(
+      `MediaPipe assets are version ${manifest.version}, expected ${config.version}`
+    );
+  }
+
+  return manifest;
+}
+
+/**
+ * Hex-encoded SHA-256 digest of a buffer
+ */
+async function sha256Hex(buffer: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", buffer);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Get baseOptions model fields for a landmarker
+ * When the manifest lists a checksum for the model, the file is fetched and verified first
+ */
+export async function loadModelAsset(
+  config: MediaPipeAssetConfig,
+  model: MediaPipeModelName,
+  manifest: MediaPipeAssetManifest | null
+): Promise<ModelAssetOptions> {
+  const path = config.models[model];
+  const url = resolveAssetUrl(config, path);
+  const expected = manifest?.files[path];
+
+  // Nothing to verify against (or no SubtleCrypto outside secure contexts)
+  if (!expected || typeof crypto === "undefined" || !crypto.subtle) {
+    return { modelAssetPath: url };
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new MediaPipeAssetError(`MediaPipe ${model} model not found at ${url}`);
+  }
+
+  const buffer = await response.arrayBuffer();
+  const actual = await sha256Hex(buffer);
+  if (actual !== expected) {
+    throw new MediaPipeAssetError(
+      `MediaPipe ${model} model checksum mismatch (${path}) - re-run "npm run mediapipe:assets"`
+    );
+  }
+
+  return { modelAssetBuffer: new Uint8Array(buffer) };
+}
@@ -0,0 +1,48 @@
+/**
+ * Session file helpers - Browser I/O for recorded tracking sessions
+ * (reading dropped/picked files, fetching by URL, triggering downloads)
+ */
+
+import {
+  decodeSession,
+  SESSION_FILE_EXTENSION,
+  type SessionRecorder,
+  type TrackingSession,
+} from "@/core/tracking";
+
+/**
+ * Decode a session from a picked or dropped file
+ * @throws SessionFormatError when the file is not a valid session
+ */
+export async function readSessionFile(file: Blob): Promise<TrackingSession> {
+  return decodeSession(await file.arrayBuffer());
+}
+
+/**
+ * Fetch and decode a session from a URL
+ */
+export async function fetchSession(url: string): Promise<TrackingSession> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load session ${url}: ${response.status} ${response.statusText}`);
+  }
+  return decodeSession(await response.arrayBuffer());
+}
+
+/**
+ * Save a recorder's frames as a session file via a temporary download link
+ */
+export function downloadSession(recorder: SessionRecorder, createdAt = new Date()): void {
+  const stamp = createdAt.toISOString().replace(/[:.]/g, "-");
+  const url = URL.createObjectURL(recorder.toBlob());
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `particle-vision-${stamp}${SESSION_FILE_EXTENSION}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Give the browser a tick to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
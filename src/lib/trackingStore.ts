@@ -0,0 +1,65 @@
+/**
+ * TrackingStore - Latest tracking result as an external store
+ * Frames arrive at camera rate; consumers read them through subscribe/getSnapshot
+ * (useSyncExternalStore, render loops) instead of React state, so only the
+ * components whose selected slice changes re-render
+ */
+
+import type { TrackingResult } from './types';
+import { countFaces, countHands } from '@/core/tracking/LandmarkFrame';
+
+/**
+ * Picks the part of the latest result a consumer displays
+ */
+export type TrackingSelector<T> = (result: TrackingResult | null) => T;
+
+export class TrackingStore {
+  private result: TrackingResult | null = null;
+  private listeners: Set<() => void> = new Set();
+
+  /**
+   * Subscribe to new results (bound, so it can be passed around)
+   * @returns Unsubscribe function
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  /**
+   * Latest result (null before the first frame and after tracking stops)
+   */
+  getSnapshot = (): TrackingResult | null => {
+    return this.result;
+  };
+
+  /**
+   * Replace the latest result and notify subscribers
+   */
+  setResult(result: TrackingResult | null): void {
+    if (result === this.result) return;
+    this.result = result;
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
+
+/** Number of tracked hands */
+export const selectHandCount: TrackingSelector<number> = (result) =>
+  result ? countHands(result) : 0;
+
+/** Number of tracked faces */
+export const selectFaceCount: TrackingSelector<number> = (result) =>
+  result ? countFaces(result) : 0;
+
+/** Whether a face is tracked */
+export const selectFacePresent: TrackingSelector<boolean> = (result) =>
+  !!result && countFaces(result) > 0;
+
+/** Whether any result has arrived since tracking started */
+export const selectHasResult: TrackingSelector<boolean> = (result) => result !== null;
+
+/** Aspect ratio of the tracked image (undefined when the source does not report it) */
+export const selectImageAspect: TrackingSelector<number | undefined> = (result) =>
+  result?.imageAspect;
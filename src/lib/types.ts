@@ -2,6 +2,8 @@
  * Shared types for MediaPipe tracking
  */
 
+import type { LandmarkFrame } from "@/core/tracking/LandmarkFrame";
+
 export interface Landmark {
   x: number;
   y: number;
@@ -9,6 +11,18 @@ export interface Landmark {
   visibility?: number;
 }
 
+/**
+ * Read-only view of a run of landmarks (e.g. one hand in a LandmarkFrame)
+ * without a Landmark object per point
+ */
+export interface LandmarkAccessor {
+  readonly count: number;
+  x(index: number): number;
+  y(index: number): number;
+  z(index: number): number;
+  visibility(index: number): number;
+}
+
 export interface HandLandmarks {
   landmarks: Landmark[];
   worldLandmarks: Landmark[];
@@ -17,14 +31,126 @@ export interface HandLandmarks {
 
 export interface FaceLandmarks {
   landmarks: Landmark[];
+  /** Expression coefficients (only when blendshapes are enabled) */
+  blendshapes?: FaceBlendshapes;
+  /** Head orientation and position (only when head pose is enabled) */
+  headPose?: HeadPose;
+  /** Where the face is looking (only when the landmarks include the irises) */
+  gaze?: Gaze;
+}
+
+export interface BodyLandmarks {
+  /** 33 pose landmarks in normalized image coordinates (see POSE_LANDMARKS) */
+  landmarks: Landmark[];
+  /** The same landmarks in meters, centered between the hips */
+  worldLandmarks: Landmark[];
+}
+
+/**
+ * Head pose in MediaPipe's metric camera space (x right, y up, z toward the
+ * viewer, unmirrored camera image)
+ */
+export interface HeadPose {
+  /** Turn left/right in radians (> 0: nose toward the image's right) */
+  yaw: number;
+  /** Nod up/down in radians (> 0: nose tilted down) */
+  pitch: number;
+  /** Tilt in the image plane in radians (> 0: counterclockwise in the image) */
+  roll: number;
+  /** Head position relative to the camera in centimeters (z < 0 in front of it) */
+  translation: { x: number; y: number; z: number };
+}
+
+/**
+ * Gaze estimated from the iris landmarks
+ */
+export interface Gaze {
+  /**
+   * Unit gaze direction in landmark axes (x toward the image's right, y down,
+   * z away from the camera): looking straight into the camera is (0, 0, -1)
+   */
+  direction: { x: number; y: number; z: number };
+  /**
+   * Where the gaze lands in normalized image coordinates (clamped to 0-1);
+   * map it like a landmark to place it on screen
+   */
+  point: { x: number; y: number };
+}
+
+// MediaPipe face blendshape categories (ARKit names plus _neutral), in model output order
+export const FACE_BLENDSHAPE_NAMES = [
+  "_neutral",
+  "browDownLeft", "browDownRight", "browInnerUp", "browOuterUpLeft", "browOuterUpRight",
+  "cheekPuff", "cheekSquintLeft", "cheekSquintRight",
+  "eyeBlinkLeft", "eyeBlinkRight",
+  "eyeLookDownLeft", "eyeLookDownRight", "eyeLookInLeft", "eyeLookInRight",
+  "eyeLookOutLeft", "eyeLookOutRight", "eyeLookUpLeft", "eyeLookUpRight",
+  "eyeSquintLeft", "eyeSquintRight", "eyeWideLeft", "eyeWideRight",
+  "jawForward", "jawLeft", "jawOpen", "jawRight",
+  "mouthClose", "mouthDimpleLeft", "mouthDimpleRight", "mouthFrownLeft", "mouthFrownRight",
+  "mouthFunnel", "mouthLeft", "mouthLowerDownLeft", "mouthLowerDownRight",
+  "mouthPressLeft", "mouthPressRight", "mouthPucker", "mouthRight",
+  "mouthRollLower", "mouthRollUpper", "mouthShrugLower", "mouthShrugUpper",
+  "mouthSmileLeft", "mouthSmileRight", "mouthStretchLeft", "mouthStretchRight",
+  "mouthUpperUpLeft", "mouthUpperUpRight",
+  "noseSneerLeft", "noseSneerRight",
+] as const;
+
+export type FaceBlendshapeName = (typeof FACE_BLENDSHAPE_NAMES)[number];
+
+/** Blendshape scores (0-1) by category name */
+export type FaceBlendshapes = Record<FaceBlendshapeName, number>;
+
+/**
+ * Build a full blendshape record (unspecified categories are 0)
+ */
+export function createFaceBlendshapes(
+  scores: Partial<FaceBlendshapes> = {}
+): FaceBlendshapes {
+  const blendshapes = {} as FaceBlendshapes;
+  for (const name of FACE_BLENDSHAPE_NAMES) {
+    blendshapes[name] = scores[name] ?? 0;
+  }
+  return blendshapes;
 }
 
 export interface TrackingResult {
   hands: HandLandmarks[];
+  /** Every tracked face, in detection order */
+  faces: FaceLandmarks[];
+  /** First tracked face (single-face view of faces[0]) */
   face: FaceLandmarks | null;
+  /** Tracked body (null when no one is in view or body tracking is off) */
+  body: BodyLandmarks | null;
+  /** Person mask (null when segmentation is off) */
+  segmentation: SegmentationMask | null;
   timestamp: number;
+  /** Width / height of the analyzed image (absent when the source does not know it) */
+  imageAspect?: number;
+  /**
+   * Typed-array frame the result is a view of (MediaPipe results only)
+   * Valid until the next result arrives; read it instead of the landmark
+   * arrays on hot paths
+   */
+  frame?: LandmarkFrame;
 }
 
+/**
+ * Downsampled person segmentation mask
+ * Row-major confidences (0-1) over the unmirrored camera image
+ */
+export interface SegmentationMask {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+/** Upper bound for simultaneously tracked hands */
+export const MAX_TRACKED_HANDS = 6;
+
+/** Upper bound for simultaneously tracked faces */
+export const MAX_TRACKED_FACES = 4;
+
 // Deprecated: kept for backward compatibility
 export interface HandTrackingResult {
   hands: HandLandmarks[];
@@ -72,6 +198,56 @@ export const HAND_CONNECTIONS: [number, number][] = [
   [5, 9], [9, 13], [13, 17],
 ];
 
+// MediaPipe pose landmark indices
+export const POSE_LANDMARKS = {
+  NOSE: 0,
+  LEFT_EYE_INNER: 1,
+  LEFT_EYE: 2,
+  LEFT_EYE_OUTER: 3,
+  RIGHT_EYE_INNER: 4,
+  RIGHT_EYE: 5,
+  RIGHT_EYE_OUTER: 6,
+  LEFT_EAR: 7,
+  RIGHT_EAR: 8,
+  MOUTH_LEFT: 9,
+  MOUTH_RIGHT: 10,
+  LEFT_SHOULDER: 11,
+  RIGHT_SHOULDER: 12,
+  LEFT_ELBOW: 13,
+  RIGHT_ELBOW: 14,
+  LEFT_WRIST: 15,
+  RIGHT_WRIST: 16,
+  LEFT_PINKY: 17,
+  RIGHT_PINKY: 18,
+  LEFT_INDEX: 19,
+  RIGHT_INDEX: 20,
+  LEFT_THUMB: 21,
+  RIGHT_THUMB: 22,
+  LEFT_HIP: 23,
+  RIGHT_HIP: 24,
+  LEFT_KNEE: 25,
+  RIGHT_KNEE: 26,
+  LEFT_ANKLE: 27,
+  RIGHT_ANKLE: 28,
+  LEFT_HEEL: 29,
+  RIGHT_HEEL: 30,
+  LEFT_FOOT_INDEX: 31,
+  RIGHT_FOOT_INDEX: 32,
+} as const;
+
+/** Landmarks per body */
+export const POSE_LANDMARK_COUNT = 33;
+
+// Body skeleton connections (arms, torso, legs)
+export const POSE_CONNECTIONS: [number, number][] = [
+  // Arms
+  [11, 13], [13, 15], [12, 14], [14, 16],
+  // Torso
+  [11, 12], [11, 23], [12, 24], [23, 24],
+  // Legs
+  [23, 25], [25, 27], [24, 26], [26, 28],
+];
+
 // Face mesh connections by region
 export const FACE_OVAL = [
   10, 338, 297, 332, 284, 251, 389, 356, 454, 323, 361, 288,
@@ -87,6 +263,14 @@ export const RIGHT_EYE = [
   362, 382, 381, 380, 374, 373, 390, 249, 263, 466, 388, 387, 386, 385, 384, 398
 ];
 
+/** Face mesh landmarks (478-point results append the iris landmarks) */
+export const FACE_MESH_LANDMARK_COUNT = 468;
+
+// Iris landmarks, center first, on the same image side as LEFT_EYE / RIGHT_EYE
+export const LEFT_IRIS = [468, 469, 470, 471, 472];
+
+export const RIGHT_IRIS = [473, 474, 475, 476, 477];
+
 export const LIPS_OUTER = [
   61, 146, 91, 181, 84, 17, 314, 405, 321, 375, 291, 308, 324, 318, 402, 317, 14, 87, 178, 88, 95
 ];
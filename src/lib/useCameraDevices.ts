@@ -0,0 +1,52 @@
+'use client';
+
+/**
+ * useCameraDevices - Live list of available cameras
+ * Refreshes when cameras are plugged in or unplugged (devicechange)
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { listCameras } from '@/lib/cameraDevices';
+
+export interface CameraDevicesState {
+  /** Available cameras (labels appear once camera permission is granted) */
+  cameras: MediaDeviceInfo[];
+  /** Re-read the device list (e.g. after permission was granted) */
+  refresh: () => void;
+}
+
+/**
+ * Hook listing video input devices
+ * @param onChange Called with every newly read device list
+ */
+export function useCameraDevices(
+  onChange?: (cameras: MediaDeviceInfo[]) => void
+): CameraDevicesState {
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const onChangeRef = useRef(onChange);
+
+  // Keep callback ref updated
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  const refresh = useCallback(() => {
+    listCameras()
+      .then((devices) => {
+        setCameras(devices);
+        onChangeRef.current?.(devices);
+      })
+      .catch((err) => console.error('Camera enumeration error:', err));
+  }, []);
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices) return;
+
+    refresh();
+    mediaDevices.addEventListener('devicechange', refresh);
+    return () => mediaDevices.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  return { cameras, refresh };
+}
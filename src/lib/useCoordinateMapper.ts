@@ -0,0 +1,28 @@
+'use client';
+
+/**
+ * useCoordinateMapper - Coordinate mapper for a drawing surface of a given size
+ * Recreated only when the mapping, the size or the image aspect changes
+ */
+
+import { useMemo } from 'react';
+import { CoordinateMapper, type CoordinateMapping } from '@/core/coordinates';
+
+/**
+ * Hook mapping normalized landmarks onto a width x height surface
+ * @param mapping Mapping settings (defaults: mirrored, cover fit, whole image)
+ * @param imageAspect Width / height of the tracked image, when known
+ */
+export function useCoordinateMapper(
+  mapping: Partial<CoordinateMapping> | undefined,
+  width: number,
+  height: number,
+  imageAspect?: number
+): CoordinateMapper {
+  return useMemo(() => {
+    const mapper = new CoordinateMapper(mapping);
+    if (imageAspect) mapper.setSourceAspect(imageAspect);
+    mapper.setTargetSize(width, height);
+    return mapper;
+  }, [mapping, width, height, imageAspect]);
+}
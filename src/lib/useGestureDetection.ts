@@ -1,18 +1,15 @@
 /**
  * useGestureDetection Hook
- * React hook for detecting fist gestures and triggering theme cycling
+ * React hook that runs a GestureEngine on the tracking results and cycles
+ * the theme when a fist is released
  */
 
 'use client';
 
-import { useRef, useEffect, useSyncExternalStore } from 'react';
-import type { TrackingResult } from './types';
-import {
-  processFistGesture,
-  INITIAL_FIST_STATE,
-  type FistGestureState,
-  type FistDetectionConfig,
-} from './gestures';
+import { useRef, useEffect, useState, useSyncExternalStore } from 'react';
+import type { TrackingStore } from './trackingStore';
+import { classifyFist, type FistDetectionConfig } from './gestures';
+import { GestureEngine, type GestureEvent } from './gestureEngine';
 import { cycleTheme, type ColorTheme } from '@/core/themes';
 
 /**
@@ -27,6 +24,8 @@ export interface UseGestureDetectionConfig {
   fistConfig?: FistDetectionConfig;
   /** Callback when theme changes */
   onThemeChange?: (theme: ColorTheme) => void;
+  /** Callback for every gesture event (start/hold/end of any registered gesture) */
+  onGesture?: (event: GestureEvent) => void;
   /** Enable/disable gesture detection */
   enabled?: boolean;
 }
@@ -49,6 +48,8 @@ export interface GestureDetectionState {
   currentTheme: ColorTheme | null;
   /** Whether detection is in cooldown */
   inCooldown: boolean;
+  /** Engine the hook runs (register custom gestures on it) */
+  engine: GestureEngine;
 }
 
 // Store for fist detection state - allows external subscription
@@ -75,33 +76,41 @@ function updateStore(updates: Partial<typeof fistDetectionStore>) {
 }
 
 /**
- * Hook for detecting fist gestures and cycling themes
+ * Hook for detecting gestures and cycling themes on fist release
  * 
- * @param trackingResult - Current hand tracking result
+ * @param trackingStore - Store with the latest tracking result (read per frame without re-rendering)
  * @param config - Configuration options
  * @returns Gesture detection state
  */
 export function useGestureDetection(
-  trackingResult: TrackingResult | null,
+  trackingStore: TrackingStore,
   config: Partial<UseGestureDetectionConfig> = {}
 ): GestureDetectionState {
   const mergedConfig = { ...DEFAULT_CONFIG, ...config };
-  const { cooldownMs, feedbackDurationMs, fistConfig, onThemeChange, enabled } = mergedConfig;
+  const { cooldownMs, feedbackDurationMs, fistConfig, onThemeChange, onGesture, enabled } =
+    mergedConfig;
 
   // Subscribe to external store for fist detection state
   const store = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
 
-  // Refs for tracking gesture state machine
-  const fistStateRef = useRef<FistGestureState>(INITIAL_FIST_STATE);
+  // Engine with the built-in gestures (it owns the gesture state machines)
+  const [engine] = useState(() => new GestureEngine());
   const lastCycleTimeRef = useRef(0);
   const feedbackTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const cooldownTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const onThemeChangeRef = useRef(onThemeChange);
+  const onGestureRef = useRef(onGesture);
   
-  // Keep callback ref updated
+  // Keep callback refs updated
   useEffect(() => {
     onThemeChangeRef.current = onThemeChange;
-  }, [onThemeChange]);
+    onGestureRef.current = onGesture;
+  }, [onThemeChange, onGesture]);
+
+  // Score fists with the configured thresholds (re-registering keeps the fist state)
+  useEffect(() => {
+    engine.register({ name: 'fist', classify: (hand) => classifyFist(hand, fistConfig) });
+  }, [engine, fistConfig]);
 
   // Clear timeouts on unmount
   useEffect(() => {
@@ -111,38 +120,20 @@ export function useGestureDetection(
     };
   }, []);
 
-  // Process tracking result for gestures
+  // Process each tracking result for gestures
   useEffect(() => {
-    // No hands - reset fist state
-    if (!enabled || !trackingResult || trackingResult.hands.length === 0) {
-      if (fistStateRef.current.isFist) {
-        fistStateRef.current = INITIAL_FIST_STATE;
-        updateStore({ isFist: false });
-      }
-      return;
-    }
-
-    const now = performance.now();
-    
-    // Process fist gesture
-    const { state, released } = processFistGesture(
-      trackingResult.hands,
-      fistStateRef.current,
-      now,
-      fistConfig
-    );
-    
-    // Update ref and store if fist state changed
-    const prevFist = fistStateRef.current.isFist;
-    fistStateRef.current = state;
-    
-    if (state.isFist !== prevFist) {
-      updateStore({ isFist: state.isFist });
-    }
-
-    // Handle fist release - cycle theme
-    if (released && !store.inCooldown) {
+    const handleGesture = (event: GestureEvent) => {
+      onGestureRef.current?.(event);
+      if (event.gesture !== 'fist' || event.type === 'hold') return;
+
+      // Another hand may still hold a fist
+      updateStore({ isFist: engine.isActive('fist') });
+
+      // Fist released (not lost with its hand) - cycle theme
+      if (event.type !== 'end' || event.lost || store.inCooldown) return;
+
       // Check cooldown
+      const now = performance.now();
       const timeSinceLastCycle = now - lastCycleTimeRef.current;
       if (timeSinceLastCycle < cooldownMs) {
         return;
@@ -175,13 +166,34 @@ export function useGestureDetection(
       cooldownTimeoutRef.current = setTimeout(() => {
         updateStore({ inCooldown: false });
       }, cooldownMs);
-    }
-  }, [trackingResult, enabled, cooldownMs, feedbackDurationMs, fistConfig, store.inCooldown]);
+    };
+
+    const processResult = () => {
+      const trackingResult = trackingStore.getSnapshot();
+
+      // Disabled or tracking stopped - end all gestures (no more results will follow)
+      if (!enabled || !trackingResult) {
+        engine.reset();
+        return;
+      }
+
+      // Hands missing from a result end their gestures after the engine's end delay
+      engine.update(trackingResult.frame ?? trackingResult.hands, performance.now());
+    };
+
+    const unsubscribeGestures = engine.subscribe(handleGesture);
+    const unsubscribeTracking = trackingStore.subscribe(processResult);
+    return () => {
+      unsubscribeTracking();
+      unsubscribeGestures();
+    };
+  }, [engine, trackingStore, enabled, cooldownMs, feedbackDurationMs, store.inCooldown]);
 
   return {
     isFistDetected: store.isFist,
     showFeedback: store.showFeedback,
     currentTheme: store.lastTheme,
     inCooldown: store.inCooldown,
+    engine,
   };
 }
@@ -4,6 +4,9 @@
  * useKeyboardControls - Global keyboard shortcuts for particle system
  * SPACE: Toggle between Attract/Repel physics mode
  * V: Cycle to next color theme
+ * R: Start/stop session recording
+ * S: Toggle landmark smoothing
+ * M: Toggle mirroring
  */
 
 import { useEffect, useCallback } from 'react';
@@ -17,6 +20,12 @@ export interface UseKeyboardControlsOptions {
   onToggleMode: () => void;
   /** Callback when theme cycles (optional, for UI feedback) */
   onThemeCycle?: () => void;
+  /** Callback to start/stop session recording (optional) */
+  onToggleRecording?: () => void;
+  /** Callback to turn landmark smoothing on/off (optional) */
+  onToggleSmoothing?: () => void;
+  /** Callback to turn mirroring on/off (optional) */
+  onToggleMirror?: () => void;
   /** Whether keyboard controls are enabled */
   enabled?: boolean;
 }
@@ -26,12 +35,18 @@ export interface UseKeyboardControlsOptions {
  * 
  * - SPACE: Toggle physics mode (prevents default to avoid scroll)
  * - V: Cycle color theme
+ * - R: Toggle session recording
+ * - S: Toggle landmark smoothing
+ * - M: Toggle mirroring
  * 
  * Ignores events when focus is in text input fields.
  */
 export function useKeyboardControls({
   onToggleMode,
   onThemeCycle,
+  onToggleRecording,
+  onToggleSmoothing,
+  onToggleMirror,
   enabled = true,
 }: UseKeyboardControlsOptions): void {
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
@@ -58,8 +73,23 @@ export function useKeyboardControls({
         cycleTheme();
         onThemeCycle?.();
         break;
+
+      case 'r':
+      case 'R':
+        onToggleRecording?.();
+        break;
+
+      case 's':
+      case 'S':
+        onToggleSmoothing?.();
+        break;
+
+      case 'm':
+      case 'M':
+        onToggleMirror?.();
+        break;
     }
-  }, [enabled, onToggleMode, onThemeCycle]);
+  }, [enabled, onToggleMode, onThemeCycle, onToggleRecording, onToggleSmoothing, onToggleMirror]);
 
   useEffect(() => {
     if (!enabled) return;
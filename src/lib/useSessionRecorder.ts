@@ -0,0 +1,74 @@
+'use client';
+
+/**
+ * useSessionRecorder - Record the active tracking source to a session file
+ * Recording stops and downloads the file when toggled off
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { SessionRecorder, type TrackingSource } from '@/core/tracking';
+import { downloadSession } from '@/lib/sessionFiles';
+
+/** How often the elapsed time display refreshes while recording (ms) */
+const PROGRESS_INTERVAL_MS = 250;
+
+export interface SessionRecorderState {
+  /** Whether frames are being captured */
+  isRecording: boolean;
+  /** Captured duration in milliseconds */
+  durationMs: number;
+  /** Captured frame count */
+  frameCount: number;
+  /** Start recording, or stop and download the session */
+  toggleRecording: () => void;
+}
+
+/**
+ * Hook wrapping a SessionRecorder bound to a tracking source
+ */
+export function useSessionRecorder(source: TrackingSource): SessionRecorderState {
+  const [recorder] = useState(() => new SessionRecorder());
+  const [isRecording, setIsRecording] = useState(false);
+  const [startedAt, setStartedAt] = useState(() => new Date());
+  const [durationMs, setDurationMs] = useState(0);
+  const [frameCount, setFrameCount] = useState(0);
+
+  // Refresh progress while recording
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const interval = setInterval(() => {
+      setDurationMs(recorder.getDuration());
+      setFrameCount(recorder.getFrameCount());
+    }, PROGRESS_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isRecording, recorder]);
+
+  // Stop recording when the source changes or on unmount
+  useEffect(() => {
+    return () => {
+      recorder.stop();
+      setIsRecording(false);
+    };
+  }, [recorder, source]);
+
+  const toggleRecording = useCallback(() => {
+    if (recorder.isRecording()) {
+      recorder.stop();
+      setIsRecording(false);
+      if (recorder.getFrameCount() > 0) {
+        downloadSession(recorder, startedAt);
+      }
+      return;
+    }
+
+    recorder.start(source);
+    setStartedAt(new Date());
+    setDurationMs(0);
+    setFrameCount(0);
+    setIsRecording(true);
+  }, [recorder, source, startedAt]);
+
+  return { isRecording, durationMs, frameCount, toggleRecording };
+}
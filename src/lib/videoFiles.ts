@@ -0,0 +1,18 @@
+/**
+ * Video file helpers - Recognizing local video files that can be tracked
+ * instead of the camera (mp4/webm footage of a performance)
+ */
+
+/** File types offered by the video file picker */
+export const VIDEO_FILE_ACCEPT = "video/mp4,video/webm,.mp4,.webm,.mov";
+
+const VIDEO_FILE_EXTENSIONS = [".mp4", ".webm", ".mov"];
+
+/**
+ * Whether a picked or dropped file is a video (by MIME type, else extension)
+ */
+export function isVideoFile(file: File): boolean {
+  if (file.type) return file.type.startsWith("video/");
+  const name = file.name.toLowerCase();
+  return VIDEO_FILE_EXTENSIONS.some((extension) => name.endsWith(extension));
+}
@@ -0,0 +1,22 @@
+import { test, expect } from '@playwright/test';
+
+test.describe('Synthetic Demo', () => {
+  test('starts from the intro screen without a camera', async ({ page }) => {
+    await page.goto('/');
+    await page.waitForLoadState('networkidle');
+
+    await page.getByRole('button', { name: /Try the demo/ }).click();
+
+    // Synthetic landmarks flow through the same detection status as the webcam
+    await expect(page.getByRole('status', { name: 'Detection status' })).toContainText(
+      '2 hands + face detected'
+    );
+  });
+
+  test('?demo=<seed> starts the demo directly', async ({ page }) => {
+    await page.goto('/?demo=7');
+
+    await expect(page.getByRole('button', { name: /Try the demo/ })).toHaveCount(0);
+    await expect(page.locator('canvas').first()).toBeVisible();
+  });
+});
@@ -0,0 +1,64 @@
+import { test, expect } from '@playwright/test';
+import { encodeFrame, encodeSession } from '../../src/core/tracking/SessionFormat';
+
+/**
+ * Build a small session: one hand sweeping left to right over one second
+ */
+function buildSession(): Buffer {
+  const frames: Float32Array[] = [];
+  for (let i = 0; i < 30; i++) {
+    const offset = i / 30;
+    const landmarks = Array.from({ length: 21 }, (_, lm) => ({
+      x: 0.3 + offset * 0.4 + (lm % 5) * 0.01,
+      y: 0.4 + Math.floor(lm / 5) * 0.03,
+      z: 0,
+    }));
+    const timestamp = i * (1000 / 30);
+    frames.push(
+      encodeFrame(
+        {
+          hands: [{ landmarks, worldLandmarks: landmarks, handedness: 'Right' }],
+          faces: [],
+          face: null,
+          body: null,
+          segmentation: null,
+          timestamp,
+        },
+        timestamp
+      )
+    );
+  }
+  return Buffer.from(encodeSession(frames));
+}
+
+test.describe('Session Replay', () => {
+  test('replays a recording picked on the intro screen', async ({ page }) => {
+    await page.goto('/');
+    await page.waitForLoadState('networkidle');
+
+    await page.getByTestId('session-file-input').setInputFiles({
+      name: 'sweep.pvsession',
+      mimeType: 'application/x-particle-vision-session',
+      buffer: buildSession(),
+    });
+
+    // Canvas view with replay transport instead of the camera preview
+    const controls = page.getByRole('group', { name: 'Session replay controls' });
+    await expect(controls).toBeVisible();
+    await expect(page.getByRole('button', { name: 'Pause replay' })).toBeVisible();
+    await expect(page.locator('canvas').first()).toBeVisible();
+  });
+
+  test('rejects files that are not recordings', async ({ page }) => {
+    await page.goto('/');
+    await page.waitForLoadState('networkidle');
+
+    await page.getByTestId('session-file-input').setInputFiles({
+      name: 'notes.pvsession',
+      mimeType: 'application/octet-stream',
+      buffer: Buffer.from('definitely not a session'),
+    });
+
+    await expect(page.getByText(/Could not load recording/)).toBeVisible();
+  });
+});